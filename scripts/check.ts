@@ -0,0 +1,957 @@
+#!/usr/bin/env node
+/**
+ * Seeded Regression Checks
+ *
+ * Builds cities from fixed seeds and runs them headlessly, asserting on
+ * behaviour the pure simulation modules promise. Every check is
+ * deterministic, so a failure reproduces with the same seed.
+ *
+ * Usage:
+ *   npm test
+ *   npm test -- --only brush     Run only checks whose name contains "brush"
+ */
+
+import assert from 'assert';
+import { parseArgs } from 'util';
+import { borrow, bulldozeTile, createInitialGameState, getBuildingSize, getTreatmentCapacity, placeBuilding, placeWaterPipe, placeWaterTerraform, repayDebt, simulateTick } from '../src/lib/simulation';
+import { runHeadless } from '../src/lib/headless';
+import { SeededRng } from '../src/lib/rng';
+import { createHistoryEntry, getRefund, getRestoredTiles, HistoryEntry, restoreTiles } from '../src/lib/undo';
+import { getBrushTiles } from '../src/lib/brushes';
+import { mirrorBlueprint, rotateBlueprint } from '../src/lib/blueprints';
+import { generateElevation, getElevation, MAX_ELEVATION, MAX_TERRAIN_STEP, MIN_HILL_ELEVATION, SHORE_RISE } from '../src/lib/terrain';
+import { applyWaterFlow, computeFlowField, getWaterVolume } from '../src/lib/hydrology';
+import { ALGAE_NUTRIENT_THRESHOLD, applyPollutantEffects, emptyPollutants, getPollutants, POLLUTANT_CHANNELS, setPollutants } from '../src/lib/pollution';
+import { BLOOM_CLEAR_LOAD, BLOOM_START_LOAD, updateAlgaeBlooms } from '../src/lib/algaeBloom';
+import { createCarbonLedger, getCarbonBalance, MAX_CARBON_CAP } from '../src/lib/carbon';
+import { getBuildingPowerDemand, getPlantCapacity, getPlantOutput, getPowerPriority, getWindStrength, POWER_PLANT_CAPACITY } from '../src/lib/power';
+import { CONTAMINATED_WATER_THRESHOLD, getSourceOutput, getTreatedContamination, isContaminated } from '../src/lib/waterSupply';
+import { DEBT_TERMS, issueDebt, serviceDebts } from '../src/lib/finance';
+import { getJobTax, getPollutionSurchargeTax, MAX_POLLUTION_SURCHARGE } from '../src/lib/taxes';
+import { getUpkeepDepartment } from '../src/lib/ledger';
+import { getEmissionMultiplier, getPoliciesCost, getPolicyEffects, POLICIES, POLICY_IDS } from '../src/lib/policies';
+import { updateLandValues } from '../src/lib/landValue';
+import { getUnemployment, updateCrime } from '../src/lib/crime';
+import { getCommuteHappinessPenalty, getCongestion, getTrafficEmissionFactor, getTrafficSpeedFactor, updateTraffic } from '../src/lib/traffic';
+import { canDriveBetween, givesZoneAccess, ROAD_CLASSES } from '../src/lib/roads';
+import { getOverlayForTool } from '../src/components/game/overlays';
+import { Blueprint, BUILDING_STATS, BuildingType, GameState, PollutantLevels, ServiceCoverage, Tile } from '../src/types/game';
+
+const SEEDS = [1, 42, 1234, 99999, 2024061];
+// Small enough to keep the whole suite to a few seconds
+const GRID_SIZE = 50;
+
+const checks: { name: string; run: () => void }[] = [];
+
+function check(name: string, run: () => void): void {
+  checks.push({ name, run });
+}
+
+// ============================================================================
+// DETERMINISM
+// ============================================================================
+
+check('the same seed builds the same map', () => {
+  for (const seed of SEEDS) {
+    const a = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const b = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    assert.deepStrictEqual(a.grid, b.grid, `seed ${seed}: grids differ`);
+    assert.deepStrictEqual(a.waterBodies, b.waterBodies, `seed ${seed}: water bodies differ`);
+  }
+});
+
+check('the same seed runs the same headless series', () => {
+  const seed = SEEDS[1];
+  const a = runHeadless(createInitialGameState(GRID_SIZE, 'Check City', seed), { ticks: 120 });
+  const b = runHeadless(createInitialGameState(GRID_SIZE, 'Check City', seed), { ticks: 120 });
+  assert.deepStrictEqual(a.samples, b.samples);
+  assert.strictEqual(a.state.rngState, b.state.rngState);
+});
+
+// ============================================================================
+// HYDROLOGY
+// ============================================================================
+
+/** A flat square of grass with water wherever `isWater` says */
+function buildGrid(size: number, isWater: (x: number, y: number) => boolean): Tile[][] {
+  return Array.from({ length: size }, (_, y) => Array.from({ length: size }, (_, x): Tile => ({
+    x, y, zone: 'none', landValue: 50, pollution: 0, crime: 0, traffic: 0, hasSubway: false,
+    building: { type: isWater(x, y) ? 'water' : 'grass', level: 0, population: 0, jobs: 0, powered: false, watered: false, onFire: false, fireProgress: 0, age: 0, constructionProgress: 100, abandoned: false },
+  })));
+}
+
+/** Pollutant mass (concentration times volume) held by water tiles in a region */
+function getWaterMass(grid: Tile[][], inRegion: (x: number, y: number) => boolean): number {
+  let mass = 0;
+  for (const tile of grid.flat()) {
+    if (tile.building.type !== 'water' || !inRegion(tile.x, tile.y)) continue;
+    const levels = getPollutants(tile);
+    for (const channel of POLLUTANT_CHANNELS) mass += levels[channel] * getWaterVolume(tile);
+  }
+  return mass;
+}
+
+// A channel running off the west edge, and a pond with no outlet
+const HYDROLOGY_SIZE = 12;
+const inChannel = (x: number, y: number) => y === 3 && x <= 6;
+const inPond = (x: number, y: number) => x >= 8 && x <= 9 && y >= 8 && y <= 9;
+
+check('water drains to the map edge while an enclosed pond stays still', () => {
+  const grid = buildGrid(HYDROLOGY_SIZE, (x, y) => inChannel(x, y) || inPond(x, y));
+  const flow = computeFlowField(grid, HYDROLOGY_SIZE);
+  assert.strictEqual(flow.sink[3 * HYDROLOGY_SIZE], 1, 'the channel mouth is not a sink');
+  for (let x = 1; x <= 6; x++) assert.strictEqual(flow.downstream[3 * HYDROLOGY_SIZE + x], 3 * HYDROLOGY_SIZE + x - 1, `channel at ${x},3 does not flow west`);
+  for (const t of grid.flat().filter(t => inPond(t.x, t.y))) {
+    const idx = t.y * HYDROLOGY_SIZE + t.x;
+    assert.strictEqual(flow.downstream[idx], -1, `pond flows at ${t.x},${t.y}`);
+    assert.strictEqual(flow.sink[idx], 0, `pond drains at ${t.x},${t.y}`);
+  }
+});
+
+check('currents carry pollution downstream without creating any', () => {
+  const grid = buildGrid(HYDROLOGY_SIZE, (x, y) => inChannel(x, y) || inPond(x, y));
+  const flow = computeFlowField(grid, HYDROLOGY_SIZE);
+  setPollutants(grid[3][6], { ...emptyPollutants(), toxic: 40 });
+  setPollutants(grid[8][8], { ...emptyPollutants(), nutrient: 40 });
+  const pondMass = getWaterMass(grid, inPond);
+  let channelMass = getWaterMass(grid, inChannel);
+
+  for (let tick = 0; tick < 20; tick++) {
+    applyWaterFlow(grid, HYDROLOGY_SIZE, flow, (x, y) => grid[y][x]);
+    const mass = getWaterMass(grid, inChannel);
+    assert.ok(mass <= channelMass + 1e-6, `tick ${tick}: channel gained pollution`);
+    channelMass = mass;
+    assert.ok(Math.abs(getWaterMass(grid, inPond) - pondMass) < 1e-3, `tick ${tick}: pond mass changed with nowhere to go`);
+  }
+  assert.ok(grid[3][0].pollution > 0, 'pollution never reached the mouth');
+  assert.ok(grid[8][9].pollution > 0 && grid[9][9].pollution > 0, 'pollution never spread through the pond');
+});
+
+// ============================================================================
+// POLLUTANT CHANNELS
+// ============================================================================
+
+/** Run `ticks` of decay and effects on one tile, storing the levels back as the simulation does */
+function agePollutants(tile: Tile, onWater: boolean, ticks: number): void {
+  for (let tick = 0; tick < ticks; tick++) {
+    const levels = { ...getPollutants(tile) };
+    applyPollutantEffects(tile, levels, onWater);
+    setPollutants(tile, levels);
+  }
+}
+
+check('heat fades first, toxins linger and channels never mix', () => {
+  for (const onWater of [false, true]) {
+    const [tile] = buildGrid(1, () => onWater)[0];
+    setPollutants(tile, { toxic: 20, thermal: 20, nutrient: 20 });
+    agePollutants(tile, onWater, 30);
+    const { toxic, thermal, nutrient } = getPollutants(tile);
+    assert.ok(thermal < nutrient && nutrient < toxic, `${onWater ? 'water' : 'land'}: toxic ${toxic}, nutrient ${nutrient}, thermal ${thermal}`);
+
+    const [hot] = buildGrid(1, () => onWater)[0];
+    setPollutants(hot, { ...emptyPollutants(), thermal: 40 });
+    agePollutants(hot, onWater, 30);
+    assert.deepStrictEqual({ ...getPollutants(hot), thermal: 0 }, emptyPollutants(), 'heat turned into another pollutant');
+  }
+});
+
+check('toxins build up in the food chain and outlast the spill', () => {
+  const [tile] = buildGrid(1, () => true)[0];
+  setPollutants(tile, { ...emptyPollutants(), toxic: 50 });
+  agePollutants(tile, true, 100);
+  const burden = tile.toxicBurden ?? 0;
+  assert.ok(burden > 0, 'no toxins absorbed');
+  setPollutants(tile, emptyPollutants());
+  agePollutants(tile, true, 100);
+  assert.ok((tile.toxicBurden ?? 0) > burden / 2, `burden fell from ${burden} to ${tile.toxicBurden} once the water was clean`);
+});
+
+check('nutrients above the threshold grow algae on water only', () => {
+  const cases = [
+    { onWater: true, nutrient: ALGAE_NUTRIENT_THRESHOLD + 15, grows: true },
+    { onWater: true, nutrient: ALGAE_NUTRIENT_THRESHOLD - 5, grows: false },
+    { onWater: false, nutrient: ALGAE_NUTRIENT_THRESHOLD + 15, grows: false },
+  ];
+  for (const { onWater, nutrient, grows } of cases) {
+    const [tile] = buildGrid(1, () => onWater)[0];
+    setPollutants(tile, { ...emptyPollutants(), nutrient });
+    agePollutants(tile, onWater, 10);
+    assert.strictEqual((tile.algae ?? 0) > 0, grows, `${onWater ? 'water' : 'land'} at nutrient ${nutrient}`);
+  }
+});
+
+// ============================================================================
+// ALGAE BLOOMS
+// ============================================================================
+
+check('a bloom kills the catch until the nutrient load falls below the clearing level', () => {
+  // A 3x3 pond with a fishing pier on its east shore
+  const grid = buildGrid(6, (x, y) => x >= 1 && x <= 3 && y >= 1 && y <= 3);
+  grid[2][4].building = { ...grid[2][4].building, type: 'pier_large' };
+  const pond = grid.flat().filter(t => t.building.type === 'water');
+  const update = (nutrient: number) => {
+    for (const tile of pond) setPollutants(tile, { ...emptyPollutants(), nutrient });
+    return updateAlgaeBlooms(grid, 6, (x, y) => grid[y][x]);
+  };
+  const { maxJobs } = BUILDING_STATS.pier_large;
+
+  assert.strictEqual(update(BLOOM_START_LOAD - 1).activeBlooms, 0, 'bloomed below the start load');
+  assert.strictEqual(grid[2][4].building.jobs, maxJobs);
+
+  const started = update(BLOOM_START_LOAD + 5);
+  assert.strictEqual(started.started.length, 1);
+  assert.strictEqual(started.fishKills, 1);
+  assert.ok(pond.every(t => t.algaeBloom), 'the whole pond should bloom');
+  assert.strictEqual(grid[2][4].building.jobs, 0, 'the pier still fishes a blooming pond');
+
+  // Between the two loads a bloom neither starts nor clears
+  const lingering = update((BLOOM_START_LOAD + BLOOM_CLEAR_LOAD) / 2);
+  assert.strictEqual(lingering.activeBlooms, 1, 'the bloom cleared above the clearing load');
+  assert.strictEqual(lingering.cleared.length, 0);
+
+  const cleared = update(BLOOM_CLEAR_LOAD - 1);
+  assert.strictEqual(cleared.cleared.length, 1);
+  assert.ok(pond.every(t => !t.algaeBloom), 'bloom flags left behind');
+  assert.strictEqual(grid[2][4].building.jobs, maxJobs, 'the catch never came back');
+});
+
+// ============================================================================
+// WATER TREATMENT
+// ============================================================================
+
+check('treatment capacity grows with level and scales with funding', () => {
+  assert.ok(getTreatmentCapacity(2, 100) > getTreatmentCapacity(1, 100), 'upgrading added no capacity');
+  assert.strictEqual(getTreatmentCapacity(1, 50), getTreatmentCapacity(1, 100) / 2);
+  assert.strictEqual(getTreatmentCapacity(3, 0), 0, 'an unfunded plant still treats water');
+});
+
+/** The first tile with nothing but grass for `radius` tiles all around it */
+function findOpenGround(grid: Tile[][], radius: number): Tile | undefined {
+  const size = grid.length;
+  return grid.flat().find(t => t.x >= radius && t.y >= radius && t.x < size - radius && t.y < size - radius &&
+    grid.slice(t.y - radius, t.y + radius + 1).every(row => row.slice(t.x - radius, t.x + radius + 1).every(n => n.building.type === 'grass')));
+}
+
+check('a funded treatment plant cleans the pollution around it', () => {
+  const RADIUS = 3;
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const site = findOpenGround(state.grid, RADIUS);
+    assert.ok(site, `seed ${seed}: no open ground for a plant`);
+    const near = (t: Tile) => Math.abs(t.x - site.x) <= RADIUS && Math.abs(t.y - site.y) <= RADIUS;
+    const getNearbyPollution = (grid: Tile[][]) => grid.flat().filter(near).reduce((sum, t) => sum + t.pollution, 0);
+
+    const grid = state.grid.map(row => row.map(t => {
+      if (!near(t)) return t;
+      const tile = { ...t };
+      setPollutants(tile, { ...emptyPollutants(), toxic: 40 });
+      return tile;
+    }));
+    const polluted = { ...state, grid };
+    const placed = placeBuilding(polluted, site.x, site.y, 'water_tower', null);
+    placed.grid[site.y][site.x].building.constructionProgress = 100;
+    const unfunded = { ...placed, budget: { ...placed.budget, water: { ...placed.budget.water, funding: 0 } } };
+
+    const untreated = getNearbyPollution(simulateTick(polluted).grid);
+    const treated = getNearbyPollution(simulateTick(placed).grid);
+    // This much pollution overloads the plant, so it removes about its capacity
+    const removed = untreated - treated;
+    assert.ok(removed > getTreatmentCapacity(1, 100) / 2, `seed ${seed}: the plant removed only ${removed}`);
+    assert.ok(getNearbyPollution(simulateTick(unfunded).grid) > treated, `seed ${seed}: an unfunded plant cleaned as well as a funded one`);
+  }
+});
+
+// ============================================================================
+// OVERLAYS
+// ============================================================================
+
+check('picking the Inspector shows the pollution overlay', () => {
+  assert.strictEqual(getOverlayForTool('select'), 'pollution');
+});
+
+// ============================================================================
+// CARBON
+// ============================================================================
+
+check('an untouched city earns no carbon credits, whatever the cap', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    // A full year on the ledger at exactly what the map's forests absorb
+    const baseline = state.carbon.baseline ?? 0;
+    const carbon = { ...createCarbonLedger(MAX_CARBON_CAP, baseline), months: Array(12).fill(baseline * 30) };
+    assert.ok(getCarbonBalance(carbon) <= 0, `seed ${seed}: paid ${getCarbonBalance(carbon)} for doing nothing`);
+    const next = simulateTick({ ...state, carbon });
+    assert.strictEqual(next.ledger.income.carbonCredits, 0, `seed ${seed}: credits booked for doing nothing`);
+  }
+});
+
+check('carbon over the cap is taxed and carbon absorbed beyond the baseline is credited', () => {
+  const empty = createCarbonLedger(1200, -1);
+  assert.strictEqual(getCarbonBalance(empty), 0);
+  // 2400t in a year is 1200t over the cap: 100 a month
+  assert.strictEqual(getCarbonBalance({ ...empty, months: Array(12).fill(200) }), -100);
+  // 3t a day absorbed against a 1t baseline is 60t a month beyond it: 60 a month
+  assert.strictEqual(getCarbonBalance({ ...empty, months: Array(12).fill(-90) }), 60);
+  // Raising the cap never turns emissions into income
+  assert.strictEqual(getCarbonBalance({ ...empty, cap: MAX_CARBON_CAP, months: Array(12).fill(200) }), 0);
+});
+
+// ============================================================================
+// CLEAN POWER
+// ============================================================================
+
+check('solar follows the sun, hydro needs water and coal ignores both', () => {
+  const night = { hour: 0, wind: 0.5 };
+  const noon = { hour: 12, wind: 0.5 };
+  assert.strictEqual(getPlantOutput('solar_farm', 1, night, 0), 0, 'solar works at night');
+  assert.strictEqual(getPlantOutput('solar_farm', 1, noon, 0), getPlantCapacity('solar_farm', 1));
+  assert.strictEqual(getPlantOutput('hydro_dam', 1, noon, 0), 0, 'a dam with no water makes power');
+  assert.strictEqual(getPlantOutput('hydro_dam', 2, noon, 4), getPlantCapacity('hydro_dam', 2));
+  assert.strictEqual(getPlantOutput('power_plant', 1, night, 0), POWER_PLANT_CAPACITY.power_plant);
+});
+
+check('wind changes over a month but is the same for the same seed', () => {
+  for (const seed of SEEDS) {
+    const month = Array.from({ length: 120 }, (_, i) => getWindStrength(seed, i / 4));
+    assert.deepStrictEqual(month, Array.from({ length: 120 }, (_, i) => getWindStrength(seed, i / 4)), `seed ${seed}: wind is not deterministic`);
+    assert.ok(month.every(w => w > 0 && w <= 1), `seed ${seed}: wind out of range`);
+    assert.ok(Math.max(...month) - Math.min(...month) > 0.2, `seed ${seed}: the wind never changes`);
+    const coastal = getPlantOutput('wind_turbine', 1, { hour: 12, wind: month[0] }, 2);
+    assert.ok(coastal >= getPlantOutput('wind_turbine', 1, { hour: 12, wind: month[0] }, 0), `seed ${seed}: the coast weakened the turbine`);
+  }
+});
+
+// ============================================================================
+// POWER GRID
+// ============================================================================
+
+check('a brownout sheds only enough load, and shops before the police', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const site = findOpenGround(state.grid, 2);
+    assert.ok(site, `seed ${seed}: no open ground for a plant`);
+    const grid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
+    const build = (dx: number, dy: number, type: BuildingType, zone: Tile['zone'], jobs: number) => {
+      const tile = grid[site.y + dy][site.x + dx];
+      tile.zone = zone;
+      tile.building = { ...tile.building, type, level: 1, jobs };
+    };
+    // Three busy shops and a police station on one coal plant: a shop too many
+    build(0, 0, 'power_plant', 'none', 0);
+    build(-2, -2, 'police_station', 'none', 10);
+    build(2, -2, 'shop_small', 'commercial', 2000);
+    build(-2, 2, 'shop_small', 'commercial', 2000);
+    build(2, 2, 'shop_small', 'commercial', 2000);
+    const demand = [[-2, -2], [2, -2], [-2, 2], [2, 2]].reduce((sum, [dx, dy]) => sum + getBuildingPowerDemand(grid[site.y + dy][site.x + dx].building), 0);
+    assert.ok(demand > POWER_PLANT_CAPACITY.power_plant, `seed ${seed}: ${demand} MW fits the plant`);
+
+    const next = simulateTick({ ...state, grid });
+    const at = (dx: number, dy: number) => next.grid[site.y + dy][site.x + dx].building;
+    assert.ok(at(-2, -2).powered && !at(-2, -2).brownout, `seed ${seed}: the police station went dark`);
+    const shops = [at(2, -2), at(-2, 2), at(2, 2)];
+    assert.strictEqual(shops.filter(b => b.brownout).length, 1, `seed ${seed}: expected exactly one shop shed`);
+    assert.ok(shops.every(b => b.powered === !b.brownout), `seed ${seed}: a shed shop still has power`);
+  }
+});
+
+check('busier buildings draw more power and critical services keep it longest', () => {
+  const [[tile]] = buildGrid(1, () => false);
+  const home = { ...tile.building, type: 'house_small' as const, level: 1 };
+  assert.ok(getBuildingPowerDemand({ ...home, population: 20 }) > getBuildingPowerDemand(home));
+  assert.ok(getBuildingPowerDemand({ ...home, level: 3 }) > getBuildingPowerDemand(home));
+  const priorities = (['hospital', 'school', 'house_small', 'shop_small'] as const).map(type => getPowerPriority({ ...home, type }, type === 'house_small' ? 'residential' : 'none'));
+  assert.deepStrictEqual([...priorities].sort((a, b) => b - a), priorities, `priorities ${priorities} out of order`);
+  assert.ok(new Set(priorities).size === priorities.length, 'two tiers share a priority');
+});
+
+// ============================================================================
+// WATER SUPPLY
+// ============================================================================
+
+check('only buildings along a pipe from a source get water', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const site = findOpenGround(state.grid, 3);
+    assert.ok(site, `seed ${seed}: no open ground for a network`);
+    const grid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
+    const tile = (dx: number, dy: number) => grid[site.y + dy][site.x + dx];
+    // A treatment plant's wells feed a pipe running east; one house beside it, one a street away
+    tile(-3, 0).building = { ...tile(-3, 0).building, type: 'water_tower', level: 1 };
+    for (let dx = -3; dx <= 3; dx++) tile(dx, 0).hasWaterPipe = true;
+    for (const [dx, dy] of [[2, 1], [2, -3]]) {
+      tile(dx, dy).zone = 'residential';
+      tile(dx, dy).building = { ...tile(dx, dy).building, type: 'house_small', level: 1, population: 4 };
+    }
+
+    const next = simulateTick({ ...state, grid });
+    assert.ok(next.grid[site.y + 1][site.x + 2].building.watered, `seed ${seed}: the house on the pipe is dry`);
+    assert.ok(!next.grid[site.y - 3][site.x + 2].building.watered, `seed ${seed}: the house off the pipe has water`);
+  }
+});
+
+check('pumps need open water and treatment filters what they draw', () => {
+  assert.strictEqual(getSourceOutput('water_pump', 1, 0), 0, 'a pump with no water to draw pumps anyway');
+  assert.ok(getSourceOutput('water_pump', 1, 2) > getSourceOutput('water_pump', 1, 1));
+  assert.ok(getSourceOutput('water_pump', 2, 4) > getSourceOutput('water_pump', 1, 4), 'upgrading added no supply');
+  const intake = CONTAMINATED_WATER_THRESHOLD * 2;
+  assert.ok(isContaminated(getTreatedContamination(intake, 0, 100)));
+  assert.ok(getTreatedContamination(intake, 2, 100) < getTreatedContamination(intake, 1, 100), 'a second plant filtered nothing');
+  assert.strictEqual(getTreatedContamination(intake, 3, 0), intake, 'unfunded plants still filter');
+});
+
+// ============================================================================
+// FINANCE
+// ============================================================================
+
+check('loans and bonds are paid off by the end of their term', () => {
+  for (const kind of ['loan', 'bond'] as const) {
+    let debts = [issueDebt('check', kind, 50000, 'A')];
+    let paid = 0;
+    for (let week = 0; week < DEBT_TERMS[kind].weeks; week++) {
+      const service = serviceDebts(debts, 100000);
+      debts = service.debts;
+      paid += service.paid;
+      assert.strictEqual(service.penalties, 0, `${kind}: late fee while in the black`);
+    }
+    assert.strictEqual(debts.length, 0, `${kind}: still owed after its term`);
+    assert.ok(paid > 50000, `${kind}: paid ${paid}, less than the principal plus interest`);
+  }
+});
+
+check('a co-op peer books a loan under the same id and can repay it', () => {
+  const state = createInitialGameState(GRID_SIZE, 'Check City', SEEDS[0]);
+  const borrowed = borrow(state, 'loan', 10000);
+  assert.ok(borrowed, 'lenders refused a new city');
+  const id = borrowed.debts[borrowed.debts.length - 1].id;
+  // The peer's clock has drifted a few days
+  const peer = borrow({ ...state, day: state.day + 3 }, 'loan', 10000, id);
+  assert.ok(peer, 'peer refused the loan');
+  assert.deepStrictEqual(peer.debts.map(d => d.id), [id]);
+  assert.ok(repayDebt(peer, id), 'peer could not repay the loan by its id');
+  assert.strictEqual(borrow(peer, 'loan', 10000, id), null, 'the same loan was booked twice');
+});
+
+// ============================================================================
+// TAXES
+// ============================================================================
+
+check('raising one zone\'s rate cools only that zone, and gradually', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const taxRates = { ...state.taxRates, industrial: 40 };
+    const baseline = simulateTick(state);
+    const raised = simulateTick({ ...state, taxRates });
+    assert.ok(raised.effectiveTaxRates.industrial > state.effectiveTaxRates.industrial && raised.effectiveTaxRates.industrial < 40, `seed ${seed}: the rate jumped straight to ${raised.effectiveTaxRates.industrial}`);
+
+    const settled = simulateTick({ ...state, taxRates, effectiveTaxRates: taxRates });
+    assert.ok(settled.stats.demand.industrial < baseline.stats.demand.industrial, `seed ${seed}: industry ignored its rate`);
+    assert.strictEqual(settled.stats.demand.residential, baseline.stats.demand.residential, `seed ${seed}: residential demand moved`);
+    assert.strictEqual(settled.stats.demand.commercial, baseline.stats.demand.commercial, `seed ${seed}: commercial demand moved`);
+  }
+});
+
+check('jobs pay their zone\'s rate and only industry pays the pollution surcharge', () => {
+  const rates = { residential: 5, commercial: 10, industrial: 20 };
+  assert.strictEqual(getJobTax('industrial', 100, rates), 2 * getJobTax('commercial', 100, rates));
+  // Services and landmarks pay the commercial rate
+  assert.strictEqual(getJobTax('none', 100, rates), getJobTax('commercial', 100, rates));
+  const [[tile]] = buildGrid(1, () => false);
+  const factory = { ...tile.building, type: 'factory_large' as const, level: 1 };
+  assert.ok(getPollutionSurchargeTax(factory, 'industrial', 100, MAX_POLLUTION_SURCHARGE) > 0, 'a dirty factory pays no surcharge');
+  assert.strictEqual(getPollutionSurchargeTax(factory, 'commercial', 100, MAX_POLLUTION_SURCHARGE), 0);
+  const greenhouse = { ...factory, type: 'greenhouse_garden' as const };
+  assert.ok(getPollutionSurchargeTax(greenhouse, 'industrial', 100, MAX_POLLUTION_SURCHARGE) < getPollutionSurchargeTax(factory, 'industrial', 100, MAX_POLLUTION_SURCHARGE), 'a greenhouse pays as much as heavy industry');
+});
+
+// ============================================================================
+// UPKEEP LEDGER
+// ============================================================================
+
+check('every building with upkeep is billed to a department, and only those', () => {
+  for (const [type, stats] of Object.entries(BUILDING_STATS)) {
+    const department = getUpkeepDepartment(type as BuildingType);
+    if (stats.upkeep > 0) assert.ok(department, `${type} lists upkeep ${stats.upkeep} that is never billed`);
+    else assert.strictEqual(department, null, `${type} is billed to ${department} with no upkeep`);
+  }
+});
+
+// ============================================================================
+// POLICIES
+// ============================================================================
+
+check('enacted policies are billed monthly and shift demand', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const baseline = simulateTick(state);
+    const enacted = simulateTick({ ...state, policies: POLICY_IDS });
+    assert.strictEqual(baseline.ledger.expenses.policies, 0, `seed ${seed}: billed for no policies`);
+    assert.strictEqual(enacted.ledger.expenses.policies, getPoliciesCost(POLICY_IDS, enacted.stats.population), `seed ${seed}: policies billed wrong`);
+    assert.ok(enacted.ledger.expenses.policies > 0);
+    // Wastewater filtering and fertilizer limits both cost industry some demand
+    assert.ok(enacted.stats.demand.industrial < baseline.stats.demand.industrial, `seed ${seed}: industry shrugged off its ordinances`);
+  }
+});
+
+check('each emissions ordinance only cuts what it targets, and they stack', () => {
+  const factory = 'factory_large';
+  const filtering = getPolicyEffects(['wastewater_filtering']);
+  assert.strictEqual(getEmissionMultiplier(filtering, factory, 'industrial', 'toxic'), POLICIES.wastewater_filtering.effects.industrialEmissions);
+  assert.strictEqual(getEmissionMultiplier(filtering, factory, 'industrial', 'thermal'), 1, 'filtering cooled the factory');
+  assert.strictEqual(getEmissionMultiplier(filtering, 'shop_small', 'commercial', 'toxic'), 1, 'filtering cleaned a shop');
+  const both = getPolicyEffects(['wastewater_filtering', 'recycling_program']);
+  assert.ok(getEmissionMultiplier(both, factory, 'industrial', 'toxic') < getEmissionMultiplier(filtering, factory, 'industrial', 'toxic'), 'recycling added nothing on top');
+});
+
+// ============================================================================
+// LAND VALUE
+// ============================================================================
+
+/** Police, fire, health and education coverage at the same level everywhere, with no utilities */
+function createCoverage(size: number, level: number): ServiceCoverage {
+  const fill = <T>(value: T) => Array.from({ length: size }, () => Array<T>(size).fill(value));
+  return { police: fill(level), fire: fill(level), health: fill(level), education: fill(level), power: fill(false), water: fill(false), treatment: fill(0), waterContamination: fill(0) };
+}
+
+check('land value rises by parks and falls by pollution and heavy industry', () => {
+  const size = 20;
+  const grid = buildGrid(size, () => false);
+  const pollute = (cx: number, cy: number, levels: PollutantLevels) => {
+    for (let y = cy - 1; y <= cy + 1; y++) for (let x = cx - 1; x <= cx + 1; x++) setPollutants(grid[y][x], levels);
+  };
+  grid[10][3].building = { ...grid[10][3].building, type: 'park' };
+  grid[10][16].building = { ...grid[10][16].building, type: 'factory_large' };
+  pollute(10, 3, { ...emptyPollutants(), toxic: 40 });
+  pollute(10, 16, { ...emptyPollutants(), thermal: 40 });
+  const services = createCoverage(size, 0);
+  for (let tick = 0; tick < 60; tick++) updateLandValues(grid, size, services, (x, y) => grid[y][x]);
+
+  const plain = grid[1][1].landValue;
+  assert.ok(grid[10][4].landValue > plain, `by the park ${grid[10][4].landValue}, open ground ${plain}`);
+  assert.ok(grid[10][14].landValue < plain, `by the factory ${grid[10][14].landValue}, open ground ${plain}`);
+  assert.ok(grid[3][10].landValue < grid[16][10].landValue, `toxins (${grid[3][10].landValue}) should scare buyers more than heat (${grid[16][10].landValue})`);
+
+  // Full coverage adds value to the same open ground
+  updateLandValues(grid, size, createCoverage(size, 100), (x, y) => grid[y][x]);
+  assert.ok(grid[1][1].landValue > plain, 'services added no value');
+});
+
+// ============================================================================
+// CRIME
+// ============================================================================
+
+/** Crime a lone building settles at after a season of ticks */
+function settleCrime(building: Partial<Tile['building']>, police: number, unemployment: number): number {
+  const grid = buildGrid(1, () => false);
+  grid[0][0].building = { ...grid[0][0].building, type: 'house_medium', level: 2, population: 100, ...building };
+  const services = createCoverage(1, police);
+  for (let tick = 0; tick < 300; tick++) updateCrime(grid, 1, services, unemployment, (x, y) => grid[y][x]);
+  return grid[0][0].crime;
+}
+
+check('police and jobs hold crime down, empty lots have none and abandonment draws it', () => {
+  const unpoliced = settleCrime({}, 0, getUnemployment(100, 80));
+  assert.ok(settleCrime({}, 100, getUnemployment(100, 80)) < unpoliced, 'police coverage did nothing');
+  assert.ok(settleCrime({}, 0, getUnemployment(100, 100)) < unpoliced, 'full employment did nothing');
+  assert.ok(settleCrime({ population: 400 }, 0, getUnemployment(100, 80)) > unpoliced, 'crowding did nothing');
+  assert.ok(settleCrime({ abandoned: true }, 0, 0) > settleCrime({}, 0, 0), 'abandoned buildings are as safe as homes');
+  assert.strictEqual(settleCrime({ type: 'grass', population: 0 }, 0, 1), 0, 'crime on an empty lot');
+});
+
+check('crime drifts toward its level instead of jumping', () => {
+  const grid = buildGrid(1, () => false);
+  grid[0][0].building = { ...grid[0][0].building, type: 'house_medium', level: 2, population: 400, abandoned: true };
+  updateCrime(grid, 1, createCoverage(1, 0), 1, (x, y) => grid[y][x]);
+  assert.ok(grid[0][0].crime > 0 && grid[0][0].crime < settleCrime({ population: 400, abandoned: true }, 0, 1), `jumped to ${grid[0][0].crime} in one tick`);
+});
+
+// ============================================================================
+// TRAFFIC
+// ============================================================================
+
+/** A town on one road along row 5: homes and workplaces front onto it from row 4 */
+function buildRoadTown(road: Partial<Tile['building']>, buildings: { x: number; type: BuildingType; population?: number; jobs?: number }[]): Tile[][] {
+  const grid = buildGrid(20, () => false);
+  for (const tile of grid[5]) tile.building = { ...tile.building, type: 'road', ...road };
+  for (const { x, type, population = 0, jobs = 0 } of buildings) {
+    grid[4][x].building = { ...grid[4][x].building, type, level: 1, population, jobs };
+  }
+  updateTraffic(grid, 20, 1, getBuildingSize, (x, y) => grid[y][x]);
+  return grid;
+}
+
+// A home and a workplace twelve tiles apart, too far to walk
+const COMMUTER_TOWN = [{ x: 2, type: 'house_medium' as const, population: 200 }, { x: 14, type: 'shop_medium' as const, jobs: 200 }];
+
+check('drivers load only the road between home and work, and jams slow them down', () => {
+  const grid = buildRoadTown({}, COMMUTER_TOWN);
+  for (let x = 2; x <= 14; x++) assert.ok(grid[5][x].traffic > 0, `no cars at ${x},5 on the way to work`);
+  for (const x of [0, 1, 15, 19]) assert.strictEqual(grid[5][x].traffic, 0, `cars at ${x},5 off the route`);
+
+  const road = grid[5][8];
+  const jammed = { ...road, traffic: ROAD_CLASSES.street.capacity };
+  assert.strictEqual(getCongestion(jammed), 1);
+  assert.ok(getTrafficSpeedFactor(jammed) < getTrafficSpeedFactor({ ...road, traffic: 0 }), 'a jam did not slow anyone');
+  assert.ok(getTrafficEmissionFactor(jammed) > getTrafficEmissionFactor(road), 'a jam emitted no more than light traffic');
+});
+
+check('jammed roads put people off living and working in the city', () => {
+  for (const seed of SEEDS) {
+    const state = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const site = findOpenGround(state.grid, 2);
+    assert.ok(site, `seed ${seed}: no open ground for a road`);
+    const withRoad = (traffic: number) => {
+      const grid = state.grid.map(row => row.slice());
+      for (let dx = -2; dx <= 2; dx++) {
+        const tile = grid[site.y][site.x + dx];
+        grid[site.y][site.x + dx] = { ...tile, traffic, building: { ...tile.building, type: 'road' } };
+      }
+      // Past the start of the day, so the commute isn't re-routed over the jam
+      return simulateTick({ ...state, grid, tick: 1 });
+    };
+    const flowing = withRoad(ROAD_CLASSES.street.capacity / 10);
+    const jammed = withRoad(ROAD_CLASSES.street.capacity);
+    assert.strictEqual(jammed.stats.congestion, 100, `seed ${seed}: congestion ${jammed.stats.congestion}`);
+    for (const zone of ['residential', 'commercial', 'industrial'] as const) {
+      assert.ok(jammed.stats.demand[zone] < flowing.stats.demand[zone], `seed ${seed}: ${zone} demand ignored the jam`);
+    }
+  }
+});
+
+// ============================================================================
+// ROAD CLASSES
+// ============================================================================
+
+check('a one-way road blocks driving against its flow', () => {
+  const [street] = buildGrid(1, () => false)[0].map(t => ({ ...t, building: { ...t.building, type: 'road' as const } }));
+  const oneWay = { ...street, building: { ...street.building, roadClass: 'one_way' as const, roadDirection: 'south' as const } };
+  assert.ok(canDriveBetween(street, oneWay, 'south'));
+  assert.ok(!canDriveBetween(street, oneWay, 'north'), 'drove onto a one-way road against its flow');
+  assert.ok(!canDriveBetween(oneWay, street, 'north'), 'drove off a one-way road against its flow');
+  assert.ok(canDriveBetween(oneWay, street, 'east'), 'could not turn off a one-way road');
+
+  // Work lies south (+x) of home: commuters get there only if the road flows that way
+  const withFlow = buildRoadTown({ roadClass: 'one_way', roadDirection: 'south' }, COMMUTER_TOWN);
+  assert.ok(withFlow[4][2].commute, 'no way to work with the flow');
+  const againstFlow = buildRoadTown({ roadClass: 'one_way', roadDirection: 'north' }, COMMUTER_TOWN);
+  assert.strictEqual(againstFlow[4][2].commute, undefined, 'drove to work against the flow');
+  assert.ok(againstFlow[5].every(t => t.traffic === 0), 'cars on a road flowing away from work');
+});
+
+check('faster roads shorten commutes, and highways give no access', () => {
+  const street = buildRoadTown({}, COMMUTER_TOWN)[4][2].commute;
+  const avenue = buildRoadTown({ roadClass: 'avenue' }, COMMUTER_TOWN)[4][2].commute;
+  assert.ok(street && avenue, 'no commute on a two-way road');
+  assert.ok(avenue.minutes < street.minutes, `avenue ${avenue.minutes} min, street ${street.minutes} min`);
+  assert.ok(ROAD_CLASSES.highway.capacity > ROAD_CLASSES.avenue.capacity && ROAD_CLASSES.avenue.capacity > ROAD_CLASSES.street.capacity);
+
+  const highway = buildRoadTown({ roadClass: 'highway' }, COMMUTER_TOWN);
+  assert.ok(!givesZoneAccess(highway[5][2]));
+  assert.strictEqual(highway[4][2].commute, undefined, 'a house took access from a highway');
+});
+
+// ============================================================================
+// COMMUTES
+// ============================================================================
+
+check('commuters walk to the nearest jobs, ride between stations and drive the rest', () => {
+  const walkable = buildRoadTown({}, [...COMMUTER_TOWN, { x: 4, type: 'shop_small', jobs: 20 }])[4][2].commute;
+  assert.ok(walkable, 'nobody went to work');
+  // Half the 200 residents commute; the 20 jobs next door fill first
+  assert.deepStrictEqual(walkable.trips, { walk: 20, car: 80, subway: 0, rail: 0 });
+
+  const stations = [{ x: 3, type: 'subway_station' as const }, { x: 13, type: 'subway_station' as const }];
+  const transit = buildRoadTown({}, [...COMMUTER_TOWN, ...stations])[4][2].commute;
+  assert.ok(transit && transit.trips.subway > 0 && transit.trips.car > 0, `no subway riders: ${JSON.stringify(transit?.trips)}`);
+  assert.strictEqual(transit.trips.subway + transit.trips.car, 100);
+
+  const lone = buildRoadTown({}, [...COMMUTER_TOWN, stations[0]])[4][2].commute;
+  assert.strictEqual(lone?.trips.subway, 0, 'rode a line with only one station');
+});
+
+check('homes with no jobs in reach stay home and long commutes cost happiness', () => {
+  const jobless = buildRoadTown({}, [COMMUTER_TOWN[0]]);
+  assert.strictEqual(jobless[4][2].commute, undefined);
+  assert.ok(jobless[5].every(t => t.traffic === 0), 'cars on the road with nowhere to go');
+
+  const penalties = [0, 10, 20, 30, 45, 60, 120].map(getCommuteHappinessPenalty);
+  assert.strictEqual(penalties[0], 0);
+  for (let i = 1; i < penalties.length; i++) assert.ok(penalties[i] >= penalties[i - 1], `a longer commute hurt less: ${penalties}`);
+  assert.ok(penalties[penalties.length - 1] > penalties[3], 'an hour each way felt like half an hour');
+});
+
+// ============================================================================
+// UNDO
+// ============================================================================
+
+/** The game bills each placement after the simulation makes it */
+function charge(state: GameState, cost: number): GameState {
+  return { ...state, stats: { ...state.stats, money: state.stats.money - cost } };
+}
+
+check('undoing every action and redoing it restores the same grid and money', () => {
+  for (const seed of SEEDS) {
+    const start = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const site = findOpenGround(start.grid, 2);
+    assert.ok(site, `seed ${seed}: no open ground to build on`);
+    const actions: ((state: GameState) => GameState)[] = [
+      state => charge(placeBuilding(state, site.x, site.y, 'police_station', null), 500),
+      state => charge(placeBuilding(state, site.x + 1, site.y, 'road', null, 'avenue'), 50),
+      state => charge(placeBuilding(state, site.x - 1, site.y + 1, null, 'residential'), 50),
+      state => charge(placeWaterPipe(state, site.x, site.y - 1), 25),
+      state => charge(placeWaterTerraform(state, site.x + 1, site.y + 1), 100),
+      state => bulldozeTile(state, site.x, site.y),
+    ];
+    const history: HistoryEntry[] = [];
+    let state = start;
+    for (const act of actions) {
+      const next = act(state);
+      const entry = createHistoryEntry(state, next, null);
+      assert.ok(entry, `seed ${seed}: an action changed nothing`);
+      history.push(entry);
+      state = next;
+    }
+    const end = state;
+
+    for (const entry of [...history].reverse()) state = restoreTiles(state, getRestoredTiles(entry, 'undo'), getRefund(entry, 'undo'));
+    assert.deepStrictEqual(state.grid, start.grid, `seed ${seed}: undo left the grid changed`);
+    assert.strictEqual(state.stats.money, start.stats.money, `seed ${seed}: undo did not refund everything`);
+
+    for (const entry of history) state = restoreTiles(state, getRestoredTiles(entry, 'redo'), getRefund(entry, 'redo'));
+    assert.deepStrictEqual(state.grid, end.grid, `seed ${seed}: redo built something else`);
+    assert.strictEqual(state.stats.money, end.stats.money, `seed ${seed}: redo charged a different amount`);
+  }
+});
+
+check('redo is refused when the city can no longer afford it', () => {
+  const start = createInitialGameState(GRID_SIZE, 'Check City', SEEDS[0]);
+  const site = findOpenGround(start.grid, 1);
+  assert.ok(site, 'no open ground to build on');
+  const built = charge(placeBuilding(start, site.x, site.y, 'police_station', null), 500);
+  const entry = createHistoryEntry(start, built, null);
+  assert.ok(entry);
+  const undone = restoreTiles(built, getRestoredTiles(entry, 'undo'), getRefund(entry, 'undo'));
+  const broke = { ...undone, stats: { ...undone.stats, money: entry.cost - 1 } };
+  assert.strictEqual(restoreTiles(broke, getRestoredTiles(entry, 'redo'), getRefund(entry, 'redo')), broke);
+});
+
+// ============================================================================
+// BRUSHES
+// ============================================================================
+
+/** Random pairs of corners inside the grid, from a fixed seed */
+function randomCorners(seed: number, count: number): { from: { x: number; y: number }; to: { x: number; y: number } }[] {
+  const random = new SeededRng(seed).next;
+  const point = () => ({ x: Math.floor(random() * GRID_SIZE), y: Math.floor(random() * GRID_SIZE) });
+  return Array.from({ length: count }, () => ({ from: point(), to: point() }));
+}
+
+function assertNoRepeats(tiles: { x: number; y: number }[]): void {
+  assert.strictEqual(new Set(tiles.map(t => `${t.x},${t.y}`)).size, tiles.length, 'brush repeats a tile');
+}
+
+check('rectangle brush fills every tile between the corners once', () => {
+  for (const { from, to } of randomCorners(SEEDS[0], 200)) {
+    const tiles = getBrushTiles('rectangle', from, to);
+    const width = Math.abs(to.x - from.x) + 1; const height = Math.abs(to.y - from.y) + 1;
+    assert.strictEqual(tiles.length, width * height);
+    assertNoRepeats(tiles);
+    for (const t of tiles) {
+      assert.ok(t.x >= Math.min(from.x, to.x) && t.x <= Math.max(from.x, to.x), `x ${t.x} outside the rectangle`);
+      assert.ok(t.y >= Math.min(from.y, to.y) && t.y <= Math.max(from.y, to.y), `y ${t.y} outside the rectangle`);
+    }
+  }
+});
+
+check('outline brush covers only and all of the border', () => {
+  for (const { from, to } of randomCorners(SEEDS[1], 200)) {
+    const tiles = getBrushTiles('outline', from, to);
+    const minX = Math.min(from.x, to.x); const maxX = Math.max(from.x, to.x);
+    const minY = Math.min(from.y, to.y); const maxY = Math.max(from.y, to.y);
+    const width = maxX - minX + 1; const height = maxY - minY + 1;
+    const border = width === 1 || height === 1 ? width * height : 2 * (width + height) - 4;
+    assert.strictEqual(tiles.length, border);
+    assertNoRepeats(tiles);
+    for (const t of tiles) assert.ok(t.x === minX || t.x === maxX || t.y === minY || t.y === maxY, `${t.x},${t.y} is inside the outline`);
+  }
+});
+
+check('line brush runs unbroken from one end to the other', () => {
+  for (const { from, to } of randomCorners(SEEDS[2], 200)) {
+    const tiles = getBrushTiles('line', from, to);
+    assert.deepStrictEqual(tiles[0], from);
+    assert.deepStrictEqual(tiles[tiles.length - 1], to);
+    assert.strictEqual(tiles.length, Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y)) + 1);
+    assertNoRepeats(tiles);
+    for (let i = 1; i < tiles.length; i++) {
+      assert.ok(Math.max(Math.abs(tiles[i].x - tiles[i - 1].x), Math.abs(tiles[i].y - tiles[i - 1].y)) === 1, 'line has a gap');
+    }
+  }
+});
+
+// ============================================================================
+// BLUEPRINTS
+// ============================================================================
+
+// Wider than tall, with one-way roads, a rail crossing, 2x2 and 3x3 footprints,
+// a flipped building, a zone and a subway tile
+const SAMPLE_BLUEPRINT: Blueprint = {
+  id: 'blueprint-check', name: 'Check', width: 5, height: 4, createdAt: 0,
+  tiles: [
+    { dx: 0, dy: 0, building: 'road', roadClass: 'street', roadDirection: 'south' },
+    { dx: 1, dy: 0, building: 'road', roadClass: 'street', roadDirection: 'south' },
+    { dx: 2, dy: 0, building: 'road', hasRailOverlay: true },
+    { dx: 3, dy: 0, building: 'tree' },
+    { dx: 0, dy: 1, building: 'hospital', flipped: true },
+    { dx: 2, dy: 1, building: 'stadium' },
+    { dx: 0, dy: 3, zone: 'residential' },
+    { dx: 1, dy: 3, zone: 'commercial', hasSubway: true },
+  ],
+};
+
+/** Every footprint lies inside the blueprint and none overlap */
+function assertFootprintsFit(blueprint: Blueprint): void {
+  const covered = new Set<string>();
+  for (const tile of blueprint.tiles) {
+    if (!tile.building) continue;
+    const size = getBuildingSize(tile.building);
+    for (let y = tile.dy; y < tile.dy + size.height; y++) {
+      for (let x = tile.dx; x < tile.dx + size.width; x++) {
+        assert.ok(x >= 0 && y >= 0 && x < blueprint.width && y < blueprint.height, `${tile.building} sticks out at ${x},${y}`);
+        assert.ok(!covered.has(`${x},${y}`), `footprints overlap at ${x},${y}`);
+        covered.add(`${x},${y}`);
+      }
+    }
+  }
+}
+
+check('four blueprint rotations come back to the original', () => {
+  let blueprint = SAMPLE_BLUEPRINT;
+  for (let turn = 1; turn <= 4; turn++) {
+    blueprint = rotateBlueprint(blueprint);
+    assertFootprintsFit(blueprint);
+    assert.strictEqual(blueprint.width, turn % 2 ? SAMPLE_BLUEPRINT.height : SAMPLE_BLUEPRINT.width);
+  }
+  assert.deepStrictEqual(blueprint, SAMPLE_BLUEPRINT);
+});
+
+check('mirroring a blueprint twice comes back to the original', () => {
+  const mirrored = mirrorBlueprint(SAMPLE_BLUEPRINT);
+  assertFootprintsFit(mirrored);
+  assert.notDeepStrictEqual(mirrored, SAMPLE_BLUEPRINT);
+  assert.deepStrictEqual(mirrorBlueprint(mirrored), SAMPLE_BLUEPRINT);
+});
+
+check('a rotation undoes itself when mirrored around', () => {
+  // Mirror, rotate, mirror turns the other way, so one more rotation cancels it
+  const turnedBack = mirrorBlueprint(rotateBlueprint(mirrorBlueprint(SAMPLE_BLUEPRINT)));
+  assertFootprintsFit(turnedBack);
+  assert.deepStrictEqual(rotateBlueprint(turnedBack), SAMPLE_BLUEPRINT);
+});
+
+// ============================================================================
+// TERRAIN
+// ============================================================================
+
+/** Heights stay in range, water is flat, and no step between neighbors is too steep */
+function assertTerrainLimits(grid: Tile[][], size: number, label: string): void {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      const height = getElevation(tile);
+      assert.ok(Number.isInteger(height) && height >= 0 && height <= MAX_ELEVATION, `${label}: height ${height} at ${x},${y}`);
+      const isWater = tile.building.type === 'water';
+      if (isWater) assert.strictEqual(height, 0, `${label}: raised water at ${x},${y}`);
+      for (const [nx, ny] of [[x + 1, y], [x, y + 1]]) {
+        if (nx >= size || ny >= size) continue;
+        const neighbor = grid[ny][nx];
+        const step = Math.abs(height - getElevation(neighbor));
+        const limit = isWater || neighbor.building.type === 'water' ? SHORE_RISE : MAX_TERRAIN_STEP;
+        assert.ok(step <= limit, `${label}: step of ${step} between ${x},${y} and ${nx},${ny}`);
+      }
+    }
+  }
+}
+
+check('generated terrain keeps slope limits and gentle shores', () => {
+  for (const seed of SEEDS) {
+    const { grid, gridSize } = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    assertTerrainLimits(grid, gridSize, `seed ${seed}`);
+    assert.ok(grid.some(row => row.some(t => getElevation(t) >= MIN_HILL_ELEVATION)), `seed ${seed}: no hills for hill buildings`);
+  }
+});
+
+check('slope limits hold even for white noise', () => {
+  for (const seed of SEEDS) {
+    const { grid, gridSize } = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const random = new SeededRng(seed).next;
+    generateElevation(grid, gridSize, () => random());
+    assertTerrainLimits(grid, gridSize, `seed ${seed}`);
+  }
+});
+
+check('a canal dug into a hill is cut down to water level', () => {
+  const state = createInitialGameState(GRID_SIZE, 'Check City', SEEDS[0]);
+  const hill = state.grid.flat().find(t => getElevation(t) >= MIN_HILL_ELEVATION && t.building.type !== 'water');
+  assert.ok(hill, 'no hill to dig into');
+  const dug = placeWaterTerraform(state, hill.x, hill.y);
+  assert.strictEqual(dug.grid[hill.y][hill.x].building.type, 'water');
+  assert.strictEqual(getElevation(dug.grid[hill.y][hill.x]), 0);
+});
+
+// ============================================================================
+// RIVERS
+// ============================================================================
+
+check('every map gets a river that reaches the ocean or the map edge', () => {
+  for (const seed of SEEDS) {
+    const { grid, gridSize, waterBodies } = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const rivers = waterBodies.filter(body => body.type === 'river');
+    assert.strictEqual(rivers.length, 1, `seed ${seed}: expected one river`);
+    const river = rivers[0];
+    assert.ok(river.flowDirection, `seed ${seed}: river has no flow direction`);
+    for (const t of river.tiles) assert.strictEqual(grid[t.y][t.x].building.type, 'water', `seed ${seed}: dry river tile at ${t.x},${t.y}`);
+
+    const ocean = new Set(waterBodies.filter(body => body.type === 'ocean').flatMap(body => body.tiles.map(t => `${t.x},${t.y}`)));
+    const reachesOcean = river.tiles.some(t => [[1, 0], [-1, 0], [0, 1], [0, -1]].some(([dx, dy]) => ocean.has(`${t.x + dx},${t.y + dy}`)));
+    const reachesEdge = river.tiles.some(t => t.x === 0 || t.y === 0 || t.x === gridSize - 1 || t.y === gridSize - 1);
+    if (ocean.size > 0) assert.ok(reachesOcean, `seed ${seed}: river stops short of the ocean`);
+    else assert.ok(reachesEdge, `seed ${seed}: river stops short of the map edge`);
+  }
+});
+
+check('every river tile drains towards the mouth', () => {
+  for (const seed of SEEDS) {
+    const { grid, gridSize, waterBodies } = createInitialGameState(GRID_SIZE, 'Check City', seed);
+    const flow = computeFlowField(grid, gridSize, waterBodies);
+    const river = waterBodies.find(body => body.type === 'river');
+    assert.ok(river, `seed ${seed}: no river`);
+    for (const t of river.tiles) {
+      const idx = t.y * gridSize + t.x;
+      assert.ok(flow.downstream[idx] !== -1 || flow.sink[idx] === 1, `seed ${seed}: still water at ${t.x},${t.y}`);
+    }
+  }
+});
+
+// ============================================================================
+// RUNNER
+// ============================================================================
+
+function main() {
+  const { values } = parseArgs({ options: { only: { type: 'string' } } });
+  const selected = checks.filter(c => !values.only || c.name.includes(values.only));
+
+  let failed = 0;
+  for (const { name, run } of selected) {
+    try {
+      run();
+      console.log(`ok    ${name}`);
+    } catch (e) {
+      failed++;
+      console.error(`FAIL  ${name}\n      ${e instanceof Error ? e.message.split('\n').join('\n      ') : String(e)}`);
+    }
+  }
+  console.log(`\n${selected.length - failed}/${selected.length} checks passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();
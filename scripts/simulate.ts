@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+/**
+ * Headless Simulation Runner
+ *
+ * Loads a saved city (lz-string compressed or plain JSON), runs simulateTick
+ * N times without React or canvas, and writes a time series of stats,
+ * per-type pollution counts and budget costs as CSV or JSON.
+ *
+ * Usage:
+ *   npm run simulate -- --input city.sav --ticks 9000 --every 30 --format csv --out run.csv
+ *   npm run simulate -- --new 70 --seed 1234 --ticks 3000 --format json
+ *
+ * Options:
+ *   --input <file>   Saved city to load (the format serializeAndCompressAsync produces)
+ *   --new <size>     Start from a freshly generated city of this grid size instead
+ *   --seed <n>       World seed for --new, or PRNG state override for --input
+ *   --ticks <n>      Number of simulation ticks to run (default 900 = one game month)
+ *   --every <n>      Record a sample every n ticks (default 30 = one game day)
+ *   --format <fmt>   csv (default) or json
+ *   --out <file>     Write to a file instead of stdout
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { createInitialGameState, DESKTOP_GRID_SIZE } from '../src/lib/simulation';
+import { parseSavedState, runHeadless, samplesToCsv } from '../src/lib/headless';
+
+function fail(message: string): never {
+  console.error(`simulate: ${message}`);
+  process.exit(1);
+}
+
+function parseIntOption(value: string | undefined, name: string, fallback: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number.parseInt(value, 10);
+  if (!Number.isFinite(parsed) || parsed < 0) fail(`--${name} must be a non-negative integer`);
+  return parsed;
+}
+
+function main() {
+  const { values } = parseArgs({
+    options: {
+      input: { type: 'string' },
+      new: { type: 'string' },
+      seed: { type: 'string' },
+      ticks: { type: 'string' },
+      every: { type: 'string' },
+      format: { type: 'string' },
+      out: { type: 'string' },
+    },
+  });
+
+  const format = values.format ?? 'csv';
+  if (format !== 'csv' && format !== 'json') fail('--format must be csv or json');
+  if (values.input && values.new) fail('use either --input or --new, not both');
+
+  const ticks = parseIntOption(values.ticks, 'ticks', 900);
+  const sampleEvery = parseIntOption(values.every, 'every', 30);
+  const seed = values.seed !== undefined ? parseIntOption(values.seed, 'seed', 0) : undefined;
+
+  let state;
+  if (values.input) {
+    try {
+      state = parseSavedState(readFileSync(values.input, 'utf8'));
+    } catch (e) {
+      fail(`could not load ${values.input}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    if (seed !== undefined) state = { ...state, rngState: seed };
+  } else {
+    const size = parseIntOption(values.new, 'new', DESKTOP_GRID_SIZE);
+    state = createInitialGameState(size, 'Headless City', seed);
+  }
+
+  const started = Date.now();
+  const { samples } = runHeadless(state, { ticks, sampleEvery });
+  const output = format === 'csv' ? samplesToCsv(samples) : JSON.stringify(samples, null, 2) + '\n';
+
+  if (values.out) {
+    writeFileSync(values.out, output);
+    console.error(`simulate: ${ticks} ticks, ${samples.length} samples in ${Date.now() - started}ms -> ${values.out}`);
+  } else {
+    process.stdout.write(output);
+  }
+}
+
+main();
@@ -27,9 +27,11 @@ import { OverlayModeToggle } from '@/components/game/OverlayModeToggle';
 import { Sidebar } from '@/components/game/Sidebar';
 import {
   BudgetPanel,
+  PoliciesPanel,
   StatisticsPanel,
   SettingsPanel,
   AdvisorsPanel,
+  BlueprintsPanel,
 } from '@/components/game/panels';
 import { MiniMap } from '@/components/game/MiniMap';
 import { TopBar, StatsPanel } from '@/components/game/TopBar';
@@ -41,7 +43,7 @@ const CARGO_TYPE_NAMES = [msg('containers'), msg('bulk materials'), msg('oil')];
 export default function Game({ onExit }: { onExit?: () => void }) {
   const gt = useGT();
   const m = useMessages();
-  const { state, setTool, setActivePanel, addMoney, addNotification, setSpeed } = useGame();
+  const { state, setTool, setActivePanel, addMoney, addNotification, setSpeed, undo, redo, activeBlueprint, setActiveBlueprint, rotateBlueprint, mirrorBlueprint } = useGame();
   const [overlayMode, setOverlayMode] = useState<OverlayMode>('none');
   const [selectedTile, setSelectedTile] = useState<{ x: number; y: number } | null>(null);
   const [navigationTarget, setNavigationTarget] = useState<{ x: number; y: number } | null>(null);
@@ -119,10 +121,10 @@ export default function Game({ onExit }: { onExit?: () => void }) {
       return;
     }
     
-    // Select tool always resets overlay to none (user is explicitly switching to select)
+    // Select tool always switches to its own overlay (the Inspector views pollution levels)
     if (state.selectedTool === 'select') {
       setTimeout(() => {
-        setOverlayMode('none');
+        setOverlayMode(getOverlayForTool('select'));
       }, 0);
       previousSelectedToolRef.current = state.selectedTool;
       return;
@@ -137,6 +139,15 @@ export default function Game({ onExit }: { onExit?: () => void }) {
       return;
     }
     
+    // Pipes are underground too, so the water overlay shows where they run
+    if (state.selectedTool === 'water_pipe') {
+      setTimeout(() => {
+        setOverlayMode('water');
+      }, 0);
+      previousSelectedToolRef.current = state.selectedTool;
+      return;
+    }
+    
     // Don't auto-set overlay until we've captured the initial tool
     if (!hasCapturedInitialTool.current) {
       return;
@@ -169,16 +180,32 @@ export default function Game({ onExit }: { onExit?: () => void }) {
         return;
       }
 
-      if (e.key === 'Escape') {
+      if ((e.ctrlKey || e.metaKey) && (e.key === 'z' || e.key === 'Z')) {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || e.key === 'Y')) {
+        e.preventDefault();
+        redo();
+      } else if (e.key === 'Escape') {
         if (overlayMode !== 'none') {
           setOverlayMode('none');
         } else if (state.activePanel !== 'none') {
           setActivePanel('none');
+        } else if (state.selectedTool === 'blueprint' && activeBlueprint) {
+          // Drop the blueprint being pasted and go back to copying
+          setActiveBlueprint(null);
         } else if (selectedTile) {
           setSelectedTile(null);
         } else if (state.selectedTool !== 'select') {
           setTool('select');
         }
+      } else if (state.selectedTool === 'blueprint' && activeBlueprint && (e.key === 'r' || e.key === 'R')) {
+        e.preventDefault();
+        rotateBlueprint();
+      } else if (state.selectedTool === 'blueprint' && activeBlueprint && (e.key === 'f' || e.key === 'F')) {
+        e.preventDefault();
+        mirrorBlueprint();
       } else if (e.key === 'b' || e.key === 'B') {
         e.preventDefault();
         setTool('bulldoze');
@@ -192,7 +219,7 @@ export default function Game({ onExit }: { onExit?: () => void }) {
     
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [state.activePanel, state.selectedTool, state.speed, selectedTile, setActivePanel, setTool, setSpeed, overlayMode]);
+  }, [state.activePanel, state.selectedTool, state.speed, selectedTile, setActivePanel, setTool, setSpeed, overlayMode, undo, redo, activeBlueprint, setActiveBlueprint, rotateBlueprint, mirrorBlueprint]);
 
   // Handle cheat code triggers
   useEffect(() => {
@@ -323,6 +350,7 @@ export default function Game({ onExit }: { onExit?: () => void }) {
           
           {/* Panels - render as fullscreen modals on mobile */}
           {state.activePanel === 'budget' && <BudgetPanel />}
+          {state.activePanel === 'policies' && <PoliciesPanel />}
           {state.activePanel === 'statistics' && <StatisticsPanel />}
           {state.activePanel === 'advisors' && <AdvisorsPanel />}
           {state.activePanel === 'settings' && <SettingsPanel />}
@@ -360,7 +388,15 @@ export default function Game({ onExit }: { onExit?: () => void }) {
               onViewportChange={setViewport}
               onBargeDelivery={handleBargeDelivery}
             />
-            <OverlayModeToggle overlayMode={overlayMode} setOverlayMode={setOverlayMode} />
+            <OverlayModeToggle
+              overlayMode={overlayMode}
+              setOverlayMode={setOverlayMode}
+              powerDemand={state.stats.powerDemand}
+              powerSupply={state.stats.powerSupply}
+              powerCapacity={state.stats.powerCapacity}
+              waterDemand={state.stats.waterDemand}
+              waterSupply={state.stats.waterSupply}
+            />
             <MiniMap onNavigate={(x, y) => setNavigationTarget({ x, y })} viewport={viewport} />
             
             {/* Multiplayer Players Indicator */}
@@ -402,9 +438,11 @@ export default function Game({ onExit }: { onExit?: () => void }) {
         </div>
         
         {state.activePanel === 'budget' && <BudgetPanel />}
+        {state.activePanel === 'policies' && <PoliciesPanel />}
         {state.activePanel === 'statistics' && <StatisticsPanel />}
         {state.activePanel === 'advisors' && <AdvisorsPanel />}
         {state.activePanel === 'settings' && <SettingsPanel />}
+        {state.activePanel === 'blueprints' && <BlueprintsPanel />}
         
         <VinnieDialog open={showVinnieDialog} onOpenChange={setShowVinnieDialog} />
         <CommandMenu />
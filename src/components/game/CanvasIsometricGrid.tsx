@@ -1,10 +1,14 @@
 'use client';
 
 import React, { useRef, useState, useCallback, useEffect, useMemo } from 'react';
-import { useMessages, T, Var, useGT } from 'gt-next';
-import { useGame } from '@/context/GameContext';
+import { msg, useMessages, T, Var, useGT } from 'gt-next';
+import { getToolCost, useGame } from '@/context/GameContext';
 import { TOOL_INFO, Tile, Building, BuildingType, AdjacentCity, Tool } from '@/types/game';
 import { getBuildingSize, requiresWaterAdjacency, getWaterAdjacency } from '@/lib/simulation';
+import { hasRequiredElevation, requiresElevation } from '@/lib/terrain';
+import { getDragDirection, isRoadTool } from '@/lib/roads';
+import { BRUSH_SHAPES, getBrushCost, getBrushTiles, isBrushTool } from '@/lib/brushes';
+import { getBlueprintCost, validateBlueprint } from '@/lib/blueprints';
 import { FireIcon, SafetyIcon } from '@/components/ui/Icons';
 import { getSpriteCoords, BUILDING_TO_SPRITE, SPRITE_VERTICAL_OFFSETS, SPRITE_HORIZONTAL_OFFSETS, getActiveSpritePack } from '@/lib/renderConfig';
 import { selectSpriteSource, calculateSpriteCoords, calculateSpriteScale, calculateSpriteOffsets, getSpriteRenderInfo } from '@/components/game/buildingSprite';
@@ -37,21 +41,27 @@ import {
   ZOOM_MIN,
   ZOOM_MAX,
   WATER_ASSET_PATH,
+  ALGAE_BLOOM_TINT,
+  ALGAE_BLOOM_TINT_ALPHA,
   AIRPLANE_SPRITE_SRC,
   TRAIN_MIN_ZOOM,
 } from '@/components/game/constants';
 import {
+  getElevationOffset,
   gridToScreen,
-  screenToGrid,
+  gridToTerrainScreen,
+  screenToTerrainGrid,
 } from '@/components/game/utils';
 import {
   drawGreenBaseTile,
   drawGreyBaseTile,
   drawBeachOnWater,
   drawFoundationPlot,
+  drawTerrainSides,
 } from '@/components/game/drawing';
 import {
   getOverlayFillStyle,
+  overlayCoversAllTiles,
   OVERLAY_TO_BUILDING_TYPES,
   OVERLAY_CIRCLE_COLORS,
   OVERLAY_CIRCLE_FILL_COLORS,
@@ -59,6 +69,8 @@ import {
 } from '@/components/game/overlays';
 import { SERVICE_CONFIG, SERVICE_RANGE_INCREASE_PER_LEVEL } from '@/lib/simulation';
 import { drawPlaceholderBuilding } from '@/components/game/placeholders';
+import { drawRenewablePlant } from '@/components/game/powerPlantDrawing';
+import { drawPumpingStation } from '@/components/game/pumpingStationDrawing';
 import { loadImage, loadSpriteImage, onImageLoaded, getCachedImage } from '@/components/game/imageLoader';
 import { TileInfoPanel } from '@/components/game/panels';
 import {
@@ -121,9 +133,15 @@ export interface CanvasIsometricGridProps {
   onBargeDelivery?: (cargoValue: number, cargoType: number) => void;
 }
 
+const BRUSH_SHAPE_LABELS = {
+  rectangle: msg('Fill'),
+  outline: msg('Outline'),
+  line: msg('Line'),
+};
+
 // Canvas-based Isometric Grid - HIGH PERFORMANCE
 export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile, isMobile = false, navigationTarget, onNavigationComplete, onViewportChange, onBargeDelivery }: CanvasIsometricGridProps) {
-  const { state, latestStateRef, placeAtTile, finishTrackDrag, connectToCity, checkAndDiscoverCities, currentSpritePack, visualHour } = useGame();
+  const { state, latestStateRef, placeAtTile, placeBatch, brushShape, setBrushShape, activeBlueprint, copyBlueprint, pasteBlueprint, finishTrackDrag, beginUndoGroup, endUndoGroup, connectToCity, checkAndDiscoverCities, currentSpritePack, visualHour } = useGame();
   const { grid, gridSize, selectedTool, speed, adjacentCities, waterBodies, gameVersion } = state;
   
   // PERF: Use latestStateRef for real-time grid access in animation loops
@@ -292,9 +310,17 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
   const [cityConnectionDialog, setCityConnectionDialog] = useState<{ direction: 'north' | 'south' | 'east' | 'west' } | null>(null);
   const keysPressedRef = useRef<Set<string>>(new Set());
 
-  // Only zoning tools show the grid/rectangle selection visualization
+  // Zoning, trees and bulldoze drag out a brush shape and show it before placing;
+  // the blueprint tool drags out the area to copy when it has nothing to paste
   // Note: zone_water uses supportsDragPlace behavior (place on click/drag) instead of rectangle selection
-  const showsDragGrid = ['zone_residential', 'zone_commercial', 'zone_industrial', 'zone_dezone'].includes(selectedTool);
+  const isCopyingBlueprint = selectedTool === 'blueprint' && !activeBlueprint;
+  const showsDragGrid = isBrushTool(selectedTool) || isCopyingBlueprint;
+  
+  // Tiles the current brush drag covers, keyed y * gridSize + x for the render loop
+  const brushTiles = useMemo(() => (
+    showsDragGrid && dragStartTile && dragEndTile ? getBrushTiles(isCopyingBlueprint ? 'rectangle' : brushShape, dragStartTile, dragEndTile) : []
+  ), [showsDragGrid, isCopyingBlueprint, dragStartTile, dragEndTile, brushShape]);
+  const brushTileKeys = useMemo(() => new Set(brushTiles.map(tile => tile.y * gridSize + tile.x)), [brushTiles, gridSize]);
   
   // Roads, bulldoze, and other tools support drag-to-place but don't show the grid
   const supportsDragPlace = selectedTool !== 'select';
@@ -329,8 +355,8 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     cachedRoadTileCountRef,
     cachedIntersectionMapRef,
     state: {
-      services: state.services,
       stats: state.stats,
+      policies: state.policies,
     },
     isMobile,
   };
@@ -1148,7 +1174,10 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       const hasGreyBase = tileRenderMetadata?.needsGreyBase ?? false;
       
       if (tile.building.type === 'water') {
-        if (tile.pollution > 50) {
+        if (tile.algaeBloom) {
+          topColor = ALGAE_BLOOM_TINT;
+          strokeColor = '#3f5a12';
+        } else if (tile.pollution > 50) {
           if (tile.pollutionType === 'toxic') {
             topColor = '#8e44ad';
             strokeColor = '#6b2d86';
@@ -1428,15 +1457,19 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       const tile = grid[gridY]?.[gridX];
       const poll = tile?.pollution ?? 0;
       const pollType = tile?.pollutionType ?? null;
+      const bloom = tile?.algaeBloom ?? false;
 
-      // Target tint alpha (slower fade towards target)
-      const targetAlpha = poll > 50 ? Math.min(0.6, ((poll - 50) / 100) * 0.6 + 0.05) : 0;
+      // Target tint alpha (slower fade towards target) - a bloom covers the water in green scum
+      const targetAlpha = bloom ? ALGAE_BLOOM_TINT_ALPHA : poll > 50 ? Math.min(0.6, ((poll - 50) / 100) * 0.6 + 0.05) : 0;
       // Smooth approach: lerp with rate dependent on dt
       const lerp = (a: number, b: number, t: number) => a + (b - a) * (1 - Math.exp(-5 * t));
       anim.tintAlpha = lerp(anim.tintAlpha, targetAlpha, dt);
 
-      // Fish for nutrient pollution: appear slowly when nutrient pollution high
-      if (pollType === 'nutrient' && poll > 60) {
+      // Fish for nutrient pollution: appear slowly when nutrient pollution high, all at once in a bloom
+      if (bloom) {
+        anim.fishAlpha = lerp(anim.fishAlpha, 1, dt * 0.6);
+        anim.fishRise = lerp(anim.fishRise, 10, dt * 0.6);
+      } else if (pollType === 'nutrient' && poll > 60) {
         anim.fishAlpha = lerp(anim.fishAlpha, Math.min(1, (poll - 60) / 40), dt * 0.6);
         anim.fishRise = lerp(anim.fishRise, Math.min(10, (poll - 60) / 40 * 10), dt * 0.6);
       } else {
@@ -1460,9 +1493,10 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       }
       
       // Overlay pollution tint if present (use animated tintAlpha)
-      if (poll > 50 || anim.tintAlpha > 0.001) {
+      if (bloom || poll > 50 || anim.tintAlpha > 0.001) {
         let tintColor = '#60a5fa';
-        if (pollType === 'toxic') tintColor = '#4b7a95'; // dirtier blue for toxic
+        if (bloom) tintColor = ALGAE_BLOOM_TINT;
+        else if (pollType === 'toxic') tintColor = '#4b7a95'; // dirtier blue for toxic
         else if (pollType === 'nutrient') tintColor = '#9fe7ff'; // lighter blue for nutrient
         else if (pollType === 'thermal') tintColor = '#1abc9c';
 
@@ -1481,7 +1515,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
         ctx.restore();
 
         // If nutrient pollution, draw dead fish popping up slowly
-        if (pollType === 'nutrient' && anim.fishAlpha > 0.01) {
+        if ((bloom || pollType === 'nutrient') && anim.fishAlpha > 0.01) {
           const fishSize = Math.max(6, TILE_WIDTH * 0.18);
           drawDeadFish(ctx, screenX + w / 2, screenY + h / 2, fishSize, anim.fishAlpha, anim.fishRise);
         }
@@ -1508,6 +1542,16 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
         return;
       }
       
+      // Renewable plants have no sprite artwork and are drawn procedurally
+      if (buildingType === 'solar_farm' || buildingType === 'wind_turbine' || buildingType === 'hydro_dam') {
+        drawRenewablePlant(ctx, x, y, tile, w, h, zoom);
+        return;
+      }
+      if (buildingType === 'water_pump') {
+        drawPumpingStation(ctx, x, y, tile, w, h, zoom);
+        return;
+      }
+      
       // Draw water tiles underneath marina/pier buildings
       if (buildingType === 'marina_docks_small' || buildingType === 'pier_large') {
         const buildingSize = getBuildingSize(buildingType);
@@ -1660,6 +1704,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
             // Overlay pollution tint for water tiles (animated per-tile)
             const tilePoll = tile.pollution;
             const tileType = tile.pollutionType ?? null;
+            const tileBloom = tile.algaeBloom ?? false;
             const key = tile.y * worldStateRef.current.gridSize + tile.x;
             const now = performance.now() / 1000;
             const anim = waterTileAnimMap.current.get(key) ?? { last: now, tintAlpha: 0, fishAlpha: 0, fishRise: 0 };
@@ -1667,12 +1712,15 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
             anim.last = now;
 
             // Target alpha and smoothing (same approach as single-tile draw)
-            const targetAlpha = tilePoll > 50 ? Math.min(0.6, ((tilePoll - 50) / 100) * 0.6 + 0.05) : 0;
+            const targetAlpha = tileBloom ? ALGAE_BLOOM_TINT_ALPHA : tilePoll > 50 ? Math.min(0.6, ((tilePoll - 50) / 100) * 0.6 + 0.05) : 0;
             const lerp = (a: number, b: number, t: number) => a + (b - a) * (1 - Math.exp(-5 * t));
             anim.tintAlpha = lerp(anim.tintAlpha, targetAlpha, dt);
 
             // Nutrient fish anim
-            if (tileType === 'nutrient' && tilePoll > 60) {
+            if (tileBloom) {
+              anim.fishAlpha = lerp(anim.fishAlpha, 1, dt * 0.6);
+              anim.fishRise = lerp(anim.fishRise, 10, dt * 0.6);
+            } else if (tileType === 'nutrient' && tilePoll > 60) {
               anim.fishAlpha = lerp(anim.fishAlpha, Math.min(1, (tilePoll - 60) / 40), dt * 0.6);
               anim.fishRise = lerp(anim.fishRise, Math.min(10, (tilePoll - 60) / 40 * 10), dt * 0.6);
             } else {
@@ -1682,9 +1730,10 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
 
             waterTileAnimMap.current.set(key, anim);
 
-            if (tilePoll > 50 || anim.tintAlpha > 0.001) {
+            if (tileBloom || tilePoll > 50 || anim.tintAlpha > 0.001) {
               let tintColor = '#60a5fa';
-              if (tileType === 'toxic') tintColor = '#4b7a95';
+              if (tileBloom) tintColor = ALGAE_BLOOM_TINT;
+              else if (tileType === 'toxic') tintColor = '#4b7a95';
               else if (tileType === 'nutrient') tintColor = '#9fe7ff';
               else if (tileType === 'thermal') tintColor = '#1abc9c';
 
@@ -1701,7 +1750,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
               ctx.fill();
               ctx.restore();
 
-              if (tileType === 'nutrient' && anim.fishAlpha > 0.01) {
+              if ((tileBloom || tileType === 'nutrient') && anim.fishAlpha > 0.01) {
                 const fishSize = Math.max(6, TILE_WIDTH * 0.18);
                 drawDeadFish(ctx, x + w / 2, y + h / 2, fishSize, anim.fishAlpha, anim.fishRise);
               }
@@ -1885,25 +1934,26 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
         const y = sum - x;
         if (y < 0 || y >= gridSize) continue;
         
-        const { screenX, screenY } = gridToScreen(x, y, 0, 0);
+        const { screenX, screenY: groundY } = gridToScreen(x, y, 0, 0);
         
         // Viewport culling
         if (screenX + TILE_WIDTH < viewLeft || screenX > viewRight ||
-            screenY + TILE_HEIGHT * 4 < viewTop || screenY > viewBottom) {
+            groundY + TILE_HEIGHT * 4 < viewTop || groundY > viewBottom) {
           continue;
         }
         
         const tile = grid[y][x];
         
+        // Raised terrain lifts the tile and everything on it, showing the earth beneath
+        const lift = getElevationOffset(tile);
+        const screenY = groundY - lift;
+        drawTerrainSides(ctx, screenX, screenY, lift, zoom);
+        
         // PERF: Hover and selection highlights are now rendered on a separate canvas layer
         // Only keep drag rect and subway station highlights in main render (these change infrequently)
         
-        // Check if tile is in drag selection rectangle (only show for zoning tools)
-        const isInDragRect = showsDragGrid && dragStartTile && dragEndTile && 
-          x >= Math.min(dragStartTile.x, dragEndTile.x) &&
-          x <= Math.max(dragStartTile.x, dragEndTile.x) &&
-          y >= Math.min(dragStartTile.y, dragEndTile.y) &&
-          y <= Math.max(dragStartTile.y, dragEndTile.y);
+        // Check if tile is under the brush being dragged (only for brush tools)
+        const isInDragRect = brushTileKeys.has(y * gridSize + x);
 
         // PERF: Use pre-computed tile metadata (O(1) lookup instead of expensive per-tile calculations)
         const tileMetadata = getTileMetadata(x, y);
@@ -1961,12 +2011,13 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
         }
         
         // For subway overlay, show ALL non-water tiles (valid placement areas + existing subway)
-        // For other overlays, show buildings only
+        // Pollution, treatment and land value overlays cover every tile; other overlays show buildings only
         const showOverlay =
           overlayMode !== 'none' &&
           (overlayMode === 'subway' 
             ? tile.building.type !== 'water'  // For subway mode, show all non-water tiles
-            : (tile.building.type !== 'grass' &&
+            : overlayCoversAllTiles(overlayMode) ||
+              (tile.building.type !== 'grass' &&
                tile.building.type !== 'water' &&
                tile.building.type !== 'road'));
         if (showOverlay) {
@@ -2242,6 +2293,8 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
             police: state.services.police[tile.y][tile.x],
             health: state.services.health[tile.y][tile.x],
             education: state.services.education[tile.y][tile.x],
+            // Saves from before treatment coverage only get it on the next tick
+            treatment: state.services.treatment?.[tile.y]?.[tile.x] ?? 0,
           };
           
           const fillStyle = getOverlayFillStyle(overlayMode, tile, coverage);
@@ -2283,8 +2336,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
               
               // Calculate effective range based on building level (linear increase per level)
               // Level 1: 100%, Level 2: 120%, Level 3: 140%, Level 4: 160%, Level 5: 180%
-              const baseRange = config.range;
-              const effectiveRange = baseRange * (1 + (tile.building.level - 1) * SERVICE_RANGE_INCREASE_PER_LEVEL);
+              const effectiveRange = config.range * (1 + (tile.building.level - 1) * SERVICE_RANGE_INCREASE_PER_LEVEL);
               const range = Math.floor(effectiveRange);
               
               // NOTE: For multi-tile service buildings (e.g. 2x2 hospital, 3x3 university),
@@ -2382,7 +2434,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       }
     };
   // PERF: hoveredTile and selectedTile removed from deps - now rendered on separate hover canvas layer
-  }, [grid, gridSize, offset, zoom, overlayMode, imagesLoaded, imageLoadVersion, canvasSize, dragStartTile, dragEndTile, state.services, currentSpritePack, waterBodies, getTileMetadata, showsDragGrid, isMobile]);
+  }, [grid, gridSize, offset, zoom, overlayMode, imagesLoaded, imageLoadVersion, canvasSize, brushTileKeys, state.services, currentSpritePack, waterBodies, getTileMetadata, isMobile]);
   
   // PERF: Lightweight hover/selection overlay - renders ONLY tile highlights
   // This runs frequently (on mouse move) but is extremely fast since it only draws simple shapes
@@ -2428,10 +2480,30 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     // Draw hovered tile highlight (with multi-tile preview for buildings)
     if (hoveredTile && hoveredTile.x >= 0 && hoveredTile.x < gridSize && hoveredTile.y >= 0 && hoveredTile.y < gridSize) {
       // Check if selectedTool is a building type (not a non-building tool)
-      const nonBuildingTools: Tool[] = ['select', 'bulldoze', 'road', 'rail', 'subway', 'tree', 'zone_residential', 'zone_commercial', 'zone_industrial', 'zone_dezone', 'zone_water', 'zone_land'];
+      const nonBuildingTools: Tool[] = ['select', 'bulldoze', 'road', 'avenue', 'highway', 'one_way_road', 'rail', 'subway', 'water_pipe', 'tree', 'blueprint', 'zone_residential', 'zone_commercial', 'zone_industrial', 'zone_dezone', 'zone_water', 'zone_land'];
       const isBuildingTool = selectedTool && !nonBuildingTools.includes(selectedTool);
       
-      if (isBuildingTool) {
+      if (selectedTool === 'blueprint' && activeBlueprint) {
+        // Paste preview: the blueprint's footprint, red where it can't be built
+        const invalid = new Set(validateBlueprint(grid, gridSize, activeBlueprint, hoveredTile.x, hoveredTile.y).map(t => `${t.x},${t.y}`));
+        for (const tile of activeBlueprint.tiles) {
+          const size = tile.building ? getBuildingSize(tile.building) : { width: 1, height: 1 };
+          const ox = hoveredTile.x + tile.dx;
+          const oy = hoveredTile.y + tile.dy;
+          const isInvalid = invalid.has(`${ox},${oy}`);
+          for (let dx = 0; dx < size.width; dx++) {
+            for (let dy = 0; dy < size.height; dy++) {
+              const tx = ox + dx;
+              const ty = oy + dy;
+              if (tx >= 0 && tx < gridSize && ty >= 0 && ty < gridSize) {
+                const { screenX, screenY } = gridToTerrainScreen(grid, tx, ty, 0, 0);
+                if (isInvalid) drawHighlight(screenX, screenY, 'rgba(239, 68, 68, 0.35)', '#ef4444');
+                else drawHighlight(screenX, screenY, 'rgba(74, 222, 128, 0.3)', '#4ade80');
+              }
+            }
+          }
+        }
+      } else if (isBuildingTool) {
         // Get building size and draw preview for all tiles in footprint
         const buildingType = selectedTool as BuildingType;
         const buildingSize = getBuildingSize(buildingType);
@@ -2442,14 +2514,14 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
             const tx = hoveredTile.x + dx;
             const ty = hoveredTile.y + dy;
             if (tx >= 0 && tx < gridSize && ty >= 0 && ty < gridSize) {
-              const { screenX, screenY } = gridToScreen(tx, ty, 0, 0);
+              const { screenX, screenY } = gridToTerrainScreen(grid, tx, ty, 0, 0);
               drawHighlight(screenX, screenY);
             }
           }
         }
       } else {
         // Single tile highlight for non-building tools
-        const { screenX, screenY } = gridToScreen(hoveredTile.x, hoveredTile.y, 0, 0);
+        const { screenX, screenY } = gridToTerrainScreen(grid, hoveredTile.x, hoveredTile.y, 0, 0);
         drawHighlight(screenX, screenY);
       }
     }
@@ -2465,7 +2537,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
             const tx = selectedTile.x + dx;
             const ty = selectedTile.y + dy;
             if (tx >= 0 && tx < gridSize && ty >= 0 && ty < gridSize) {
-              const { screenX, screenY } = gridToScreen(tx, ty, 0, 0);
+              const { screenX, screenY } = gridToTerrainScreen(grid, tx, ty, 0, 0);
               drawHighlight(screenX, screenY, 'rgba(100, 200, 255, 0.3)', '#60a5fa');
             }
           }
@@ -2474,7 +2546,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     }
     
     // Draw road/rail drag preview with bridge validity indication
-    if (isDragging && (selectedTool === 'road' || selectedTool === 'rail') && dragStartTile && dragEndTile) {
+    if (isDragging && (isRoadTool(selectedTool) || selectedTool === 'rail') && dragStartTile && dragEndTile) {
       const minX = Math.min(dragStartTile.x, dragEndTile.x);
       const maxX = Math.max(dragStartTile.x, dragEndTile.x);
       const minY = Math.min(dragStartTile.y, dragEndTile.y);
@@ -2573,7 +2645,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       
       // Draw preview for each tile in the path
       for (const tile of pathTiles) {
-        const { screenX, screenY } = gridToScreen(tile.x, tile.y, 0, 0);
+        const { screenX, screenY } = gridToTerrainScreen(grid, tile.x, tile.y, 0, 0);
         const key = `${tile.x},${tile.y}`;
         const status = bridgeAnalysis.get(key) || 'land';
         
@@ -2589,7 +2661,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     }
     
     ctx.setTransform(1, 0, 0, 1, 0, 0);
-  }, [hoveredTile, selectedTile, selectedTool, offset, zoom, gridSize, grid, isDragging, dragStartTile, dragEndTile]);
+  }, [hoveredTile, selectedTile, selectedTool, offset, zoom, gridSize, grid, isDragging, dragStartTile, dragEndTile, activeBlueprint]);
   
   // Animate decorative car traffic AND emergency vehicles on top of the base canvas
   useEffect(() => {
@@ -2760,7 +2832,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       if (rect) {
         const mouseX = (e.clientX - rect.left) / zoom;
         const mouseY = (e.clientY - rect.top) / zoom;
-        const { gridX, gridY } = screenToGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom);
+        const { gridX, gridY } = screenToTerrainGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom, grid);
 
         const isInsideGrid = gridX >= 0 && gridX < gridSize && gridY >= 0 && gridY < gridSize;
         if (!isInsideGrid) {
@@ -2787,31 +2859,39 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
           } else {
             setSelectedTile({ x: gridX, y: gridY });
           }
+        } else if (selectedTool === 'blueprint' && activeBlueprint) {
+          panCandidateRef.current = null;
+          // Paste with the blueprint's top-left corner on the clicked tile
+          pasteBlueprint(gridX, gridY);
         } else if (showsDragGrid) {
           panCandidateRef.current = null;
-          // Start drag rectangle selection for zoning tools
+          // Start a brush drag for zoning, trees and bulldozing
           setDragStartTile({ x: gridX, y: gridY });
           setDragEndTile({ x: gridX, y: gridY });
           setIsDragging(true);
+          // Everything placed by the drag undoes as one step
+          beginUndoGroup();
         } else if (supportsDragPlace) {
           panCandidateRef.current = null;
           // For roads, bulldoze, and other tools, start drag-to-place
           setDragStartTile({ x: gridX, y: gridY });
           setDragEndTile({ x: gridX, y: gridY });
           setIsDragging(true);
+          beginUndoGroup();
           // Reset road drawing state for new drag
           setRoadDrawDirection(null);
           placedRoadTilesRef.current.clear();
-          // Place immediately on first click
+          // Place immediately on first click - one-way roads wait for the drag to give their direction
+          if (selectedTool === 'one_way_road') return;
           placeAtTile(gridX, gridY);
-          // Track initial tile for roads, rail, and subways
-          if (selectedTool === 'road' || selectedTool === 'rail' || selectedTool === 'subway') {
+          // Track initial tile for roads, rail, subways and pipes
+          if (isRoadTool(selectedTool) || selectedTool === 'rail' || selectedTool === 'subway' || selectedTool === 'water_pipe') {
             placedRoadTilesRef.current.add(`${gridX},${gridY}`);
           }
         }
       }
     }
-  }, [offset, gridSize, selectedTool, placeAtTile, zoom, showsDragGrid, supportsDragPlace, setSelectedTile, findBuildingOrigin, grid]);
+  }, [offset, gridSize, selectedTool, placeAtTile, activeBlueprint, pasteBlueprint, beginUndoGroup, zoom, showsDragGrid, supportsDragPlace, setSelectedTile, findBuildingOrigin, grid]);
   
   // Calculate camera bounds based on grid size
   const getMapBounds = useCallback((currentZoom: number, canvasW: number, canvasH: number) => {
@@ -2899,7 +2979,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     if (rect) {
       const mouseX = (e.clientX - rect.left) / zoom;
       const mouseY = (e.clientY - rect.top) / zoom;
-      const { gridX, gridY } = screenToGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom);
+      const { gridX, gridY } = screenToTerrainGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom, grid);
       
       if (gridX >= 0 && gridX < gridSize && gridY >= 0 && gridY < gridSize) {
         // Only update hovered tile if it actually changed to avoid unnecessary re-renders
@@ -2934,12 +3014,12 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
           setHoveredIncident(null);
         }
         
-        // Update drag rectangle end point for zoning tools
+        // Update brush end point for zoning, trees and bulldozing
         if (isDragging && showsDragGrid && dragStartTile) {
           setDragEndTile({ x: gridX, y: gridY });
         }
-        // For roads, rail, and subways, use straight-line snapping
-        else if (isDragging && (selectedTool === 'road' || selectedTool === 'rail' || selectedTool === 'subway') && dragStartTile) {
+        // For roads, rail, subways and pipes, use straight-line snapping
+        else if (isDragging && (isRoadTool(selectedTool) || selectedTool === 'rail' || selectedTool === 'subway' || selectedTool === 'water_pipe') && dragStartTile) {
           const dx = Math.abs(gridX - dragStartTile.x);
           const dy = Math.abs(gridY - dragStartTile.y);
           
@@ -2962,6 +3042,10 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
           
           setDragEndTile({ x: targetX, y: targetY });
           
+          // One-way roads flow the way they were dragged
+          const roadDirection = selectedTool === 'one_way_road' ? getDragDirection(dragStartTile, { x: targetX, y: targetY }) : undefined;
+          if (selectedTool === 'one_way_road' && !roadDirection) return;
+          
           // Place all tiles from start to target in a straight line
           // Skip water tiles - they'll be handled on mouse up for bridge creation
           const minX = Math.min(dragStartTile.x, targetX);
@@ -2980,7 +3064,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
                   placedRoadTilesRef.current.add(key);
                   continue;
                 }
-                placeAtTile(x, y);
+                placeAtTile(x, y, false, roadDirection);
                 placedRoadTilesRef.current.add(key);
               }
             }
@@ -3007,22 +3091,20 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     } else {
       panCandidateRef.current = null;
     }
-    // Fill the drag rectangle when mouse is released (only for zoning tools)
-    if (isDragging && dragStartTile && dragEndTile && showsDragGrid) {
-      const minX = Math.min(dragStartTile.x, dragEndTile.x);
-      const maxX = Math.max(dragStartTile.x, dragEndTile.x);
-      const minY = Math.min(dragStartTile.y, dragEndTile.y);
-      const maxY = Math.max(dragStartTile.y, dragEndTile.y);
-      
-      for (let x = minX; x <= maxX; x++) {
-        for (let y = minY; y <= maxY; y++) {
-          placeAtTile(x, y);
-        }
-      }
+    // Place the whole brush when mouse is released (only for brush tools), or copy the area into a blueprint
+    if (isDragging && dragStartTile && dragEndTile && isCopyingBlueprint) {
+      copyBlueprint(dragStartTile, dragEndTile);
+    } else if (isDragging && dragStartTile && dragEndTile && showsDragGrid) {
+      placeBatch(brushTiles.map(({ x, y }) => ({ x, y, tool: selectedTool })));
+    }
+    
+    // A one-way road clicked rather than dragged is placed (or reversed) without a direction
+    if (isDragging && selectedTool === 'one_way_road' && dragStartTile && !placedRoadTilesRef.current.has(`${dragStartTile.x},${dragStartTile.y}`)) {
+      placeAtTile(dragStartTile.x, dragStartTile.y);
     }
     
     // After placing roads or rail, create bridges for valid water crossings and check for city discovery
-    if (isDragging && (selectedTool === 'road' || selectedTool === 'rail') && dragStartTile && dragEndTile) {
+    if (isDragging && (isRoadTool(selectedTool) || selectedTool === 'rail') && dragStartTile && dragEndTile) {
       // Collect all tiles in the drag path
       const minX = Math.min(dragStartTile.x, dragEndTile.x);
       const maxX = Math.max(dragStartTile.x, dragEndTile.x);
@@ -3037,7 +3119,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       }
       
       // Create bridges for valid water crossings in the drag path
-      finishTrackDrag(pathTiles, selectedTool as 'road' | 'rail');
+      finishTrackDrag(pathTiles, selectedTool === 'rail' ? 'rail' : 'road');
       
       // Use setTimeout to allow state to update first, then check for discoverable cities
       setTimeout(() => {
@@ -3055,12 +3137,13 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
     setIsPanning(false);
     setRoadDrawDirection(null);
     placedRoadTilesRef.current.clear();
+    endUndoGroup();
     
     // Clear hovered tile when mouse leaves
     if (!containerRef.current) {
       setHoveredTile(null);
     }
-  }, [isDragging, showsDragGrid, dragStartTile, placeAtTile, finishTrackDrag, selectedTool, dragEndTile, checkAndDiscoverCities, findBuildingOrigin, setSelectedTile, isPanning]);
+  }, [isDragging, showsDragGrid, isCopyingBlueprint, copyBlueprint, dragStartTile, placeAtTile, placeBatch, brushTiles, finishTrackDrag, endUndoGroup, selectedTool, dragEndTile, checkAndDiscoverCities, findBuildingOrigin, setSelectedTile, isPanning]);
   
   const handleWheel = useCallback((e: React.WheelEvent) => {
     e.preventDefault();
@@ -3210,7 +3293,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
           if (rect) {
             const mouseX = (touch.clientX - rect.left) / zoom;
             const mouseY = (touch.clientY - rect.top) / zoom;
-            const { gridX, gridY } = screenToGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom);
+            const { gridX, gridY } = screenToTerrainGrid(mouseX, mouseY, offset.x / zoom, offset.y / zoom, grid);
 
             if (gridX >= 0 && gridX < gridSize && gridY >= 0 && gridY < gridSize) {
               if (selectedTool === 'select') {
@@ -3244,7 +3327,7 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
       initialPinchDistanceRef.current = null;
       lastTouchCenterRef.current = null;
     }
-  }, [zoom, offset, gridSize, selectedTool, placeAtTile, setSelectedTile, findBuildingOrigin]);
+  }, [zoom, offset, gridSize, grid, selectedTool, placeAtTile, setSelectedTile, findBuildingOrigin]);
   
   return (
     <div
@@ -3393,11 +3476,20 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
           isWaterfrontPlacementInvalid = !waterCheck.hasWater;
         }
 
+        // Hill buildings need high ground
+        let isHillPlacementInvalid = false;
+        if (requiresElevation(buildingType)) {
+          const size = getBuildingSize(buildingType);
+          isHillPlacementInvalid = !hasRequiredElevation(grid, hoveredTile.x, hoveredTile.y, size.width, size.height);
+        }
+
         const toolName = m(TOOL_INFO[selectedTool].name);
+        const tileCost = getToolCost(grid, gridSize, hoveredTile.x, hoveredTile.y, selectedTool);
+        const blueprintCost = activeBlueprint ? getBlueprintCost(activeBlueprint, { grid, gridSize, x: hoveredTile.x, y: hoveredTile.y }) : 0;
 
         return (
           <div className={`absolute bottom-4 left-1/2 -translate-x-1/2 px-4 py-2 rounded-md text-sm ${
-            isWaterfrontPlacementInvalid
+            isWaterfrontPlacementInvalid || isHillPlacementInvalid
               ? 'border bg-destructive/90 border-destructive-foreground/30 text-destructive-foreground'
               : 'border bg-card/90 border-border'
           }`}>
@@ -3406,24 +3498,44 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
                 {(() => {
                   const areaWidth = Math.abs(dragEndTile.x - dragStartTile.x) + 1;
                   const areaHeight = Math.abs(dragEndTile.y - dragStartTile.y) + 1;
-                  const totalCost = TOOL_INFO[selectedTool].cost * areaWidth * areaHeight;
+                  // Only tiles the brush would change are charged
+                  const preview = getBrushCost(grid, brushTiles, selectedTool);
                   return (
                     <>
-                      {gt('{toolName} - {width}x{height} area', { toolName, width: areaWidth, height: areaHeight })}
-                      {TOOL_INFO[selectedTool].cost > 0 && ` - $${totalCost}`}
+                      {brushShape === 'line'
+                        ? gt('{toolName} - {count} tiles', { toolName, count: brushTiles.length })
+                        : gt('{toolName} - {width}x{height} area', { toolName, width: areaWidth, height: areaHeight })}
+                      {TOOL_INFO[selectedTool].cost > 0 && (
+                        <span className={preview.cost > state.stats.money ? 'text-red-500' : undefined}>
+                          {` - $${preview.cost.toLocaleString()}`}
+                        </span>
+                      )}
                     </>
                   );
                 })()}
               </>
+            ) : selectedTool === 'blueprint' && activeBlueprint ? (
+              <>
+                {gt('{name} - {width}x{height}', { name: activeBlueprint.name, width: activeBlueprint.width, height: activeBlueprint.height })}
+                <span className={blueprintCost > state.stats.money ? 'text-red-500' : undefined}>
+                  {` - $${blueprintCost.toLocaleString()}`}
+                </span>
+                {gt(' - R to rotate, F to mirror')}
+              </>
             ) : isWaterfrontPlacementInvalid ? (
               <>
                 {gt('{toolName} must be placed next to water', { toolName })}
               </>
+            ) : isHillPlacementInvalid ? (
+              <>
+                {gt('{toolName} must be placed on a hill', { toolName })}
+              </>
             ) : (
               <>
                 {gt('{toolName} at ({x}, {y})', { toolName, x: hoveredTile.x, y: hoveredTile.y })}
-                {TOOL_INFO[selectedTool].cost > 0 && ` - $${TOOL_INFO[selectedTool].cost}`}
-                {showsDragGrid && gt(' - Drag to zone area')}
+                {tileCost > 0 && ` - $${tileCost}`}
+                {tileCost > TOOL_INFO[selectedTool].cost && gt(' (steep ground)')}
+                {isCopyingBlueprint ? gt(' - Drag to copy area') : showsDragGrid && gt(' - Drag to paint area')}
                 {supportsDragPlace && !showsDragGrid && gt(' - Drag to place')}
               </>
             )}
@@ -3431,6 +3543,23 @@ export function CanvasIsometricGrid({ overlayMode, selectedTile, setSelectedTile
         );
       })()}
       
+      {/* Brush shape picker for zoning, trees and bulldozing */}
+      {isBrushTool(selectedTool) && !isMobile && (
+        <div className="absolute bottom-16 left-1/2 -translate-x-1/2 flex items-center gap-0 bg-card/90 border border-border rounded-md p-0.5">
+          {BRUSH_SHAPES.map(shape => (
+            <Button
+              key={shape}
+              onClick={() => setBrushShape(shape)}
+              variant={brushShape === shape ? 'default' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+            >
+              {m(BRUSH_SHAPE_LABELS[shape])}
+            </Button>
+          ))}
+        </div>
+      )}
+      
       {/* Incident Tooltip - shows when hovering over fire or crime */}
       {hoveredIncident && (() => {
         // Calculate position to avoid overflow
@@ -6,6 +6,8 @@ import { useMessages } from 'gt-next';
 import { useGame } from '@/context/GameContext';
 import { Card } from '@/components/ui/card';
 import { TILE_WIDTH, TILE_HEIGHT } from '@/components/game/types';
+import { POWER_PLANT_TYPES } from '@/lib/power';
+import { WATER_SOURCE_TYPES } from '@/lib/waterSupply';
 
 // Service buildings for minimap color mapping
 const SERVICE_BUILDINGS = new Set([
@@ -93,8 +95,8 @@ export const MiniMap = React.memo(function MiniMap({ onNavigate, viewport }: Min
           else if (tile.zone === 'industrial' && buildingType !== 'grass') color = '#f59e0b';
           else if (tile.zone === 'industrial') color = '#b45309';
           else if (serviceBuildings.has(buildingType)) color = '#c084fc';
-          else if (buildingType === 'power_plant') color = '#f97316';
-          else if (buildingType === 'water_tower') color = '#06b6d4';
+          else if (POWER_PLANT_TYPES.has(buildingType)) color = '#f97316';
+          else if (WATER_SOURCE_TYPES.has(buildingType)) color = '#06b6d4';
           else if (parkBuildings.has(buildingType)) color = '#84cc16';
           
           ctx.fillStyle = color;
@@ -14,9 +14,26 @@ import {
   HealthIcon,
   EducationIcon,
   SubwayIcon,
+  EnvironmentIcon,
+  SmogIcon,
+  AlertIcon,
+  TreeIcon,
+  MoneyIcon,
 } from '@/components/ui/Icons';
 import { OverlayMode } from './types';
-import { OVERLAY_CONFIG, getOverlayButtonClass } from './overlays';
+import {
+  OVERLAY_CONFIG,
+  POLLUTION_OVERLAY_RGB,
+  POLLUTION_OVERLAY_MAX_ALPHA,
+  WATER_PIPE_COLOR,
+  CONTAMINATED_WATER_COLOR,
+  UNCOVERED_WARNING,
+  LAND_VALUE_LOW_RGB,
+  LAND_VALUE_HIGH_RGB,
+  LAND_VALUE_OVERLAY_MAX_ALPHA,
+  getOverlayButtonClass,
+  isPollutionOverlay,
+} from './overlays';
 
 // ============================================================================
 // Types
@@ -25,6 +42,16 @@ import { OVERLAY_CONFIG, getOverlayButtonClass } from './overlays';
 export interface OverlayModeToggleProps {
   overlayMode: OverlayMode;
   setOverlayMode: (mode: OverlayMode) => void;
+  /** Current grid load (MW), shown with the power overlay */
+  powerDemand?: number;
+  /** Current generation (MW) */
+  powerSupply?: number;
+  /** Nameplate generation under ideal conditions (MW) */
+  powerCapacity?: number;
+  /** Water drawn by buildings on a pipe network (kL/day), shown with the water overlay */
+  waterDemand?: number;
+  /** Water the connected pumps and wells deliver (kL/day) */
+  waterSupply?: number;
 }
 
 // ============================================================================
@@ -41,6 +68,12 @@ const OVERLAY_ICONS: Record<OverlayMode, React.ReactNode> = {
   health: <HealthIcon size={14} />,
   education: <EducationIcon size={14} />,
   subway: <SubwayIcon size={14} />,
+  treatment: <EnvironmentIcon size={14} />,
+  landValue: <MoneyIcon size={14} />,
+  pollution: <SmogIcon size={14} />,
+  toxic: <AlertIcon size={14} />,
+  thermal: <FireIcon size={14} />,
+  nutrient: <TreeIcon size={14} />,
 };
 
 // ============================================================================
@@ -48,6 +81,16 @@ const OVERLAY_ICONS: Record<OverlayMode, React.ReactNode> = {
 // ============================================================================
 
 const VIEW_OVERLAY_LABEL = msg('View Overlay');
+const POLLUTION_LABEL = msg('Pollution');
+const LEGEND_LOW_LABEL = msg('Clean');
+const LEGEND_HIGH_LABEL = msg('Severe');
+const LOAD_LABEL = msg('Load');
+const CAPACITY_LABEL = msg('Capacity');
+const PIPES_LABEL = msg('Pipes');
+const CONTAMINATED_LABEL = msg('Contaminated');
+const DRY_LABEL = msg('No water');
+const LAND_VALUE_LOW_LABEL = msg('Cheap');
+const LAND_VALUE_HIGH_LABEL = msg('Prime');
 
 // ============================================================================
 // Component
@@ -61,8 +104,35 @@ const VIEW_OVERLAY_LABEL = msg('View Overlay');
 export const OverlayModeToggle = React.memo(function OverlayModeToggle({
   overlayMode,
   setOverlayMode,
+  powerDemand = 0,
+  powerSupply = 0,
+  powerCapacity = 0,
+  waterDemand = 0,
+  waterSupply = 0,
 }: OverlayModeToggleProps) {
   const m = useMessages();
+  const loadScale = Math.max(powerDemand, powerCapacity, 1);
+  const allModes = Object.keys(OVERLAY_CONFIG) as OverlayMode[];
+  const serviceModes = allModes.filter(mode => !isPollutionOverlay(mode));
+  const pollutionModes = allModes.filter(isPollutionOverlay);
+  
+  const renderButton = (mode: OverlayMode) => {
+    const config = OVERLAY_CONFIG[mode];
+    const isActive = overlayMode === mode;
+    
+    return (
+      <Button
+        key={mode}
+        variant={isActive ? 'default' : 'ghost'}
+        size="sm"
+        onClick={() => setOverlayMode(mode)}
+        className={`h-8 px-3 ${getOverlayButtonClass(mode, isActive)}`}
+        title={config.title}
+      >
+        {OVERLAY_ICONS[mode]}
+      </Button>
+    );
+  };
   
   return (
     <Card className="fixed bottom-4 left-[240px] p-2 shadow-lg bg-card/90 border-border/70 z-50">
@@ -70,24 +140,66 @@ export const OverlayModeToggle = React.memo(function OverlayModeToggle({
         {m(VIEW_OVERLAY_LABEL)}
       </div>
       <div className="flex gap-1">
-        {(Object.keys(OVERLAY_CONFIG) as OverlayMode[]).map((mode) => {
-          const config = OVERLAY_CONFIG[mode];
-          const isActive = overlayMode === mode;
-          
-          return (
-            <Button
-              key={mode}
-              variant={isActive ? 'default' : 'ghost'}
-              size="sm"
-              onClick={() => setOverlayMode(mode)}
-              className={`h-8 px-3 ${getOverlayButtonClass(mode, isActive)}`}
-              title={config.title}
-            >
-              {OVERLAY_ICONS[mode]}
-            </Button>
-          );
-        })}
+        {serviceModes.map(renderButton)}
+      </div>
+      <div className="text-[10px] uppercase tracking-[0.12em] text-muted-foreground font-semibold mt-2 mb-2">
+        {m(POLLUTION_LABEL)}
+      </div>
+      <div className="flex gap-1">
+        {pollutionModes.map(renderButton)}
       </div>
+      {isPollutionOverlay(overlayMode) && (
+        <div className="flex items-center gap-2 mt-2 text-[10px] text-muted-foreground">
+          <span>{m(LEGEND_LOW_LABEL)}</span>
+          <div
+            className="h-2 flex-1 rounded-sm border border-border/70"
+            style={{
+              background: `linear-gradient(to right, rgba(${POLLUTION_OVERLAY_RGB[overlayMode]}, 0), rgba(${POLLUTION_OVERLAY_RGB[overlayMode]}, ${POLLUTION_OVERLAY_MAX_ALPHA}))`,
+            }}
+          />
+          <span>{m(LEGEND_HIGH_LABEL)}</span>
+        </div>
+      )}
+      {overlayMode === 'landValue' && (
+        <div className="flex items-center gap-2 mt-2 text-[10px] text-muted-foreground">
+          <span>{m(LAND_VALUE_LOW_LABEL)}</span>
+          <div
+            className="h-2 flex-1 rounded-sm border border-border/70"
+            style={{
+              background: `linear-gradient(to right, rgba(${LAND_VALUE_LOW_RGB}, ${LAND_VALUE_OVERLAY_MAX_ALPHA}), rgba(${LAND_VALUE_LOW_RGB}, 0), rgba(${LAND_VALUE_HIGH_RGB}, 0), rgba(${LAND_VALUE_HIGH_RGB}, ${LAND_VALUE_OVERLAY_MAX_ALPHA}))`,
+            }}
+          />
+          <span>{m(LAND_VALUE_HIGH_LABEL)}</span>
+        </div>
+      )}
+      {overlayMode === 'power' && (
+        <div className="mt-2 space-y-1 text-[10px] text-muted-foreground">
+          <div className="relative h-2 rounded-sm border border-border/70 bg-muted/40 overflow-hidden">
+            {/* Current generation, with the load drawn over it */}
+            <div className="absolute inset-y-0 left-0 bg-amber-500/40" style={{ width: `${(powerSupply / loadScale) * 100}%` }} />
+            <div
+              className={`absolute inset-y-0 left-0 ${powerDemand > powerSupply ? 'bg-red-500/80' : 'bg-green-500/80'}`}
+              style={{ width: `${(Math.min(powerDemand, powerSupply) / loadScale) * 100}%` }}
+            />
+          </div>
+          <div className="flex justify-between font-mono">
+            <span>{m(LOAD_LABEL)} {Math.round(powerDemand)} / {Math.round(powerSupply)} MW</span>
+            <span>{m(CAPACITY_LABEL)} {Math.round(powerCapacity)} MW</span>
+          </div>
+        </div>
+      )}
+      {overlayMode === 'water' && (
+        <div className="mt-2 space-y-1 text-[10px] text-muted-foreground">
+          <div className="flex gap-3">
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm" style={{ background: WATER_PIPE_COLOR }} />{m(PIPES_LABEL)}</span>
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm" style={{ background: CONTAMINATED_WATER_COLOR }} />{m(CONTAMINATED_LABEL)}</span>
+            <span className="flex items-center gap-1"><span className="h-2 w-2 rounded-sm" style={{ background: UNCOVERED_WARNING }} />{m(DRY_LABEL)}</span>
+          </div>
+          <div className="font-mono">
+            <span className={waterDemand > waterSupply ? 'text-red-400' : ''}>{m(LOAD_LABEL)} {Math.round(waterDemand)} / {Math.round(waterSupply)} kL/day</span>
+          </div>
+        </div>
+      )}
     </Card>
   );
 });
@@ -25,15 +25,19 @@ const CATEGORY_LABELS: Record<string, unknown> = {
 // UI labels for translation
 const UI_LABELS = {
   budget: msg('Budget'),
+  policies: msg('Policies'),
   statistics: msg('Statistics'),
   advisors: msg('Advisors'),
   settings: msg('Settings'),
+  blueprints: msg('Blueprints'),
 };
 import {
   BudgetIcon,
+  PolicyIcon,
   ChartIcon,
   AdvisorIcon,
   SettingsIcon,
+  BlueprintIcon,
 } from '@/components/ui/Icons';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -495,7 +499,7 @@ export const Sidebar = React.memo(function Sidebar({ onExit }: { onExit?: () =>
   
   // Direct tool categories (shown inline)
   const directCategories = useMemo(() => ({
-    'TOOLS': ['select', 'bulldoze', 'road', 'rail', 'subway'] as Tool[],
+    'TOOLS': ['select', 'bulldoze', 'road', 'avenue', 'highway', 'one_way_road', 'rail', 'subway', 'water_pipe', 'blueprint'] as Tool[],
     'ZONES': ['zone_residential', 'zone_commercial', 'zone_industrial'] as Tool[],
   }), []);
   
@@ -552,7 +556,7 @@ export const Sidebar = React.memo(function Sidebar({ onExit }: { onExit?: () =>
     { 
       key: 'utilities', 
       label: CATEGORY_LABELS.utilities, 
-      tools: ['power_plant', 'water_tower', 'subway_station', 'rail_station'] as Tool[],
+      tools: ['power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_pump', 'water_tower', 'subway_station', 'rail_station'] as Tool[],
       forceOpenUpward: true
     },
     { 
@@ -703,11 +707,13 @@ export const Sidebar = React.memo(function Sidebar({ onExit }: { onExit?: () =>
       </ScrollArea>
       
       <div className="border-t border-sidebar-border p-2">
-        <div className="grid grid-cols-4 gap-1">
+        <div className="grid grid-cols-6 gap-1">
           {[
             { panel: 'budget' as const, icon: <BudgetIcon size={16} />, labelKey: 'budget' as const },
+            { panel: 'policies' as const, icon: <PolicyIcon size={16} />, labelKey: 'policies' as const },
             { panel: 'statistics' as const, icon: <ChartIcon size={16} />, labelKey: 'statistics' as const },
             { panel: 'advisors' as const, icon: <AdvisorIcon size={16} />, labelKey: 'advisors' as const },
+            { panel: 'blueprints' as const, icon: <BlueprintIcon size={16} />, labelKey: 'blueprints' as const },
             { panel: 'settings' as const, icon: <SettingsIcon size={16} />, labelKey: 'settings' as const },
           ].map(({ panel, icon, labelKey }) => (
             <Button
@@ -17,6 +17,8 @@ import {
   EnvironmentIcon,
   ShareIcon,
   CheckIcon,
+  UndoIcon,
+  RedoIcon,
 } from '@/components/ui/Icons';
 import { copyShareUrl } from '@/lib/shareState';
 import { LanguageSelector } from '@/components/ui/LanguageSelector';
@@ -33,6 +35,8 @@ const UI_LABELS = {
   education: msg('Education'),
   safety: msg('Safety'),
   environment: msg('Environment'),
+  undo: msg('Undo (Ctrl+Z)'),
+  redo: msg('Redo (Ctrl+Shift+Z)'),
 };
 
 // ============================================================================
@@ -172,7 +176,7 @@ export const StatsPanel = React.memo(function StatsPanel() {
 // ============================================================================
 
 export const TopBar = React.memo(function TopBar() {
-  const { state, setSpeed, setTaxRate, visualHour } = useGame();
+  const { state, setSpeed, setTaxRate, visualHour, undo, redo, canUndo, canRedo } = useGame();
   const { stats, year, month, day, speed, taxRate, cityName } = state;
   const m = useMessages();
   
@@ -225,6 +229,15 @@ export const TopBar = React.memo(function TopBar() {
             </Button>
           ))}
         </div>
+        
+        <div className="flex items-center gap-0">
+          <Button onClick={undo} disabled={!canUndo} variant="ghost" size="icon-sm" className="h-7 w-7" title={String(m(UI_LABELS.undo))}>
+            <UndoIcon size={14} />
+          </Button>
+          <Button onClick={redo} disabled={!canRedo} variant="ghost" size="icon-sm" className="h-7 w-7" title={String(m(UI_LABELS.redo))}>
+            <RedoIcon size={14} />
+          </Button>
+        </div>
       </div>
       
       <div className="flex items-center gap-3">
@@ -98,7 +98,8 @@ export function useBoatSystem(
       
       // Find adjacent water tile for positioning
       const waterTile = findAdjacentWaterTileCallback(homeDock.x, homeDock.y);
-      if (waterTile) {
+      // No boats go out onto water choked by an algae bloom
+      if (waterTile && !currentGrid[waterTile.y]?.[waterTile.x]?.algaeBloom) {
         // Generate tour waypoints within the connected body of water
         const tourWaypoints = generateTourWaypointsCallback(waterTile.x, waterTile.y);
         
@@ -191,6 +192,16 @@ export function useBoatSystem(
         }
         
         case 'touring': {
+          // Cut the tour short if the next waypoint's water has started blooming
+          const currentWaypoint = boat.tourWaypoints[boat.tourWaypointIndex];
+          if (currentWaypoint && currentGrid[currentWaypoint.tileY]?.[currentWaypoint.tileX]?.algaeBloom) {
+            boat.state = 'sailing';
+            boat.destScreenX = boat.homeScreenX;
+            boat.destScreenY = boat.homeScreenY;
+            boat.age = 0;
+            break;
+          }
+
           // Navigate through tour waypoints
           const angleToWaypoint = Math.atan2(boat.destScreenY - boat.y, boat.destScreenX - boat.x);
           boat.targetAngle = angleToWaypoint;
@@ -161,6 +161,8 @@ export const ROTOR_WASH_SPAWN_INTERVAL = 0.04; // seconds between rotor wash par
 
 // Water asset path
 export const WATER_ASSET_PATH = '/assets/water.png';
+export const ALGAE_BLOOM_TINT = '#6b8e23'; // Green scum over water in an algae bloom
+export const ALGAE_BLOOM_TINT_ALPHA = 0.55;
 
 // Boat system constants
 export const BOAT_COLORS = ['#ffffff', '#1e3a5f', '#8b4513', '#2f4f4f', '#c41e3a', '#1e90ff']; // Various boat hull colors
@@ -285,6 +287,6 @@ export const FIREWORK_MIN_ZOOM = 0.3;             // Minimum zoom to show firewo
 
 // PERF: Pre-computed building type sets for O(1) lookups during lighting calculations
 // These are module-level constants to avoid allocating on every render frame
-export const NON_LIT_BUILDING_TYPES = new Set(['grass', 'empty', 'water', 'road', 'tree', 'park', 'park_large', 'tennis']);
+export const NON_LIT_BUILDING_TYPES = new Set(['grass', 'empty', 'water', 'road', 'tree', 'park', 'park_large', 'tennis', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_pump']);
 export const RESIDENTIAL_BUILDING_TYPES = new Set(['house_small', 'house_medium', 'mansion', 'apartment_low', 'apartment_high']);
 export const COMMERCIAL_BUILDING_TYPES = new Set(['shop_small', 'shop_medium', 'office_low', 'office_high', 'mall']);
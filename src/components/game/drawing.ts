@@ -91,6 +91,14 @@ export const FOUNDATION_COLORS: TileColorScheme = {
   stroke: '#6b4423',  // Dark brown stroke
 };
 
+/** Exposed earth on the front faces of raised terrain */
+export const TERRAIN_SIDE_COLORS: TileColorScheme = {
+  top: '#4a7c3f',
+  left: '#7a5c3a',
+  right: '#5e4529',
+  stroke: '#3f2e1b',
+};
+
 // ============================================================================
 // Geometry Helpers
 // ============================================================================
@@ -202,6 +210,41 @@ export function drawGreenBaseTile(
   }
 }
 
+/**
+ * Draw the two front faces under a raised tile, dropping `height` pixels.
+ * Tiles in front are drawn afterwards and cover whatever part of the faces they hide.
+ */
+export function drawTerrainSides(
+  ctx: CanvasRenderingContext2D,
+  x: number,
+  y: number,
+  height: number,
+  currentZoom: number
+): void {
+  if (height <= 0) return;
+  const corners = getDiamondCorners(x, y);
+  const faces = [
+    { from: corners.left, fill: TERRAIN_SIDE_COLORS.left },
+    { from: corners.right, fill: TERRAIN_SIDE_COLORS.right },
+  ];
+
+  for (const face of faces) {
+    ctx.fillStyle = face.fill;
+    ctx.beginPath();
+    ctx.moveTo(face.from.x, face.from.y);
+    ctx.lineTo(corners.bottom.x, corners.bottom.y);
+    ctx.lineTo(corners.bottom.x, corners.bottom.y + height);
+    ctx.lineTo(face.from.x, face.from.y + height);
+    ctx.closePath();
+    ctx.fill();
+    if (currentZoom >= 0.6) {
+      ctx.strokeStyle = TERRAIN_SIDE_COLORS.stroke;
+      ctx.lineWidth = 0.5;
+      ctx.stroke();
+    }
+  }
+}
+
 /**
  * Draw a grey base tile for buildings.
  */
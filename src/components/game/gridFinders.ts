@@ -709,8 +709,9 @@ export function generateTourWaypoints(
   startTileX: number,
   startTileY: number
 ): TourWaypoint[] {
-  // Find all water tiles connected to the starting point
-  const waterTiles = findConnectedWaterTiles(grid, gridSize, startTileX, startTileY);
+  // Find all water tiles connected to the starting point, avoiding any algae bloom
+  const waterTiles = findConnectedWaterTiles(grid, gridSize, startTileX, startTileY)
+    .filter(tile => !grid[tile.y][tile.x].algaeBloom);
 
   if (waterTiles.length < 3) return []; // Too small for a tour
 
@@ -3,6 +3,8 @@
  * Comprehensive incident system for city simulation
  */
 
+import { ZoneType } from '@/types/game';
+
 // ============================================================================
 // CRIME TYPES
 // ============================================================================
@@ -90,6 +92,9 @@ export interface CrimeData {
   weight: number; // relative spawn frequency (higher = more common)
 }
 
+/** Dispatch priority of each severity, highest first */
+export const CRIME_SEVERITY_RANK: Record<CrimeData['severity'], number> = { critical: 3, high: 2, medium: 1, low: 0 };
+
 export const CRIME_DATA: Record<CrimeType, CrimeData> = {
   // Violent Crimes (critical/high severity, longer duration)
   armed_robbery: {
@@ -517,13 +522,36 @@ export const CRIME_DATA: Record<CrimeType, CrimeData> = {
 // Get all crime types as an array
 export const CRIME_TYPES = Object.keys(CRIME_DATA) as CrimeType[];
 
-// Get a weighted random crime type
-export function getRandomCrimeType(): CrimeType {
-  const totalWeight = CRIME_TYPES.reduce((sum, type) => sum + CRIME_DATA[type].weight, 0);
+// Multipliers on CRIME_DATA weights for crimes that belong (or don't) in a zone; unlisted crimes keep their weight
+export const ZONE_CRIME_WEIGHTS: Record<ZoneType, Partial<Record<CrimeType, number>>> = {
+  none: {},
+  residential: {
+    burglary: 3, home_invasion: 3, package_theft: 3, bike_theft: 2, car_theft: 2, domestic_disturbance: 3,
+    noise_complaint: 2, prowler: 2, stalking: 2,
+    commercial_burglary: 0, shoplifting: 0, smash_and_grab: 0.2, warehouse_theft: 0, construction_theft: 0.5,
+    embezzlement: 0.2, illegal_dumping: 0.5,
+  },
+  commercial: {
+    shoplifting: 4, commercial_burglary: 3, smash_and_grab: 3, armed_robbery: 2, credit_card_fraud: 3,
+    counterfeiting: 2, illegal_street_vendor: 3, public_intoxication: 2, parking_violation: 2, mugging: 2,
+    burglary: 0.2, home_invasion: 0, package_theft: 0.3, domestic_disturbance: 0, warehouse_theft: 0,
+  },
+  industrial: {
+    warehouse_theft: 4, construction_theft: 3, illegal_dumping: 4, embezzlement: 2, insurance_fraud: 2,
+    trespassing: 3, vandalism: 2, graffiti: 2, arson_attempt: 2, street_racing: 2,
+    burglary: 0.2, home_invasion: 0, package_theft: 0, shoplifting: 0, domestic_disturbance: 0, noise_complaint: 0.3,
+  },
+};
+
+// Get a weighted random crime type, skewed toward crimes that fit the zone it happens in
+export function getRandomCrimeType(zone: ZoneType = 'none'): CrimeType {
+  const zoneWeights = ZONE_CRIME_WEIGHTS[zone];
+  const getWeight = (type: CrimeType) => CRIME_DATA[type].weight * (zoneWeights[type] ?? 1);
+  const totalWeight = CRIME_TYPES.reduce((sum, type) => sum + getWeight(type), 0);
   let random = Math.random() * totalWeight;
   
   for (const type of CRIME_TYPES) {
-    random -= CRIME_DATA[type].weight;
+    random -= getWeight(type);
     if (random <= 0) {
       return type;
     }
@@ -3,7 +3,8 @@
  * Handles visualization overlays for power, water, services, etc.
  */
 
-import { Tile } from '@/types/game';
+import { Tile, PollutantChannel } from '@/types/game';
+import { getPollutants } from '@/lib/pollution';
 import { OverlayMode } from './types';
 
 // ============================================================================
@@ -16,6 +17,7 @@ export type ServiceCoverage = {
   police: number;
   health: number;
   education: number;
+  treatment: number;
 };
 
 /** Configuration for an overlay mode */
@@ -84,12 +86,119 @@ export const OVERLAY_CONFIG: Record<OverlayMode, OverlayConfig> = {
     activeColor: 'bg-yellow-500',
     hoverColor: 'hover:bg-yellow-600',
   },
+  treatment: {
+    label: 'Treatment',
+    title: 'Water Treatment Coverage',
+    activeColor: 'bg-teal-500',
+    hoverColor: 'hover:bg-teal-600',
+  },
+  landValue: {
+    label: 'Land Value',
+    title: 'Land Value',
+    activeColor: 'bg-emerald-600',
+    hoverColor: 'hover:bg-emerald-700',
+  },
+  pollution: {
+    label: 'Pollution',
+    title: 'Combined Pollution',
+    activeColor: 'bg-rose-500',
+    hoverColor: 'hover:bg-rose-600',
+  },
+  toxic: {
+    label: 'Toxic',
+    title: 'Toxic Pollution',
+    activeColor: 'bg-purple-600',
+    hoverColor: 'hover:bg-purple-700',
+  },
+  thermal: {
+    label: 'Thermal',
+    title: 'Thermal Pollution',
+    activeColor: 'bg-orange-500',
+    hoverColor: 'hover:bg-orange-600',
+  },
+  nutrient: {
+    label: 'Nutrient',
+    title: 'Nutrient Pollution',
+    activeColor: 'bg-lime-600',
+    hoverColor: 'hover:bg-lime-700',
+  },
 };
 
+// ============================================================================
+// Pollution Heatmaps
+// ============================================================================
+
+export type PollutionOverlayMode = 'pollution' | 'toxic' | 'thermal' | 'nutrient';
+
+/** Pollution overlays and the channel each one shows (null = combined total) */
+export const POLLUTION_OVERLAY_CHANNELS: Record<PollutionOverlayMode, PollutantChannel | null> = {
+  pollution: null,
+  toxic: 'toxic',
+  thermal: 'thermal',
+  nutrient: 'nutrient',
+};
+
+/** Heatmap base color (r, g, b) for each pollution overlay */
+export const POLLUTION_OVERLAY_RGB: Record<PollutionOverlayMode, string> = {
+  pollution: '225, 29, 72',  // Rose
+  toxic: '147, 51, 234',     // Purple
+  thermal: '249, 115, 22',   // Orange
+  nutrient: '101, 163, 13',  // Lime
+};
+
+/** Concentrations below this are left untinted so clean tiles stay readable */
+const POLLUTION_OVERLAY_MIN = 2;
+/** Heatmap opacity at 100% concentration */
+export const POLLUTION_OVERLAY_MAX_ALPHA = 0.75;
+
+export function isPollutionOverlay(mode: OverlayMode): mode is PollutionOverlayMode {
+  return mode in POLLUTION_OVERLAY_CHANNELS;
+}
+
+/** Overlays drawn on every tile (grass, water, roads), not only on buildings */
+export function overlayCoversAllTiles(mode: OverlayMode): boolean {
+  return mode === 'water' || mode === 'treatment' || mode === 'landValue' || isPollutionOverlay(mode);
+}
+
+// ============================================================================
+// Land Value Heatmap
+// ============================================================================
+
+/** Land value that gets no tint; cheaper land shades red, dearer land green */
+export const LAND_VALUE_OVERLAY_MIDPOINT = 50;
+export const LAND_VALUE_LOW_RGB = '239, 68, 68';   // Red
+export const LAND_VALUE_HIGH_RGB = '16, 185, 129'; // Emerald
+/** Heatmap opacity at 0 or 100 land value */
+export const LAND_VALUE_OVERLAY_MAX_ALPHA = 0.6;
+
+/** Diverging heatmap around the midpoint; water is left untinted */
+function getLandValueFillStyle(tile: Tile): string {
+  if (tile.building.type === 'water') return NO_OVERLAY;
+  const offset = tile.landValue - LAND_VALUE_OVERLAY_MIDPOINT;
+  const alpha = Math.min(1, Math.abs(offset) / LAND_VALUE_OVERLAY_MIDPOINT) * LAND_VALUE_OVERLAY_MAX_ALPHA;
+  if (alpha < 0.02) return NO_OVERLAY;
+  return `rgba(${offset > 0 ? LAND_VALUE_HIGH_RGB : LAND_VALUE_LOW_RGB}, ${alpha.toFixed(3)})`;
+}
+
+/** Heatmap color for a tile: opacity scales with the channel's concentration */
+function getPollutionFillStyle(mode: PollutionOverlayMode, tile: Tile): string {
+  const channel = POLLUTION_OVERLAY_CHANNELS[mode];
+  const level = channel ? getPollutants(tile)[channel] : tile.pollution;
+  if (level < POLLUTION_OVERLAY_MIN) return NO_OVERLAY;
+  const alpha = Math.min(1, level / 100) * POLLUTION_OVERLAY_MAX_ALPHA;
+  return `rgba(${POLLUTION_OVERLAY_RGB[mode]}, ${alpha.toFixed(3)})`;
+}
+
 /** Map of building tools to their corresponding overlay mode */
 export const TOOL_TO_OVERLAY_MAP: Record<string, OverlayMode> = {
+  select: 'pollution', // The Inspector views pollution levels
   power_plant: 'power',
+  solar_farm: 'power',
+  wind_turbine: 'power',
+  hydro_dam: 'power',
   water_tower: 'water',
+  water_pump: 'water',
+  water_pipe: 'water',
   fire_station: 'fire',
   police_station: 'police',
   hospital: 'health',
@@ -120,8 +229,20 @@ function tileNeedsCoverage(tile: Tile): boolean {
   return !NON_BUILDING_TYPES.has(tile.building.type);
 }
 
+/** Pollution above this shows as untreated in the treatment overlay */
+const TREATMENT_WARNING_POLLUTION = 10;
+
 /** Warning color for uncovered buildings */
-const UNCOVERED_WARNING = 'rgba(239, 68, 68, 0.45)'; // Red tint
+export const UNCOVERED_WARNING = 'rgba(239, 68, 68, 0.45)'; // Red tint
+
+/** Underground water pipes in the water overlay */
+export const WATER_PIPE_COLOR = 'rgba(59, 130, 246, 0.6)'; // Blue
+
+/** Buildings drinking contaminated piped water */
+export const CONTAMINATED_WATER_COLOR = 'rgba(132, 204, 22, 0.55)'; // Sickly green
+
+/** Buildings in plant range but shed during a brownout */
+const BROWNOUT_WARNING = 'rgba(245, 158, 11, 0.45)'; // Amber tint
 
 /** No overlay needed (transparent) */
 const NO_OVERLAY = 'rgba(0, 0, 0, 0)';
@@ -149,13 +270,16 @@ export function getOverlayFillStyle(
   
   switch (mode) {
     case 'power':
-      // Red warning only on unpowered buildings
+      // Amber on buildings shed in a brownout, red on buildings out of plant range
       if (!needsCoverage) return NO_OVERLAY;
+      if (tile.building.brownout) return BROWNOUT_WARNING;
       return tile.building.powered ? NO_OVERLAY : UNCOVERED_WARNING;
 
     case 'water':
-      // Red warning only on buildings without water
+      // Pipes in blue; green on buildings drinking contaminated water, red on buildings without any
+      if (tile.hasWaterPipe && !needsCoverage) return WATER_PIPE_COLOR;
       if (!needsCoverage) return NO_OVERLAY;
+      if (tile.building.contaminatedWater) return CONTAMINATED_WATER_COLOR;
       return tile.building.watered ? NO_OVERLAY : UNCOVERED_WARNING;
 
     case 'fire':
@@ -178,6 +302,22 @@ export function getOverlayFillStyle(
       if (!needsCoverage) return NO_OVERLAY;
       return coverage.education > 0 ? NO_OVERLAY : UNCOVERED_WARNING;
 
+    case 'treatment':
+      // Red warning on polluted land or water no treatment plant reaches
+      if (tile.pollution < TREATMENT_WARNING_POLLUTION) return NO_OVERLAY;
+      return coverage.treatment > 0 ? NO_OVERLAY : UNCOVERED_WARNING;
+
+    case 'landValue':
+      // Heatmap on every land tile, red below the midpoint and green above it
+      return getLandValueFillStyle(tile);
+
+    case 'pollution':
+    case 'toxic':
+    case 'thermal':
+    case 'nutrient':
+      // Heatmap on every tile so plumes can be followed across land and water
+      return getPollutionFillStyle(mode, tile);
+
     case 'subway':
       // Underground view overlay - keep existing behavior
       return tile.hasSubway
@@ -200,7 +340,8 @@ export function getOverlayForTool(tool: string): OverlayMode {
 
 /** List of all overlay modes (for iteration) */
 export const OVERLAY_MODES: OverlayMode[] = [
-  'none', 'power', 'water', 'fire', 'police', 'health', 'education', 'subway'
+  'none', 'power', 'water', 'fire', 'police', 'health', 'education', 'subway', 'treatment', 'landValue',
+  'pollution', 'toxic', 'thermal', 'nutrient',
 ];
 
 // ============================================================================
@@ -210,13 +351,19 @@ export const OVERLAY_MODES: OverlayMode[] = [
 /** Map overlay modes to their corresponding service building types */
 export const OVERLAY_TO_BUILDING_TYPES: Record<OverlayMode, string[]> = {
   none: [],
-  power: ['power_plant'],
-  water: ['water_tower'],
+  power: ['power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam'],
+  water: [], // Water travels through pipes, not across a radius
   fire: ['fire_station'],
   police: ['police_station'],
   health: ['hospital'],
   education: ['school', 'university'],
   subway: ['subway_station'],
+  treatment: ['water_tower'],
+  landValue: [],
+  pollution: [],
+  toxic: [],
+  thermal: [],
+  nutrient: [],
 };
 
 /** Overlay circle stroke colors (light/visible colors) */
@@ -229,6 +376,12 @@ export const OVERLAY_CIRCLE_COLORS: Record<OverlayMode, string> = {
   health: 'rgba(134, 239, 172, 0.8)',  // Light green
   education: 'rgba(196, 181, 253, 0.8)', // Light purple
   subway: 'rgba(253, 224, 71, 0.8)',   // Yellow
+  treatment: 'rgba(94, 234, 212, 0.8)', // Teal
+  landValue: 'transparent',
+  pollution: 'transparent',
+  toxic: 'transparent',
+  thermal: 'transparent',
+  nutrient: 'transparent',
 };
 
 /** Building highlight glow colors */
@@ -241,6 +394,12 @@ export const OVERLAY_HIGHLIGHT_COLORS: Record<OverlayMode, string> = {
   health: 'rgba(34, 197, 94, 1)',      // Green
   education: 'rgba(168, 85, 247, 1)',  // Purple
   subway: 'rgba(234, 179, 8, 1)',      // Yellow
+  treatment: 'rgba(20, 184, 166, 1)',  // Teal
+  landValue: 'transparent',
+  pollution: 'transparent',
+  toxic: 'transparent',
+  thermal: 'transparent',
+  nutrient: 'transparent',
 };
 
 /** Overlay circle fill colors (subtle, for area visibility) */
@@ -253,4 +412,10 @@ export const OVERLAY_CIRCLE_FILL_COLORS: Record<OverlayMode, string> = {
   health: 'rgba(134, 239, 172, 0.12)',
   education: 'rgba(196, 181, 253, 0.12)',
   subway: 'rgba(253, 224, 71, 0.12)',
+  treatment: 'rgba(94, 234, 212, 0.12)',
+  landValue: 'transparent',
+  pollution: 'transparent',
+  toxic: 'transparent',
+  thermal: 'transparent',
+  nutrient: 'transparent',
 };
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { msg, useMessages } from 'gt-next';
+import { useGame } from '@/context/GameContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Card } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Blueprint } from '@/types/game';
+import { getBlueprintCost, serializeBlueprint } from '@/lib/blueprints';
+
+// Translatable UI labels
+const UI_LABELS = {
+  blueprints: msg('Blueprints'),
+  current: msg('Current blueprint'),
+  noCurrent: msg('Pick the Blueprint tool and drag over an area to copy it.'),
+  save: msg('Save'),
+  rotate: msg('Rotate'),
+  mirror: msg('Mirror'),
+  discard: msg('Discard'),
+  library: msg('Stamp library'),
+  empty: msg('No saved stamps yet.'),
+  use: msg('Use'),
+  export: msg('Export'),
+  delete: msg('Delete'),
+  import: msg('Import file'),
+  importFailed: msg('That file is not a blueprint.'),
+};
+
+/** Download a blueprint as a stamp file */
+function exportBlueprint(blueprint: Blueprint): void {
+  const blob = new Blob([serializeBlueprint(blueprint)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${blueprint.name.replace(/[^a-z0-9_-]+/gi, '_')}.blueprint.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function BlueprintsPanel() {
+  const {
+    setActivePanel,
+    setTool,
+    activeBlueprint,
+    setActiveBlueprint,
+    rotateBlueprint,
+    mirrorBlueprint,
+    blueprints,
+    saveBlueprint,
+    deleteBlueprint,
+    importBlueprint,
+  } = useGame();
+  const m = useMessages();
+  const [name, setName] = useState(activeBlueprint?.name ?? '');
+  const [nameSource, setNameSource] = useState(activeBlueprint);
+  const [importFailed, setImportFailed] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // Follow the blueprint being pasted when another one is picked or it is renamed
+  if (activeBlueprint?.id !== nameSource?.id || activeBlueprint?.name !== nameSource?.name) {
+    setNameSource(activeBlueprint);
+    setName(activeBlueprint?.name ?? '');
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImportFailed(!importBlueprint(await file.text()));
+  };
+
+  const handleUse = (blueprint: Blueprint) => {
+    setActiveBlueprint(blueprint);
+    setTool('blueprint'); // Also closes the panel
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={() => setActivePanel('none')}>
+      <DialogContent className="max-w-[500px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{m(UI_LABELS.blueprints)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2 pb-4 border-b border-border">
+          <div className="text-muted-foreground text-xs uppercase tracking-wider">{m(UI_LABELS.current)}</div>
+          {activeBlueprint ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Input value={name} onChange={(e) => setName(e.target.value)} className="h-8 text-sm" />
+                <Button size="sm" onClick={() => saveBlueprint(name)}>{m(UI_LABELS.save)}</Button>
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-muted-foreground flex-1">
+                  {activeBlueprint.width}x{activeBlueprint.height} - <span className="font-mono">${getBlueprintCost(activeBlueprint).toLocaleString()}</span>
+                </span>
+                <Button size="sm" variant="ghost" onClick={rotateBlueprint}>{m(UI_LABELS.rotate)}</Button>
+                <Button size="sm" variant="ghost" onClick={mirrorBlueprint}>{m(UI_LABELS.mirror)}</Button>
+                <Button size="sm" variant="ghost" onClick={() => setActiveBlueprint(null)}>{m(UI_LABELS.discard)}</Button>
+              </div>
+            </>
+          ) : (
+            <div className="text-muted-foreground text-sm">{m(UI_LABELS.noCurrent)}</div>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="text-muted-foreground text-xs uppercase tracking-wider">{m(UI_LABELS.library)}</div>
+          <Button size="sm" variant="outline" onClick={() => fileInputRef.current?.click()}>{m(UI_LABELS.import)}</Button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImport} />
+        </div>
+        {importFailed && <div className="text-red-400 text-xs">{m(UI_LABELS.importFailed)}</div>}
+
+        <div className="space-y-2">
+          {blueprints.length === 0 && <div className="text-muted-foreground text-sm">{m(UI_LABELS.empty)}</div>}
+          {blueprints.map(blueprint => (
+            <Card key={blueprint.id} className={`p-3 bg-primary/10 border-primary/30 ${activeBlueprint?.id === blueprint.id ? 'border-l-2 border-l-green-500' : ''}`}>
+              <div className="flex items-center gap-2">
+                <div className="flex-1 min-w-0">
+                  <div className="text-foreground font-medium text-sm truncate">{blueprint.name}</div>
+                  <div className="text-muted-foreground text-xs">
+                    {blueprint.width}x{blueprint.height} - <span className="font-mono">${getBlueprintCost(blueprint).toLocaleString()}</span>
+                  </div>
+                </div>
+                <Button size="sm" onClick={() => handleUse(blueprint)}>{m(UI_LABELS.use)}</Button>
+                <Button size="sm" variant="ghost" onClick={() => exportBlueprint(blueprint)}>{m(UI_LABELS.export)}</Button>
+                <Button size="sm" variant="ghost" className="text-red-400" onClick={() => deleteBlueprint(blueprint.id)}>{m(UI_LABELS.delete)}</Button>
+              </div>
+            </Card>
+          ))}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -6,18 +6,64 @@ import { useGame } from '@/context/GameContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Slider } from '@/components/ui/slider';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { BudgetReport } from './BudgetReport';
+import { DebtKind, TaxRates } from '@/types/game';
+import { getAnnualCarbon, MIN_CARBON_CAP, MAX_CARBON_CAP } from '@/lib/carbon';
+import { MAX_POLLUTION_SURCHARGE, TAX_ZONES } from '@/lib/taxes';
+import {
+  DEBT_AMOUNTS,
+  DEBT_TERMS,
+  getBorrowingBlocker,
+  getCreditRating,
+  getDebtRatio,
+  getInterestRate,
+  getTotalDebt,
+  getWeeklyDebtService,
+} from '@/lib/finance';
 
 // Translatable UI labels
 const UI_LABELS = {
   budget: msg('Budget'),
+  report: msg('Report'),
   income: msg('Income'),
   expenses: msg('Expenses'),
   net: msg('Net'),
+  pollutionSurcharge: msg('Pollution Surcharge'),
+  pollutionSurchargeHint: msg('Added to industrial tax, scaled by how much each building pollutes'),
+  carbonCap: msg('Carbon Cap'),
+  emittedThisYear: msg('Emitted (last 12 months)'),
+  carbonCredit: msg('Carbon credits'),
+  carbonTax: msg('Carbon tax'),
+  creditRating: msg('Credit Rating'),
+  debtRatio: msg('Debt ratio'),
+  totalDebt: msg('Owed'),
+  debtService: msg('Debt service'),
+  loan: msg('Loan'),
+  bond: msg('Bond'),
+  repay: msg('Repay'),
+  weeksLeft: msg('wk left'),
 };
 
+const DEBT_KINDS: DebtKind[] = ['loan', 'bond'];
+
+const TAX_LABELS = {
+  residential: msg('Residential Tax'),
+  commercial: msg('Commercial Tax'),
+  industrial: msg('Industrial Tax'),
+} satisfies Record<keyof TaxRates, string>;
+
+function formatRate(rate: number): string {
+  return `${(rate * 100).toFixed(1)}%`;
+}
+
 export function BudgetPanel() {
-  const { state, setActivePanel, setBudgetFunding } = useGame();
-  const { budget, stats } = state;
+  const { state, setActivePanel, setBudgetFunding, setCarbonCap, takeDebt, repayDebt, setZoneTaxRate, setPollutionSurcharge } = useGame();
+  const { budget, stats, carbon, debts, taxRates, pollutionSurcharge } = state;
+  const carbonBalance = stats.carbonBalance ?? 0;
+  const totalDebt = getTotalDebt(debts);
+  const rating = getCreditRating(debts, stats.income, stats.money);
   const m = useMessages();
   
   const categories = [
@@ -33,46 +79,187 @@ export function BudgetPanel() {
   
   return (
     <Dialog open={true} onOpenChange={() => setActivePanel('none')}>
-      <DialogContent className="max-w-[500px]">
+      <DialogContent className="max-w-[500px] max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>{m(UI_LABELS.budget)}</DialogTitle>
         </DialogHeader>
         
-        <div className="space-y-6">
-          <div className="grid grid-cols-3 gap-4 pb-4 border-b border-border">
-            <div>
-              <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.income)}</div>
-              <div className="text-green-400 font-mono">${stats.income.toLocaleString()}/mo</div>
-            </div>
-            <div>
-              <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.expenses)}</div>
-              <div className="text-red-400 font-mono">${stats.expenses.toLocaleString()}/mo</div>
+        <div className="grid grid-cols-3 gap-4 pb-4 border-b border-border">
+          <div>
+            <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.income)}</div>
+            <div className="text-green-400 font-mono">${stats.income.toLocaleString()}/mo</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.expenses)}</div>
+            <div className="text-red-400 font-mono">${stats.expenses.toLocaleString()}/mo</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.net)}</div>
+            <div className={`font-mono ${stats.income - stats.expenses >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+              ${(stats.income - stats.expenses).toLocaleString()}/mo
             </div>
-            <div>
-              <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.net)}</div>
-              <div className={`font-mono ${stats.income - stats.expenses >= 0 ? 'text-green-400' : 'text-red-400'}`}>
-                ${(stats.income - stats.expenses).toLocaleString()}/mo
+          </div>
+        </div>
+
+        <Tabs defaultValue="budget">
+          <TabsList className="w-full">
+            <TabsTrigger value="budget" className="flex-1">{m(UI_LABELS.budget)}</TabsTrigger>
+            <TabsTrigger value="report" className="flex-1">{m(UI_LABELS.report)}</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="budget" className="space-y-6">
+            <div className="space-y-4 pb-4 border-b border-border">
+              {TAX_ZONES.map(zone => (
+                <div key={zone} className="flex items-center gap-4">
+                  <Label className="w-28 text-sm">{m(TAX_LABELS[zone])}</Label>
+                  <Slider
+                    value={[taxRates[zone]]}
+                    onValueChange={(value) => setZoneTaxRate(zone, value[0])}
+                    min={0}
+                    max={100}
+                    step={1}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-right font-mono text-sm">{taxRates[zone]}%</span>
+                </div>
+              ))}
+              <div>
+                <div className="flex items-center gap-4">
+                  <Label className="w-28 text-sm">{m(UI_LABELS.pollutionSurcharge)}</Label>
+                  <Slider
+                    value={[pollutionSurcharge]}
+                    onValueChange={(value) => setPollutionSurcharge(value[0])}
+                    min={0}
+                    max={MAX_POLLUTION_SURCHARGE}
+                    step={1}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-right font-mono text-sm">+{pollutionSurcharge}%</span>
+                </div>
+                <p className="text-muted-foreground text-xs mt-1">{m(UI_LABELS.pollutionSurchargeHint)}</p>
               </div>
             </div>
-          </div>
+
+            <div className="space-y-4">
+              {categories.map(cat => (
+                <div key={cat.key} className="flex items-center gap-4">
+                  <Label className="w-28 text-sm">{cat.name}</Label>
+                  <Slider
+                    value={[cat.funding]}
+                    onValueChange={(value) => setBudgetFunding(cat.key as keyof typeof budget, value[0])}
+                    min={0}
+                    max={100}
+                    step={5}
+                    className="flex-1"
+                  />
+                  <span className="w-12 text-right font-mono text-sm">{cat.funding}%</span>
+                </div>
+              ))}
+            </div>
           
-          <div className="space-y-4">
-            {categories.map(cat => (
-              <div key={cat.key} className="flex items-center gap-4">
-                <Label className="w-28 text-sm">{cat.name}</Label>
+            <div className="space-y-3 pt-4 border-t border-border">
+              <div className="flex items-center gap-4">
+                <Label className="w-28 text-sm">{m(UI_LABELS.carbonCap)}</Label>
                 <Slider
-                  value={[cat.funding]}
-                  onValueChange={(value) => setBudgetFunding(cat.key as keyof typeof budget, value[0])}
-                  min={0}
-                  max={100}
-                  step={5}
+                  value={[carbon.cap]}
+                  onValueChange={(value) => setCarbonCap(value[0])}
+                  min={MIN_CARBON_CAP}
+                  max={MAX_CARBON_CAP}
+                  step={500}
                   className="flex-1"
                 />
-                <span className="w-12 text-right font-mono text-sm">{cat.funding}%</span>
+                <span className="w-20 text-right font-mono text-sm">{carbon.cap.toLocaleString()}t</span>
               </div>
-            ))}
-          </div>
-        </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{m(UI_LABELS.emittedThisYear)}</span>
+                <span className={`font-mono ${getAnnualCarbon(carbon) > carbon.cap ? 'text-red-400' : 'text-foreground'}`}>
+                  {Math.round(getAnnualCarbon(carbon)).toLocaleString()}t
+                </span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">{carbonBalance >= 0 ? m(UI_LABELS.carbonCredit) : m(UI_LABELS.carbonTax)}</span>
+                <span className={`font-mono ${carbonBalance >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                  {carbonBalance >= 0 ? '+' : '-'}${Math.abs(carbonBalance).toLocaleString()}/mo
+                </span>
+              </div>
+            </div>
+
+            <div className="space-y-3 pt-4 border-t border-border">
+              <div className="flex justify-between items-baseline">
+                <Label className="text-sm">{m(UI_LABELS.creditRating)}</Label>
+                <span className={`font-mono font-semibold ${rating.startsWith('A') ? 'text-green-400' : rating === 'BBB' ? 'text-foreground' : 'text-red-400'}`}>
+                  {rating}
+                </span>
+              </div>
+              <div className="grid grid-cols-3 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.totalDebt)}</div>
+                  <div className="font-mono">${Math.round(totalDebt).toLocaleString()}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.debtRatio)}</div>
+                  <div className="font-mono">{getDebtRatio(totalDebt, stats.income).toFixed(2)}x</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground text-xs mb-1">{m(UI_LABELS.debtService)}</div>
+                  <div className="text-red-400 font-mono">${getWeeklyDebtService(debts).toLocaleString()}/wk</div>
+                </div>
+              </div>
+              {DEBT_KINDS.map(kind => (
+                <div key={kind} className="flex items-center gap-2">
+                  <div className="w-28 text-sm">
+                    <div>{kind === 'loan' ? m(UI_LABELS.loan) : m(UI_LABELS.bond)}</div>
+                    <div className="text-muted-foreground text-xs font-mono">
+                      {formatRate(getInterestRate(kind, rating))} · {Math.round(DEBT_TERMS[kind].weeks / 52)}y
+                    </div>
+                  </div>
+                  <div className="flex-1 grid grid-cols-4 gap-1">
+                    {DEBT_AMOUNTS.map(amount => {
+                      const blocker = getBorrowingBlocker(kind, amount, debts, stats.income, stats.money);
+                      return (
+                        <Button
+                          key={amount}
+                          variant="outline"
+                          size="sm"
+                          className="font-mono text-xs px-1"
+                          disabled={blocker !== null}
+                          title={blocker ?? undefined}
+                          onClick={() => takeDebt(kind, amount)}
+                        >
+                          ${amount / 1000}k
+                        </Button>
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {debts.length > 0 && (
+                <div className="space-y-1">
+                  {debts.map(debt => (
+                    <div key={debt.id} className="flex items-center justify-between gap-2 text-xs">
+                      <span className="w-10">{debt.kind === 'loan' ? m(UI_LABELS.loan) : m(UI_LABELS.bond)}</span>
+                      <span className="font-mono flex-1">${Math.round(debt.balance).toLocaleString()} @ {formatRate(debt.rate)}</span>
+                      <span className="text-muted-foreground font-mono">{debt.weeksRemaining} {m(UI_LABELS.weeksLeft)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 px-2 text-xs"
+                        disabled={stats.money < Math.ceil(debt.balance)}
+                        onClick={() => repayDebt(debt.id)}
+                      >
+                        {m(UI_LABELS.repay)}
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="report">
+            <BudgetReport />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
@@ -0,0 +1,138 @@
+'use client';
+
+import React from 'react';
+import { msg, useMessages } from 'gt-next';
+import { useGame } from '@/context/GameContext';
+import { Budget, ExpenseCategory, IncomeSource, Tool, TOOL_INFO, UpkeepItem } from '@/types/game';
+import { EXPENSE_CATEGORIES, INCOME_SOURCES, getLedgerExpenses, getLedgerIncome, getUpkeepItemDepartment } from '@/lib/ledger';
+import { getWeeklyDebtService } from '@/lib/finance';
+
+// Translatable UI labels
+const UI_LABELS = {
+  income: msg('Income'),
+  expenses: msg('Expenses'),
+  total: msg('Total'),
+  debtService: msg('Debt service'),
+  byCity: msg('By City'),
+  nothingToReport: msg('Nothing yet'),
+};
+
+const INCOME_LABELS = {
+  residential: msg('Residential tax'),
+  commercial: msg('Commercial tax'),
+  industrial: msg('Industrial tax'),
+  property: msg('Property tax'),
+  pollutionSurcharge: msg('Pollution surcharge'),
+  carbonCredits: msg('Carbon credits'),
+} satisfies Record<IncomeSource, string>;
+
+const EXTRA_EXPENSE_LABELS = {
+  civic: msg('Civic & landmarks'),
+  policies: msg('Ordinances'),
+  carbonTax: msg('Carbon tax'),
+} satisfies Record<Exclude<ExpenseCategory, keyof Budget>, string>;
+
+function formatMoney(amount: number): string {
+  return `$${Math.round(amount).toLocaleString()}`;
+}
+
+/**
+ * Itemised view of the month's ledger: income by source, spending by department
+ * with the building types behind it, and totals for each city on the map.
+ */
+export function BudgetReport() {
+  const { state } = useGame();
+  const { ledger, budget, cities, debts } = state;
+  const m = useMessages();
+
+  const getExpenseLabel = (category: ExpenseCategory): string => {
+    if (category in EXTRA_EXPENSE_LABELS) return String(m(EXTRA_EXPENSE_LABELS[category as keyof typeof EXTRA_EXPENSE_LABELS]));
+    return budget[category as keyof Budget].name;
+  };
+  const getItemLabel = (item: UpkeepItem): string => {
+    const name = TOOL_INFO[item as Tool]?.name;
+    return name ? String(m(name as Parameters<typeof m>[0])) : item;
+  };
+
+  const upkeepItems = Object.keys(ledger.upkeep) as UpkeepItem[];
+  const totalIncome = getLedgerIncome(ledger);
+  const totalExpenses = getLedgerExpenses(ledger);
+  const weeklyDebtService = getWeeklyDebtService(debts);
+
+  return (
+    <div className="space-y-5 text-sm">
+      <div className="space-y-1">
+        <div className="text-muted-foreground text-xs uppercase tracking-wide mb-2">{m(UI_LABELS.income)}</div>
+        {INCOME_SOURCES.filter(source => ledger.income[source] > 0).map(source => (
+          <div key={source} className="flex justify-between">
+            <span>{m(INCOME_LABELS[source])}</span>
+            <span className="font-mono text-green-400">{formatMoney(ledger.income[source])}/mo</span>
+          </div>
+        ))}
+        {totalIncome === 0 && <div className="text-muted-foreground text-xs">{m(UI_LABELS.nothingToReport)}</div>}
+        <div className="flex justify-between pt-1 border-t border-border font-medium">
+          <span>{m(UI_LABELS.total)}</span>
+          <span className="font-mono text-green-400">{formatMoney(totalIncome)}/mo</span>
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-muted-foreground text-xs uppercase tracking-wide mb-2">{m(UI_LABELS.expenses)}</div>
+        {EXPENSE_CATEGORIES.filter(category => ledger.expenses[category] > 0).map(category => (
+          <div key={category}>
+            <div className="flex justify-between">
+              <span>
+                {getExpenseLabel(category)}
+                {category in budget && budget[category as keyof typeof budget].funding !== 100 && (
+                  <span className="text-muted-foreground text-xs ml-1">({budget[category as keyof typeof budget].funding}%)</span>
+                )}
+              </span>
+              <span className="font-mono text-red-400">{formatMoney(ledger.expenses[category])}/mo</span>
+            </div>
+            {upkeepItems.filter(item => getUpkeepItemDepartment(item) === category).map(item => {
+              const line = ledger.upkeep[item]!;
+              return (
+                <div key={item} className="flex justify-between text-xs text-muted-foreground pl-3">
+                  <span>{getItemLabel(item)} × {line.count}</span>
+                  <span className="font-mono">{formatMoney(line.cost)}</span>
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        {totalExpenses === 0 && <div className="text-muted-foreground text-xs">{m(UI_LABELS.nothingToReport)}</div>}
+        <div className="flex justify-between pt-1 border-t border-border font-medium">
+          <span>{m(UI_LABELS.total)}</span>
+          <span className="font-mono text-red-400">{formatMoney(totalExpenses)}/mo</span>
+        </div>
+        {weeklyDebtService > 0 && (
+          <div className="flex justify-between">
+            <span>{m(UI_LABELS.debtService)}</span>
+            <span className="font-mono text-red-400">{formatMoney(weeklyDebtService)}/wk</span>
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-muted-foreground text-xs uppercase tracking-wide mb-2">{m(UI_LABELS.byCity)}</div>
+        {cities.map(city => {
+          const entry = ledger.cities[city.id] ?? { income: 0, expenses: 0 };
+          const net = entry.income - entry.expenses;
+          return (
+            <div key={city.id} className="grid grid-cols-4 gap-2 items-center">
+              <span className="flex items-center gap-2 truncate">
+                <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: city.color }} />
+                <span className="truncate">{city.name}</span>
+              </span>
+              <span className="font-mono text-right text-green-400">{formatMoney(entry.income)}</span>
+              <span className="font-mono text-right text-red-400">{formatMoney(entry.expenses)}</span>
+              <span className={`font-mono text-right ${net >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                {net >= 0 ? '+' : '-'}{formatMoney(Math.abs(net))}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+'use client';
+
+import React from 'react';
+import { msg, useMessages } from 'gt-next';
+import { useGame } from '@/context/GameContext';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { PolicyId } from '@/types/game';
+import { getPoliciesCost, getPolicyCost, POLICIES, POLICY_IDS, PolicyDefinition } from '@/lib/policies';
+
+// Translatable UI labels
+const UI_LABELS = {
+  policies: msg('Policies'),
+  enacted: msg('Ordinances in force'),
+  perMonth: msg('/mo'),
+  pollution: msg('pollution'),
+  industrialPollution: msg('industrial pollution'),
+  farmRunoff: msg('farm runoff'),
+  commercialPollution: msg('commercial pollution'),
+  waterDemand: msg('water demand'),
+  traffic: msg('traffic'),
+  residentialDemand: msg('residential demand'),
+  commercialDemand: msg('commercial demand'),
+  industrialDemand: msg('industrial demand'),
+  happiness: msg('happiness'),
+};
+
+const POLICY_LABELS = {
+  wastewater_filtering: {
+    name: msg('Industrial Wastewater Filtering'),
+    description: msg('Factories must filter their discharge before it reaches the water.'),
+  },
+  fertilizer_limits: {
+    name: msg('Fertilizer Limits'),
+    description: msg('Caps fertilizer use on farms and greenhouses to curb algae blooms.'),
+  },
+  car_free_downtown: {
+    name: msg('Car-Free Downtown'),
+    description: msg('Closes shopping streets to through traffic.'),
+  },
+  recycling_program: {
+    name: msg('Recycling Program'),
+    description: msg('Kerbside collection for every household.'),
+  },
+  water_metering: {
+    name: msg('Water Metering'),
+    description: msg('Bills households for the water they use.'),
+  },
+} satisfies Record<PolicyId, { name: string; description: string }>;
+
+type EffectLabel = keyof typeof UI_LABELS;
+
+/** Effects of a policy as label/change pairs, positive meaning "more of" */
+function describeEffects(effects: PolicyDefinition['effects']): { label: EffectLabel; change: number; percent: boolean }[] {
+  const result: { label: EffectLabel; change: number; percent: boolean }[] = [];
+  const multipliers: [EffectLabel, number | undefined][] = [
+    ['pollution', effects.emissions],
+    ['industrialPollution', effects.industrialEmissions],
+    ['farmRunoff', effects.farmRunoff],
+    ['commercialPollution', effects.commercialEmissions],
+    ['waterDemand', effects.waterDemand],
+    ['traffic', effects.traffic],
+  ];
+  for (const [label, multiplier] of multipliers) {
+    if (multiplier !== undefined) result.push({ label, change: Math.round((multiplier - 1) * 100), percent: true });
+  }
+  const modifiers: [EffectLabel, number | undefined][] = [
+    ['residentialDemand', effects.demand?.residential],
+    ['commercialDemand', effects.demand?.commercial],
+    ['industrialDemand', effects.demand?.industrial],
+    ['happiness', effects.happiness],
+  ];
+  for (const [label, modifier] of modifiers) {
+    if (modifier) result.push({ label, change: modifier, percent: false });
+  }
+  return result;
+}
+
+// Less pollution, water and traffic is good; more demand and happiness is good
+const LOWER_IS_BETTER = new Set<EffectLabel>(['pollution', 'industrialPollution', 'farmRunoff', 'commercialPollution', 'waterDemand', 'traffic']);
+
+export function PoliciesPanel() {
+  const { state, setActivePanel, setPolicy } = useGame();
+  const { policies, stats } = state;
+  const m = useMessages();
+
+  return (
+    <Dialog open={true} onOpenChange={() => setActivePanel('none')}>
+      <DialogContent className="max-w-[500px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{m(UI_LABELS.policies)}</DialogTitle>
+        </DialogHeader>
+
+        <div className="flex justify-between items-center pb-4 border-b border-border text-sm">
+          <span className="text-muted-foreground">{m(UI_LABELS.enacted)}: {policies.length}</span>
+          <span className="font-mono text-red-400">${getPoliciesCost(policies, stats.population).toLocaleString()}{m(UI_LABELS.perMonth)}</span>
+        </div>
+
+        <div className="space-y-3">
+          {POLICY_IDS.map(id => {
+            const enacted = policies.includes(id);
+            return (
+              <Card key={id} className={`p-3 bg-primary/10 border-primary/30 ${enacted ? 'border-l-2 border-l-green-500' : ''}`}>
+                <div className="flex items-center gap-3">
+                  <div className="flex-1">
+                    <div className="text-foreground font-medium text-sm">{m(POLICY_LABELS[id].name)}</div>
+                    <div className="text-muted-foreground text-xs">{m(POLICY_LABELS[id].description)}</div>
+                  </div>
+                  <span className="font-mono text-xs text-muted-foreground">${getPolicyCost(id, stats.population).toLocaleString()}{m(UI_LABELS.perMonth)}</span>
+                  <Switch checked={enacted} onCheckedChange={(checked) => setPolicy(id, checked)} />
+                </div>
+                <div className="flex flex-wrap gap-1 mt-2">
+                  {describeEffects(POLICIES[id].effects).map(({ label, change, percent }) => {
+                    const good = LOWER_IS_BETTER.has(label) ? change < 0 : change > 0;
+                    return (
+                      <Badge key={label} variant="secondary" className={`text-[10px] ${good ? 'text-green-400' : 'text-red-400'}`}>
+                        {change > 0 ? '+' : ''}{change}{percent ? '%' : ''} {m(UI_LABELS[label])}
+                      </Badge>
+                    );
+                  })}
+                </div>
+              </Card>
+            );
+          })}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -97,7 +97,7 @@ function formatPopulation(pop: number): string {
 async function loadExampleState(
   filename: string,
   loadState: (stateString: string) => boolean,
-  setActivePanel: (panel: 'none' | 'budget' | 'statistics' | 'advisors' | 'settings') => void
+  setActivePanel: (panel: 'none' | 'budget' | 'policies' | 'statistics' | 'advisors' | 'settings') => void
 ): Promise<void> {
   try {
     const response = await fetch(`/example-states/${filename}`);
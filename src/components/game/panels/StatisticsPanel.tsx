@@ -6,6 +6,8 @@ import { useGame } from '@/context/GameContext';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Card } from '@/components/ui/card';
 import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CommuteMode } from '@/types/game';
+import { COMMUTE_MODES } from '@/lib/traffic';
 
 // Translatable UI labels
 const UI_LABELS = {
@@ -16,13 +18,33 @@ const UI_LABELS = {
   weekly: msg('Weekly'),
   money: msg('Money'),
   happiness: msg('Happiness'),
+  carbon: msg('CO₂'),
+  commute: msg('Average Commute'),
+  minutes: msg('min'),
+  noCommuters: msg('No one is commuting yet'),
   notEnoughData: msg('Not enough data yet. Keep playing to see historical trends.'),
 };
 
+const COMMUTE_MODE_LABELS = {
+  walk: msg('Walk'),
+  car: msg('Car'),
+  subway: msg('Subway'),
+  rail: msg('Rail'),
+} satisfies Record<CommuteMode, string>;
+
+const COMMUTE_MODE_COLORS: Record<CommuteMode, string> = {
+  walk: 'bg-green-400',
+  car: 'bg-amber-400',
+  subway: 'bg-blue-400',
+  rail: 'bg-purple-400',
+};
+
 export function StatisticsPanel() {
   const { state, setActivePanel } = useGame();
   const { history, stats } = state;
-  const [activeTab, setActiveTab] = useState<'population' | 'money' | 'happiness'>('population');
+  const commuteModes = stats.commuteModes ?? { walk: 0, car: 0, subway: 0, rail: 0 };
+  const hasCommuters = COMMUTE_MODES.some(mode => commuteModes[mode] > 0);
+  const [activeTab, setActiveTab] = useState<'population' | 'money' | 'happiness' | 'carbon'>('population');
   const m = useMessages();
   
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -58,6 +80,10 @@ export function StatisticsPanel() {
         data = history.map(h => h.happiness);
         color = '#ec4899';
         break;
+      case 'carbon':
+        data = history.map(h => h.carbon ?? 0);
+        color = '#94a3b8';
+        break;
     }
     
     if (data.length < 2) return;
@@ -125,11 +151,41 @@ export function StatisticsPanel() {
             </Card>
           </div>
           
+          <Card className="p-2 sm:p-3">
+            <div className="flex justify-between items-baseline mb-2">
+              <span className="text-muted-foreground text-[10px] sm:text-xs">{m(UI_LABELS.commute)}</span>
+              <span className="font-mono tabular-nums font-semibold text-sm sm:text-base">
+                {Math.round(stats.commuteMinutes ?? 0)} {m(UI_LABELS.minutes)}
+              </span>
+            </div>
+            {hasCommuters ? (
+              <>
+                <div className="flex h-2 rounded-full overflow-hidden bg-muted">
+                  {COMMUTE_MODES.map(mode => (
+                    <div key={mode} className={COMMUTE_MODE_COLORS[mode]} style={{ width: `${commuteModes[mode]}%` }} />
+                  ))}
+                </div>
+                <div className="grid grid-cols-4 gap-2 mt-2 text-[10px] sm:text-xs">
+                  {COMMUTE_MODES.map(mode => (
+                    <div key={mode} className="flex items-center gap-1">
+                      <span className={`w-2 h-2 rounded-full shrink-0 ${COMMUTE_MODE_COLORS[mode]}`} />
+                      <span className="text-muted-foreground truncate">{m(COMMUTE_MODE_LABELS[mode])}</span>
+                      <span className="font-mono tabular-nums ml-auto">{Math.round(commuteModes[mode])}%</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : (
+              <div className="text-muted-foreground text-xs">{m(UI_LABELS.noCommuters)}</div>
+            )}
+          </Card>
+          
           <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as typeof activeTab)}>
-            <TabsList className="grid w-full grid-cols-3 h-auto">
+            <TabsList className="grid w-full grid-cols-4 h-auto">
               <TabsTrigger value="population" className="text-xs sm:text-sm py-2 px-2 sm:px-3">{m(UI_LABELS.population)}</TabsTrigger>
               <TabsTrigger value="money" className="text-xs sm:text-sm py-2 px-2 sm:px-3">{m(UI_LABELS.money)}</TabsTrigger>
               <TabsTrigger value="happiness" className="text-xs sm:text-sm py-2 px-2 sm:px-3">{m(UI_LABELS.happiness)}</TabsTrigger>
+              <TabsTrigger value="carbon" className="text-xs sm:text-sm py-2 px-2 sm:px-3">{m(UI_LABELS.carbon)}</TabsTrigger>
             </TabsList>
           </Tabs>
           
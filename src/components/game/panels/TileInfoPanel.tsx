@@ -1,7 +1,7 @@
 'use client';
 
 import React, { useMemo } from 'react';
-import { Tile, BuildingType, TOOL_INFO, Tool } from '@/types/game';
+import { Tile, BuildingType, CommuteMode, RoadClass, TOOL_INFO, Tool } from '@/types/game';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -14,7 +14,31 @@ import {
   SERVICE_MAX_LEVEL,
   SERVICE_RANGE_INCREASE_PER_LEVEL,
   SERVICE_UPGRADE_COST_BASE,
+  getTreatmentCapacity,
+  getPowerPlantOutput,
+  getWaterSourceReport,
 } from '@/lib/simulation';
+import { isPowerPlant } from '@/lib/power';
+import { isContaminated } from '@/lib/waterSupply';
+import { computeFlowField, DEFAULT_WATER_DEPTH, getCurrentDirection, isWaterSurface } from '@/lib/hydrology';
+import { getPollutants, POLLUTANT_CHANNELS } from '@/lib/pollution';
+import { COMMUTE_MODES, getCongestion } from '@/lib/traffic';
+import { getRoadClass, getRoadDefinition } from '@/lib/roads';
+import { getElevation, getSlope } from '@/lib/terrain';
+
+const COMMUTE_MODE_NAMES: Record<CommuteMode, string> = {
+  walk: 'on foot',
+  car: 'by car',
+  subway: 'by subway',
+  rail: 'by rail',
+};
+
+const ROAD_CLASS_NAMES: Record<RoadClass, string> = {
+  street: 'Street',
+  avenue: 'Avenue',
+  highway: 'Highway',
+  one_way: 'One-Way',
+};
 
 interface TileInfoPanelProps {
   tile: Tile;
@@ -25,6 +49,8 @@ interface TileInfoPanelProps {
     education: number[][];
     power: boolean[][];
     water: boolean[][];
+    treatment?: number[][];
+    waterContamination?: number[][];
   };
   onClose: () => void;
   isMobile?: boolean;
@@ -64,6 +90,12 @@ export function TileInfoPanel({
     const currentEffectiveRange = Math.floor(baseRange * (1 + (currentLevel - 1) * SERVICE_RANGE_INCREASE_PER_LEVEL));
     const nextEffectiveRange = Math.floor(baseRange * (1 + currentLevel * SERVICE_RANGE_INCREASE_PER_LEVEL));
     
+    // Treatment plants also gain throughput per level
+    const treatment = buildingType === 'water_tower' ? {
+      current: getTreatmentCapacity(currentLevel, state.budget.water.funding),
+      next: getTreatmentCapacity(currentLevel + 1, state.budget.water.funding),
+    } : null;
+    
     return {
       cost: upgradeCost,
       canAfford,
@@ -74,8 +106,43 @@ export function TileInfoPanel({
       baseRange,
       currentEffectiveRange,
       nextEffectiveRange,
+      treatment,
+    };
+  }, [isServiceBuilding, tile.building, state.stats.money, state.budget.water.funding]);
+  
+  // Depth and current for water tiles (hydrology model)
+  const waterInfo = useMemo(() => {
+    if (!isWaterSurface(tile)) return null;
+    const flow = computeFlowField(state.grid, state.gridSize, state.waterBodies);
+    return {
+      depth: tile.waterDepth ?? DEFAULT_WATER_DEPTH,
+      flowing: getCurrentDirection(flow, state.gridSize, x, y) !== null,
+    };
+  }, [tile, state.grid, state.gridSize, state.waterBodies, x, y]);
+  
+  // Live output of power plants against the city's load
+  const powerInfo = useMemo(() => {
+    if (!isPowerPlant(tile.building.type)) return null;
+    return {
+      output: getPowerPlantOutput(state, x, y),
+      supply: state.stats.powerSupply ?? 0,
+      demand: state.stats.powerDemand ?? 0,
     };
-  }, [isServiceBuilding, tile.building, state.stats.money]);
+  }, [tile.building.type, state, x, y]);
+  
+  // Live supply of pumping stations and treatment plant wells against the city's draw
+  const waterSourceInfo = useMemo(() => {
+    const report = getWaterSourceReport(state, x, y);
+    if (!report) return null;
+    return {
+      ...report,
+      isPump: tile.building.type === 'water_pump',
+      supply: state.stats.waterSupply ?? 0,
+      demand: state.stats.waterDemand ?? 0,
+    };
+  }, [tile.building.type, state, x, y]);
+  
+  const waterContamination = services.waterContamination?.[y]?.[x] ?? 0;
   
   const handleUpgrade = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -140,26 +207,161 @@ export function TileInfoPanel({
         
         <div className="flex justify-between">
           <span className="text-muted-foreground">Power</span>
-          <Badge variant={tile.building.powered ? 'default' : 'destructive'}>
-            {tile.building.powered ? 'Connected' : 'No Power'}
-          </Badge>
+          {tile.building.brownout ? (
+            <Badge variant="outline" className="bg-amber-500/20 text-amber-400">Brownout</Badge>
+          ) : (
+            <Badge variant={tile.building.powered ? 'default' : 'destructive'}>
+              {tile.building.powered ? 'Connected' : 'No Power'}
+            </Badge>
+          )}
         </div>
         <div className="flex justify-between">
           <span className="text-muted-foreground">Water</span>
-          <Badge variant={tile.building.watered ? 'default' : 'destructive'} className={tile.building.watered ? 'bg-cyan-500/20 text-cyan-400' : ''}>
-            {tile.building.watered ? 'Connected' : 'No Water'}
-          </Badge>
+          {tile.building.contaminatedWater ? (
+            <Badge variant="outline" className="bg-lime-500/20 text-lime-400">Contaminated</Badge>
+          ) : (
+            <Badge variant={tile.building.watered ? 'default' : 'destructive'} className={tile.building.watered ? 'bg-cyan-500/20 text-cyan-400' : ''}>
+              {tile.building.watered ? 'Connected' : 'No Water'}
+            </Badge>
+          )}
         </div>
+        {tile.hasWaterPipe && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Water Pipe</span>
+            <span className={isContaminated(waterContamination) ? 'text-lime-400' : ''}>
+              {waterContamination >= 1 ? `${Math.round(waterContamination)}% polluted` : 'Clean'}
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-muted-foreground">Land Value</span>
           <span>${tile.landValue}</span>
         </div>
+        {getElevation(tile) > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Elevation</span>
+            <span>Level {getElevation(tile)}, slope {getSlope(state.grid, x, y, state.gridSize)}</span>
+          </div>
+        )}
+        {(tile.crime ?? 0) > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Crime</span>
+            <span className={tile.crime > 50 ? 'text-red-400' : tile.crime > 25 ? 'text-amber-400' : ''}>
+              {Math.round(tile.crime)}%
+            </span>
+          </div>
+        )}
+        {tile.commute && tile.building.population > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Commute</span>
+            <span className={tile.commute.minutes > 40 ? 'text-red-400' : tile.commute.minutes > 25 ? 'text-amber-400' : ''}>
+              {tile.commute.minutes} min, mostly {COMMUTE_MODE_NAMES[COMMUTE_MODES.reduce((top, mode) => tile.commute!.trips[mode] > tile.commute!.trips[top] ? mode : top)]}
+            </span>
+          </div>
+        )}
+        {tile.building.type === 'road' && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Road</span>
+            <span>
+              {ROAD_CLASS_NAMES[getRoadClass(tile.building)]}
+              {tile.building.roadDirection && ` (${tile.building.roadDirection})`}
+              {' · '}{getRoadDefinition(tile).capacity.toLocaleString()} trips/day
+            </span>
+          </div>
+        )}
+        {(tile.traffic ?? 0) > 0 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Traffic</span>
+            <span className={getCongestion(tile) > 0.8 ? 'text-red-400' : getCongestion(tile) > 0.5 ? 'text-amber-400' : ''}>
+              {tile.traffic.toLocaleString()} trips/day
+            </span>
+          </div>
+        )}
         <div className="flex justify-between">
           <span className="text-muted-foreground">Pollution</span>
           <span className={tile.pollution > 50 ? 'text-red-400' : tile.pollution > 25 ? 'text-amber-400' : 'text-green-400'}>
             {Math.round(tile.pollution)}%
           </span>
         </div>
+        {tile.pollution >= 1 && (
+          <div className="grid grid-cols-3 gap-2 text-xs">
+            {POLLUTANT_CHANNELS.map(channel => (
+              <div key={channel} className="flex justify-between">
+                <span className="text-muted-foreground capitalize">{channel}</span>
+                <span>{Math.round(getPollutants(tile)[channel])}</span>
+              </div>
+            ))}
+          </div>
+        )}
+        {(tile.toxicBurden ?? 0) >= 1 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Toxic Buildup</span>
+            <span className="text-purple-400">{Math.round(tile.toxicBurden ?? 0)}%</span>
+          </div>
+        )}
+        {(tile.algae ?? 0) >= 1 && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Algae</span>
+            <span className="text-green-400">{Math.round(tile.algae ?? 0)}%</span>
+          </div>
+        )}
+        {tile.algaeBloom && (
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Algae Bloom</span>
+            <Badge variant="destructive">Fish Kill</Badge>
+          </div>
+        )}
+        
+        {powerInfo && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Output</span>
+              <span className="font-mono">{Math.round(powerInfo.output)} MW</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">City Load</span>
+              <span className={`font-mono ${powerInfo.demand > powerInfo.supply ? 'text-red-400' : 'text-green-400'}`}>
+                {Math.round(powerInfo.demand)} / {Math.round(powerInfo.supply)} MW
+              </span>
+            </div>
+          </>
+        )}
+        
+        {waterSourceInfo && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Supply</span>
+              <span className="font-mono">{Math.round(waterSourceInfo.output)} kL/day</span>
+            </div>
+            {waterSourceInfo.isPump && (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Intake Pollution</span>
+                <span className={isContaminated(waterSourceInfo.intakePollution) ? 'text-red-400' : 'text-green-400'}>
+                  {Math.round(waterSourceInfo.intakePollution)}%
+                </span>
+              </div>
+            )}
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">City Draw</span>
+              <span className={`font-mono ${waterSourceInfo.demand > waterSourceInfo.supply ? 'text-red-400' : 'text-green-400'}`}>
+                {Math.round(waterSourceInfo.demand)} / {Math.round(waterSourceInfo.supply)} kL/day
+              </span>
+            </div>
+          </>
+        )}
+        
+        {waterInfo && (
+          <>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Water Depth</span>
+              <span>{Math.round(waterInfo.depth * 100)}%</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Current</span>
+              <span>{waterInfo.flowing ? 'Flowing to sea' : 'Still water'}</span>
+            </div>
+          </>
+        )}
         
         {tile.building.onFire && (
           <>
@@ -191,6 +393,10 @@ export function TileInfoPanel({
             <span className="text-muted-foreground">Education</span>
             <span>{Math.round(services.education[y][x])}%</span>
           </div>
+          <div className="flex justify-between">
+            <span className="text-muted-foreground">Treatment</span>
+            <span>{Math.round(services.treatment?.[y]?.[x] ?? 0)}%</span>
+          </div>
         </div>
         
         {upgradeInfo && (
@@ -198,12 +404,22 @@ export function TileInfoPanel({
             <Separator />
             <div className="text-[10px] text-muted-foreground uppercase tracking-wider mb-2">Upgrade</div>
             <div className="space-y-2">
-              <div className="flex justify-between text-xs">
-                <span className="text-muted-foreground">Coverage Range</span>
-                <span className="font-mono">
-                  {upgradeInfo.currentEffectiveRange} → {upgradeInfo.nextEffectiveRange} tiles
-                </span>
-              </div>
+              {upgradeInfo.baseRange > 0 && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Coverage Range</span>
+                  <span className="font-mono">
+                    {upgradeInfo.currentEffectiveRange} → {upgradeInfo.nextEffectiveRange} tiles
+                  </span>
+                </div>
+              )}
+              {upgradeInfo.treatment && (
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Treatment Capacity</span>
+                  <span className="font-mono">
+                    {Math.round(upgradeInfo.treatment.current)} → {Math.round(upgradeInfo.treatment.next)} units/tick
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between text-xs">
                 <span className="text-muted-foreground">Upgrade Cost</span>
                 <span className={`font-mono ${upgradeInfo.canAfford ? 'text-foreground' : 'text-red-400'}`}>
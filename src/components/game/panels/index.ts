@@ -1,4 +1,6 @@
 export { BudgetPanel } from './BudgetPanel';
+export { PoliciesPanel } from './PoliciesPanel';
+export { BlueprintsPanel } from './BlueprintsPanel';
 export { StatisticsPanel } from './StatisticsPanel';
 export { SettingsPanel } from './SettingsPanel';
 export { AdvisorsPanel } from './AdvisorsPanel';
@@ -490,7 +490,7 @@ function updateExitingBuildingState(
     ped.activity = 'none';
     
     // Start heading home
-    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY);
+    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY, true);
     if (returnPath && returnPath.length > 0) {
       ped.path = returnPath;
       ped.pathIndex = 0;
@@ -545,7 +545,7 @@ function updateRecreationState(
     ped.hasBall = false;
     ped.activity = 'none';
     
-    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY);
+    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY, true);
     if (returnPath && returnPath.length > 0) {
       ped.path = returnPath;
       ped.pathIndex = 0;
@@ -605,7 +605,7 @@ function updateBeachState(
     ped.hasBeachMat = false;
     ped.beachEdge = null;
     
-    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY);
+    const returnPath = findPathOnRoads(grid, gridSize, ped.destX, ped.destY, ped.homeX, ped.homeY, true);
     if (returnPath && returnPath.length > 0) {
       ped.path = returnPath;
       ped.pathIndex = 0;
@@ -756,11 +756,11 @@ export function spawnPedestrianFromBuilding(
   homeY: number
 ): Pedestrian | null {
   // Find nearest road to spawn on
-  const roadTile = findNearestRoadToBuilding(grid, gridSize, buildingX, buildingY);
+  const roadTile = findNearestRoadToBuilding(grid, gridSize, buildingX, buildingY, true);
   if (!roadTile) return null;
   
   // Find path home
-  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY);
+  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY, true);
   if (!path || path.length === 0) return null;
   
   // Determine direction
@@ -807,11 +807,11 @@ export function spawnPedestrianAtRecreation(
   if (!tile) return null;
   
   // Find a road near the recreation area for eventual path home
-  const roadTile = findNearestRoadToBuilding(grid, gridSize, areaX, areaY);
+  const roadTile = findNearestRoadToBuilding(grid, gridSize, areaX, areaY, true);
   if (!roadTile) return null;
   
   // Find path home (for when they're done)
-  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY);
+  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY, true);
   if (!path || path.length === 0) return null;
   
   const ped = createPedestrian(
@@ -960,11 +960,11 @@ export function spawnPedestrianAtBeach(
   homeY: number
 ): Pedestrian | null {
   // Find a road near the land tile adjacent to beach for path home
-  const roadTile = findNearestRoadToBuilding(grid, gridSize, beachInfo.landX, beachInfo.landY);
+  const roadTile = findNearestRoadToBuilding(grid, gridSize, beachInfo.landX, beachInfo.landY, true);
   if (!roadTile) return null;
   
   // Find path home (for when they're done)
-  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY);
+  const path = findPathOnRoads(grid, gridSize, roadTile.x, roadTile.y, homeX, homeY, true);
   if (!path || path.length === 0) return null;
   
   const ped = createPedestrian(
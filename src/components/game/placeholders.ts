@@ -43,6 +43,10 @@ export const PLACEHOLDER_COLORS: Record<string, PlaceholderColor> = {
   // Utilities - grays
   power_plant: { top: '#9ca3af', left: '#6b7280', right: '#d1d5db', height: 1.0 },
   water_tower: { top: '#60a5fa', left: '#3b82f6', right: '#93c5fd', height: 1.4 },
+  solar_farm: { top: '#1e3a8a', left: '#64748b', right: '#94a3b8', height: 0.2 },
+  wind_turbine: { top: '#f1f5f9', left: '#cbd5e1', right: '#e2e8f0', height: 1.8 },
+  hydro_dam: { top: '#a8a29e', left: '#78716c', right: '#d6d3d1', height: 0.8 },
+  water_pump: { top: '#94a3b8', left: '#0e7490', right: '#22d3ee', height: 0.9 },
   subway_station: { top: '#6b7280', left: '#4b5563', right: '#9ca3af', height: 0.5 },
   // Special - golds
   stadium: { top: '#fbbf24', left: '#f59e0b', right: '#fcd34d', height: 0.8 },
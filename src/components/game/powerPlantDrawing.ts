@@ -0,0 +1,137 @@
+/**
+ * Procedural drawing for the renewable power plants (solar, wind, hydro),
+ * which have no artwork in the sprite packs.
+ */
+
+import { Tile } from '@/types/game';
+import { getBuildingSize } from '@/lib/simulation';
+import { drawFoundationPlot } from './drawing';
+
+type Point = { x: number; y: number };
+
+/** Screen-space corners of a footprint's top face, raised by `lift` pixels */
+function footprintCorners(x: number, y: number, width: number, height: number, w: number, h: number, lift: number) {
+  return {
+    top: { x: x + w / 2, y: y - lift },
+    right: { x: x + (width - 1) * (w / 2) + w, y: y + (width - 1) * (h / 2) + h / 2 - lift },
+    bottom: { x: x + (width - height) * (w / 2) + w / 2, y: y + (width + height - 2) * (h / 2) + h - lift },
+    left: { x: x - (height - 1) * (w / 2), y: y + (height - 1) * (h / 2) + h / 2 - lift },
+  };
+}
+
+function fillPolygon(ctx: CanvasRenderingContext2D, points: Point[], fill: string, stroke?: string): void {
+  ctx.fillStyle = fill;
+  ctx.beginPath();
+  ctx.moveTo(points[0].x, points[0].y);
+  for (let i = 1; i < points.length; i++) ctx.lineTo(points[i].x, points[i].y);
+  ctx.closePath();
+  ctx.fill();
+  if (stroke) {
+    ctx.strokeStyle = stroke;
+    ctx.lineWidth = 0.5;
+    ctx.stroke();
+  }
+}
+
+/** Rows of tilted photovoltaic panels on a gravel pad */
+function drawSolarFarm(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): void {
+  const { width, height } = getBuildingSize('solar_farm');
+  const pad = footprintCorners(x, y, width, height, w, h, 0);
+  fillPolygon(ctx, [pad.top, pad.right, pad.bottom, pad.left], '#9ca3af', 'rgba(0,0,0,0.2)');
+
+  for (let dy = 0; dy < height; dy++) {
+    for (let dx = 0; dx < width; dx++) {
+      const tileX = x + (dx - dy) * (w / 2);
+      const tileY = y + (dx + dy) * (h / 2);
+      // Two panel rows per tile, each raised at the back
+      for (let row = 0; row < 2; row++) {
+        const t0 = 0.15 + row * 0.4;
+        const t1 = t0 + 0.3;
+        const edge = (t: number, side: number): Point => ({
+          x: tileX + w / 2 + (side - t) * (w / 2) * 0.8,
+          y: tileY + h / 2 + (side + t - 1) * (h / 2) * 0.8,
+        });
+        const back0 = edge(t0, 0); const back1 = edge(t0, 1);
+        const front0 = edge(t1, 0); const front1 = edge(t1, 1);
+        const tilt = h * 0.25;
+        fillPolygon(ctx, [
+          { x: back0.x, y: back0.y - tilt }, { x: back1.x, y: back1.y - tilt }, front1, front0,
+        ], '#1e3a8a', '#93c5fd');
+      }
+    }
+  }
+}
+
+/** Tower, nacelle and three blades; the rotor angle varies per tile */
+function drawWindTurbine(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, tile: Tile): void {
+  const baseX = x + w / 2;
+  const baseY = y + h / 2;
+  const hubY = baseY - h * 1.8;
+
+  ctx.strokeStyle = '#e2e8f0';
+  ctx.lineWidth = Math.max(1.5, w * 0.04);
+  ctx.beginPath();
+  ctx.moveTo(baseX, baseY);
+  ctx.lineTo(baseX, hubY);
+  ctx.stroke();
+
+  ctx.fillStyle = '#f8fafc';
+  ctx.fillRect(baseX - w * 0.04, hubY - h * 0.06, w * 0.1, h * 0.12);
+
+  const rotor = ((tile.x * 37 + tile.y * 61) % 120) * (Math.PI / 180);
+  const bladeLength = h * 1.1;
+  ctx.strokeStyle = '#f1f5f9';
+  ctx.lineWidth = Math.max(1, w * 0.03);
+  for (let i = 0; i < 3; i++) {
+    const angle = rotor + i * (Math.PI * 2 / 3);
+    ctx.beginPath();
+    ctx.moveTo(baseX, hubY);
+    ctx.lineTo(baseX + Math.cos(angle) * bladeLength * 0.5, hubY + Math.sin(angle) * bladeLength * 0.5);
+    ctx.stroke();
+  }
+}
+
+/** Concrete dam wall with spillway streaks on the water side */
+function drawHydroDam(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number): void {
+  const { width, height } = getBuildingSize('hydro_dam');
+  const wallHeight = h * 0.8;
+  const base = footprintCorners(x, y, width, height, w, h, 0);
+  const top = footprintCorners(x, y, width, height, w, h, wallHeight);
+
+  fillPolygon(ctx, [base.left, base.bottom, top.bottom, top.left], '#78716c', 'rgba(0,0,0,0.25)');
+  fillPolygon(ctx, [base.bottom, base.right, top.right, top.bottom], '#a8a29e', 'rgba(0,0,0,0.25)');
+  fillPolygon(ctx, [top.top, top.right, top.bottom, top.left], '#d6d3d1', 'rgba(0,0,0,0.2)');
+
+  // Spillway water down the right face
+  ctx.strokeStyle = 'rgba(147, 197, 253, 0.85)';
+  ctx.lineWidth = Math.max(1, w * 0.03);
+  for (let i = 1; i <= 3; i++) {
+    const t = i / 4;
+    const fromX = top.bottom.x + (top.right.x - top.bottom.x) * t;
+    const fromY = top.bottom.y + (top.right.y - top.bottom.y) * t;
+    ctx.beginPath();
+    ctx.moveTo(fromX, fromY);
+    ctx.lineTo(fromX, fromY + wallHeight);
+    ctx.stroke();
+  }
+}
+
+/**
+ * Draw a solar farm, wind turbine or hydro dam from its origin tile.
+ * Plants still under construction show their foundation plots.
+ */
+export function drawRenewablePlant(ctx: CanvasRenderingContext2D, x: number, y: number, tile: Tile, w: number, h: number, zoom: number): void {
+  const buildingType = tile.building.type;
+  if ((tile.building.constructionProgress ?? 100) < 100) {
+    const { width, height } = getBuildingSize(buildingType);
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        drawFoundationPlot(ctx, x + (dx - dy) * (w / 2), y + (dx + dy) * (h / 2), w, h, zoom);
+      }
+    }
+    return;
+  }
+  if (buildingType === 'solar_farm') drawSolarFarm(ctx, x, y, w, h);
+  else if (buildingType === 'wind_turbine') drawWindTurbine(ctx, x, y, w, h, tile);
+  else if (buildingType === 'hydro_dam') drawHydroDam(ctx, x, y, w, h);
+}
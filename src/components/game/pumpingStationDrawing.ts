@@ -0,0 +1,37 @@
+/**
+ * Procedural drawing for the pumping station, which has no artwork in the
+ * sprite packs.
+ */
+
+import { Tile } from '@/types/game';
+import { drawFoundationPlot } from './drawing';
+import { drawPlaceholderBuilding } from './placeholders';
+
+/**
+ * Draw a pump house with its intake pipe. Stations still under construction
+ * show their foundation plot.
+ */
+export function drawPumpingStation(ctx: CanvasRenderingContext2D, x: number, y: number, tile: Tile, w: number, h: number, zoom: number): void {
+  if ((tile.building.constructionProgress ?? 100) < 100) {
+    drawFoundationPlot(ctx, x, y, w, h, zoom);
+    return;
+  }
+
+  // Intake pipe running out from the front corner of the pad
+  ctx.strokeStyle = '#475569';
+  ctx.lineWidth = Math.max(2, w * 0.08);
+  ctx.lineCap = 'round';
+  ctx.beginPath();
+  ctx.moveTo(x + w * 0.5, y + h * 0.75);
+  ctx.lineTo(x + w * 0.5, y + h * 1.05);
+  ctx.stroke();
+  ctx.lineCap = 'butt';
+
+  drawPlaceholderBuilding(ctx, x + w * 0.15, y + h * 0.1, 'water_pump', w * 0.7, h * 0.7);
+
+  // Vent on the roof
+  const roofX = x + w * 0.5;
+  const roofY = y + h * 0.45 - h * 0.7 * 0.9;
+  ctx.fillStyle = '#e2e8f0';
+  ctx.fillRect(roofX - w * 0.04, roofY - h * 0.2, w * 0.08, h * 0.2);
+}
@@ -125,11 +125,11 @@ export function drawRoad(
   // ============================================
   // Use mobile-specific zoom threshold (lower = visible when more zoomed out)
   const sidewalkMinZoom = isMobile ? SIDEWALK_MIN_ZOOM_MOBILE : SIDEWALK_MIN_ZOOM;
-  const showSidewalks = currentZoom >= sidewalkMinZoom;
+  const showSidewalks = currentZoom >= sidewalkMinZoom && !mergeInfo.noSidewalks;
   
   const isOuterEdge = (edgeDir: 'north' | 'east' | 'south' | 'west') => {
     // For merged roads, only draw sidewalks on the outermost tiles
-    if (mergeInfo.type === 'single') return true;
+    if (mergeInfo.mergeWidth === 1) return true;
     
     if (mergeInfo.orientation === 'ns') {
       // NS roads: sidewalks on east/west edges of outermost tiles
@@ -518,9 +518,9 @@ export function drawRoad(
     }
     
     // Draw yellow center dashes for non-intersection roads only
-    // Skip if this tile IS an intersection (3+ adjacent roads)
+    // Skip if this tile IS an intersection (3+ adjacent roads) or carries one-way traffic
     const thisIsIntersection = [north, east, south, west].filter(Boolean).length >= 3;
-    if (!thisIsIntersection) {
+    if (!thisIsIntersection && !mergeInfo.oneWay) {
       ctx.strokeStyle = ROAD_COLORS.CENTER_LINE;
       ctx.lineWidth = 0.8;
       ctx.setLineDash([1.5, 2]);
@@ -611,8 +611,9 @@ export function drawRoad(
       ctx.lineCap = 'butt';
     }
     
-    // Draw directional arrows for merged roads
-    if (mergeInfo.type !== 'single' && currentZoom >= DIRECTION_ARROWS_MIN_ZOOM && mergeInfo.side !== 'center') {
+    // Draw directional arrows for merged and one-way roads
+    const showsFlow = mergeInfo.oneWay ? mergeInfo.orientation !== 'intersection' : mergeInfo.type !== 'single' && mergeInfo.side !== 'center';
+    if (showsFlow && currentZoom >= DIRECTION_ARROWS_MIN_ZOOM) {
       const flowDirs = getTrafficFlowDirection(mergeInfo);
       if (flowDirs.length === 1) {
         drawRoadArrow(ctx, cx, cy, flowDirs[0], currentZoom);
@@ -37,6 +37,8 @@ export interface MergedRoadInfo {
   mergeWidth: number; // Total tiles in this merged section
   // Which side of the road this tile represents (for proper lane directions)
   side: 'left' | 'right' | 'center' | 'single';
+  oneWay?: CarDirection; // One-way roads: the only direction traffic flows
+  noSidewalks?: boolean; // Highways have no footpaths
 }
 
 /** Traffic light at an intersection */
@@ -126,11 +128,38 @@ export function getAdjacentRoads(
   };
 }
 
+/**
+ * Analyze a road tile's merged configuration, then apply the class it was built as.
+ * Avenues and highways placed with their own tools look the part even on their own;
+ * one-way roads carry their flow direction
+ */
+export function analyzeMergedRoad(
+  grid: Tile[][],
+  gridSize: number,
+  x: number,
+  y: number
+): MergedRoadInfo {
+  const info = analyzeRoadLayout(grid, gridSize, x, y);
+  const building = grid[y]?.[x]?.building;
+  if (building?.type !== 'road') return info;
+  
+  if (building.roadClass === 'avenue' || building.roadClass === 'highway') {
+    info.type = building.roadClass;
+  }
+  if (building.roadClass === 'highway') {
+    info.noSidewalks = true;
+  }
+  if (building.roadClass === 'one_way' && building.roadDirection) {
+    info.oneWay = building.roadDirection;
+  }
+  return info;
+}
+
 /**
  * Check if a tile is part of a parallel road group (potential avenue/highway)
  * Returns info about the merged road configuration
  */
-export function analyzeMergedRoad(
+function analyzeRoadLayout(
   grid: Tile[][],
   gridSize: number,
   x: number,
@@ -652,6 +681,8 @@ export function drawRoadArrow(
 export function getTrafficFlowDirection(
   mergeInfo: MergedRoadInfo
 ): CarDirection[] {
+  if (mergeInfo.oneWay) return [mergeInfo.oneWay];
+  
   if (mergeInfo.type === 'single') {
     // Single roads are bidirectional
     if (mergeInfo.orientation === 'ns') return ['north', 'south'];
@@ -36,7 +36,7 @@ import {
   TRACK_SEPARATION_RATIO,
   TrackType,
 } from './railSystem';
-import { gridToScreen } from './utils';
+import { gridToScreen, gridToTerrainScreen } from './utils';
 
 // ============================================================================
 // Curve Interpolation Helpers
@@ -866,13 +866,13 @@ function updateCarriagePositions(
  */
 function getLocomotiveSmokestackPosition(
   train: Train,
-  _grid: Tile[][],
+  grid: Tile[][],
   _gridSize: number
 ): { x: number; y: number; angle: number } | null {
   const locomotive = train.carriages[0];
   if (!locomotive || locomotive.type !== 'locomotive') return null;
   
-  const { screenX, screenY } = gridToScreen(locomotive.tileX, locomotive.tileY, 0, 0);
+  const { screenX, screenY } = gridToTerrainScreen(grid, locomotive.tileX, locomotive.tileY, 0, 0);
   
   // Calculate track offset (same logic as drawCarriage)
   const trackSide = getTrackSide(locomotive.direction);
@@ -1041,7 +1041,7 @@ function drawCarriage(
   trainId: number,
   isMobile: boolean = false
 ): void {
-  const { screenX, screenY } = gridToScreen(carriage.tileX, carriage.tileY, 0, 0);
+  const { screenX, screenY } = gridToTerrainScreen(grid, carriage.tileX, carriage.tileY, 0, 0);
   
   // Get track type for this tile to check if we're on a curve
   let trackType: TrackType = 'straight_ns';
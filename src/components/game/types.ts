@@ -6,6 +6,8 @@ import { CardinalDirection } from '@/core/types';
 export const TILE_WIDTH = 64;
 export const HEIGHT_RATIO = 0.60;
 export const TILE_HEIGHT = TILE_WIDTH * HEIGHT_RATIO;
+// Screen lift per terrain level - the steepest generated step (3 levels) is half a tile
+export const ELEVATION_HEIGHT = TILE_HEIGHT / 6;
 export const KEY_PAN_SPEED = 520;
 
 // Car/Vehicle types - alias CardinalDirection for backward compatibility
@@ -466,7 +468,8 @@ export type WorldRenderState = {
 };
 
 // Overlay modes for visualization
-export type OverlayMode = 'none' | 'power' | 'water' | 'fire' | 'police' | 'health' | 'education' | 'subway';
+export type OverlayMode = 'none' | 'power' | 'water' | 'fire' | 'police' | 'health' | 'education' | 'subway' | 'treatment' | 'landValue'
+  | 'pollution' | 'toxic' | 'thermal' | 'nutrient';
 
 // ============================================================================
 // Train Types
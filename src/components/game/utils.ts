@@ -1,6 +1,8 @@
 import { Tile } from '@/types/game';
-import { CarDirection, TILE_WIDTH, TILE_HEIGHT } from './types';
+import { CarDirection, ELEVATION_HEIGHT, TILE_WIDTH, TILE_HEIGHT } from './types';
 import { OPPOSITE_DIRECTION } from './constants';
+import { canDriveBetween, getRoadDefinition } from '@/lib/roads';
+import { getElevation, MAX_ELEVATION } from '@/lib/terrain';
 
 // PERF: Pre-allocated typed arrays for BFS pathfinding to reduce GC pressure
 // Max path length of 2048 nodes should be sufficient for most city sizes
@@ -29,6 +31,26 @@ export function isRoadTile(gridData: Tile[][], gridSizeValue: number, x: number,
   return type === 'road';
 }
 
+const DIRECTION_OFFSETS: Record<CarDirection, { dx: number; dy: number }> = {
+  'north': { dx: -1, dy: 0 },
+  'south': { dx: 1, dy: 0 },
+  'east': { dx: 0, dy: -1 },
+  'west': { dx: 0, dy: 1 },
+};
+
+// Check if a pedestrian can walk along a tile - highways have no sidewalks
+function isWalkableTile(gridData: Tile[][], gridSizeValue: number, x: number, y: number): boolean {
+  return isRoadTile(gridData, gridSizeValue, x, y) && getRoadDefinition(gridData[y][x]).pedestrians;
+}
+
+// Check if a trip can move from a road tile to its neighbour in a given direction
+// Cars keep to one-way flow; pedestrians can't use highways
+function canTravel(gridData: Tile[][], gridSizeValue: number, x: number, y: number, direction: CarDirection, walking: boolean): boolean {
+  const { dx, dy } = DIRECTION_OFFSETS[direction];
+  if (walking) return isWalkableTile(gridData, gridSizeValue, x + dx, y + dy);
+  return isRoadTile(gridData, gridSizeValue, x + dx, y + dy) && canDriveBetween(gridData[y][x], gridData[y + dy][x + dx], direction);
+}
+
 // Check if a car can enter a tile from a given direction
 // Bridges can only be entered along their orientation (ns bridges: north/south, ew bridges: east/west)
 function canEnterTileFromDirection(gridData: Tile[][], gridSizeValue: number, x: number, y: number, direction: CarDirection): boolean {
@@ -54,13 +76,13 @@ function canEnterTileFromDirection(gridData: Tile[][], gridSizeValue: number, x:
   return tile.building.type === 'road';
 }
 
-// Get available direction options from a tile
+// Get available direction options from a tile, keeping to one-way flow
 export function getDirectionOptions(gridData: Tile[][], gridSizeValue: number, x: number, y: number): CarDirection[] {
   const options: CarDirection[] = [];
-  if (isRoadTile(gridData, gridSizeValue, x - 1, y)) options.push('north');
-  if (isRoadTile(gridData, gridSizeValue, x, y - 1)) options.push('east');
-  if (isRoadTile(gridData, gridSizeValue, x + 1, y)) options.push('south');
-  if (isRoadTile(gridData, gridSizeValue, x, y + 1)) options.push('west');
+  if (canTravel(gridData, gridSizeValue, x, y, 'north', false)) options.push('north');
+  if (canTravel(gridData, gridSizeValue, x, y, 'east', false)) options.push('east');
+  if (canTravel(gridData, gridSizeValue, x, y, 'south', false)) options.push('south');
+  if (canTravel(gridData, gridSizeValue, x, y, 'west', false)) options.push('west');
   return options;
 }
 
@@ -89,15 +111,8 @@ export function pickNextDirection(
   
   // Filter out directions that would enter a bridge from an invalid angle
   // For each direction, check if the target tile can be entered from that direction
-  const directionOffsets: Record<CarDirection, { dx: number; dy: number }> = {
-    'north': { dx: -1, dy: 0 },
-    'south': { dx: 1, dy: 0 },
-    'east': { dx: 0, dy: -1 },
-    'west': { dx: 0, dy: 1 },
-  };
-  
   const validOptions = options.filter(dir => {
-    const offset = directionOffsets[dir];
+    const offset = DIRECTION_OFFSETS[dir];
     const targetX = x + offset.dx;
     const targetY = y + offset.dy;
     return canEnterTileFromDirection(gridData, gridSizeValue, targetX, targetY, dir);
@@ -123,18 +138,21 @@ const ADJ_DX = [-1, 1, 0, 0, -1, -1, 1, 1];
 const ADJ_DY = [0, 0, -1, 1, -1, 1, -1, 1];
 
 // Find the nearest road tile adjacent to a building
+// Walking trips skip roads without sidewalks
 // PERF: Uses pre-allocated typed arrays and numeric visited keys
 export function findNearestRoadToBuilding(
   gridData: Tile[][],
   gridSizeValue: number,
   buildingX: number,
-  buildingY: number
+  buildingY: number,
+  walking = false
 ): { x: number; y: number } | null {
+  const isUsable = walking ? isWalkableTile : isRoadTile;
   // Check adjacent tiles first (distance 1) - including diagonals
   for (let d = 0; d < 8; d++) {
     const nx = buildingX + ADJ_DX[d];
     const ny = buildingY + ADJ_DY[d];
-    if (isRoadTile(gridData, gridSizeValue, nx, ny)) {
+    if (isUsable(gridData, gridSizeValue, nx, ny)) {
       return { x: nx, y: ny };
     }
   }
@@ -143,7 +161,7 @@ export function findNearestRoadToBuilding(
   const maxIdx = gridSizeValue * gridSizeValue;
   if (maxIdx > ROAD_BFS_VISITED.length) {
     // Fallback to string-based Set for very large grids
-    return findNearestRoadLegacy(gridData, gridSizeValue, buildingX, buildingY);
+    return findNearestRoadLegacy(gridData, gridSizeValue, buildingX, buildingY, isUsable);
   }
   
   // Clear visited array for the area we need
@@ -177,7 +195,7 @@ export function findNearestRoadToBuilding(
       if (ROAD_BFS_VISITED[visitedIdx]) continue;
       ROAD_BFS_VISITED[visitedIdx] = 1;
       
-      if (isRoadTile(gridData, gridSizeValue, nx, ny)) {
+      if (isUsable(gridData, gridSizeValue, nx, ny)) {
         return { x: nx, y: ny };
       }
       
@@ -196,7 +214,8 @@ function findNearestRoadLegacy(
   gridData: Tile[][],
   gridSizeValue: number,
   buildingX: number,
-  buildingY: number
+  buildingY: number,
+  isUsable: typeof isRoadTile
 ): { x: number; y: number } | null {
   const queue: { x: number; y: number; dist: number }[] = [{ x: buildingX, y: buildingY, dist: 0 }];
   const visited = new Set<number>(); // PERF: Use numeric keys
@@ -216,7 +235,7 @@ function findNearestRoadLegacy(
       if (visited.has(key)) continue;
       visited.add(key);
       
-      if (isRoadTile(gridData, gridSizeValue, nx, ny)) {
+      if (isUsable(gridData, gridSizeValue, nx, ny)) {
         return { x: nx, y: ny };
       }
       
@@ -228,6 +247,7 @@ function findNearestRoadLegacy(
 }
 
 // BFS pathfinding on road network - finds path from start to a tile adjacent to target
+// Driving paths keep to one-way flow; walking paths stay off highways
 // PERF: Uses pre-allocated typed arrays to avoid GC pressure from path copying
 export function findPathOnRoads(
   gridData: Tile[][],
@@ -235,14 +255,15 @@ export function findPathOnRoads(
   startX: number,
   startY: number,
   targetX: number,
-  targetY: number
+  targetY: number,
+  walking = false
 ): { x: number; y: number }[] | null {
   // Find the nearest road tile to the target (since buildings aren't on roads)
-  const targetRoad = findNearestRoadToBuilding(gridData, gridSizeValue, targetX, targetY);
+  const targetRoad = findNearestRoadToBuilding(gridData, gridSizeValue, targetX, targetY, walking);
   if (!targetRoad) return null;
   
   // Find the nearest road tile to the start (station)
-  const startRoad = findNearestRoadToBuilding(gridData, gridSizeValue, startX, startY);
+  const startRoad = findNearestRoadToBuilding(gridData, gridSizeValue, startX, startY, walking);
   if (!startRoad) return null;
   
   // If start and target roads are the same, return a simple path
@@ -255,7 +276,7 @@ export function findPathOnRoads(
   const maxIdx = gridSizeValue * gridSizeValue;
   if (maxIdx > BFS_VISITED.length) {
     // Fallback to old method for very large grids
-    return findPathOnRoadsLegacy(gridData, gridSizeValue, startRoad, targetRoad);
+    return findPathOnRoadsLegacy(gridData, gridSizeValue, startRoad, targetRoad, walking);
   }
   
   // Clear visited (only the portion we'll use)
@@ -275,6 +296,7 @@ export function findPathOnRoads(
   // Direction offsets
   const DX = [-1, 1, 0, 0];
   const DY = [0, 0, -1, 1];
+  const DIRECTIONS: CarDirection[] = ['north', 'south', 'east', 'west'];
   
   let foundIdx = -1;
   
@@ -298,7 +320,7 @@ export function findPathOnRoads(
       
       const visitedIdx = ny * gridSizeValue + nx;
       if (BFS_VISITED[visitedIdx]) continue;
-      if (!isRoadTile(gridData, gridSizeValue, nx, ny)) continue;
+      if (!canTravel(gridData, gridSizeValue, cx, cy, DIRECTIONS[d], walking)) continue;
       
       BFS_VISITED[visitedIdx] = 1;
       BFS_QUEUE_X[queueTail] = nx;
@@ -345,7 +367,8 @@ function findPathOnRoadsLegacy(
   gridData: Tile[][],
   gridSizeValue: number,
   startRoad: { x: number; y: number },
-  targetRoad: { x: number; y: number }
+  targetRoad: { x: number; y: number },
+  walking: boolean
 ): { x: number; y: number }[] | null {
   const queue: { x: number; y: number; path: { x: number; y: number }[] }[] = [
     { x: startRoad.x, y: startRoad.y, path: [{ x: startRoad.x, y: startRoad.y }] }
@@ -353,11 +376,11 @@ function findPathOnRoadsLegacy(
   const visited = new Set<string>();
   visited.add(`${startRoad.x},${startRoad.y}`);
   
-  const directions = [
-    { dx: -1, dy: 0 },
-    { dx: 1, dy: 0 },
-    { dx: 0, dy: -1 },
-    { dx: 0, dy: 1 },
+  const directions: { dx: number; dy: number; direction: CarDirection }[] = [
+    { dx: -1, dy: 0, direction: 'north' },
+    { dx: 1, dy: 0, direction: 'south' },
+    { dx: 0, dy: -1, direction: 'east' },
+    { dx: 0, dy: 1, direction: 'west' },
   ];
   
   while (queue.length > 0) {
@@ -367,14 +390,14 @@ function findPathOnRoadsLegacy(
       return current.path;
     }
     
-    for (const { dx, dy } of directions) {
+    for (const { dx, dy, direction } of directions) {
       const nx = current.x + dx;
       const ny = current.y + dy;
       const key = `${nx},${ny}`;
       
       if (nx < 0 || ny < 0 || nx >= gridSizeValue || ny >= gridSizeValue) continue;
       if (visited.has(key)) continue;
-      if (!isRoadTile(gridData, gridSizeValue, nx, ny)) continue;
+      if (!canTravel(gridData, gridSizeValue, current.x, current.y, direction, walking)) continue;
       
       visited.add(key);
       queue.push({
@@ -422,3 +445,26 @@ export function screenToGrid(screenX: number, screenY: number, offsetX: number,
   // Use Math.round for accurate tile selection - this gives us the tile whose center is closest
   return { gridX: Math.round(gridX), gridY: Math.round(gridY) };
 }
+
+// Screen lift of a tile raised by its terrain level
+export function getElevationOffset(tile: Tile | undefined): number {
+  return tile ? getElevation(tile) * ELEVATION_HEIGHT : 0;
+}
+
+// Convert grid coordinates to screen coordinates on top of the tile's terrain
+export function gridToTerrainScreen(grid: Tile[][], x: number, y: number, offsetX: number, offsetY: number): { screenX: number; screenY: number } {
+  const { screenX, screenY } = gridToScreen(x, y, offsetX, offsetY);
+  return { screenX, screenY: screenY - getElevationOffset(grid[y]?.[x]) };
+}
+
+// Convert screen coordinates to the tile drawn there once hills are raised.
+// A raised tile shows up where a lower tile further forward would be, so each level is
+// tried from the top down and the first tile actually at that level wins.
+export function screenToTerrainGrid(screenX: number, screenY: number, offsetX: number, offsetY: number, grid: Tile[][]): { gridX: number; gridY: number } {
+  for (let level = MAX_ELEVATION; level > 0; level--) {
+    const { gridX, gridY } = screenToGrid(screenX, screenY + level * ELEVATION_HEIGHT, offsetX, offsetY);
+    const tile = grid[gridY]?.[gridX];
+    if (tile && getElevation(tile) === level) return { gridX, gridY };
+  }
+  return screenToGrid(screenX, screenY, offsetX, offsetY);
+}
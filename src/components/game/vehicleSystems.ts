@@ -1,13 +1,16 @@
 import React, { useCallback, useRef } from 'react';
 import { Car, CarDirection, EmergencyVehicle, EmergencyVehicleType, Pedestrian, PedestrianDestType, WorldRenderState, TILE_WIDTH, TILE_HEIGHT } from './types';
 import { CAR_COLORS, CAR_MIN_ZOOM, CAR_MIN_ZOOM_MOBILE, PEDESTRIAN_MIN_ZOOM, PEDESTRIAN_MIN_ZOOM_MOBILE, DIRECTION_META, PEDESTRIAN_MAX_COUNT, PEDESTRIAN_MAX_COUNT_MOBILE, PEDESTRIAN_ROAD_TILE_DENSITY, PEDESTRIAN_ROAD_TILE_DENSITY_MOBILE, PEDESTRIAN_SPAWN_BATCH_SIZE, PEDESTRIAN_SPAWN_BATCH_SIZE_MOBILE, PEDESTRIAN_SPAWN_INTERVAL, PEDESTRIAN_SPAWN_INTERVAL_MOBILE, VEHICLE_FAR_ZOOM_THRESHOLD } from './constants';
-import { isRoadTile, getDirectionOptions, pickNextDirection, findPathOnRoads, getDirectionToTile, gridToScreen } from './utils';
+import { isRoadTile, getDirectionOptions, pickNextDirection, findPathOnRoads, getDirectionToTile, gridToScreen, gridToTerrainScreen } from './utils';
 import { findResidentialBuildings, findPedestrianDestinations, findStations, findFires, findRecreationAreas, findEnterableBuildings, SPORTS_TYPES, ACTIVE_RECREATION_TYPES } from './gridFinders';
 import { drawPedestrians as drawPedestriansUtil } from './drawPedestrians';
-import { BuildingType, Tile } from '@/types/game';
+import { BuildingType, PolicyId, Tile, ZoneType } from '@/types/game';
+import { getPolicyEffects } from '@/lib/policies';
 import { getTrafficLightState, canProceedThroughIntersection, TRAFFIC_LIGHT_TIMING } from './trafficSystem';
 import { isRailroadCrossing, shouldStopAtCrossing } from './railSystem';
-import { CrimeType, getRandomCrimeType, getCrimeDuration } from './incidentData';
+import { CrimeType, CRIME_DATA, CRIME_SEVERITY_RANK, getRandomCrimeType, getCrimeDuration } from './incidentData';
+import { INCIDENT_CRIME_THRESHOLD } from '@/lib/crime';
+import { COMMUTE_MODES, getTrafficSpeedFactor } from '@/lib/traffic';
 import {
   createPedestrian,
   updatePedestrianState,
@@ -52,12 +55,11 @@ export interface VehicleSystemState {
   // PERF: Pre-computed intersection map to avoid repeated getDirectionOptions() calls per-car per-frame
   cachedIntersectionMapRef: React.MutableRefObject<{ map: Map<number, boolean>; gridVersion: number }>;
   state: {
-    services: {
-      police: number[][];
-    };
     stats: {
       population: number;
+      crime: number;
     };
+    policies: PolicyId[];
   };
   isMobile: boolean;
 }
@@ -218,7 +220,14 @@ export function useVehicleSystems(
         }
       }
       
-      const path = findPathOnRoads(currentGrid, currentGridSize, home.x, home.y, dest.x, dest.y);
+      // Residents who walk to work head for the workplace their household commutes to
+      const commute = currentGrid[home.y]?.[home.x]?.commute;
+      if (commute && Math.random() < commute.trips.walk / Math.max(1, COMMUTE_MODES.reduce((sum, mode) => sum + commute.trips[mode], 0))) {
+        const workZone = currentGrid[commute.workY]?.[commute.workX]?.zone;
+        dest = { x: commute.workX, y: commute.workY, type: workZone === 'industrial' ? 'industrial' : 'commercial' };
+      }
+      
+      const path = findPathOnRoads(currentGrid, currentGridSize, home.x, home.y, dest.x, dest.y, true);
       if (!path || path.length === 0) {
         return false;
       }
@@ -332,30 +341,24 @@ export function useVehicleSystems(
     if (crimeSpawnTimerRef.current > 0) return;
     crimeSpawnTimerRef.current = 3 + Math.random() * 2;
     
-    const eligibleTiles: { x: number; y: number; policeCoverage: number }[] = [];
+    // Incidents break out where the simulation says crime is, in proportion to it
+    const eligibleTiles: { x: number; y: number; crime: number; zone: ZoneType }[] = [];
+    let totalCrime = 0;
     
     for (let y = 0; y < currentGridSize; y++) {
       for (let x = 0; x < currentGridSize; x++) {
         const tile = currentGrid[y][x];
-        const isBuilding = tile.building.type !== 'grass' && 
-            tile.building.type !== 'water' && 
-            tile.building.type !== 'road' && 
-            tile.building.type !== 'bridge' && 
-            tile.building.type !== 'tree' &&
-            tile.building.type !== 'empty';
-        const hasActivity = tile.building.population > 0 || tile.building.jobs > 0;
-        
-        if (isBuilding && hasActivity) {
-          const policeCoverage = state.services.police[y]?.[x] || 0;
-          eligibleTiles.push({ x, y, policeCoverage });
-        }
+        const crime = tile.crime ?? 0;
+        if (crime < INCIDENT_CRIME_THRESHOLD) continue;
+        if (tile.building.population <= 0 && tile.building.jobs <= 0 && !tile.building.abandoned) continue;
+        eligibleTiles.push({ x, y, crime, zone: tile.zone });
+        totalCrime += crime;
       }
     }
     
     if (eligibleTiles.length === 0) return;
     
-    const avgCoverage = eligibleTiles.reduce((sum, t) => sum + t.policeCoverage, 0) / eligibleTiles.length;
-    const baseChance = avgCoverage < 20 ? 0.4 : avgCoverage < 40 ? 0.25 : avgCoverage < 60 ? 0.15 : 0.08;
+    const baseChance = Math.min(0.6, 0.05 + (state.stats.crime ?? 0) / 100);
     
     const population = state.stats.population;
     const maxActiveCrimes = Math.max(2, Math.floor(population / 500));
@@ -368,19 +371,17 @@ export function useVehicleSystems(
       if (activeCrimeIncidentsRef.current.size >= maxActiveCrimes) break;
       if (Math.random() > baseChance) continue;
       
-      const weightedTiles = eligibleTiles.filter(t => {
-        const key = `${t.x},${t.y}`;
-        if (activeCrimeIncidentsRef.current.has(key)) return false;
-        const weight = Math.max(0.1, 1 - t.policeCoverage / 100);
-        return Math.random() < weight;
-      });
-      
-      if (weightedTiles.length === 0) continue;
-      
-      const target = weightedTiles[Math.floor(Math.random() * weightedTiles.length)];
+      // Pick a tile weighted by its crime level
+      let pick = Math.random() * totalCrime;
+      let target = eligibleTiles[eligibleTiles.length - 1];
+      for (const candidate of eligibleTiles) {
+        pick -= candidate.crime;
+        if (pick <= 0) { target = candidate; break; }
+      }
       const key = `${target.x},${target.y}`;
+      if (activeCrimeIncidentsRef.current.has(key)) continue;
       
-      const crimeType = getRandomCrimeType();
+      const crimeType = getRandomCrimeType(target.zone);
       const duration = getCrimeDuration(crimeType);
       
       activeCrimeIncidentsRef.current.set(key, {
@@ -390,7 +391,7 @@ export function useVehicleSystems(
         timeRemaining: duration,
       });
     }
-  }, [worldStateRef, crimeSpawnTimerRef, activeCrimeIncidentsRef, state.services.police, state.stats.population]);
+  }, [worldStateRef, crimeSpawnTimerRef, activeCrimeIncidentsRef, state.stats.crime, state.stats.population]);
 
   const updateCrimeIncidents = useCallback((delta: number) => {
     const { speed: currentSpeed } = worldStateRef.current;
@@ -418,7 +419,10 @@ export function useVehicleSystems(
   }, [worldStateRef, activeCrimeIncidentsRef, activeCrimesRef]);
 
   const findCrimeIncidents = useCallback((): { x: number; y: number }[] => {
-    return Array.from(activeCrimeIncidentsRef.current.values()).map(c => ({ x: c.x, y: c.y }));
+    // Most serious first, so they get the first free police cars
+    return Array.from(activeCrimeIncidentsRef.current.values())
+      .sort((a, b) => CRIME_SEVERITY_RANK[CRIME_DATA[b.type].severity] - CRIME_SEVERITY_RANK[CRIME_DATA[a.type].severity])
+      .map(c => ({ x: c.x, y: c.y }));
   }, [activeCrimeIncidentsRef]);
 
   const dispatchEmergencyVehicle = useCallback((
@@ -757,7 +761,8 @@ export function useVehicleSystems(
     
     // Target ~0.5 cars per road tile on desktop, ~0.15 on mobile (for performance)
     // This ensures large maps with more roads get proportionally more cars
-    const carDensity = isMobile ? 0.15 : 0.5;
+    // Ordinances like car-free downtown thin the traffic out
+    const carDensity = (isMobile ? 0.15 : 0.5) * getPolicyEffects(state.policies).traffic;
     const targetCars = Math.floor(roadTileCount * carDensity);
     // Cap at 800 for desktop, 60 for mobile - minimum 10/15 for small cities
     const maxCars = isMobile 
@@ -911,7 +916,10 @@ export function useVehicleSystems(
       }
       
       if (!shouldStop) {
-        car.progress += car.speed * delta * speedMultiplier;
+        // Cars crawl through tiles the simulation says are jammed
+        const carTile = currentGrid[car.tileY]?.[car.tileX];
+        const trafficFactor = carTile ? getTrafficSpeedFactor(carTile) : 1;
+        car.progress += car.speed * trafficFactor * delta * speedMultiplier;
       }
       // When stopped, just don't move - no position changes
       
@@ -977,7 +985,7 @@ export function useVehicleSystems(
     }
     
     carsRef.current = updatedCars;
-  }, [worldStateRef, carsRef, carSpawnTimerRef, spawnRandomCar, trafficLightTimerRef, isIntersection, isMobile, trainsRef, gridVersionRef, cachedRoadTileCountRef]);
+  }, [worldStateRef, carsRef, carSpawnTimerRef, spawnRandomCar, trafficLightTimerRef, isIntersection, isMobile, trainsRef, gridVersionRef, cachedRoadTileCountRef, state.policies]);
 
   const updatePedestrians = useCallback((delta: number) => {
     const { grid: currentGrid, gridSize: currentGridSize, speed: currentSpeed, zoom: currentZoom } = worldStateRef.current;
@@ -1107,7 +1115,7 @@ export function useVehicleSystems(
     ctx.translate(currentOffset.x / currentZoom, currentOffset.y / currentZoom);
     
     carsRef.current.forEach(car => {
-      const { screenX, screenY } = gridToScreen(car.tileX, car.tileY, 0, 0);
+      const { screenX, screenY } = gridToTerrainScreen(currentGrid, car.tileX, car.tileY, 0, 0);
       const centerX = screenX + TILE_WIDTH / 2;
       const centerY = screenY + TILE_HEIGHT / 2;
       const meta = DIRECTION_META[car.direction];
@@ -1266,7 +1274,7 @@ export function useVehicleSystems(
     };
     
     emergencyVehiclesRef.current.forEach(vehicle => {
-      const { screenX, screenY } = gridToScreen(vehicle.tileX, vehicle.tileY, 0, 0);
+      const { screenX, screenY } = gridToTerrainScreen(currentGrid, vehicle.tileX, vehicle.tileY, 0, 0);
       const centerX = screenX + TILE_WIDTH / 2;
       const centerY = screenY + TILE_HEIGHT / 2;
       const meta = DIRECTION_META[vehicle.direction];
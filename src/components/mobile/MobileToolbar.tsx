@@ -13,7 +13,12 @@ import {
   SubwayIcon,
   TreeIcon,
   PowerIcon,
+  SolarIcon,
+  WindIcon,
+  HydroIcon,
   WaterIcon,
+  PumpIcon,
+  PipeIcon,
   BudgetIcon,
   ChartIcon,
   AdvisorIcon,
@@ -96,6 +101,7 @@ const QuickToolIcons: Partial<Record<Tool, React.ReactNode>> = {
   road: <RoadIcon size={20} />,
   rail: <RailIcon size={20} />,
   subway: <SubwayIcon size={20} />,
+  water_pipe: <PipeIcon size={20} />,
   tree: <TreeIcon size={20} />,
   zone_residential: (
     <div className="w-5 h-5 rounded-sm bg-green-500 flex items-center justify-center text-[10px] font-bold text-white">R</div>
@@ -154,7 +160,11 @@ const QuickToolIcons: Partial<Record<Tool, React.ReactNode>> = {
     </svg>
   ),
   power_plant: <PowerIcon size={20} />,
+  solar_farm: <SolarIcon size={20} />,
+  wind_turbine: <WindIcon size={20} />,
+  hydro_dam: <HydroIcon size={20} />,
   water_tower: <WaterIcon size={20} />,
+  water_pump: <PumpIcon size={20} />,
   subway_station: <SubwayIcon size={20} />,
   stadium: <TrophyIcon size={20} />,
   museum: (
@@ -220,17 +230,24 @@ const UI_LABELS = {
   health: msg('Health'),
   education: msg('Education'),
   subway: msg('Subway'),
+  treatment: msg('Treatment'),
+  landValue: msg('Land Value'),
+  pollution: msg('Pollution'),
+  toxic: msg('Toxic'),
+  thermal: msg('Thermal'),
+  nutrient: msg('Nutrient'),
   budget: msg('Budget'),
+  policies: msg('Policies'),
   statistics: msg('Statistics'),
   advisors: msg('Advisors'),
   settings: msg('Settings'),
 };
 
 const toolCategories = {
-  'TOOLS': ['select', 'bulldoze', 'road', 'rail', 'subway'] as Tool[],
+  'TOOLS': ['select', 'bulldoze', 'road', 'avenue', 'highway', 'one_way_road', 'rail', 'subway', 'water_pipe'] as Tool[],
   'ZONES': ['zone_residential', 'zone_commercial', 'zone_industrial'] as Tool[],
   'ZONING': ['zone_dezone', 'zone_water', 'zone_land'] as Tool[],
-  'UTILITIES': ['power_plant', 'water_tower', 'subway_station', 'rail_station'] as Tool[],
+  'UTILITIES': ['power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_pump', 'water_tower', 'subway_station', 'rail_station'] as Tool[],
   'SERVICES': ['police_station', 'fire_station', 'hospital', 'school', 'university'] as Tool[],
   'PARKS': ['park', 'park_large', 'tennis', 'playground_small', 'playground_large', 'community_garden', 'pond_park', 'park_gate', 'greenhouse_garden', 'mini_golf_course', 'go_kart_track', 'amphitheater', 'roller_coaster_small', 'campground', 'cabin_house', 'mountain_lodge', 'mountain_trailhead'] as Tool[],
   'SPORTS': ['tennis', 'basketball_courts', 'soccer_field_small', 'baseball_field_small', 'football_field', 'baseball_stadium', 'swimming_pool', 'skate_park', 'bleachers_field'] as Tool[],
@@ -239,10 +256,11 @@ const toolCategories = {
   'SPECIAL': ['stadium', 'museum', 'airport', 'space_program', 'city_hall', 'amusement_park'] as Tool[],
 };
 
-type OverlayMode = 'none' | 'power' | 'water' | 'fire' | 'police' | 'health' | 'education' | 'subway';
+type OverlayMode = 'none' | 'power' | 'water' | 'fire' | 'police' | 'health' | 'education' | 'subway' | 'treatment' | 'landValue'
+  | 'pollution' | 'toxic' | 'thermal' | 'nutrient';
 
 interface MobileToolbarProps {
-  onOpenPanel: (panel: 'budget' | 'statistics' | 'advisors' | 'settings') => void;
+  onOpenPanel: (panel: 'budget' | 'policies' | 'statistics' | 'advisors' | 'settings') => void;
   overlayMode?: OverlayMode;
   setOverlayMode?: (mode: OverlayMode) => void;
 }
@@ -394,7 +412,7 @@ export function MobileToolbar({ onOpenPanel, overlayMode = 'none', setOverlayMod
               <div className="text-xs text-muted-foreground uppercase tracking-wider mb-2">
                 {m(msg('City Management'))}
               </div>
-              <div className="grid grid-cols-4 gap-2">
+              <div className="grid grid-cols-5 gap-2">
                 <Button
                   variant="ghost"
                   size="sm"
@@ -403,6 +421,14 @@ export function MobileToolbar({ onOpenPanel, overlayMode = 'none', setOverlayMod
                 >
                   {m(UI_LABELS.budget)}
                 </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-10 w-full text-xs"
+                  onClick={() => { onOpenPanel('policies'); setShowMenu(false); }}
+                >
+                  {m(UI_LABELS.policies)}
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -501,6 +527,54 @@ export function MobileToolbar({ onOpenPanel, overlayMode = 'none', setOverlayMod
                   >
                     {m(UI_LABELS.subway)}
                   </Button>
+                  <Button
+                    variant={overlayMode === 'treatment' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'treatment' ? 'bg-teal-500 hover:bg-teal-600' : ''}`}
+                    onClick={() => setOverlayMode('treatment')}
+                  >
+                    {m(UI_LABELS.treatment)}
+                  </Button>
+                  <Button
+                    variant={overlayMode === 'landValue' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'landValue' ? 'bg-emerald-600 hover:bg-emerald-700' : ''}`}
+                    onClick={() => setOverlayMode('landValue')}
+                  >
+                    {m(UI_LABELS.landValue)}
+                  </Button>
+                  <Button
+                    variant={overlayMode === 'pollution' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'pollution' ? 'bg-rose-500 hover:bg-rose-600' : ''}`}
+                    onClick={() => setOverlayMode('pollution')}
+                  >
+                    {m(UI_LABELS.pollution)}
+                  </Button>
+                  <Button
+                    variant={overlayMode === 'toxic' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'toxic' ? 'bg-purple-600 hover:bg-purple-700' : ''}`}
+                    onClick={() => setOverlayMode('toxic')}
+                  >
+                    {m(UI_LABELS.toxic)}
+                  </Button>
+                  <Button
+                    variant={overlayMode === 'thermal' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'thermal' ? 'bg-orange-500 hover:bg-orange-600' : ''}`}
+                    onClick={() => setOverlayMode('thermal')}
+                  >
+                    {m(UI_LABELS.thermal)}
+                  </Button>
+                  <Button
+                    variant={overlayMode === 'nutrient' ? 'default' : 'ghost'}
+                    size="sm"
+                    className={`h-10 w-full text-xs ${overlayMode === 'nutrient' ? 'bg-lime-600 hover:bg-lime-700' : ''}`}
+                    onClick={() => setOverlayMode('nutrient')}
+                  >
+                    {m(UI_LABELS.nutrient)}
+                  </Button>
                 </div>
               </div>
             )}
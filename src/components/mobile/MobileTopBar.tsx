@@ -20,6 +20,8 @@ import {
   SafetyIcon,
   EnvironmentIcon,
   CloseIcon,
+  UndoIcon,
+  RedoIcon,
 } from '@/components/ui/Icons';
 import { Users } from 'lucide-react';
 import {
@@ -38,6 +40,8 @@ const UI_LABELS = {
   funds: msg('Funds'),
   tax: msg('Tax'),
   taxRate: msg('Tax Rate'),
+  undo: msg('Undo'),
+  redo: msg('Redo'),
   emptyLot: msg('Empty Lot'),
   jobsLower: msg('jobs'),
   jobs: msg('Jobs'),
@@ -119,7 +123,7 @@ export function MobileTopBar({
   onShare?: () => void;
   onExit?: () => void;
 }) {
-  const { state, setSpeed, setTaxRate, visualHour, saveCity } = useGame();
+  const { state, setSpeed, setTaxRate, visualHour, saveCity, undo, redo, canUndo, canRedo } = useGame();
   const { stats, year, month, speed, taxRate, cityName } = state;
   const [showDetails, setShowDetails] = useState(false);
   const [showExitDialog, setShowExitDialog] = useState(false);
@@ -173,8 +177,27 @@ export function MobileTopBar({
             </div>
           </button>
 
-          {/* Speed controls and exit button */}
+          {/* Undo/redo, speed controls and exit button */}
           <div className="flex items-center gap-1">
+            <div className="flex items-center gap-0">
+              <button
+                onClick={undo}
+                disabled={!canUndo}
+                className="h-6 w-6 min-w-6 p-0 m-0 flex items-center justify-center text-muted-foreground hover:text-foreground disabled:opacity-40"
+                title={String(m(UI_LABELS.undo))}
+              >
+                <UndoIcon size={12} />
+              </button>
+              <button
+                onClick={redo}
+                disabled={!canRedo}
+                className="h-6 w-6 min-w-6 p-0 m-0 flex items-center justify-center text-muted-foreground hover:text-foreground disabled:opacity-40"
+                title={String(m(UI_LABELS.redo))}
+              >
+                <RedoIcon size={12} />
+              </button>
+            </div>
+
             <div className="flex items-center gap-0 bg-secondary rounded-sm h-6 overflow-hidden p-0 m-0">
               <button
                 onClick={() => setSpeed(0)}
@@ -14,7 +14,8 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useMultiplayer } from '@/context/MultiplayerContext';
 import { GameState } from '@/types/game';
-import { createInitialGameState, DEFAULT_GRID_SIZE } from '@/lib/simulation';
+import { createInitialGameState } from '@/lib/simulation';
+import { DEFAULT_GRID_SIZE } from '@/lib/gridDefaults';
 import { Copy, Check, Loader2, AlertCircle, ArrowLeft } from 'lucide-react';
 import { T, useGT, Plural, Var } from 'gt-next';
 
@@ -24,7 +24,7 @@ interface MenuItem {
   id: string;
   type: 'tool' | 'panel';
   tool?: Tool;
-  panel?: 'budget' | 'statistics' | 'advisors' | 'settings';
+  panel?: 'budget' | 'policies' | 'statistics' | 'advisors' | 'settings' | 'blueprints';
   name: unknown; // Raw message object from msg()
   description: unknown; // Raw message object from msg()
   cost?: number;
@@ -51,7 +51,7 @@ function buildMenuItems(): MenuItem[] {
   const items: MenuItem[] = [];
 
   // Tools category
-  const toolsCategory: Tool[] = ['select', 'bulldoze', 'road', 'rail', 'subway'];
+  const toolsCategory: Tool[] = ['select', 'bulldoze', 'road', 'avenue', 'highway', 'one_way_road', 'rail', 'subway', 'water_pipe', 'blueprint'];
   toolsCategory.forEach(tool => {
     const info = TOOL_INFO[tool];
     items.push({
@@ -187,7 +187,7 @@ function buildMenuItems(): MenuItem[] {
   });
 
   // Utilities
-  const utilitiesCategory: Tool[] = ['power_plant', 'water_tower', 'subway_station', 'rail_station'];
+  const utilitiesCategory: Tool[] = ['power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_pump', 'water_tower', 'subway_station', 'rail_station'];
   utilitiesCategory.forEach(tool => {
     const info = TOOL_INFO[tool];
     items.push({
@@ -198,7 +198,7 @@ function buildMenuItems(): MenuItem[] {
       description: info.description,
       cost: info.cost,
       category: 'utilities',
-      keywords: [info.name.toLowerCase(), tool, 'utility', 'power', 'water', 'infrastructure', 'transit', 'station', 'train'],
+      keywords: [info.name.toLowerCase(), tool, 'utility', 'power', 'renewable', 'solar', 'wind', 'hydro', 'water', 'pump', 'infrastructure', 'transit', 'station', 'train'],
     });
   });
 
@@ -219,11 +219,13 @@ function buildMenuItems(): MenuItem[] {
   });
 
   // Panels
-  const panels: { panel: 'budget' | 'statistics' | 'advisors' | 'settings'; name: string; description: string; keywords: string[] }[] = [
+  const panels: { panel: 'budget' | 'policies' | 'statistics' | 'advisors' | 'settings' | 'blueprints'; name: string; description: string; keywords: string[] }[] = [
     { panel: 'budget', name: 'Budget', description: 'Manage city finances and funding', keywords: ['budget', 'money', 'finance', 'tax', 'funding'] },
+    { panel: 'policies', name: 'Policies', description: 'Enact city ordinances', keywords: ['policies', 'ordinances', 'laws', 'recycling', 'metering'] },
     { panel: 'statistics', name: 'Statistics', description: 'View city statistics and charts', keywords: ['statistics', 'stats', 'charts', 'data', 'info'] },
     { panel: 'advisors', name: 'Advisors', description: 'Get advice from city advisors', keywords: ['advisors', 'advice', 'help', 'tips'] },
     { panel: 'settings', name: 'Settings', description: 'Game settings and preferences', keywords: ['settings', 'options', 'preferences', 'config'] },
+    { panel: 'blueprints', name: 'Blueprints', description: 'Saved stamps to paste, import and export', keywords: ['blueprints', 'stamps', 'copy', 'paste', 'templates'] },
   ];
 
   panels.forEach(({ panel, name, description, keywords }) => {
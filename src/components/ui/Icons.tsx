@@ -55,6 +55,22 @@ export function FastForwardIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function UndoIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M9 14L4 9l5-5M4 9h10.5a5.5 5.5 0 010 11H11" />
+    </svg>
+  );
+}
+
+export function RedoIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M15 14l5-5-5-5M20 9H9.5a5.5 5.5 0 000 11H13" />
+    </svg>
+  );
+}
+
 export function CloseIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -103,6 +119,33 @@ export function PowerIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function SolarIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <circle {...baseStroke} cx="12" cy="12" r="4" />
+      <path {...baseStroke} d="M12 2v2M12 20v2M2 12h2M20 12h2M4.9 4.9l1.4 1.4M17.7 17.7l1.4 1.4M4.9 19.1l1.4-1.4M17.7 6.3l1.4-1.4" />
+    </svg>
+  );
+}
+
+export function WindIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M12 11v11M12 11l-6-6M12 11l8-2M12 11l-2 8" />
+      <circle {...baseStroke} cx="12" cy="11" r="1" />
+    </svg>
+  );
+}
+
+export function HydroIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M4 4h5l2 16H2z" />
+      <path {...baseStroke} d="M13 9c2 1 4-1 6 0M13 14c2 1 4-1 6 0M13 19c2 1 4-1 6 0" />
+    </svg>
+  );
+}
+
 export function WaterIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -112,6 +155,24 @@ export function WaterIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function PumpIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M5 20V9h8v11M3 20h12M13 13h4v-3h3" />
+      <path {...baseStroke} d="M9 5s-2 2-2 3a2 2 0 0 0 4 0c0-1-2-3-2-3z" />
+    </svg>
+  );
+}
+
+export function PipeIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M3 9h9a3 3 0 0 1 3 3v9M3 15h6v6" />
+      <path {...baseStroke} d="M3 7v10M7 21h10" />
+    </svg>
+  );
+}
+
 export function PopulationIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -197,6 +258,15 @@ export function EnvironmentIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function SmogIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M7 15a4 4 0 0 1 .5-8 5 5 0 0 1 9.5 1.5A3.5 3.5 0 0 1 17 15z" />
+      <path {...baseStroke} d="M5 19h6M14 19h5" />
+    </svg>
+  );
+}
+
 export function BudgetIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -207,6 +277,15 @@ export function BudgetIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function PolicyIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <path {...baseStroke} d="M6 3h9l3 3v15H6z" />
+      <path {...baseStroke} d="M9 9h6M9 13h6M9 17h3" />
+    </svg>
+  );
+}
+
 export function ChartIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -237,6 +316,15 @@ export function AdvisorIcon({ size = 18, className }: IconProps) {
   );
 }
 
+export function BlueprintIcon({ size = 18, className }: IconProps) {
+  return (
+    <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
+      <rect {...baseStroke} x="3" y="3" width="18" height="18" rx="1" />
+      <path {...baseStroke} d="M3 9h6V3M9 15h6v6M15 9v6" />
+    </svg>
+  );
+}
+
 export function SettingsIcon({ size = 18, className }: IconProps) {
   return (
     <svg width={size} height={size} viewBox="0 0 24 24" className={className}>
@@ -404,6 +492,7 @@ export const ToolIcons: Partial<Record<Tool, React.FC<IconProps>>> = {
   road: RoadIcon,
   rail: RailIcon,
   subway: SubwayIcon,
+  water_pipe: PipeIcon,
   tree: TreeIcon,
   zone_residential: (props) => <ZoneIcon {...props} color="#22c55e" />, 
   zone_commercial: (props) => <ZoneIcon {...props} color="#38bdf8" />, 
@@ -418,7 +507,11 @@ export const ToolIcons: Partial<Record<Tool, React.FC<IconProps>>> = {
   university: EducationIcon,
   park: TreeIcon,
   power_plant: PowerIcon,
+  solar_farm: SolarIcon,
+  wind_turbine: WindIcon,
+  hydro_dam: HydroIcon,
   water_tower: WaterIcon,
+  water_pump: PumpIcon,
   subway_station: SubwayStationIcon,
   stadium: TrophyIcon,
   museum: MuseumIcon,
@@ -5,11 +5,43 @@ import React, { createContext, useCallback, useContext, useEffect, useState, use
 import { compressToUTF16, decompressFromUTF16 } from 'lz-string';
 import { serializeAndCompressAsync } from '@/lib/saveWorkerManager';
 import { simulateTick } from '@/lib/simulation';
+import { createRandomSeed, deriveSeed } from '@/lib/rng';
+import { createCarbonLedger, getGridCarbon, MIN_CARBON_CAP, MAX_CARBON_CAP } from '@/lib/carbon';
+import { createLedger } from '@/lib/ledger';
+import { isRoadChange, ROAD_TOOL_CLASSES } from '@/lib/roads';
+import { BrushShape } from '@/lib/brushes';
 import {
+  createBlueprint,
+  getBlueprintCost,
+  getBlueprintPlacements,
+  mirrorBlueprint,
+  parseBlueprint,
+  rotateBlueprint,
+  validateBlueprint,
+} from '@/lib/blueprints';
+import {
+  createHistoryEntry,
+  diffGrids,
+  getRefund,
+  getRestoredTiles,
+  HistoryEntry,
+  MAX_HISTORY,
+  mergeHistoryEntries,
+  RestoredTile,
+  restoreTiles,
+  touchesTiles,
+} from '@/lib/undo';
+import { createTaxRates, getAverageTaxRate, MAX_POLLUTION_SURCHARGE, MAX_TAX_RATE } from '@/lib/taxes';
+import {
+  Blueprint,
   Budget,
   BuildingType,
+  DebtKind,
   GameState,
+  PolicyId,
+  RoadDirection,
   SavedCityMeta,
+  TaxRates,
   Tool,
   TOOL_INFO,
   ZoneType,
@@ -17,18 +49,25 @@ import {
 import {
   bulldozeTile,
   createInitialGameState,
-  DEFAULT_GRID_SIZE,
   expandGrid,
   shrinkGrid,
   placeBuilding,
   placeSubway,
+  placeWaterPipe,
+  layLegacyWaterMains,
   placeWaterTerraform,
   placeLandTerraform,
   checkForDiscoverableCities,
   generateRandomAdvancedCity,
   createBridgesOnPath,
   upgradeServiceBuilding,
+  requiresWaterAdjacency,
+  getBuildingSize,
+  borrow,
+  repayDebt,
 } from '@/lib/simulation';
+import { getConstructionCost } from '@/lib/terrain';
+import { DEFAULT_GRID_SIZE } from '@/lib/gridDefaults';
 import {
   SPRITE_PACKS,
   DEFAULT_SPRITE_PACK_ID,
@@ -41,11 +80,20 @@ const STORAGE_KEY = 'isocity-game-state';
 const SAVED_CITY_STORAGE_KEY = 'isocity-saved-city'; // For restoring after viewing shared city
 const SAVED_CITIES_INDEX_KEY = 'isocity-saved-cities-index'; // Index of all saved cities
 const SAVED_CITY_PREFIX = 'isocity-city-'; // Prefix for individual saved city states
+const BLUEPRINTS_STORAGE_KEY = 'isocity-blueprints'; // Stamp library, shared by every city
 const SPRITE_PACK_STORAGE_KEY = 'isocity-sprite-pack';
 const DAY_NIGHT_MODE_STORAGE_KEY = 'isocity-day-night-mode';
 
 export type DayNightMode = 'auto' | 'day' | 'night';
 
+export type BatchPlacement = { x: number; y: number; tool: Tool; roadDirection?: RoadDirection; flipped?: boolean }; // flipped: pasted buildings' facing
+
+// Loans, repayments and carbon cap changes shared with other players
+export type FinanceAction =
+  | { type: 'setCarbonCap'; cap: number }
+  | { type: 'takeDebt'; kind: DebtKind; amount: number; id: string }
+  | { type: 'repayDebt'; id: string };
+
 // Info about a saved city (for restore functionality)
 export type SavedCityInfo = {
   cityName: string;
@@ -62,13 +110,44 @@ type GameContextValue = {
   setTool: (tool: Tool) => void;
   setSpeed: (speed: 0 | 1 | 2 | 3) => void;
   setTaxRate: (rate: number) => void;
+  setZoneTaxRate: (zone: keyof TaxRates, rate: number) => void;
+  setPollutionSurcharge: (surcharge: number) => void;
+  setPolicy: (id: PolicyId, enacted: boolean) => void;
   setActivePanel: (panel: GameState['activePanel']) => void;
   setBudgetFunding: (key: keyof Budget, funding: number) => void;
+  setCarbonCap: (cap: number, isRemote?: boolean) => void;
+  takeDebt: (kind: DebtKind, amount: number, isRemote?: boolean, id?: string) => boolean; // Returns true if lenders agreed; id reuses a remote debt's
+  repayDebt: (id: string, isRemote?: boolean) => boolean; // Returns true if the balance was paid off
+  setFinanceCallback: (callback: ((action: FinanceAction) => void) | null) => void;
   upgradeServiceBuilding: (x: number, y: number) => boolean; // Returns true if upgrade succeeded
-  placeAtTile: (x: number, y: number, isRemote?: boolean) => void;
-  setPlaceCallback: (callback: ((args: { x: number; y: number; tool: Tool }) => void) | null) => void;
+  placeAtTile: (x: number, y: number, isRemote?: boolean, roadDirection?: RoadDirection) => void; // roadDirection sets one-way flow
+  setPlaceCallback: (callback: ((args: { x: number; y: number; tool: Tool; roadDirection?: RoadDirection }) => void) | null) => void;
+  placeBatch: (placements: BatchPlacement[], isRemote?: boolean) => void; // Brush strokes, applied as one action
+  setBatchCallback: (callback: ((placements: BatchPlacement[]) => void) | null) => void;
+  brushShape: BrushShape;
+  setBrushShape: (shape: BrushShape) => void;
+  // Blueprints: the one being pasted, and the saved stamp library
+  activeBlueprint: Blueprint | null;
+  setActiveBlueprint: (blueprint: Blueprint | null) => void;
+  copyBlueprint: (from: { x: number; y: number }, to: { x: number; y: number }) => boolean; // Returns false if the area is empty
+  rotateBlueprint: () => void;
+  mirrorBlueprint: () => void;
+  pasteBlueprint: (x: number, y: number) => boolean; // Returns false if it doesn't fit or can't be afforded
+  blueprints: Blueprint[];
+  saveBlueprint: (name: string) => void; // Saves the active blueprint to the library
+  deleteBlueprint: (id: string) => void;
+  importBlueprint: (text: string) => boolean; // Returns false if the file isn't a blueprint
   finishTrackDrag: (pathTiles: { x: number; y: number }[], trackType: 'road' | 'rail', isRemote?: boolean) => void; // Create bridges after road/rail drag
   setBridgeCallback: (callback: ((args: { pathTiles: { x: number; y: number }[]; trackType: 'road' | 'rail' }) => void) | null) => void;
+  // Undo history for this player's own building actions
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  beginUndoGroup: () => void; // Actions until endUndoGroup undo as one step (e.g. a drag)
+  endUndoGroup: () => void;
+  restoreTiles: (tiles: RestoredTile[], refund: number, isRemote?: boolean) => void; // Applies another player's undo
+  setHistoryCallback: (callback: ((args: { tiles: RestoredTile[]; refund: number }) => void) | null) => void;
   connectToCity: (cityId: string) => void;
   discoverCity: (cityId: string) => void;
   checkAndDiscoverCities: (onDiscover?: (city: { id: string; direction: 'north' | 'south' | 'east' | 'west'; name: string }) => void) => void;
@@ -113,6 +192,9 @@ function clamp(value: number, min: number, max: number) {
 
 const toolBuildingMap: Partial<Record<Tool, BuildingType>> = {
   road: 'road',
+  avenue: 'road',
+  highway: 'road',
+  one_way_road: 'road',
   rail: 'rail',
   rail_station: 'rail_station',
   tree: 'tree',
@@ -125,6 +207,10 @@ const toolBuildingMap: Partial<Record<Tool, BuildingType>> = {
   park_large: 'park_large',
   tennis: 'tennis',
   power_plant: 'power_plant',
+  solar_farm: 'solar_farm',
+  wind_turbine: 'wind_turbine',
+  hydro_dam: 'hydro_dam',
+  water_pump: 'water_pump',
   water_tower: 'water_tower',
   subway_station: 'subway_station',
   stadium: 'stadium',
@@ -264,6 +350,12 @@ function loadGameState(): GameState | null {
         if (parsed.effectiveTaxRate === undefined) {
           parsed.effectiveTaxRate = parsed.taxRate ?? 9; // Start at current tax rate
         }
+        // Saves from before per-zone taxes charge every zone the single rate
+        if (!parsed.taxRates) {
+          parsed.taxRates = createTaxRates(parsed.taxRate ?? 9);
+          parsed.effectiveTaxRates = createTaxRates(parsed.effectiveTaxRate);
+          parsed.pollutionSurcharge = 0;
+        }
         // Migrate constructionProgress for existing buildings (they're already built)
         if (parsed.grid) {
           for (let y = 0; y < parsed.grid.length; y++) {
@@ -282,6 +374,33 @@ function loadGameState(): GameState | null {
         if (parsed.gameVersion === undefined) {
           parsed.gameVersion = 0;
         }
+        // Ensure seeded PRNG state exists for deterministic simulation
+        if (parsed.seed === undefined) {
+          parsed.seed = createRandomSeed();
+        }
+        if (parsed.rngState === undefined) {
+          parsed.rngState = deriveSeed(parsed.seed, 0);
+        }
+        // Saves from before carbon accounting start with an empty ledger, measured from what they emit now
+        if (!parsed.carbon) {
+          parsed.carbon = createCarbonLedger(undefined, getGridCarbon(parsed.grid));
+        }
+        // Saves from before piped water get mains where their treatment plants reached
+        if (parsed.stats.waterSupply === undefined) {
+          layLegacyWaterMains(parsed.grid, parsed.gridSize);
+        }
+        // Saves from before municipal borrowing have no debts
+        if (!parsed.debts) {
+          parsed.debts = [];
+        }
+        // Saves from before ordinances have none in force
+        if (!parsed.policies) {
+          parsed.policies = [];
+        }
+        // Saves from before the upkeep ledger start with an empty one; the next tick fills it
+        if (!parsed.ledger) {
+          parsed.ledger = createLedger();
+        }
         // Migrate to include UUID if missing
         if (!parsed.id) {
           parsed.id = generateUUID();
@@ -573,6 +692,33 @@ function saveSavedCitiesIndex(cities: SavedCityMeta[]): void {
   }
 }
 
+// Load the blueprint stamp library from localStorage
+function loadBlueprints(): Blueprint[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const saved = localStorage.getItem(BLUEPRINTS_STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      if (Array.isArray(parsed)) {
+        return parsed as Blueprint[];
+      }
+    }
+  } catch (e) {
+    console.error('Failed to load blueprints:', e);
+  }
+  return [];
+}
+
+// Save the blueprint stamp library to localStorage
+function saveBlueprints(blueprints: Blueprint[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    localStorage.setItem(BLUEPRINTS_STORAGE_KEY, JSON.stringify(blueprints));
+  } catch (e) {
+    console.error('Failed to save blueprints:', e);
+  }
+}
+
 // Save a city state to localStorage with compression
 // PERF: Uses Web Worker for BOTH serialization and compression - no main thread blocking!
 async function saveCityStateAsync(cityId: string, state: GameState): Promise<void> {
@@ -645,6 +791,124 @@ function deleteCityState(cityId: string): void {
   }
 }
 
+/** What a tool costs at (x, y) - anything built on steep ground costs more */
+export function getToolCost(grid: GameState['grid'], gridSize: number, x: number, y: number, tool: Tool): number {
+  const cost = TOOL_INFO[tool]?.cost ?? 0;
+  const building = toolBuildingMap[tool];
+  if (!building) return cost;
+  const size = getBuildingSize(building);
+  return getConstructionCost(cost, grid, x, y, size.width, size.height, gridSize);
+}
+
+/** Apply a tool to one tile, charging its cost. Returns prev if nothing would change. */
+function placeOnTile(prev: GameState, x: number, y: number, tool: Tool, roadDirection?: RoadDirection, flipped?: boolean): GameState {
+  if (tool === 'select') return prev;
+
+  const tile = prev.grid[y]?.[x];
+
+  if (!tile) return prev;
+
+  const cost = getToolCost(prev.grid, prev.gridSize, x, y, tool);
+  if (cost > 0 && prev.stats.money < cost) return prev;
+
+  // Prevent wasted spend if nothing would change
+  if (tool === 'bulldoze' && tile.building.type === 'grass' && tile.zone === 'none' && !tile.hasWaterPipe) {
+    return prev;
+  }
+
+  const building = toolBuildingMap[tool];
+  const zone = toolZoneMap[tool];
+  const roadClass = ROAD_TOOL_CLASSES[tool];
+
+  if (zone && tile.zone === zone) return prev;
+  // Road tools can still change a road's class or one-way direction
+  if (building && tile.building.type === building && !(roadClass && isRoadChange(tile.building, roadClass, roadDirection))) return prev;
+  
+  // Handle subway tool separately (underground placement)
+  if (tool === 'subway') {
+    // Can't place subway under water
+    if (tile.building.type === 'water') return prev;
+    // Already has subway
+    if (tile.hasSubway) return prev;
+    
+    const nextState = placeSubway(prev, x, y);
+    if (nextState === prev) return prev;
+    
+    return {
+      ...nextState,
+      stats: { ...nextState.stats, money: nextState.stats.money - cost },
+    };
+  }
+  
+  // Handle water pipe tool separately (underground placement)
+  if (tool === 'water_pipe') {
+    const nextState = placeWaterPipe(prev, x, y);
+    if (nextState === prev) return prev;
+    
+    return {
+      ...nextState,
+      stats: { ...nextState.stats, money: nextState.stats.money - cost },
+    };
+  }
+  
+  // Handle water terraform tool separately
+  if (tool === 'zone_water') {
+    // Already water - do nothing
+    if (tile.building.type === 'water') return prev;
+    // Don't allow terraforming bridges - would break them
+    if (tile.building.type === 'bridge') return prev;
+    
+    const nextState = placeWaterTerraform(prev, x, y);
+    if (nextState === prev) return prev;
+    
+    return {
+      ...nextState,
+      stats: { ...nextState.stats, money: nextState.stats.money - cost },
+    };
+  }
+  
+  // Handle land terraform tool separately
+  if (tool === 'zone_land') {
+    // Only works on water
+    if (tile.building.type !== 'water') return prev;
+    
+    const nextState = placeLandTerraform(prev, x, y);
+    if (nextState === prev) return prev;
+    
+    return {
+      ...nextState,
+      stats: { ...nextState.stats, money: nextState.stats.money - cost },
+    };
+  }
+
+  let nextState: GameState;
+
+  if (tool === 'bulldoze') {
+    nextState = bulldozeTile(prev, x, y);
+  } else if (zone) {
+    nextState = placeBuilding(prev, x, y, null, zone);
+  } else if (building) {
+    nextState = placeBuilding(prev, x, y, building, null, roadClass, roadDirection);
+    // Waterfront buildings already face their water
+    if (flipped !== undefined && nextState !== prev && !requiresWaterAdjacency(building)) {
+      nextState.grid[y][x].building.flipped = flipped;
+    }
+  } else {
+    return prev;
+  }
+
+  if (nextState === prev) return prev;
+
+  if (cost > 0) {
+    nextState = {
+      ...nextState,
+      stats: { ...nextState.stats, money: nextState.stats.money - cost },
+    };
+  }
+
+  return nextState;
+}
+
 export function GameProvider({ children, startFresh = false }: { children: React.ReactNode; startFresh?: boolean }) {
   // Start with a default state, we'll load from localStorage after mount (unless startFresh is true)
   const [state, setState] = useState<GameState>(() => createInitialGameState(DEFAULT_GRID_SIZE, 'IsoCity'));
@@ -657,12 +921,30 @@ export function GameProvider({ children, startFresh = false }: { children: React
   const hasLoadedRef = useRef(false);
   
   // Callback for multiplayer action broadcast
-  const placeCallbackRef = useRef<((args: { x: number; y: number; tool: Tool }) => void) | null>(null);
+  const placeCallbackRef = useRef<((args: { x: number; y: number; tool: Tool; roadDirection?: RoadDirection }) => void) | null>(null);
   const bridgeCallbackRef = useRef<((args: { pathTiles: { x: number; y: number }[]; trackType: 'road' | 'rail' }) => void) | null>(null);
+  const batchCallbackRef = useRef<((placements: BatchPlacement[]) => void) | null>(null);
+  const historyCallbackRef = useRef<((args: { tiles: RestoredTile[]; refund: number }) => void) | null>(null);
+  const financeCallbackRef = useRef<((action: FinanceAction) => void) | null>(null);
+  
+  // Undo history - only local actions are recorded; other players' edits drop entries they touch
+  const undoStackRef = useRef<HistoryEntry[]>([]);
+  const redoStackRef = useRef<HistoryEntry[]>([]);
+  const undoGroupRef = useRef<number | null>(null);
+  const nextUndoGroupRef = useRef(0);
+  // Stack sizes mirrored into state so the undo/redo buttons re-render when history changes
+  const [historySize, setHistorySize] = useState({ undo: 0, redo: 0 });
   
   // Sprite pack state
   const [currentSpritePack, setCurrentSpritePack] = useState<SpritePack>(() => getSpritePack(DEFAULT_SPRITE_PACK_ID));
   
+  // Shape zoning, tree and bulldoze drags fill
+  const [brushShape, setBrushShape] = useState<BrushShape>('rectangle');
+  
+  // Blueprint being pasted and the saved stamp library
+  const [activeBlueprint, setActiveBlueprint] = useState<Blueprint | null>(null);
+  const [blueprints, setBlueprints] = useState<Blueprint[]>([]);
+  
   // Day/night mode state
   const [dayNightMode, setDayNightModeState] = useState<DayNightMode>('auto');
   
@@ -685,6 +967,9 @@ export function GameProvider({ children, startFresh = false }: { children: React
     const cities = loadSavedCitiesIndex();
     setSavedCities(cities);
     
+    // Load blueprint stamp library
+    setBlueprints(loadBlueprints());
+    
     // Load game state (unless startFresh is true - used for co-op to start with a new city)
     if (!startFresh) {
       const saved = loadGameState();
@@ -714,6 +999,55 @@ export function GameProvider({ children, startFresh = false }: { children: React
   const latestStateRef = useRef(state);
   latestStateRef.current = state;
   
+  const syncHistorySize = useCallback(() => {
+    setHistorySize({ undo: undoStackRef.current.length, redo: redoStackRef.current.length });
+  }, []);
+  
+  // Record a local action that turned prev into next
+  const recordHistory = useCallback((prev: GameState, next: GameState, group: number | null) => {
+    const entry = createHistoryEntry(prev, next, group);
+    if (!entry) return;
+    const stack = undoStackRef.current;
+    const last = stack[stack.length - 1];
+    if (group !== null && last?.group === group) {
+      stack[stack.length - 1] = mergeHistoryEntries(last, entry);
+    } else {
+      stack.push(entry);
+      if (stack.length > MAX_HISTORY) stack.shift();
+    }
+    redoStackRef.current = [];
+    syncHistorySize();
+  }, [syncHistorySize]);
+  
+  // Drop local entries touching tiles another player changed - they can't be undone cleanly
+  const invalidateHistory = useCallback((tiles: { x: number; y: number }[]) => {
+    if (tiles.length === 0) return;
+    undoStackRef.current = undoStackRef.current.filter(entry => !touchesTiles(entry, tiles));
+    redoStackRef.current = redoStackRef.current.filter(entry => !touchesTiles(entry, tiles));
+    syncHistorySize();
+  }, [syncHistorySize]);
+  
+  // Apply a grid action to the latest state outside any updater, so history is recorded
+  // (or invalidated for remote actions) exactly once. The ref is advanced too, so several
+  // actions before the next render build on each other.
+  const applyAction = useCallback((action: (prev: GameState) => GameState, group: number | null, isRemote: boolean) => {
+    const prev = latestStateRef.current;
+    const next = action(prev);
+    if (next === prev) return false;
+    latestStateRef.current = next;
+    setState(next);
+    if (isRemote) invalidateHistory(diffGrids(prev.grid, next.grid));
+    else recordHistory(prev, next, group);
+    return true;
+  }, [recordHistory, invalidateHistory]);
+  
+  // A new, loaded, resized or reshaped city starts with no history
+  useEffect(() => {
+    undoStackRef.current = [];
+    redoStackRef.current = [];
+    syncHistorySize();
+  }, [state.id, state.gridSize, syncHistorySize]);
+  
   useEffect(() => {
     if (!hasLoadedRef.current) {
       return;
@@ -845,8 +1179,29 @@ export function GameProvider({ children, startFresh = false }: { children: React
     setState((prev) => ({ ...prev, speed }));
   }, []);
 
+  // The top bar slider sets every zone to the same rate
   const setTaxRate = useCallback((rate: number) => {
-    setState((prev) => ({ ...prev, taxRate: clamp(rate, 0, 100) }));
+    const clamped = clamp(rate, 0, MAX_TAX_RATE);
+    setState((prev) => ({ ...prev, taxRate: clamped, taxRates: createTaxRates(clamped) }));
+  }, []);
+
+  const setZoneTaxRate = useCallback((zone: keyof TaxRates, rate: number) => {
+    setState((prev) => {
+      const taxRates = { ...prev.taxRates, [zone]: clamp(rate, 0, MAX_TAX_RATE) };
+      return { ...prev, taxRates, taxRate: Math.round(getAverageTaxRate(taxRates)) };
+    });
+  }, []);
+
+  const setPollutionSurcharge = useCallback((surcharge: number) => {
+    setState((prev) => ({ ...prev, pollutionSurcharge: clamp(surcharge, 0, MAX_POLLUTION_SURCHARGE) }));
+  }, []);
+
+  const setPolicy = useCallback((id: PolicyId, enacted: boolean) => {
+    setState((prev) => {
+      const policies = prev.policies ?? [];
+      if (policies.includes(id) === enacted) return prev;
+      return { ...prev, policies: enacted ? [...policies, id] : policies.filter((policy) => policy !== id) };
+    });
   }, []);
 
   const setActivePanel = useCallback(
@@ -870,131 +1225,180 @@ export function GameProvider({ children, startFresh = false }: { children: React
     [],
   );
 
-  const placeAtTile = useCallback((x: number, y: number, isRemote = false) => {
-    // For multiplayer broadcast, we need to capture the tool synchronously
-    // before React batches the setState. We read from the latest state ref.
-    const currentTool = latestStateRef.current.selectedTool;
-    
-    setState((prev) => {
-      const tool = prev.selectedTool;
-      if (tool === 'select') return prev;
+  const setCarbonCap = useCallback((cap: number, isRemote = false) => {
+    const clamped = clamp(cap, MIN_CARBON_CAP, MAX_CARBON_CAP);
+    setState((prev) => ({
+      ...prev,
+      carbon: { ...prev.carbon, cap: clamped },
+    }));
+    if (!isRemote) financeCallbackRef.current?.({ type: 'setCarbonCap', cap: clamped });
+  }, []);
 
-      const info = TOOL_INFO[tool];
-      const cost = info?.cost ?? 0;
-      const tile = prev.grid[y]?.[x];
+  // Loans are checked against the latest state up front, so only ones lenders agreed to are broadcast
+  const takeDebt = useCallback((kind: DebtKind, amount: number, isRemote = false, id?: string) => {
+    const next = borrow(latestStateRef.current, kind, amount, id);
+    if (!next) return false;
+    latestStateRef.current = next;
+    setState(next);
+    // Peers book the debt under the same id, so a later repayment finds it
+    if (!isRemote) financeCallbackRef.current?.({ type: 'takeDebt', kind, amount, id: next.debts[next.debts.length - 1].id });
+    return true;
+  }, []);
 
-      if (!tile) return prev;
-      if (cost > 0 && prev.stats.money < cost) return prev;
+  const repayDebtHandler = useCallback((id: string, isRemote = false) => {
+    const next = repayDebt(latestStateRef.current, id);
+    if (!next) return false;
+    latestStateRef.current = next;
+    setState(next);
+    if (!isRemote) financeCallbackRef.current?.({ type: 'repayDebt', id });
+    return true;
+  }, []);
 
-      // Prevent wasted spend if nothing would change
-      if (tool === 'bulldoze' && tile.building.type === 'grass' && tile.zone === 'none') {
-        return prev;
-      }
+  const setFinanceCallback = useCallback((callback: ((action: FinanceAction) => void) | null) => {
+    financeCallbackRef.current = callback;
+  }, []);
 
-      const building = toolBuildingMap[tool];
-      const zone = toolZoneMap[tool];
+  const placeAtTile = useCallback((x: number, y: number, isRemote = false, roadDirection?: RoadDirection) => {
+    // For multiplayer broadcast, we need to capture the tool synchronously
+    // before React batches the setState. We read from the latest state ref.
+    const currentTool = latestStateRef.current.selectedTool;
+    const group = undoGroupRef.current;
+    
+    applyAction((prev) => placeOnTile(prev, x, y, prev.selectedTool, roadDirection), group, isRemote);
+    
+    // Broadcast to multiplayer if this is a local action (not remote)
+    // We use the tool captured before setState since React 18 batches async
+    if (!isRemote && currentTool !== 'select' && placeCallbackRef.current) {
+      placeCallbackRef.current({ x, y, tool: currentTool, roadDirection });
+    }
+  }, [applyAction]);
 
-      if (zone && tile.zone === zone) return prev;
-      if (building && tile.building.type === building) return prev;
-      
-      // Handle subway tool separately (underground placement)
-      if (tool === 'subway') {
-        // Can't place subway under water
-        if (tile.building.type === 'water') return prev;
-        // Already has subway
-        if (tile.hasSubway) return prev;
-        
-        const nextState = placeSubway(prev, x, y);
-        if (nextState === prev) return prev;
-        
-        return {
-          ...nextState,
-          stats: { ...nextState.stats, money: nextState.stats.money - cost },
-        };
-      }
-      
-      // Handle water terraform tool separately
-      if (tool === 'zone_water') {
-        // Already water - do nothing
-        if (tile.building.type === 'water') return prev;
-        // Don't allow terraforming bridges - would break them
-        if (tile.building.type === 'bridge') return prev;
-        
-        const nextState = placeWaterTerraform(prev, x, y);
-        if (nextState === prev) return prev;
-        
-        return {
-          ...nextState,
-          stats: { ...nextState.stats, money: nextState.stats.money - cost },
-        };
-      }
-      
-      // Handle land terraform tool separately
-      if (tool === 'zone_land') {
-        // Only works on water
-        if (tile.building.type !== 'water') return prev;
-        
-        const nextState = placeLandTerraform(prev, x, y);
-        if (nextState === prev) return prev;
-        
-        return {
-          ...nextState,
-          stats: { ...nextState.stats, money: nextState.stats.money - cost },
-        };
+  // Place a whole brush stroke (or a remote batch) as one state update, one undo step and one broadcast
+  const placeBatch = useCallback((placements: BatchPlacement[], isRemote = false) => {
+    if (placements.length === 0) return;
+    const group = undoGroupRef.current;
+    
+    applyAction((prev) => {
+      let next = prev;
+      for (const { x, y, tool, roadDirection, flipped } of placements) {
+        next = placeOnTile(next, x, y, tool, roadDirection, flipped);
       }
+      return next;
+    }, group, isRemote);
+    
+    if (!isRemote && batchCallbackRef.current) {
+      batchCallbackRef.current(placements);
+    }
+  }, [applyAction]);
 
-      let nextState: GameState;
+  const copyBlueprint = useCallback((from: { x: number; y: number }, to: { x: number; y: number }) => {
+    const { grid, gridSize } = latestStateRef.current;
+    const blueprint = createBlueprint(grid, gridSize, from, to, `Blueprint ${new Date().toLocaleDateString()}`);
+    if (!blueprint) return false;
+    setActiveBlueprint(blueprint);
+    return true;
+  }, []);
 
-      if (tool === 'bulldoze') {
-        nextState = bulldozeTile(prev, x, y);
-      } else if (zone) {
-        nextState = placeBuilding(prev, x, y, null, zone);
-      } else if (building) {
-        nextState = placeBuilding(prev, x, y, building, null);
-      } else {
-        return prev;
-      }
+  const rotateActiveBlueprint = useCallback(() => {
+    setActiveBlueprint((prev) => prev && rotateBlueprint(prev));
+  }, []);
 
-      if (nextState === prev) return prev;
+  const mirrorActiveBlueprint = useCallback(() => {
+    setActiveBlueprint((prev) => prev && mirrorBlueprint(prev));
+  }, []);
 
-      if (cost > 0) {
-        nextState = {
-          ...nextState,
-          stats: { ...nextState.stats, money: nextState.stats.money - cost },
-        };
-      }
+  const pasteBlueprint = useCallback((x: number, y: number) => {
+    if (!activeBlueprint) return false;
+    const { grid, gridSize, stats } = latestStateRef.current;
+    if (validateBlueprint(grid, gridSize, activeBlueprint, x, y).length > 0) return false;
+    if (stats.money < getBlueprintCost(activeBlueprint, { grid, gridSize, x, y })) return false;
+    placeBatch(getBlueprintPlacements(activeBlueprint, x, y));
+    return true;
+  }, [activeBlueprint, placeBatch]);
+
+  const saveBlueprint = useCallback((name: string) => {
+    if (!activeBlueprint) return;
+    const saved = { ...activeBlueprint, name: name.trim() || activeBlueprint.name };
+    setActiveBlueprint(saved);
+    setBlueprints((prev) => {
+      const next = [saved, ...prev.filter((b) => b.id !== saved.id)];
+      saveBlueprints(next);
+      return next;
+    });
+  }, [activeBlueprint]);
 
-      return nextState;
+  const deleteBlueprint = useCallback((id: string) => {
+    setBlueprints((prev) => {
+      const next = prev.filter((b) => b.id !== id);
+      saveBlueprints(next);
+      return next;
     });
-    
-    // Broadcast to multiplayer if this is a local action (not remote)
-    // We use the tool captured before setState since React 18 batches async
-    if (!isRemote && currentTool !== 'select' && placeCallbackRef.current) {
-      placeCallbackRef.current({ x, y, tool: currentTool });
-    }
   }, []);
 
-  const upgradeServiceBuildingHandler = useCallback((x: number, y: number) => {
-    let upgradeSucceeded = false;
-    setState((prev) => {
-      const upgradedState = upgradeServiceBuilding(prev, x, y);
-      if (upgradedState) {
-        upgradeSucceeded = true;
-        return upgradedState;
-      }
-      return prev;
+  const importBlueprint = useCallback((text: string) => {
+    const blueprint = parseBlueprint(text);
+    if (!blueprint) return false;
+    setBlueprints((prev) => {
+      const next = [blueprint, ...prev];
+      saveBlueprints(next);
+      return next;
     });
-    return upgradeSucceeded;
+    return true;
   }, []);
 
+  const upgradeServiceBuildingHandler = useCallback((x: number, y: number) => {
+    return applyAction((prev) => upgradeServiceBuilding(prev, x, y) ?? prev, null, false);
+  }, [applyAction]);
+
   // Called after a road/rail drag operation to create bridges for water crossings
   const finishTrackDrag = useCallback((pathTiles: { x: number; y: number }[], trackType: 'road' | 'rail', isRemote = false) => {
-    setState((prev) => createBridgesOnPath(prev, pathTiles, trackType));
+    const group = undoGroupRef.current;
+    applyAction((prev) => createBridgesOnPath(prev, pathTiles, trackType), group, isRemote);
     
     // Broadcast to multiplayer if this is a local action (not remote)
     if (!isRemote && bridgeCallbackRef.current) {
       bridgeCallbackRef.current({ pathTiles, trackType });
     }
+  }, [applyAction]);
+
+  const beginUndoGroup = useCallback(() => {
+    nextUndoGroupRef.current += 1;
+    undoGroupRef.current = nextUndoGroupRef.current;
+  }, []);
+
+  const endUndoGroup = useCallback(() => {
+    undoGroupRef.current = null;
+  }, []);
+
+  // Write tiles back and settle money; remote calls drop local entries on those tiles
+  const restoreTilesHandler = useCallback((tiles: RestoredTile[], refund: number, isRemote = false) => {
+    const next = restoreTiles(latestStateRef.current, tiles, refund);
+    latestStateRef.current = next;
+    setState(next);
+    if (isRemote) invalidateHistory(tiles);
+  }, [invalidateHistory]);
+
+  const stepHistory = useCallback((direction: 'undo' | 'redo') => {
+    const from = direction === 'undo' ? undoStackRef.current : redoStackRef.current;
+    const to = direction === 'undo' ? redoStackRef.current : undoStackRef.current;
+    const entry = from[from.length - 1];
+    if (!entry) return;
+    const tiles = getRestoredTiles(entry, direction);
+    const refund = getRefund(entry, direction);
+    // Redoing charges again, so the city must still afford it
+    if (refund < 0 && latestStateRef.current.stats.money < -refund) return;
+    from.pop();
+    to.push(entry);
+    restoreTilesHandler(tiles, refund);
+    syncHistorySize();
+    historyCallbackRef.current?.({ tiles, refund });
+  }, [restoreTilesHandler, syncHistorySize]);
+
+  const undo = useCallback(() => stepHistory('undo'), [stepHistory]);
+  const redo = useCallback(() => stepHistory('redo'), [stepHistory]);
+
+  const setHistoryCallback = useCallback((callback: ((args: { tiles: RestoredTile[]; refund: number }) => void) | null) => {
+    historyCallbackRef.current = callback;
   }, []);
 
   const connectToCity = useCallback((cityId: string) => {
@@ -1097,10 +1501,14 @@ export function GameProvider({ children, startFresh = false }: { children: React
     setState((prev) => ({ ...prev, disastersEnabled: enabled }));
   }, []);
   
-  const setPlaceCallback = useCallback((callback: ((args: { x: number; y: number; tool: Tool }) => void) | null) => {
+  const setPlaceCallback = useCallback((callback: ((args: { x: number; y: number; tool: Tool; roadDirection?: RoadDirection }) => void) | null) => {
     placeCallbackRef.current = callback;
   }, []);
 
+  const setBatchCallback = useCallback((callback: ((placements: BatchPlacement[]) => void) | null) => {
+    batchCallbackRef.current = callback;
+  }, []);
+
   const setBridgeCallback = useCallback((callback: ((args: { pathTiles: { x: number; y: number }[]; trackType: 'road' | 'rail' }) => void) | null) => {
     bridgeCallbackRef.current = callback;
   }, []);
@@ -1187,6 +1595,12 @@ export function GameProvider({ children, startFresh = false }: { children: React
         if (parsed.effectiveTaxRate === undefined) {
           parsed.effectiveTaxRate = parsed.taxRate ?? 9;
         }
+        // Saves from before per-zone taxes charge every zone the single rate
+        if (!parsed.taxRates) {
+          parsed.taxRates = createTaxRates(parsed.taxRate ?? 9);
+          parsed.effectiveTaxRates = createTaxRates(parsed.effectiveTaxRate);
+          parsed.pollutionSurcharge = 0;
+        }
         // Migrate constructionProgress for existing buildings (they're already built)
         if (parsed.grid) {
           for (let y = 0; y < parsed.grid.length; y++) {
@@ -1201,6 +1615,33 @@ export function GameProvider({ children, startFresh = false }: { children: React
             }
           }
         }
+        // Ensure seeded PRNG state exists for deterministic simulation
+        if (parsed.seed === undefined) {
+          parsed.seed = createRandomSeed();
+        }
+        if (parsed.rngState === undefined) {
+          parsed.rngState = deriveSeed(parsed.seed, 0);
+        }
+        // Saves from before carbon accounting start with an empty ledger, measured from what they emit now
+        if (!parsed.carbon) {
+          parsed.carbon = createCarbonLedger(undefined, getGridCarbon(parsed.grid));
+        }
+        // Saves from before piped water get mains where their treatment plants reached
+        if (parsed.stats.waterSupply === undefined) {
+          layLegacyWaterMains(parsed.grid, parsed.gridSize);
+        }
+        // Saves from before municipal borrowing have no debts
+        if (!parsed.debts) {
+          parsed.debts = [];
+        }
+        // Saves from before ordinances have none in force
+        if (!parsed.policies) {
+          parsed.policies = [];
+        }
+        // Saves from before the upkeep ledger start with an empty one; the next tick fills it
+        if (!parsed.ledger) {
+          parsed.ledger = createLedger();
+        }
         // Increment gameVersion to clear vehicles/entities when loading a new state
         setState((prev) => ({
           ...(parsed as GameState),
@@ -1304,6 +1745,8 @@ export function GameProvider({ children, startFresh = false }: { children: React
           police: expandServiceGrid(prev.services.police),
           health: expandServiceGrid(prev.services.health),
           education: expandServiceGrid(prev.services.education),
+          treatment: expandServiceGrid(prev.services.treatment),
+          waterContamination: expandServiceGrid(prev.services.waterContamination),
         },
         // Update bounds
         bounds: {
@@ -1403,6 +1846,8 @@ export function GameProvider({ children, startFresh = false }: { children: React
           police: shrinkServiceGrid(prev.services.police),
           health: shrinkServiceGrid(prev.services.health),
           education: shrinkServiceGrid(prev.services.education),
+          treatment: shrinkServiceGrid(prev.services.treatment),
+          waterContamination: shrinkServiceGrid(prev.services.waterContamination),
         },
         // Update bounds
         bounds: {
@@ -1566,6 +2011,32 @@ export function GameProvider({ children, startFresh = false }: { children: React
     if (cityState.effectiveTaxRate === undefined) {
       cityState.effectiveTaxRate = cityState.taxRate ?? 9;
     }
+    if (!cityState.taxRates) {
+      cityState.taxRates = createTaxRates(cityState.taxRate ?? 9);
+      cityState.effectiveTaxRates = createTaxRates(cityState.effectiveTaxRate);
+      cityState.pollutionSurcharge = 0;
+    }
+    if (cityState.seed === undefined) {
+      cityState.seed = createRandomSeed();
+    }
+    if (cityState.rngState === undefined) {
+      cityState.rngState = deriveSeed(cityState.seed, 0);
+    }
+    if (!cityState.carbon) {
+      cityState.carbon = createCarbonLedger(undefined, cityState.grid ? getGridCarbon(cityState.grid) : 0);
+    }
+    if (cityState.grid && cityState.stats && cityState.stats.waterSupply === undefined) {
+      layLegacyWaterMains(cityState.grid, cityState.gridSize);
+    }
+    if (!cityState.debts) {
+      cityState.debts = [];
+    }
+    if (!cityState.policies) {
+      cityState.policies = [];
+    }
+    if (!cityState.ledger) {
+      cityState.ledger = createLedger();
+    }
     if (cityState.grid) {
       for (let y = 0; y < cityState.grid.length; y++) {
         for (let x = 0; x < cityState.grid[y].length; x++) {
@@ -1634,13 +2105,42 @@ export function GameProvider({ children, startFresh = false }: { children: React
     setTool,
     setSpeed,
     setTaxRate,
+    setZoneTaxRate,
+    setPollutionSurcharge,
+    setPolicy,
     setActivePanel,
     setBudgetFunding,
+    setCarbonCap,
+    takeDebt,
+    repayDebt: repayDebtHandler,
+    setFinanceCallback,
     placeAtTile,
     upgradeServiceBuilding: upgradeServiceBuildingHandler,
     setPlaceCallback,
+    placeBatch,
+    setBatchCallback,
+    brushShape,
+    setBrushShape,
+    activeBlueprint,
+    setActiveBlueprint,
+    copyBlueprint,
+    rotateBlueprint: rotateActiveBlueprint,
+    mirrorBlueprint: mirrorActiveBlueprint,
+    pasteBlueprint,
+    blueprints,
+    saveBlueprint,
+    deleteBlueprint,
+    importBlueprint,
     finishTrackDrag,
     setBridgeCallback,
+    undo,
+    redo,
+    canUndo: historySize.undo > 0,
+    canRedo: historySize.redo > 0,
+    beginUndoGroup,
+    endUndoGroup,
+    restoreTiles: restoreTilesHandler,
+    setHistoryCallback,
     connectToCity,
     discoverCity,
     checkAndDiscoverCities,
@@ -15,6 +15,7 @@ export type BuildingType =
   | 'park' | 'park_large' | 'tennis'
   // Utilities -> Infrastructure
   | 'power_plant' | 'water_tower'
+  | 'solar_farm' | 'wind_turbine' | 'hydro_dam' | 'water_pump'
   // Transportation
   | 'subway_station' | 'rail_station'
   // Special
@@ -31,6 +32,8 @@ export type BuildingType =
 export type BridgeType = 'small' | 'medium' | 'large' | 'suspension';
 export type BridgeOrientation = 'ns' | 'ew';
 export type BridgeTrackType = 'road' | 'rail';
+export type RoadClass = 'street' | 'avenue' | 'highway' | 'one_way';
+export type RoadDirection = 'north' | 'east' | 'south' | 'west';
 
 export interface Building {
   type: BuildingType;
@@ -44,6 +47,8 @@ export interface Building {
   age: number;
   constructionProgress: number;
   abandoned: boolean;
+  brownout?: boolean; // In plant range but shed because demand exceeds supply
+  contaminatedWater?: boolean; // Piped water comes from a polluted intake
   flipped?: boolean;
   cityId?: string;
   bridgeType?: BridgeType;
@@ -53,6 +58,8 @@ export interface Building {
   bridgeIndex?: number;
   bridgeSpan?: number;
   bridgeTrackType?: BridgeTrackType;
+  roadClass?: RoadClass; // Roads only; missing means a street
+  roadDirection?: RoadDirection; // One-way roads: the only way traffic may flow
 }
 
 // Groupings for the UI
@@ -63,92 +70,102 @@ export const INDUSTRIAL_BUILDINGS: BuildingType[] = ['factory_small', 'factory_m
 // NEW: Define Pollution Types
 export type PollutionType = 'none' | 'toxic' | 'thermal' | 'nutrient';
 
+// Each pollutant is tracked in its own concentration channel on a tile
+export type PollutantChannel = Exclude<PollutionType, 'none'>;
+export type PollutantLevels = Record<PollutantChannel, number>;
+
 interface BuildingStats {
   maxPop: number;
   maxJobs: number;
   pollution: number; // 0-100
   pollutionType: PollutionType; // NEW FIELD
   landValue: number;
+  upkeep: number; // Monthly operating cost at full funding (0 for privately run buildings)
+  carbon?: number; // Net CO2 in tonnes per game day while operating (negative = sequestered)
 }
 
 // THE HACK: Mapping generic sprites to Eco-Concepts
 export const BUILDING_STATS: Record<BuildingType, BuildingStats> = {
-  empty: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 0 },
-  grass: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 0 },
-  water: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 5 },
-  road: { maxPop: 0, maxJobs: 0, pollution: 5, pollutionType: 'toxic', landValue: 0 },
-  bridge: { maxPop: 0, maxJobs: 0, pollution: 2, pollutionType: 'toxic', landValue: 5 },
-  rail: { maxPop: 0, maxJobs: 0, pollution: 2, pollutionType: 'toxic', landValue: -2 },
-  tree: { maxPop: 0, maxJobs: 0, pollution: -10, pollutionType: 'none', landValue: 5 }, // Trees clean pollution (negative value)
+  empty: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 0, upkeep: 0 },
+  grass: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 0, upkeep: 0 },
+  water: { maxPop: 0, maxJobs: 0, pollution: 0, pollutionType: 'none', landValue: 5, upkeep: 0 },
+  road: { maxPop: 0, maxJobs: 0, pollution: 5, pollutionType: 'toxic', landValue: 0, upkeep: 2, carbon: 0.05 },
+  bridge: { maxPop: 0, maxJobs: 0, pollution: 2, pollutionType: 'toxic', landValue: 5, upkeep: 4 },
+  rail: { maxPop: 0, maxJobs: 0, pollution: 2, pollutionType: 'toxic', landValue: -2, upkeep: 2 },
+  tree: { maxPop: 0, maxJobs: 0, pollution: -10, pollutionType: 'none', landValue: 5, upkeep: 0, carbon: -0.01 }, // Trees clean pollution (negative value)
 
   // Housing
-  house_small: { maxPop: 6, maxJobs: 0, pollution: 2, pollutionType: 'nutrient', landValue: 10 }, // Sewage
-  house_medium: { maxPop: 14, maxJobs: 0, pollution: 4, pollutionType: 'nutrient', landValue: 22 },
-  mansion: { maxPop: 18, maxJobs: 0, pollution: 5, pollutionType: 'nutrient', landValue: 60 },
-  apartment_low: { maxPop: 120, maxJobs: 0, pollution: 10, pollutionType: 'nutrient', landValue: 40 },
-  apartment_high: { maxPop: 260, maxJobs: 0, pollution: 15, pollutionType: 'nutrient', landValue: 55 },
+  house_small: { maxPop: 6, maxJobs: 0, pollution: 2, pollutionType: 'nutrient', landValue: 10, upkeep: 0, carbon: 0.1 }, // Sewage
+  house_medium: { maxPop: 14, maxJobs: 0, pollution: 4, pollutionType: 'nutrient', landValue: 22, upkeep: 0, carbon: 0.2 },
+  mansion: { maxPop: 18, maxJobs: 0, pollution: 5, pollutionType: 'nutrient', landValue: 60, upkeep: 0, carbon: 0.4 },
+  apartment_low: { maxPop: 120, maxJobs: 0, pollution: 10, pollutionType: 'nutrient', landValue: 40, upkeep: 0, carbon: 1.5 },
+  apartment_high: { maxPop: 260, maxJobs: 0, pollution: 15, pollutionType: 'nutrient', landValue: 55, upkeep: 0, carbon: 3 },
 
   // Commercial / Tech
-  shop_small: { maxPop: 0, maxJobs: 10, pollution: 5, pollutionType: 'toxic', landValue: 16 },
-  shop_medium: { maxPop: 0, maxJobs: 28, pollution: 10, pollutionType: 'toxic', landValue: 26 },
-  office_low: { maxPop: 0, maxJobs: 90, pollution: 10, pollutionType: 'thermal', landValue: 40 }, // Tech Startup
-  office_high: { maxPop: 0, maxJobs: 210, pollution: 60, pollutionType: 'thermal', landValue: 55 }, // DATA CENTER (High Heat!)
-  mall: { maxPop: 0, maxJobs: 260, pollution: 20, pollutionType: 'toxic', landValue: 70 },
+  shop_small: { maxPop: 0, maxJobs: 10, pollution: 5, pollutionType: 'toxic', landValue: 16, upkeep: 0, carbon: 0.3 },
+  shop_medium: { maxPop: 0, maxJobs: 28, pollution: 10, pollutionType: 'toxic', landValue: 26, upkeep: 0, carbon: 0.6 },
+  office_low: { maxPop: 0, maxJobs: 90, pollution: 10, pollutionType: 'thermal', landValue: 40, upkeep: 0, carbon: 1 }, // Tech Startup
+  office_high: { maxPop: 0, maxJobs: 210, pollution: 60, pollutionType: 'thermal', landValue: 55, upkeep: 0, carbon: 4 }, // DATA CENTER (High Heat!)
+  mall: { maxPop: 0, maxJobs: 260, pollution: 20, pollutionType: 'toxic', landValue: 70, upkeep: 0, carbon: 3 },
 
   // Heavy Industry (The Bad Stuff)
-  factory_small: { maxPop: 0, maxJobs: 40, pollution: 50, pollutionType: 'toxic', landValue: -5 }, // Textile Factory
-  factory_medium: { maxPop: 0, maxJobs: 90, pollution: 80, pollutionType: 'toxic', landValue: -10 }, // Chemical Plant
-  factory_large: { maxPop: 0, maxJobs: 180, pollution: 100, pollutionType: 'toxic', landValue: -18 }, // Heavy Industry
-  warehouse: { maxPop: 0, maxJobs: 60, pollution: 10, pollutionType: 'toxic', landValue: -6 },
+  factory_small: { maxPop: 0, maxJobs: 40, pollution: 50, pollutionType: 'toxic', landValue: -5, upkeep: 0, carbon: 3 }, // Textile Factory
+  factory_medium: { maxPop: 0, maxJobs: 90, pollution: 80, pollutionType: 'toxic', landValue: -10, upkeep: 0, carbon: 6 }, // Chemical Plant
+  factory_large: { maxPop: 0, maxJobs: 180, pollution: 100, pollutionType: 'toxic', landValue: -18, upkeep: 0, carbon: 12 }, // Heavy Industry
+  warehouse: { maxPop: 0, maxJobs: 60, pollution: 10, pollutionType: 'toxic', landValue: -6, upkeep: 0, carbon: 1.5 },
 
   // Agriculture (Nutrient Pollution)
-  animal_pens_farm: { maxPop: 0, maxJobs: 4, pollution: 70, pollutionType: 'nutrient', landValue: 10 }, // Industrial Farm
-  greenhouse_garden: { maxPop: 0, maxJobs: 8, pollution: 40, pollutionType: 'nutrient', landValue: 28 }, // Fertilizer Runoff
+  animal_pens_farm: { maxPop: 0, maxJobs: 4, pollution: 70, pollutionType: 'nutrient', landValue: 10, upkeep: 0, carbon: 2 }, // Industrial Farm
+  greenhouse_garden: { maxPop: 0, maxJobs: 8, pollution: 40, pollutionType: 'nutrient', landValue: 28, upkeep: 0, carbon: 0.5 }, // Fertilizer Runoff
 
   // Mitigation Tools
-  park: { maxPop: 0, maxJobs: 2, pollution: -20, pollutionType: 'none', landValue: 20 }, // Small Buffer
-  park_large: { maxPop: 0, maxJobs: 6, pollution: -50, pollutionType: 'none', landValue: 50 }, // Wetland Reserve
-  water_tower: { maxPop: 0, maxJobs: 5, pollution: -80, pollutionType: 'none', landValue: 5 }, // WATER TREATMENT PLANT
+  park: { maxPop: 0, maxJobs: 2, pollution: -20, pollutionType: 'none', landValue: 20, upkeep: 10, carbon: -0.2 }, // Small Buffer
+  park_large: { maxPop: 0, maxJobs: 6, pollution: -50, pollutionType: 'none', landValue: 50, upkeep: 10, carbon: -1 }, // Wetland Reserve
+  water_tower: { maxPop: 0, maxJobs: 5, pollution: -80, pollutionType: 'none', landValue: 5, upkeep: 75 }, // WATER TREATMENT PLANT
 
   // Standard/Unchanged
-  police_station: { maxPop: 0, maxJobs: 20, pollution: 0, pollutionType: 'none', landValue: 15 },
-  fire_station: { maxPop: 0, maxJobs: 20, pollution: 0, pollutionType: 'none', landValue: 10 },
-  hospital: { maxPop: 0, maxJobs: 80, pollution: 5, pollutionType: 'toxic', landValue: 25 },
-  school: { maxPop: 0, maxJobs: 25, pollution: 0, pollutionType: 'none', landValue: 15 },
-  university: { maxPop: 0, maxJobs: 100, pollution: 10, pollutionType: 'thermal', landValue: 35 },
-  tennis: { maxPop: 0, maxJobs: 1, pollution: -5, pollutionType: 'none', landValue: 15 },
-  power_plant: { maxPop: 0, maxJobs: 30, pollution: 90, pollutionType: 'toxic', landValue: -20 }, // Coal Plant
-  stadium: { maxPop: 0, maxJobs: 50, pollution: 5, pollutionType: 'none', landValue: 40 },
-  museum: { maxPop: 0, maxJobs: 40, pollution: 0, pollutionType: 'none', landValue: 45 },
-  airport: { maxPop: 0, maxJobs: 200, pollution: 80, pollutionType: 'toxic', landValue: 50 },
-  space_program: { maxPop: 0, maxJobs: 150, pollution: 20, pollutionType: 'thermal', landValue: 80 },
-  subway_station: { maxPop: 0, maxJobs: 15, pollution: 0, pollutionType: 'none', landValue: 25 },
-  rail_station: { maxPop: 0, maxJobs: 25, pollution: 2, pollutionType: 'none', landValue: 20 },
-  city_hall: { maxPop: 0, maxJobs: 60, pollution: 0, pollutionType: 'none', landValue: 50 },
-  amusement_park: { maxPop: 0, maxJobs: 100, pollution: 8, pollutionType: 'none', landValue: 60 },
-  basketball_courts: { maxPop: 0, maxJobs: 2, pollution: -3, pollutionType: 'none', landValue: 12 },
-  playground_small: { maxPop: 0, maxJobs: 1, pollution: -5, pollutionType: 'none', landValue: 15 },
-  playground_large: { maxPop: 0, maxJobs: 2, pollution: -8, pollutionType: 'none', landValue: 18 },
-  baseball_field_small: { maxPop: 0, maxJobs: 4, pollution: -10, pollutionType: 'none', landValue: 25 },
-  soccer_field_small: { maxPop: 0, maxJobs: 2, pollution: -5, pollutionType: 'none', landValue: 15 },
-  football_field: { maxPop: 0, maxJobs: 8, pollution: -8, pollutionType: 'none', landValue: 30 },
-  baseball_stadium: { maxPop: 0, maxJobs: 60, pollution: 5, pollutionType: 'none', landValue: 45 },
-  community_center: { maxPop: 0, maxJobs: 10, pollution: 0, pollutionType: 'none', landValue: 20 },
-  office_building_small: { maxPop: 0, maxJobs: 25, pollution: 1, pollutionType: 'none', landValue: 22 },
-  swimming_pool: { maxPop: 0, maxJobs: 5, pollution: -5, pollutionType: 'none', landValue: 18 },
-  skate_park: { maxPop: 0, maxJobs: 2, pollution: -3, pollutionType: 'none', landValue: 12 },
-  mini_golf_course: { maxPop: 0, maxJobs: 6, pollution: -8, pollutionType: 'none', landValue: 22 },
-  bleachers_field: { maxPop: 0, maxJobs: 3, pollution: -5, pollutionType: 'none', landValue: 15 },
-  go_kart_track: { maxPop: 0, maxJobs: 10, pollution: 5, pollutionType: 'none', landValue: 20 },
-  amphitheater: { maxPop: 0, maxJobs: 15, pollution: -5, pollutionType: 'none', landValue: 35 },
-  cabin_house: { maxPop: 4, maxJobs: 0, pollution: -3, pollutionType: 'none', landValue: 15 },
-  campground: { maxPop: 0, maxJobs: 3, pollution: -8, pollutionType: 'none', landValue: 12 },
-  marina_docks_small: { maxPop: 0, maxJobs: 8, pollution: 2, pollutionType: 'none', landValue: 25 },
-  pier_large: { maxPop: 0, maxJobs: 12, pollution: 1, pollutionType: 'none', landValue: 30 },
-  roller_coaster_small: { maxPop: 0, maxJobs: 20, pollution: 3, pollutionType: 'none', landValue: 40 },
-  community_garden: { maxPop: 0, maxJobs: 2, pollution: -12, pollutionType: 'none', landValue: 18 },
-  pond_park: { maxPop: 0, maxJobs: 2, pollution: -15, pollutionType: 'none', landValue: 22 },
-  park_gate: { maxPop: 0, maxJobs: 1, pollution: -2, pollutionType: 'none', landValue: 8 },
-  mountain_lodge: { maxPop: 0, maxJobs: 15, pollution: -5, pollutionType: 'none', landValue: 35 },
-  mountain_trailhead: { maxPop: 0, maxJobs: 2, pollution: -10, pollutionType: 'none', landValue: 15 },
+  police_station: { maxPop: 0, maxJobs: 20, pollution: 0, pollutionType: 'none', landValue: 15, upkeep: 50 },
+  fire_station: { maxPop: 0, maxJobs: 20, pollution: 0, pollutionType: 'none', landValue: 10, upkeep: 50 },
+  hospital: { maxPop: 0, maxJobs: 80, pollution: 5, pollutionType: 'toxic', landValue: 25, upkeep: 100, carbon: 1 },
+  school: { maxPop: 0, maxJobs: 25, pollution: 0, pollutionType: 'none', landValue: 15, upkeep: 30 },
+  university: { maxPop: 0, maxJobs: 100, pollution: 10, pollutionType: 'thermal', landValue: 35, upkeep: 100, carbon: 1 },
+  tennis: { maxPop: 0, maxJobs: 1, pollution: -5, pollutionType: 'none', landValue: 15, upkeep: 10 },
+  power_plant: { maxPop: 0, maxJobs: 30, pollution: 90, pollutionType: 'toxic', landValue: -20, upkeep: 150, carbon: 20 }, // Coal Plant
+  solar_farm: { maxPop: 0, maxJobs: 5, pollution: 0, pollutionType: 'none', landValue: -2, upkeep: 60 },
+  wind_turbine: { maxPop: 0, maxJobs: 2, pollution: 0, pollutionType: 'none', landValue: -5, upkeep: 20 }, // Noise
+  hydro_dam: { maxPop: 0, maxJobs: 15, pollution: 0, pollutionType: 'none', landValue: 5, upkeep: 120 },
+  water_pump: { maxPop: 0, maxJobs: 6, pollution: 0, pollutionType: 'none', landValue: -2, upkeep: 40 },
+  stadium: { maxPop: 0, maxJobs: 50, pollution: 5, pollutionType: 'none', landValue: 40, upkeep: 150, carbon: 1 },
+  museum: { maxPop: 0, maxJobs: 40, pollution: 0, pollutionType: 'none', landValue: 45, upkeep: 60 },
+  airport: { maxPop: 0, maxJobs: 200, pollution: 80, pollutionType: 'toxic', landValue: 50, upkeep: 400, carbon: 15 },
+  space_program: { maxPop: 0, maxJobs: 150, pollution: 20, pollutionType: 'thermal', landValue: 80, upkeep: 500, carbon: 8 },
+  subway_station: { maxPop: 0, maxJobs: 15, pollution: 0, pollutionType: 'none', landValue: 25, upkeep: 25 },
+  rail_station: { maxPop: 0, maxJobs: 25, pollution: 2, pollutionType: 'none', landValue: 20, upkeep: 30 },
+  city_hall: { maxPop: 0, maxJobs: 60, pollution: 0, pollutionType: 'none', landValue: 50, upkeep: 80 },
+  amusement_park: { maxPop: 0, maxJobs: 100, pollution: 8, pollutionType: 'none', landValue: 60, upkeep: 120 },
+  basketball_courts: { maxPop: 0, maxJobs: 2, pollution: -3, pollutionType: 'none', landValue: 12, upkeep: 5 },
+  playground_small: { maxPop: 0, maxJobs: 1, pollution: -5, pollutionType: 'none', landValue: 15, upkeep: 3 },
+  playground_large: { maxPop: 0, maxJobs: 2, pollution: -8, pollutionType: 'none', landValue: 18, upkeep: 5 },
+  baseball_field_small: { maxPop: 0, maxJobs: 4, pollution: -10, pollutionType: 'none', landValue: 25, upkeep: 8 },
+  soccer_field_small: { maxPop: 0, maxJobs: 2, pollution: -5, pollutionType: 'none', landValue: 15, upkeep: 5 },
+  football_field: { maxPop: 0, maxJobs: 8, pollution: -8, pollutionType: 'none', landValue: 30, upkeep: 10 },
+  baseball_stadium: { maxPop: 0, maxJobs: 60, pollution: 5, pollutionType: 'none', landValue: 45, upkeep: 120 },
+  community_center: { maxPop: 0, maxJobs: 10, pollution: 0, pollutionType: 'none', landValue: 20, upkeep: 20 },
+  office_building_small: { maxPop: 0, maxJobs: 25, pollution: 1, pollutionType: 'none', landValue: 22, upkeep: 0 },
+  swimming_pool: { maxPop: 0, maxJobs: 5, pollution: -5, pollutionType: 'none', landValue: 18, upkeep: 15 },
+  skate_park: { maxPop: 0, maxJobs: 2, pollution: -3, pollutionType: 'none', landValue: 12, upkeep: 5 },
+  mini_golf_course: { maxPop: 0, maxJobs: 6, pollution: -8, pollutionType: 'none', landValue: 22, upkeep: 8 },
+  bleachers_field: { maxPop: 0, maxJobs: 3, pollution: -5, pollutionType: 'none', landValue: 15, upkeep: 4 },
+  go_kart_track: { maxPop: 0, maxJobs: 10, pollution: 5, pollutionType: 'none', landValue: 20, upkeep: 12 },
+  amphitheater: { maxPop: 0, maxJobs: 15, pollution: -5, pollutionType: 'none', landValue: 35, upkeep: 25 },
+  cabin_house: { maxPop: 4, maxJobs: 0, pollution: -3, pollutionType: 'none', landValue: 15, upkeep: 0 },
+  campground: { maxPop: 0, maxJobs: 3, pollution: -8, pollutionType: 'none', landValue: 12, upkeep: 5, carbon: -0.1 },
+  marina_docks_small: { maxPop: 0, maxJobs: 8, pollution: 2, pollutionType: 'none', landValue: 25, upkeep: 25 },
+  pier_large: { maxPop: 0, maxJobs: 12, pollution: 1, pollutionType: 'none', landValue: 30, upkeep: 10 },
+  roller_coaster_small: { maxPop: 0, maxJobs: 20, pollution: 3, pollutionType: 'none', landValue: 40, upkeep: 30 },
+  community_garden: { maxPop: 0, maxJobs: 2, pollution: -12, pollutionType: 'none', landValue: 18, upkeep: 4, carbon: -0.1 },
+  pond_park: { maxPop: 0, maxJobs: 2, pollution: -15, pollutionType: 'none', landValue: 22, upkeep: 8, carbon: -0.2 },
+  park_gate: { maxPop: 0, maxJobs: 1, pollution: -2, pollutionType: 'none', landValue: 8, upkeep: 2 },
+  mountain_lodge: { maxPop: 0, maxJobs: 15, pollution: -5, pollutionType: 'none', landValue: 35, upkeep: 30 },
+  mountain_trailhead: { maxPop: 0, maxJobs: 2, pollution: -10, pollutionType: 'none', landValue: 15, upkeep: 4, carbon: -0.3 },
 };
\ No newline at end of file
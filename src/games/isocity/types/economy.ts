@@ -2,6 +2,11 @@
  * IsoCity Economy Types
  */
 
+import { BuildingType } from './buildings';
+
+/** How a resident gets to work */
+export type CommuteMode = 'walk' | 'car' | 'subway' | 'rail';
+
 export interface Stats {
   population: number;
   jobs: number;
@@ -12,7 +17,18 @@ export interface Stats {
   health: number;
   education: number;
   safety: number;
+  crime: number; // Average crime (0-100) where people live and work
+  congestion: number; // Average road congestion (0-100) along commuters' routes
+  commuteMinutes: number; // Average one-way trip to work
+  commuteModes: Record<CommuteMode, number>; // Share of commuters (0-100) by mode
   environment: number;
+  carbonEmissions: number; // Net CO2 in tonnes per day (negative = net sequestration)
+  carbonBalance: number; // Monthly carbon credit (+) or tax (-), already in income/expenses
+  powerSupply: number; // MW generated this tick
+  powerDemand: number; // MW requested by connected buildings
+  powerCapacity: number; // MW the city's plants could produce under ideal conditions
+  waterSupply: number; // kL/day the city's pumps and wells can deliver
+  waterDemand: number; // kL/day requested by buildings on a pipe network
   demand: {
     residential: number;
     commercial: number;
@@ -20,6 +36,12 @@ export interface Stats {
   };
 }
 
+export interface TaxRates {
+  residential: number; // % charged per resident
+  commercial: number; // % charged per commercial job (and jobs outside the three zones)
+  industrial: number; // % charged per industrial job
+}
+
 export interface BudgetCategory {
   name: string;
   funding: number;
@@ -37,6 +59,26 @@ export interface Budget {
   water: BudgetCategory;
 }
 
+export type IncomeSource = keyof TaxRates | 'property' | 'pollutionSurcharge' | 'carbonCredits';
+
+// Budget departments plus civic landmarks (not covered by funding sliders), ordinances and the carbon tax
+export type ExpenseCategory = keyof Budget | 'civic' | 'policies' | 'carbonTax';
+
+// Building types plus the tunnels and pipes laid under tiles
+export type UpkeepItem = BuildingType | 'subway' | 'water_pipe';
+
+export interface UpkeepLine {
+  count: number;
+  cost: number; // Monthly upkeep at full funding
+}
+
+export interface BudgetLedger {
+  income: Record<IncomeSource, number>; // Monthly revenue by source
+  expenses: Record<ExpenseCategory, number>; // Monthly spending by category, after funding
+  upkeep: Partial<Record<UpkeepItem, UpkeepLine>>; // Upkeep of every publicly run building type
+  cities: Record<string, { income: number; expenses: number }>; // Monthly totals keyed by City.id
+}
+
 export interface CityEconomy {
   population: number;
   jobs: number;
@@ -52,4 +94,27 @@ export interface HistoryPoint {
   population: number;
   money: number;
   happiness: number;
+  carbon?: number; // Net CO2 in tonnes over the trailing 12 months
 }
+
+export interface CarbonLedger {
+  cap: number; // Annual emissions cap in tonnes; going over it is taxed
+  baseline?: number; // Net tonnes per day when the map was generated; absorbing more earns credits. Missing on older saves (counts as 0)
+  monthToDate: number; // Net tonnes emitted so far this month
+  months: number[]; // Net tonnes for each of the last (up to) 12 completed months, oldest first
+}
+
+export type DebtKind = 'loan' | 'bond';
+
+export type CreditRating = 'AAA' | 'AA' | 'A' | 'BBB' | 'BB' | 'B' | 'CCC';
+
+export interface Debt {
+  id: string;
+  kind: DebtKind; // Loans amortize weekly; bonds pay interest weekly and the principal at maturity
+  principal: number; // Amount borrowed
+  balance: number; // Principal still owed
+  rate: number; // Annual interest rate (0.05 = 5%), fixed when issued
+  weeksRemaining: number;
+}
+
+export type PolicyId = 'wastewater_filtering' | 'fertilizer_limits' | 'car_free_downtown' | 'recycling_program' | 'water_metering';
@@ -3,18 +3,19 @@
  */
 
 import { msg } from 'gt-next';
-import { Building, PollutionType } from './buildings'; // Import new type
+import { Building, BuildingType, PollutionType, PollutantLevels, RoadClass, RoadDirection } from './buildings'; // Import new type
 import { ZoneType } from './zones';
-import { Stats, Budget, CityEconomy, HistoryPoint } from './economy';
+import { Stats, Budget, BudgetLedger, CityEconomy, CommuteMode, HistoryPoint, CarbonLedger, Debt, PolicyId, TaxRates } from './economy';
 import { ServiceCoverage } from './services';
 
 export type Tool =
-  | 'select' | 'bulldoze' | 'road' | 'rail' | 'subway'
-  | 'expand_city' | 'shrink_city' | 'tree'
+  | 'select' | 'bulldoze' | 'road' | 'avenue' | 'highway' | 'one_way_road' | 'rail' | 'subway' | 'water_pipe'
+  | 'expand_city' | 'shrink_city' | 'tree' | 'blueprint'
   | 'zone_residential' | 'zone_commercial' | 'zone_industrial' | 'zone_dezone'
   | 'zone_water' | 'zone_land'
   | 'police_station' | 'fire_station' | 'hospital' | 'school' | 'university'
   | 'park' | 'park_large' | 'tennis' | 'power_plant' | 'water_tower'
+  | 'solar_farm' | 'wind_turbine' | 'hydro_dam' | 'water_pump'
   | 'subway_station' | 'rail_station' | 'stadium' | 'museum' | 'airport'
   | 'space_program' | 'city_hall' | 'amusement_park'
   | 'basketball_courts' | 'playground_small' | 'playground_large'
@@ -36,12 +37,17 @@ export interface ToolInfo {
 export const TOOL_INFO: Record<Tool, ToolInfo> = {
   select: { name: msg('Inspector'), cost: 0, description: msg('View Pollution Levels') },
   bulldoze: { name: msg('Clear Land'), cost: 10, description: msg('Demolish buildings') },
-  road: { name: msg('Road'), cost: 25, description: msg('Connect infrastructure') },
+  road: { name: msg('Street'), cost: 25, description: msg('Two-way local road') },
+  avenue: { name: msg('Avenue'), cost: 60, description: msg('Wide, busy arterial road') },
+  highway: { name: msg('Highway'), cost: 150, description: msg('Fast and high capacity, no zone access or pedestrians') },
+  one_way_road: { name: msg('One-Way Road'), cost: 30, description: msg('Drag to set the direction of flow') },
   rail: { name: msg('Freight Rail'), cost: 40, description: msg('Industrial transport') },
   subway: { name: msg('Metro'), cost: 50, description: msg('Public transit') },
+  water_pipe: { name: msg('Water Pipe'), cost: 20, description: msg('Carries water from pumps to buildings') },
   expand_city: { name: msg('Expand Map'), cost: 0, description: msg('Add territory') },
   shrink_city: { name: msg('Shrink Map'), cost: 0, description: msg('Remove territory') },
   tree: { name: msg('Reforest'), cost: 15, description: msg('Plant trees to absorb carbon') },
+  blueprint: { name: msg('Blueprint'), cost: 0, description: msg('Copy an area and paste it elsewhere') },
   
   // Zoning
   zone_residential: { name: msg('Housing Zone'), cost: 50, description: msg('Citizens live here') },
@@ -63,6 +69,10 @@ export const TOOL_INFO: Record<Tool, ToolInfo> = {
   park_large: { name: msg('Wetland Reserve'), cost: 600, description: msg('Filters water naturally'), size: 3 },
   water_tower: { name: msg('Water Treatment Plant'), cost: 1000, description: msg('Actively cleans water pollution'), size: 1 }, // REPURPOSED
   power_plant: { name: msg('Coal Power Plant'), cost: 3000, description: msg('High energy, High Toxic Waste'), size: 2 },
+  solar_farm: { name: msg('Solar Farm'), cost: 2000, description: msg('Clean, daytime only'), size: 2 },
+  wind_turbine: { name: msg('Wind Turbine'), cost: 900, description: msg('Clean, output follows the wind'), size: 1 },
+  hydro_dam: { name: msg('Hydro Dam'), cost: 4000, description: msg('Clean, steady, must border water'), size: 2 },
+  water_pump: { name: msg('Pumping Station'), cost: 1500, description: msg('Pumps lake water into pipes, must border water'), size: 1 },
   
   // New Industries
   animal_pens_farm: { name: msg('Industrial Farm'), cost: 400, description: msg('High Food, High Algae Risk'), size: 1 },
@@ -105,6 +115,14 @@ export const TOOL_INFO: Record<Tool, ToolInfo> = {
   mountain_trailhead: { name: msg('Hiking Trail'), cost: 400, description: msg('Access to nature'), size: 3 },
 };
 
+/** Where a household's working residents go each day and how they get there */
+export interface Commute {
+  workX: number; // Workplace most of them travel to
+  workY: number;
+  minutes: number; // Average one-way trip
+  trips: Record<CommuteMode, number>; // Commuters by mode
+}
+
 export interface Tile {
   x: number;
   y: number;
@@ -114,12 +132,19 @@ export interface Tile {
   pollution: number;
   crime: number;
   traffic: number;
+  commute?: Commute; // Homes only, routed at the start of each day
   hasSubway: boolean;
+  hasWaterPipe?: boolean;
   hasRailOverlay?: boolean;
   
   // NEW FIELDS FOR PHYSICS
-  pollutionType?: PollutionType; // 'toxic', 'thermal', etc.
+  pollutionType?: PollutionType; // Dominant channel in `pollutants`
+  pollutants?: PollutantLevels; // Per-channel concentrations 0-100; `pollution` is their capped sum
+  toxicBurden?: number; // Bioaccumulated toxins 0-100, builds under toxic pollution and clears very slowly
+  algae?: number; // Algae density 0-100 on water tiles, fed by nutrient pollution
+  algaeBloom?: boolean; // Part of a water body in an algae bloom event
   waterDepth?: number; // 0 to 1
+  elevation?: number; // Terrain height in levels, 0 (or unset) is flat ground and water
 }
 
 export interface City {
@@ -141,10 +166,11 @@ export interface AdjacentCity {
 export interface WaterBody {
   id: string;
   name: string;
-  type: 'lake' | 'ocean';
+  type: 'lake' | 'ocean' | 'river';
   tiles: { x: number; y: number }[];
   centerX: number;
   centerY: number;
+  flowDirection?: { dx: number; dy: number }; // Rivers only: unit vector from source to mouth
 }
 
 export interface Notification {
@@ -174,20 +200,52 @@ export interface GameState {
   tick: number;
   speed: 0 | 1 | 2 | 3;
   selectedTool: Tool;
-  taxRate: number;
+  taxRate: number; // Average of taxRates, shown on the top bar slider
   effectiveTaxRate: number;
+  taxRates: TaxRates; // Rates set per zone
+  effectiveTaxRates: TaxRates; // Lagging per-zone rates that drive demand
+  pollutionSurcharge: number; // Extra % on industrial jobs, scaled by each building's pollution
   stats: Stats;
   budget: Budget;
+  ledger: BudgetLedger; // Itemised breakdown of this month's income and expenses
   services: ServiceCoverage;
   notifications: Notification[];
   advisorMessages: AdvisorMessage[];
   history: HistoryPoint[];
-  activePanel: 'none' | 'budget' | 'statistics' | 'advisors' | 'settings';
+  activePanel: 'none' | 'budget' | 'policies' | 'statistics' | 'advisors' | 'settings' | 'blueprints';
   disastersEnabled: boolean;
   adjacentCities: AdjacentCity[];
   waterBodies: WaterBody[];
   gameVersion: number;
   cities: City[];
+  carbon: CarbonLedger;
+  debts: Debt[]; // Outstanding loans and bonds
+  policies: PolicyId[]; // Ordinances in force
+  seed: number; // World seed terrain was generated from
+  rngState: number; // Seeded PRNG state, advanced by every simulateTick
+}
+
+/** One tile of a blueprint, relative to the blueprint's top-left corner */
+export interface BlueprintTile {
+  dx: number;
+  dy: number;
+  building?: BuildingType; // Road, rail, tree or placed building; multi-tile buildings only at their origin
+  roadClass?: RoadClass;
+  roadDirection?: RoadDirection;
+  flipped?: boolean;
+  hasRailOverlay?: boolean;
+  zone?: ZoneType; // Missing when unzoned
+  hasSubway?: boolean;
+}
+
+/** A copied layout of roads, buildings, zones and subway that can be pasted elsewhere */
+export interface Blueprint {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+  tiles: BlueprintTile[];
+  createdAt: number;
 }
 
 export interface SavedCityMeta {
@@ -8,5 +8,7 @@ export interface ServiceCoverage {
   health: number[][];
   education: number[][];
   power: boolean[][];
-  water: boolean[][];
+  water: boolean[][]; // Served by a pipe network with a working source
+  treatment: number[][]; // Water treatment plant reach (0-100), before budget funding
+  waterContamination: number[][]; // Pollution (0-100) in the piped water a tile receives
 }
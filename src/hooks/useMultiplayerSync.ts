@@ -4,7 +4,7 @@ import { useEffect, useCallback, useRef } from 'react';
 import { useMultiplayerOptional } from '@/context/MultiplayerContext';
 import { useGame } from '@/context/GameContext';
 import { GameAction, GameActionInput } from '@/lib/multiplayer/types';
-import { Tool, Budget, GameState, SavedCityMeta } from '@/types/game';
+import { Tool, Budget, GameState, PolicyId, RoadDirection, SavedCityMeta, TaxRates } from '@/types/game';
 
 // Batch placement buffer for reducing message count during drags
 const BATCH_FLUSH_INTERVAL = 100; // ms - flush every 100ms during drag
@@ -64,7 +64,7 @@ export function useMultiplayerSync() {
   const initialStateLoadedRef = useRef(false);
   
   // Batching for placements - use refs to avoid stale closures
-  const placementBufferRef = useRef<Array<{ x: number; y: number; tool: Tool }>>([]);
+  const placementBufferRef = useRef<Array<{ x: number; y: number; tool: Tool; roadDirection?: RoadDirection }>>([]);
   const flushTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const multiplayerRef = useRef(multiplayer);
   
@@ -108,18 +108,13 @@ export function useMultiplayerSync() {
         // Save current tool, apply placement, restore tool
         const currentTool = game.state.selectedTool;
         game.setTool(action.tool);
-        game.placeAtTile(action.x, action.y, true); // isRemote = true
+        game.placeAtTile(action.x, action.y, true, action.roadDirection); // isRemote = true
         game.setTool(currentTool);
         break;
         
       case 'placeBatch':
-        // Apply multiple placements from a single message (e.g., road drag)
-        const originalTool = game.state.selectedTool;
-        for (const placement of action.placements) {
-          game.setTool(placement.tool);
-          game.placeAtTile(placement.x, placement.y, true); // isRemote = true
-        }
-        game.setTool(originalTool);
+        // Apply multiple placements from a single message (e.g., road drag or brush stroke)
+        game.placeBatch(action.placements, true); // isRemote = true
         break;
         
       case 'bulldoze':
@@ -133,10 +128,34 @@ export function useMultiplayerSync() {
         game.setTaxRate(action.rate);
         break;
         
+      case 'setZoneTaxRate':
+        game.setZoneTaxRate(action.zone, action.rate);
+        break;
+        
+      case 'setPollutionSurcharge':
+        game.setPollutionSurcharge(action.surcharge);
+        break;
+        
+      case 'setPolicy':
+        game.setPolicy(action.id, action.enacted);
+        break;
+        
       case 'setBudget':
         game.setBudgetFunding(action.key, action.funding);
         break;
         
+      case 'setCarbonCap':
+        game.setCarbonCap(action.cap, true);
+        break;
+        
+      case 'takeDebt':
+        game.takeDebt(action.kind, action.amount, true, action.id);
+        break;
+        
+      case 'repayDebt':
+        game.repayDebt(action.id, true);
+        break;
+        
       case 'setSpeed':
         game.setSpeed(action.speed);
         break;
@@ -150,6 +169,11 @@ export function useMultiplayerSync() {
         game.finishTrackDrag(action.pathTiles, action.trackType, true); // isRemote = true
         break;
         
+      case 'restoreTiles':
+        // Another player undid or redid one of their own actions
+        game.restoreTiles(action.tiles, action.refund, true); // isRemote = true
+        break;
+        
       case 'fullState':
         // Ignore - full state sync is handled separately via state-sync event
         // Blocking this prevents malicious players from overwriting game state
@@ -193,7 +217,7 @@ export function useMultiplayerSync() {
     if (placements.length === 1) {
       // Single placement - send as regular place action
       const p = placements[0];
-      mp.dispatchAction({ type: 'place', x: p.x, y: p.y, tool: p.tool });
+      mp.dispatchAction({ type: 'place', x: p.x, y: p.y, tool: p.tool, roadDirection: p.roadDirection });
     } else {
       // Multiple placements - send as batch
       mp.dispatchAction({ type: 'placeBatch', placements });
@@ -215,14 +239,14 @@ export function useMultiplayerSync() {
       return;
     }
     
-    game.setPlaceCallback(({ x, y, tool }: { x: number; y: number; tool: Tool }) => {
+    game.setPlaceCallback(({ x, y, tool, roadDirection }: { x: number; y: number; tool: Tool; roadDirection?: RoadDirection }) => {
       if (tool === 'bulldoze') {
         // Bulldoze is sent immediately (not batched)
         flushPlacements(); // Flush any pending placements first
         multiplayer.dispatchAction({ type: 'bulldoze', x, y });
       } else if (tool !== 'select') {
         // Add to batch
-        placementBufferRef.current.push({ x, y, tool });
+        placementBufferRef.current.push(roadDirection ? { x, y, tool, roadDirection } : { x, y, tool });
         
         // Force flush if batch is large
         if (placementBufferRef.current.length >= BATCH_MAX_SIZE) {
@@ -244,6 +268,23 @@ export function useMultiplayerSync() {
     };
   }, [multiplayer, multiplayer?.connectionState, game, flushPlacements]);
 
+  // Register callback to broadcast brush strokes as a single batch
+  useEffect(() => {
+    if (!multiplayer || multiplayer.connectionState !== 'connected') {
+      game.setBatchCallback(null);
+      return;
+    }
+    
+    game.setBatchCallback((placements) => {
+      flushPlacements(); // Keep earlier single placements ahead of the batch
+      multiplayer.dispatchAction({ type: 'placeBatch', placements });
+    });
+    
+    return () => {
+      game.setBatchCallback(null);
+    };
+  }, [multiplayer, multiplayer?.connectionState, game, flushPlacements]);
+
   // Register callback to broadcast bridge creation
   useEffect(() => {
     if (!multiplayer || multiplayer.connectionState !== 'connected') {
@@ -260,6 +301,39 @@ export function useMultiplayerSync() {
     };
   }, [multiplayer, multiplayer?.connectionState, game]);
 
+  // Register callback to broadcast local undo/redo
+  useEffect(() => {
+    if (!multiplayer || multiplayer.connectionState !== 'connected') {
+      game.setHistoryCallback(null);
+      return;
+    }
+    
+    game.setHistoryCallback(({ tiles, refund }) => {
+      flushPlacements(); // Peers must see the placements before they are undone
+      multiplayer.dispatchAction({ type: 'restoreTiles', tiles, refund });
+    });
+    
+    return () => {
+      game.setHistoryCallback(null);
+    };
+  }, [multiplayer, multiplayer?.connectionState, game, flushPlacements]);
+
+  // Register callback to broadcast loans, repayments and carbon cap changes
+  useEffect(() => {
+    if (!multiplayer || multiplayer.connectionState !== 'connected') {
+      game.setFinanceCallback(null);
+      return;
+    }
+    
+    game.setFinanceCallback((action) => {
+      multiplayer.dispatchAction(action);
+    });
+    
+    return () => {
+      game.setFinanceCallback(null);
+    };
+  }, [multiplayer, multiplayer?.connectionState, game]);
+
   // Keep the game state synced with the Supabase database
   // The provider handles throttling internally (saves every 3 seconds max)
   // Also updates the local saved cities index so the city appears on the homepage
@@ -303,11 +377,11 @@ export function useMultiplayerSync() {
 
   // Helper to broadcast a placement action
   // Uses object parameter to prevent accidental coordinate swapping
-  const broadcastPlace = useCallback(({ x, y, tool }: { x: number; y: number; tool: Tool }) => {
+  const broadcastPlace = useCallback(({ x, y, tool, roadDirection }: { x: number; y: number; tool: Tool; roadDirection?: RoadDirection }) => {
     if (tool === 'bulldoze') {
       broadcastAction({ type: 'bulldoze', x, y });
     } else if (tool !== 'select') {
-      broadcastAction({ type: 'place', x, y, tool });
+      broadcastAction({ type: 'place', x, y, tool, roadDirection });
     }
   }, [broadcastAction]);
 
@@ -316,6 +390,21 @@ export function useMultiplayerSync() {
     broadcastAction({ type: 'setTaxRate', rate });
   }, [broadcastAction]);
 
+  // Helper to broadcast a single zone's tax rate change
+  const broadcastZoneTaxRate = useCallback((zone: keyof TaxRates, rate: number) => {
+    broadcastAction({ type: 'setZoneTaxRate', zone, rate });
+  }, [broadcastAction]);
+
+  // Helper to broadcast pollution surcharge change
+  const broadcastPollutionSurcharge = useCallback((surcharge: number) => {
+    broadcastAction({ type: 'setPollutionSurcharge', surcharge });
+  }, [broadcastAction]);
+
+  // Helper to broadcast an ordinance being enacted or repealed
+  const broadcastPolicy = useCallback((id: PolicyId, enacted: boolean) => {
+    broadcastAction({ type: 'setPolicy', id, enacted });
+  }, [broadcastAction]);
+
   // Helper to broadcast budget change
   const broadcastBudget = useCallback((key: keyof Budget, funding: number) => {
     broadcastAction({ type: 'setBudget', key, funding });
@@ -347,6 +436,9 @@ export function useMultiplayerSync() {
     players: multiplayer?.players ?? [],
     broadcastPlace,
     broadcastTaxRate,
+    broadcastZoneTaxRate,
+    broadcastPollutionSurcharge,
+    broadcastPolicy,
     broadcastBudget,
     broadcastSpeed,
     broadcastDisasters,
@@ -2,6 +2,8 @@
 
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { GameState } from '@/types/game';
+import { POWER_PLANT_TYPES } from '@/lib/power';
+import { WATER_SOURCE_TYPES } from '@/lib/waterSupply';
 import { msg } from 'gt-next';
 
 // Tip definitions with their conditions and messages
@@ -51,13 +53,13 @@ const TIP_DEFINITIONS: TipDefinition[] = [
   },
   {
     id: 'needs_utilities',
-    message: msg('Buildings need power, water, and roads for construction to begin.'),
+    message: msg('Buildings need power, piped water, and roads for construction to begin.'),
     priority: 1,
     check: (state: GameState) => {
       // Check if there are zoned tiles (even just grass) but no utilities infrastructure
       let hasZonedTiles = false;
       let hasPowerPlant = false;
-      let hasWaterTower = false;
+      let hasWaterSource = false;
       let hasRoad = false;
       
       for (let y = 0; y < state.gridSize; y++) {
@@ -67,14 +69,14 @@ const TIP_DEFINITIONS: TipDefinition[] = [
             hasZonedTiles = true;
           }
           const type = tile.building.type;
-          if (type === 'power_plant') hasPowerPlant = true;
-          if (type === 'water_tower') hasWaterTower = true;
+          if (POWER_PLANT_TYPES.has(type)) hasPowerPlant = true;
+          if (WATER_SOURCE_TYPES.has(type)) hasWaterSource = true;
           if (type === 'road' || type === 'bridge') hasRoad = true;
         }
       }
       
       // Trigger if: have zones but missing any utility infrastructure
-      return hasZonedTiles && (!hasPowerPlant || !hasWaterTower || !hasRoad);
+      return hasZonedTiles && (!hasPowerPlant || !hasWaterSource || !hasRoad);
     },
   },
   {
@@ -0,0 +1,123 @@
+// Algae bloom events for IsoCity
+// A connected water body whose nutrient load passes a threshold blooms as a whole:
+// its tiles are flagged, fishing piers on it stop producing and boats stay away
+// until the load is brought back down.
+
+import { Tile, BUILDING_STATS } from '@/types/game';
+import { isWaterSurface } from './hydrology';
+import { getPollutants } from './pollution';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Average nutrient load across a water body at which a bloom breaks out */
+export const BLOOM_START_LOAD = 20;
+/** A bloom only clears once the load falls back below this (hysteresis) */
+export const BLOOM_CLEAR_LOAD = 8;
+
+// Algae biomass still counts towards the load - it releases its nutrients when it dies
+const ALGAE_LOAD_WEIGHT = 0.5;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+
+// ============================================================================
+// BLOOM UPDATE
+// ============================================================================
+
+export interface BloomEvent {
+  /** Representative tile of the affected water body */
+  x: number;
+  y: number;
+  tiles: number;
+}
+
+export interface BloomReport {
+  started: BloomEvent[];
+  cleared: BloomEvent[];
+  /** Water bodies currently in bloom */
+  activeBlooms: number;
+  bloomTiles: number;
+  /** Fishing piers whose catch is lost to a bloom */
+  fishKills: number;
+}
+
+/** Nutrient load of a single water tile */
+function getNutrientLoad(tile: Tile): number {
+  return getPollutants(tile).nutrient + (tile.algae ?? 0) * ALGAE_LOAD_WEIGHT;
+}
+
+/**
+ * Start, sustain or clear blooms on every connected water body, then set the
+ * catch (jobs) of each fishing pier from whether its water is blooming.
+ *
+ * `getModifiableTile` must return a tile that is safe to mutate (simulateTick's
+ * copy-on-write rows); tiles are only copied when their flag or catch changes.
+ */
+export function updateAlgaeBlooms(grid: Tile[][], size: number, getModifiableTile: (x: number, y: number) => Tile): BloomReport {
+  const report: BloomReport = { started: [], cleared: [], activeBlooms: 0, bloomTiles: 0, fishKills: 0 };
+  const visited = new Uint8Array(size * size);
+  const body: number[] = [];
+
+  for (let sy = 0; sy < size; sy++) {
+    for (let sx = 0; sx < size; sx++) {
+      const start = sy * size + sx;
+      if (visited[start] || !isWaterSurface(grid[sy][sx])) continue;
+
+      // Flood-fill the water body, summing its load and noting whether it already blooms
+      body.length = 0;
+      body.push(start);
+      visited[start] = 1;
+      let load = 0;
+      let blooming = false;
+      for (let head = 0; head < body.length; head++) {
+        const idx = body[head];
+        const x = idx % size; const y = (idx - x) / size;
+        const tile = grid[y][x];
+        load += getNutrientLoad(tile);
+        if (tile.algaeBloom) blooming = true;
+        for (const [dx, dy] of NEIGHBORS) {
+          const nx = x + dx; const ny = y + dy;
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+          const nIdx = ny * size + nx;
+          if (visited[nIdx] || !isWaterSurface(grid[ny][nx])) continue;
+          visited[nIdx] = 1;
+          body.push(nIdx);
+        }
+      }
+
+      const averageLoad = load / body.length;
+      const bloomNow = blooming ? averageLoad >= BLOOM_CLEAR_LOAD : averageLoad >= BLOOM_START_LOAD;
+      const event = { x: sx, y: sy, tiles: body.length };
+      if (bloomNow && !blooming) report.started.push(event);
+      if (!bloomNow && blooming) report.cleared.push(event);
+      if (bloomNow) {
+        report.activeBlooms++;
+        report.bloomTiles += body.length;
+      }
+
+      for (const idx of body) {
+        const x = idx % size; const y = (idx - x) / size;
+        if ((grid[y][x].algaeBloom ?? false) === bloomNow) continue;
+        const tile = getModifiableTile(x, y);
+        if (bloomNow) tile.algaeBloom = true;
+        else delete tile.algaeBloom;
+      }
+    }
+  }
+
+  // Fishing piers: full catch on healthy water, nothing while their water blooms
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      if (building.type !== 'pier_large') continue;
+      const operating = !building.abandoned && (building.constructionProgress ?? 100) >= 100;
+      const fishKill = NEIGHBORS.some(([dx, dy]) => grid[y + dy]?.[x + dx]?.algaeBloom === true);
+      if (operating && fishKill) report.fishKills++;
+      const jobs = operating && !fishKill ? BUILDING_STATS.pier_large.maxJobs : 0;
+      if (building.jobs !== jobs) getModifiableTile(x, y).building.jobs = jobs;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,249 @@
+// Blueprints for IsoCity
+// A blueprint is a copied rectangle of roads, rail, placed buildings, trees, zones
+// and subway, stored relative to its top-left corner. It can be rotated and
+// mirrored, checked against the ground it would be pasted on, and turned into the
+// tool placements that rebuild it. Buildings that grow on zones are not copied -
+// their zone is. Stamps are saved as JSON so they can be kept and shared as files.
+
+import { Blueprint, BlueprintTile, BuildingType, RoadDirection, Tile, Tool, TOOL_INFO } from '@/types/game';
+import { ROAD_DIRECTION_STEPS, ROAD_TOOL_CLASSES } from './roads';
+import { canPlaceMultiTileBuilding, getBuildingSize, getWaterAdjacency, requiresWaterAdjacency } from './simulation';
+import { canLayTrack, getConstructionCost, hasRequiredElevation, requiresElevation } from './terrain';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Largest blueprint side, in tiles */
+export const MAX_BLUEPRINT_SIZE = 32;
+
+export interface BlueprintPlacement {
+  x: number;
+  y: number;
+  tool: Tool;
+  roadDirection?: RoadDirection;
+  flipped?: boolean;
+}
+
+const ZONE_TOOLS: Record<Exclude<BlueprintTile['zone'], undefined>, Tool> = {
+  residential: 'zone_residential',
+  commercial: 'zone_commercial',
+  industrial: 'zone_industrial',
+  none: 'zone_dezone',
+};
+
+// Placements that build nothing on the surface, so slope doesn't change their price
+const GROUNDLESS_TOOLS = new Set<Tool>([...Object.values(ZONE_TOOLS), 'subway']);
+
+// Ground and bridges - never copied
+const UNCOPIED_TYPES = new Set<BuildingType>(['grass', 'empty', 'water', 'bridge']);
+
+// Ground each kind of placement can go on, matching placeBuilding
+const TRACK_GROUND = new Set<BuildingType>(['grass', 'tree', 'road', 'rail']);
+const BUILDING_GROUND = new Set<BuildingType>(['grass', 'tree']);
+const ZONEABLE_GROUND = new Set<BuildingType>(['grass', 'tree', 'road']);
+
+// ============================================================================
+// COPYING
+// ============================================================================
+
+/** Tool that places a building type, or undefined for buildings that only grow on zones */
+function getBuildingTool(tile: BlueprintTile): Tool | undefined {
+  const type = tile.building;
+  if (!type) return undefined;
+  if (type === 'road') {
+    const roadClass = tile.roadClass ?? 'street';
+    return (Object.keys(ROAD_TOOL_CLASSES) as Tool[]).find(tool => ROAD_TOOL_CLASSES[tool] === roadClass);
+  }
+  return type in TOOL_INFO ? type as Tool : undefined;
+}
+
+function createBlueprintId(): string {
+  return `blueprint-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Copy the rectangle between two corners into a blueprint. Multi-tile buildings
+ * are only copied when their whole footprint is inside. Returns null if the area
+ * holds nothing to copy.
+ */
+export function createBlueprint(grid: Tile[][], gridSize: number, from: { x: number; y: number }, to: { x: number; y: number }, name: string): Blueprint | null {
+  const minX = Math.max(0, Math.min(from.x, to.x)); const maxX = Math.min(gridSize - 1, Math.max(from.x, to.x), minX + MAX_BLUEPRINT_SIZE - 1);
+  const minY = Math.max(0, Math.min(from.y, to.y)); const maxY = Math.min(gridSize - 1, Math.max(from.y, to.y), minY + MAX_BLUEPRINT_SIZE - 1);
+  const tiles: BlueprintTile[] = [];
+
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) {
+      const tile = grid[y][x];
+      const building = tile.building;
+      const entry: BlueprintTile = { dx: x - minX, dy: y - minY };
+      if (!UNCOPIED_TYPES.has(building.type)) {
+        const size = getBuildingSize(building.type);
+        const fits = x + size.width - 1 <= maxX && y + size.height - 1 <= maxY;
+        const copied: BlueprintTile = { ...entry, building: building.type };
+        if (building.type === 'road' && building.roadClass) copied.roadClass = building.roadClass;
+        if (building.type === 'road' && building.roadDirection) copied.roadDirection = building.roadDirection;
+        if (fits && getBuildingTool(copied)) {
+          Object.assign(entry, copied);
+          if (building.flipped) entry.flipped = true;
+          if (tile.hasRailOverlay) entry.hasRailOverlay = true;
+        }
+      }
+      if (!entry.building && tile.zone !== 'none') entry.zone = tile.zone;
+      if (tile.hasSubway) entry.hasSubway = true;
+      if (entry.building || entry.zone || entry.hasSubway) tiles.push(entry);
+    }
+  }
+
+  if (tiles.length === 0) return null;
+  return { id: createBlueprintId(), name, width: maxX - minX + 1, height: maxY - minY + 1, tiles, createdAt: Date.now() };
+}
+
+// ============================================================================
+// ROTATION AND MIRRORING
+// ============================================================================
+
+// Both turns are reflections or rotations of the grid; each one shows a building
+// from its other side, so the sprite flips.
+
+function transformDirection(direction: RoadDirection | undefined, transform: (vx: number, vy: number) => [number, number]): RoadDirection | undefined {
+  if (!direction) return undefined;
+  const step = ROAD_DIRECTION_STEPS[direction];
+  const [vx, vy] = transform(step.dx, step.dy);
+  return (Object.keys(ROAD_DIRECTION_STEPS) as RoadDirection[]).find(d => ROAD_DIRECTION_STEPS[d].dx === vx && ROAD_DIRECTION_STEPS[d].dy === vy);
+}
+
+function transformBlueprint(blueprint: Blueprint, width: number, height: number, point: (dx: number, dy: number) => [number, number], vector: (vx: number, vy: number) => [number, number]): Blueprint {
+  const tiles = blueprint.tiles.map(tile => {
+    const size = tile.building ? getBuildingSize(tile.building) : { width: 1, height: 1 };
+    // A footprint's new origin is the smaller corner of its transformed extent
+    const [ax, ay] = point(tile.dx, tile.dy);
+    const [bx, by] = point(tile.dx + size.width - 1, tile.dy + size.height - 1);
+    const moved: BlueprintTile = { ...tile, dx: Math.min(ax, bx), dy: Math.min(ay, by) };
+    if (tile.roadDirection) moved.roadDirection = transformDirection(tile.roadDirection, vector);
+    if (tile.building && tile.building !== 'road' && tile.building !== 'rail' && tile.building !== 'tree') {
+      if (tile.flipped) delete moved.flipped;
+      else moved.flipped = true;
+    }
+    return moved;
+  });
+  return { ...blueprint, width, height, tiles };
+}
+
+/** The blueprint turned a quarter turn */
+export function rotateBlueprint(blueprint: Blueprint): Blueprint {
+  const { width, height } = blueprint;
+  return transformBlueprint(blueprint, height, width, (dx, dy) => [height - 1 - dy, dx], (vx, vy) => [-vy, vx]);
+}
+
+/** The blueprint mirrored left to right on screen */
+export function mirrorBlueprint(blueprint: Blueprint): Blueprint {
+  return transformBlueprint(blueprint, blueprint.height, blueprint.width, (dx, dy) => [dy, dx], (vx, vy) => [vy, vx]);
+}
+
+// ============================================================================
+// PASTING
+// ============================================================================
+
+/**
+ * Tool placements that rebuild a blueprint with its top-left corner at (x, y):
+ * roads and rail first, then buildings and trees, then zones and subway.
+ */
+export function getBlueprintPlacements(blueprint: Blueprint, x: number, y: number): BlueprintPlacement[] {
+  const tracks: BlueprintPlacement[] = [];
+  const buildings: BlueprintPlacement[] = [];
+  const rest: BlueprintPlacement[] = [];
+  for (const tile of blueprint.tiles) {
+    const tx = x + tile.dx; const ty = y + tile.dy;
+    const tool = getBuildingTool(tile);
+    if (tool && (tile.building === 'road' || tile.building === 'rail')) {
+      tracks.push(tile.roadDirection ? { x: tx, y: ty, tool, roadDirection: tile.roadDirection } : { x: tx, y: ty, tool });
+      if (tile.hasRailOverlay) tracks.push({ x: tx, y: ty, tool: 'rail' });
+    } else if (tool) {
+      buildings.push({ x: tx, y: ty, tool, flipped: !!tile.flipped });
+    }
+    if (tile.zone) rest.push({ x: tx, y: ty, tool: ZONE_TOOLS[tile.zone] });
+    if (tile.hasSubway) rest.push({ x: tx, y: ty, tool: 'subway' });
+  }
+  return [...tracks, ...buildings, ...rest];
+}
+
+/**
+ * Summed tool cost of pasting a blueprint. Given the site it would be pasted at,
+ * the price includes the extra for building on steep ground.
+ */
+export function getBlueprintCost(blueprint: Blueprint, site?: { grid: Tile[][]; gridSize: number; x: number; y: number }): number {
+  return getBlueprintPlacements(blueprint, site?.x ?? 0, site?.y ?? 0).reduce((sum, placement) => {
+    const cost = TOOL_INFO[placement.tool]?.cost ?? 0;
+    if (!site || GROUNDLESS_TOOLS.has(placement.tool)) return sum + cost;
+    const size = getBuildingSize(placement.tool as BuildingType);
+    return sum + getConstructionCost(cost, site.grid, placement.x, placement.y, size.width, size.height, site.gridSize);
+  }, 0);
+}
+
+/**
+ * Tiles where a blueprint pasted at (x, y) can't be built: off the map, on water,
+ * over buildings in the way, track too steep for its grade, a waterfront building
+ * with no water beside it or a hill building off the hills.
+ * An empty list means the paste is valid.
+ */
+export function validateBlueprint(grid: Tile[][], gridSize: number, blueprint: Blueprint, x: number, y: number): { x: number; y: number }[] {
+  const invalid: { x: number; y: number }[] = [];
+  for (const tile of blueprint.tiles) {
+    const tx = x + tile.dx; const ty = y + tile.dy;
+    const target = grid[ty]?.[tx];
+    if (!target) { invalid.push({ x: tx, y: ty }); continue; }
+    const type = tile.building;
+    if (!type) {
+      // Zones go on open ground, roads or land already zoned the same way; subway under anything but water
+      const blocked = target.building.type === 'water'
+        || (!!tile.zone && target.zone !== tile.zone && !ZONEABLE_GROUND.has(target.building.type));
+      if (blocked) invalid.push({ x: tx, y: ty });
+      continue;
+    }
+    const size = getBuildingSize(type);
+    let valid: boolean;
+    if (size.width > 1 || size.height > 1) {
+      valid = canPlaceMultiTileBuilding(grid, tx, ty, size.width, size.height, gridSize);
+    } else if (type === 'road' || type === 'rail') {
+      valid = TRACK_GROUND.has(target.building.type) && canLayTrack(grid, tx, ty, gridSize, type);
+    } else {
+      valid = BUILDING_GROUND.has(target.building.type) || target.building.type === type;
+    }
+    if (valid && requiresWaterAdjacency(type)) {
+      valid = getWaterAdjacency(grid, tx, ty, size.width, size.height, gridSize).hasWater;
+    }
+    if (valid && requiresElevation(type)) {
+      valid = hasRequiredElevation(grid, tx, ty, size.width, size.height);
+    }
+    if (!valid) invalid.push({ x: tx, y: ty });
+  }
+  return invalid;
+}
+
+// ============================================================================
+// STAMP FILES
+// ============================================================================
+
+export function serializeBlueprint(blueprint: Blueprint): string {
+  return JSON.stringify(blueprint, null, 2);
+}
+
+/** Read a blueprint from a stamp file, or null if it isn't one. Gets a fresh id. */
+export function parseBlueprint(text: string): Blueprint | null {
+  try {
+    const parsed = JSON.parse(text) as Partial<Blueprint>;
+    if (!parsed || typeof parsed.name !== 'string' || !Array.isArray(parsed.tiles)) return null;
+    const width = Number(parsed.width); const height = Number(parsed.height);
+    if (!(width >= 1 && width <= MAX_BLUEPRINT_SIZE && height >= 1 && height <= MAX_BLUEPRINT_SIZE)) return null;
+    const tiles = parsed.tiles.filter(tile => (
+      tile && Number.isInteger(tile.dx) && Number.isInteger(tile.dy)
+      && tile.dx >= 0 && tile.dx < width && tile.dy >= 0 && tile.dy < height
+      && (tile.building === undefined || getBuildingTool(tile) !== undefined)
+    ));
+    if (tiles.length === 0) return null;
+    return { id: createBlueprintId(), name: parsed.name, width, height, tiles, createdAt: Date.now() };
+  } catch {
+    return null;
+  }
+}
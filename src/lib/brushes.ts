@@ -0,0 +1,92 @@
+// Area brushes for IsoCity
+// Zoning, tree planting and bulldozing can be dragged out as a filled rectangle,
+// a rectangle outline or a straight line. The brush turns the drag's start and end
+// tiles into the tiles to place on, which are sent as one batch.
+
+import { BuildingType, Tile, Tool, TOOL_INFO } from '@/types/game';
+import { getConstructionCost } from './terrain';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export type BrushShape = 'rectangle' | 'outline' | 'line';
+
+export const BRUSH_SHAPES: BrushShape[] = ['rectangle', 'outline', 'line'];
+
+const BRUSH_TOOLS = new Set<Tool>(['zone_residential', 'zone_commercial', 'zone_industrial', 'zone_dezone', 'tree', 'bulldoze']);
+
+const ZONE_TOOLS: Partial<Record<Tool, Tile['zone']>> = {
+  zone_residential: 'residential',
+  zone_commercial: 'commercial',
+  zone_industrial: 'industrial',
+  zone_dezone: 'none',
+};
+
+// Buildings zoning can be laid over, matching placeBuilding
+const ZONEABLE_TYPES = new Set<BuildingType>(['grass', 'tree', 'road']);
+
+// ============================================================================
+// SHAPES
+// ============================================================================
+
+export function isBrushTool(tool: Tool): boolean {
+  return BRUSH_TOOLS.has(tool);
+}
+
+/** Tiles a brush covers between two corners (or ends, for a line), without repeats */
+export function getBrushTiles(shape: BrushShape, from: { x: number; y: number }, to: { x: number; y: number }): { x: number; y: number }[] {
+  const tiles: { x: number; y: number }[] = [];
+  if (shape === 'line') {
+    // Bresenham, so diagonal drags give an unbroken line
+    const dx = Math.abs(to.x - from.x); const dy = -Math.abs(to.y - from.y);
+    const sx = from.x < to.x ? 1 : -1; const sy = from.y < to.y ? 1 : -1;
+    let x = from.x; let y = from.y; let error = dx + dy;
+    for (;;) {
+      tiles.push({ x, y });
+      if (x === to.x && y === to.y) break;
+      const doubled = 2 * error;
+      if (doubled >= dy) { error += dy; x += sx; }
+      if (doubled <= dx) { error += dx; y += sy; }
+    }
+    return tiles;
+  }
+  const minX = Math.min(from.x, to.x); const maxX = Math.max(from.x, to.x);
+  const minY = Math.min(from.y, to.y); const maxY = Math.max(from.y, to.y);
+  for (let x = minX; x <= maxX; x++) {
+    for (let y = minY; y <= maxY; y++) {
+      if (shape === 'outline' && x !== minX && x !== maxX && y !== minY && y !== maxY) continue;
+      tiles.push({ x, y });
+    }
+  }
+  return tiles;
+}
+
+// ============================================================================
+// COST PREVIEW
+// ============================================================================
+
+/** Whether a brush tool would change a tile - a rough mirror of the checks placement makes */
+function wouldChange(tile: Tile, tool: Tool): boolean {
+  const type = tile.building.type;
+  if (tool === 'bulldoze') return type !== 'water' && !(type === 'grass' && tile.zone === 'none' && !tile.hasWaterPipe);
+  if (tool === 'tree') return type === 'grass';
+  const zone = ZONE_TOOLS[tool];
+  if (zone === undefined) return false;
+  if (zone === 'none') return tile.zone !== 'none';
+  return tile.zone !== zone && ZONEABLE_TYPES.has(type);
+}
+
+/** Tiles a brush would actually change and what they would cost (trees cost more on steep ground) */
+export function getBrushCost(grid: Tile[][], tiles: { x: number; y: number }[], tool: Tool): { tiles: number; cost: number } {
+  const baseCost = TOOL_INFO[tool]?.cost ?? 0;
+  let changed = 0;
+  let cost = 0;
+  for (const { x, y } of tiles) {
+    const tile = grid[y]?.[x];
+    if (!tile || !wouldChange(tile, tool)) continue;
+    changed++;
+    cost += tool === 'tree' ? getConstructionCost(baseCost, grid, x, y, 1, 1, grid.length) : baseCost;
+  }
+  return { tiles: changed, cost };
+}
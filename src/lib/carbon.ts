@@ -0,0 +1,83 @@
+// Carbon accounting for IsoCity
+// Buildings emit (or sequester) CO2 at the rates in BUILDING_STATS. Net emissions
+// are booked into a rolling 12-month ledger. Going over the city's cap is taxed;
+// absorbing more than the map's own forests did before the city was built earns
+// tradeable credits.
+
+import { Building, BUILDING_STATS, CarbonLedger, Tile } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Price of one tonne of CO2, paid as tax over the cap or earned as credit below the baseline */
+export const CARBON_PRICE = 1;
+/** Annual emissions cap (tonnes) a new city starts with */
+export const DEFAULT_CARBON_CAP = 6000;
+export const MIN_CARBON_CAP = 0;
+export const MAX_CARBON_CAP = 50000;
+
+const TICKS_PER_DAY = 30;
+const DAYS_PER_MONTH = 30;
+const LEDGER_MONTHS = 12;
+
+// ============================================================================
+// EMISSIONS
+// ============================================================================
+
+/** Net tonnes per day for a building; only finished, occupied buildings count */
+export function getBuildingCarbon(building: Building): number {
+  if (building.abandoned) return 0;
+  if (building.constructionProgress !== undefined && building.constructionProgress < 100) return 0;
+  return BUILDING_STATS[building.type]?.carbon ?? 0;
+}
+
+/** Net tonnes per day for every building on a grid */
+export function getGridCarbon(grid: Tile[][]): number {
+  let total = 0;
+  for (const row of grid) {
+    for (const tile of row) total += getBuildingCarbon(tile.building);
+  }
+  return total;
+}
+
+/**
+ * Monthly carbon credit (+) or tax (-), a twelfth of the year's balance on the
+ * ledger. Net emissions over the cap are taxed. Credits pay only for carbon
+ * absorbed beyond the baseline over the same months, so the cap alone never
+ * earns money and a city that has built nothing earns none.
+ */
+export function getCarbonBalance(ledger: CarbonLedger): number {
+  const annual = getAnnualCarbon(ledger);
+  if (annual > ledger.cap) return -Math.round(CARBON_PRICE * (annual - ledger.cap) / LEDGER_MONTHS);
+  const baseline = (ledger.baseline ?? 0) * DAYS_PER_MONTH * ledger.months.length;
+  return Math.round(CARBON_PRICE * Math.max(0, baseline - annual) / LEDGER_MONTHS);
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+/** `baseline` is the net tonnes per day the city started at (see getGridCarbon) */
+export function createCarbonLedger(cap: number = DEFAULT_CARBON_CAP, baseline: number = 0): CarbonLedger {
+  return { cap, baseline, monthToDate: 0, months: [] };
+}
+
+/** Net tonnes over the trailing 12 completed months */
+export function getAnnualCarbon(ledger: CarbonLedger): number {
+  let total = 0;
+  for (const month of ledger.months) total += month;
+  return total;
+}
+
+/**
+ * Book one tick of emissions. When `monthEnded` is set the month-to-date total
+ * is closed into the rolling ledger. Returns a new ledger; the input is untouched.
+ */
+export function recordCarbon(ledger: CarbonLedger, dailyEmissions: number, monthEnded: boolean): CarbonLedger {
+  const monthToDate = ledger.monthToDate + dailyEmissions / TICKS_PER_DAY;
+  if (!monthEnded) return { ...ledger, monthToDate };
+  const months = [...ledger.months, monthToDate];
+  while (months.length > LEDGER_MONTHS) months.shift();
+  return { ...ledger, monthToDate: 0, months };
+}
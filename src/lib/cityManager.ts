@@ -93,6 +93,14 @@ export function getCityAtTile(
   return cityLookupCache.get(key) ?? null;
 }
 
+/**
+ * Get the city whose bounds contain a tile by scanning the city list. Unlike
+ * getCityAtTile this keeps no cache, so it is safe to call on any game state.
+ */
+export function findCityAtTile(x: number, y: number, cities: City[]): City | undefined {
+  return cities.find(c => x >= c.bounds.minX && x <= c.bounds.maxX && y >= c.bounds.minY && y <= c.bounds.maxY);
+}
+
 /**
  * Get a city by ID
  */
@@ -164,7 +172,7 @@ export function calculateCityEconomy(
       }
       
       // Expenses from service buildings
-      const serviceBuildings = ['police_station', 'fire_station', 'hospital', 'school', 'university', 'power_plant', 'water_tower'];
+      const serviceBuildings = ['police_station', 'fire_station', 'hospital', 'school', 'university', 'power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_tower', 'water_pump'];
       if (serviceBuildings.includes(building.type)) {
         expenses += building.jobs * 0.8;
       }
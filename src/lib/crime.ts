@@ -0,0 +1,87 @@
+// Crime for IsoCity
+// Every occupied building has a crime level (0-100) driven by how crowded it is,
+// how many residents are out of work and how poor the land is, and held down by
+// police coverage. Abandoned buildings attract trouble. Levels drift toward that
+// target each tick and feed back into land value, safety and happiness.
+
+import { ServiceCoverage, Tile } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MAX_CRIME = 100;
+
+/** Crime in an occupied building with nothing driving it up */
+const BASE_CRIME = 5;
+
+// Occupants (residents plus half the workers) at which crowding adds its full share
+const CROWDED_OCCUPANTS = 200;
+const DENSITY_WEIGHT = 30;
+/** Points at 100% unemployment */
+const UNEMPLOYMENT_WEIGHT = 30;
+/** Points on worthless land, fading out by the top of the land value scale */
+const POVERTY_WEIGHT = 20;
+/** Flat crime in abandoned buildings, before policing */
+const ABANDONED_CRIME = 45;
+
+/** Share of crime full police coverage suppresses */
+const POLICE_SUPPRESSION = 0.8;
+
+// Share of the gap to the target closed each tick; at least one point while there is a gap
+const CRIME_LAG = 0.05;
+
+/** Happiness lost per point of average crime */
+export const CRIME_HAPPINESS_PENALTY = 0.15;
+
+/** Tiles above this can spawn visible incidents */
+export const INCIDENT_CRIME_THRESHOLD = 10;
+
+// ============================================================================
+// CRIME LEVELS
+// ============================================================================
+
+/** Share of residents without a job, from city totals */
+export function getUnemployment(population: number, jobs: number): number {
+  return population > 0 ? Math.max(0, Math.min(1, 1 - jobs / population)) : 0;
+}
+
+/** Crime a tile settles at, given its occupants, land and the police covering it */
+function getCrimeTarget(tile: Tile, policeCoverage: number, unemployment: number): number {
+  const building = tile.building;
+  let crime: number;
+  if (building.abandoned) {
+    crime = ABANDONED_CRIME;
+  } else {
+    const occupants = building.population + building.jobs * 0.5;
+    if (occupants <= 0) return 0;
+    const density = Math.min(1, occupants / CROWDED_OCCUPANTS);
+    crime = BASE_CRIME + density * DENSITY_WEIGHT + unemployment * UNEMPLOYMENT_WEIGHT
+      + (1 - Math.min(100, tile.landValue) / 100) * POVERTY_WEIGHT;
+  }
+  crime *= 1 - (Math.min(100, policeCoverage) / 100) * POLICE_SUPPRESSION;
+  return Math.max(0, Math.min(MAX_CRIME, Math.round(crime)));
+}
+
+/** Step from the current level toward the target */
+function stepToward(current: number, target: number): number {
+  const gap = target - current;
+  if (gap === 0) return current;
+  const step = Math.max(1, Math.round(Math.abs(gap) * CRIME_LAG));
+  return current + Math.sign(gap) * Math.min(step, Math.abs(gap));
+}
+
+/**
+ * Move every tile's crime a step toward its target. Only tiles whose level
+ * changes are copied.
+ */
+export function updateCrime(grid: Tile[][], size: number, services: ServiceCoverage, unemployment: number, getModifiableTile: (x: number, y: number) => Tile): void {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      const current = tile.crime ?? 0;
+      const next = stepToward(current, getCrimeTarget(tile, services.police[y][x], unemployment));
+      if (next !== current) getModifiableTile(x, y).crime = next;
+    }
+  }
+}
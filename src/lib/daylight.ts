@@ -0,0 +1,14 @@
+// Day/night cycle for IsoCity
+// Shared by the renderer's lighting and by the simulation (solar output).
+
+/**
+ * Calculate darkness level based on hour of day (0-23)
+ * Dawn: 5-7, Day: 7-18, Dusk: 18-20, Night: 20-5
+ * @returns Value from 0 (full daylight) to 1 (full night)
+ */
+export function getDarkness(hour: number): number {
+  if (hour >= 7 && hour < 18) return 0; // Full daylight
+  if (hour >= 5 && hour < 7) return 1 - (hour - 5) / 2; // Dawn transition
+  if (hour >= 18 && hour < 20) return (hour - 18) / 2; // Dusk transition
+  return 1; // Night
+}
@@ -0,0 +1,153 @@
+// Municipal finance for IsoCity
+// Cities can borrow against their tax base with short bank loans or long-dated
+// bonds. The credit rating follows the debt ratio (debt over annual revenue) and
+// sets the interest on new borrowing; payments are taken weekly with the payout.
+
+import { CreditRating, Debt, DebtKind } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const CREDIT_RATINGS: readonly CreditRating[] = ['AAA', 'AA', 'A', 'BBB', 'BB', 'B', 'CCC'];
+
+/** Annual rate and term of each kind of debt for a AAA city */
+export const DEBT_TERMS: Record<DebtKind, { rate: number; weeks: number }> = {
+  loan: { rate: 0.08, weeks: 52 }, // Amortizes in equal weekly payments
+  bond: { rate: 0.04, weeks: 520 }, // Weekly coupons, principal repaid at maturity
+};
+
+/** Amounts offered in the budget panel */
+export const DEBT_AMOUNTS: readonly number[] = [10000, 25000, 50000, 100000];
+
+// Points added to the base rate for each rating
+const RATING_SPREAD: Record<CreditRating, number> = {
+  AAA: 0, AA: 0.005, A: 0.01, BBB: 0.02, BB: 0.04, B: 0.07, CCC: 0.12,
+};
+
+// Highest debt ratio that still earns each rating; anything above the last is CCC
+const RATING_THRESHOLDS: [CreditRating, number][] = [
+  ['AAA', 0.25], ['AA', 0.5], ['A', 1], ['BBB', 2], ['BB', 3], ['B', 4],
+];
+
+/** Lenders refuse new debt that would push the ratio past this */
+export const MAX_DEBT_RATIO = 5;
+
+/** Bonds can only be sold by investment-grade cities */
+const BOND_MIN_RATING: CreditRating = 'BBB';
+
+// Annual revenue lenders assume for a city too young to have a real tax base
+const MIN_REVENUE_BASE = 20000;
+
+// Share of a payment added to the balance when it falls due with the treasury in the red
+const LATE_PAYMENT_PENALTY = 0.05;
+
+const WEEKS_PER_YEAR = 52;
+
+// ============================================================================
+// RATING
+// ============================================================================
+
+export function getTotalDebt(debts: Debt[]): number {
+  let total = 0;
+  for (const debt of debts) total += debt.balance;
+  return total;
+}
+
+/** Debt as a multiple of annual revenue, from monthly income */
+export function getDebtRatio(totalDebt: number, monthlyIncome: number): number {
+  return totalDebt / Math.max(MIN_REVENUE_BASE, monthlyIncome * 12);
+}
+
+/** Rating from the city's debt ratio; a treasury in the red costs one notch */
+export function getCreditRating(debts: Debt[], monthlyIncome: number, money: number): CreditRating {
+  const debtRatio = getDebtRatio(getTotalDebt(debts), monthlyIncome);
+  let index = RATING_THRESHOLDS.findIndex(([, limit]) => debtRatio <= limit);
+  if (index === -1) index = CREDIT_RATINGS.length - 1;
+  if (money < 0) index = Math.min(CREDIT_RATINGS.length - 1, index + 1);
+  return CREDIT_RATINGS[index];
+}
+
+/** Annual rate a city with this rating is offered */
+export function getInterestRate(kind: DebtKind, rating: CreditRating): number {
+  return DEBT_TERMS[kind].rate + RATING_SPREAD[rating];
+}
+
+/**
+ * Why lenders would turn down `amount` of new debt, or null if they would
+ * take it. Checked against the ratio the city would have after borrowing.
+ */
+export function getBorrowingBlocker(kind: DebtKind, amount: number, debts: Debt[], monthlyIncome: number, money: number): string | null {
+  if (amount <= 0) return 'Nothing to borrow';
+  const rating = getCreditRating(debts, monthlyIncome, money);
+  if (kind === 'bond' && CREDIT_RATINGS.indexOf(rating) > CREDIT_RATINGS.indexOf(BOND_MIN_RATING)) {
+    return `Bonds need a ${BOND_MIN_RATING} rating or better`;
+  }
+  if (getDebtRatio(getTotalDebt(debts) + amount, monthlyIncome) > MAX_DEBT_RATIO) {
+    return 'Lenders will not extend more credit';
+  }
+  return null;
+}
+
+/** New debt at the rate the city's current rating earns */
+export function issueDebt(id: string, kind: DebtKind, amount: number, rating: CreditRating): Debt {
+  return {
+    id,
+    kind,
+    principal: amount,
+    balance: amount,
+    rate: getInterestRate(kind, rating),
+    weeksRemaining: DEBT_TERMS[kind].weeks,
+  };
+}
+
+// ============================================================================
+// REPAYMENT
+// ============================================================================
+
+/** This week's payment: interest plus the principal falling due */
+export function getWeeklyPayment(debt: Debt): number {
+  const weeklyRate = debt.rate / WEEKS_PER_YEAR;
+  const interest = debt.balance * weeklyRate;
+  const weeks = Math.max(1, debt.weeksRemaining);
+  if (debt.kind === 'bond') return interest + (weeks === 1 ? debt.balance : 0);
+  if (weeklyRate === 0) return debt.balance / weeks;
+  return debt.balance * weeklyRate / (1 - Math.pow(1 + weeklyRate, -weeks));
+}
+
+export function getWeeklyDebtService(debts: Debt[]): number {
+  let total = 0;
+  for (const debt of debts) total += getWeeklyPayment(debt);
+  return Math.round(total);
+}
+
+export interface DebtServiceResult {
+  /** Debts still outstanding after this week */
+  debts: Debt[];
+  /** Total taken from the treasury */
+  paid: number;
+  /** Late fees added to balances because the treasury was in the red */
+  penalties: number;
+}
+
+/**
+ * Take one week of payments. Payments are always made, even into the red, but
+ * each one that falls due while `money` is negative adds a late fee to its
+ * balance. Returns new debts; the input is untouched.
+ */
+export function serviceDebts(debts: Debt[], money: number): DebtServiceResult {
+  const remaining: Debt[] = [];
+  let paid = 0;
+  let penalties = 0;
+  for (const debt of debts) {
+    const payment = getWeeklyPayment(debt);
+    const interest = debt.balance * debt.rate / WEEKS_PER_YEAR;
+    const penalty = money < 0 ? payment * LATE_PAYMENT_PENALTY : 0;
+    const balance = debt.balance - (payment - interest) + penalty;
+    paid += payment;
+    penalties += penalty;
+    // A late fee on the final payment carries over to the next week
+    if (balance > 0.5) remaining.push({ ...debt, balance, weeksRemaining: Math.max(1, debt.weeksRemaining - 1) });
+  }
+  return { debts: remaining, paid: Math.round(paid), penalties: Math.round(penalties) };
+}
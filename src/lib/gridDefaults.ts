@@ -0,0 +1,7 @@
+// Device-dependent defaults for new cities
+// Kept out of simulation.ts so the simulation engine has no browser-only imports
+
+import { isMobile } from 'react-device-detect';
+import { DESKTOP_GRID_SIZE, MOBILE_GRID_SIZE } from './simulation';
+
+export const DEFAULT_GRID_SIZE = isMobile ? MOBILE_GRID_SIZE : DESKTOP_GRID_SIZE;
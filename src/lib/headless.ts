@@ -0,0 +1,176 @@
+// Headless simulation runner
+// Runs simulateTick without React or canvas and records a time series for batch experiments
+// Used by scripts/simulate.ts - must not import anything browser-only
+
+import { decompressFromUTF16 } from 'lz-string';
+import { GameState, Budget, PollutantChannel } from '@/types/game';
+import { simulateTick, layLegacyWaterMains, POLLUTION_TILE_THRESHOLD } from './simulation';
+import { getPollutants, POLLUTANT_CHANNELS } from './pollution';
+import { createRandomSeed, deriveSeed } from './rng';
+import { createCarbonLedger, getAnnualCarbon, getGridCarbon } from './carbon';
+import { getTotalDebt, getWeeklyDebtService } from './finance';
+import { createTaxRates } from './taxes';
+import { createLedger } from './ledger';
+
+export interface HeadlessSample {
+  tick: number; // Number of simulateTick calls since the run started
+  year: number;
+  month: number;
+  day: number;
+  population: number;
+  jobs: number;
+  money: number;
+  income: number;
+  expenses: number;
+  happiness: number;
+  health: number;
+  education: number;
+  safety: number;
+  crime: number; // Average where people live and work
+  congestion: number; // Average along commuters' routes
+  commuteMinutes: number; // Average one-way trip to work
+  environment: number;
+  carbonEmissions: number; // Net tonnes per day
+  carbonBalance: number; // Monthly credit (+) or tax (-)
+  annualCarbon: number; // Net tonnes over the trailing 12 months
+  powerSupply: number; // MW
+  powerDemand: number; // MW
+  waterSupply: number; // kL/day
+  waterDemand: number; // kL/day
+  totalDebt: number; // Outstanding balance of loans and bonds
+  debtService: number; // Payment due next week
+  demandResidential: number;
+  demandCommercial: number;
+  demandIndustrial: number;
+  averagePollution: number;
+  averageToxicBurden: number;
+  averageAlgae: number;
+  algaeBloomTiles: number;
+  pollutedTiles: Record<PollutantChannel, number>;
+  budgetCosts: Record<keyof Budget, number>;
+}
+
+export interface HeadlessRunOptions {
+  ticks: number;
+  sampleEvery?: number; // Record a sample every N ticks (default 30 = one game day)
+  onSample?: (sample: HeadlessSample) => void;
+}
+
+/**
+ * Parse a saved city. Accepts the lz-string UTF16 format written by
+ * serializeAndCompressAsync as well as plain JSON.
+ */
+export function parseSavedState(saved: string): GameState {
+  let json = saved.trimStart().startsWith('{') ? saved : decompressFromUTF16(saved);
+  if (!json || !json.startsWith('{')) {
+    json = saved;
+  }
+  const parsed = JSON.parse(json);
+  if (!parsed || !Array.isArray(parsed.grid) || typeof parsed.gridSize !== 'number' || !parsed.stats) {
+    throw new Error('Saved state is missing grid, gridSize or stats');
+  }
+  // Same backward-compatibility defaults GameContext applies when loading
+  if (!parsed.waterBodies) parsed.waterBodies = [];
+  if (!parsed.adjacentCities) parsed.adjacentCities = [];
+  if (!parsed.notifications) parsed.notifications = [];
+  if (!parsed.history) parsed.history = [];
+  if (parsed.effectiveTaxRate === undefined) parsed.effectiveTaxRate = parsed.taxRate ?? 9;
+  if (!parsed.taxRates) {
+    parsed.taxRates = createTaxRates(parsed.taxRate ?? 9);
+    parsed.effectiveTaxRates = createTaxRates(parsed.effectiveTaxRate);
+    parsed.pollutionSurcharge = 0;
+  }
+  if (parsed.seed === undefined) parsed.seed = createRandomSeed();
+  if (parsed.rngState === undefined) parsed.rngState = deriveSeed(parsed.seed, 0);
+  if (!parsed.carbon) parsed.carbon = createCarbonLedger(undefined, getGridCarbon(parsed.grid));
+  if (parsed.stats.waterSupply === undefined) layLegacyWaterMains(parsed.grid, parsed.gridSize);
+  if (!parsed.debts) parsed.debts = [];
+  if (!parsed.policies) parsed.policies = [];
+  if (!parsed.ledger) parsed.ledger = createLedger();
+  return parsed as GameState;
+}
+
+export function sampleState(state: GameState, tick: number): HeadlessSample {
+  const pollutedTiles = { toxic: 0, thermal: 0, nutrient: 0 };
+  let totalPollution = 0; let totalToxicBurden = 0; let totalAlgae = 0; let algaeBloomTiles = 0;
+  for (const row of state.grid) {
+    for (const tile of row) {
+      totalPollution += tile.pollution;
+      totalToxicBurden += tile.toxicBurden ?? 0;
+      totalAlgae += tile.algae ?? 0;
+      if (tile.algaeBloom) algaeBloomTiles++;
+      const levels = getPollutants(tile);
+      for (const channel of POLLUTANT_CHANNELS) {
+        if (levels[channel] > POLLUTION_TILE_THRESHOLD) pollutedTiles[channel]++;
+      }
+    }
+  }
+  const tileCount = state.gridSize * state.gridSize;
+
+  const budgetCosts = {} as Record<keyof Budget, number>;
+  for (const key of Object.keys(state.budget) as (keyof Budget)[]) {
+    budgetCosts[key] = state.budget[key].cost;
+  }
+
+  const { stats } = state;
+  return {
+    tick, year: state.year, month: state.month, day: state.day,
+    population: stats.population, jobs: stats.jobs, money: stats.money, income: stats.income, expenses: stats.expenses,
+    happiness: stats.happiness, health: stats.health, education: stats.education, safety: stats.safety, crime: stats.crime ?? 0, congestion: stats.congestion ?? 0, commuteMinutes: stats.commuteMinutes ?? 0, environment: stats.environment,
+    carbonEmissions: stats.carbonEmissions ?? 0, carbonBalance: stats.carbonBalance ?? 0, annualCarbon: getAnnualCarbon(state.carbon),
+    powerSupply: stats.powerSupply ?? 0, powerDemand: stats.powerDemand ?? 0,
+    waterSupply: stats.waterSupply ?? 0, waterDemand: stats.waterDemand ?? 0,
+    totalDebt: getTotalDebt(state.debts ?? []), debtService: getWeeklyDebtService(state.debts ?? []),
+    demandResidential: stats.demand.residential, demandCommercial: stats.demand.commercial, demandIndustrial: stats.demand.industrial,
+    averagePollution: totalPollution / tileCount,
+    averageToxicBurden: totalToxicBurden / tileCount,
+    averageAlgae: totalAlgae / tileCount,
+    algaeBloomTiles,
+    pollutedTiles, budgetCosts,
+  };
+}
+
+/**
+ * Run the simulation for a number of ticks and return the recorded samples.
+ * The first sample is the starting state (tick 0).
+ */
+export function runHeadless(initial: GameState, options: HeadlessRunOptions): { state: GameState; samples: HeadlessSample[] } {
+  const sampleEvery = Math.max(1, options.sampleEvery ?? 30);
+  const samples: HeadlessSample[] = [];
+  const record = (s: GameState, tick: number) => {
+    const sample = sampleState(s, tick);
+    samples.push(sample);
+    options.onSample?.(sample);
+  };
+
+  let state = initial;
+  record(state, 0);
+  for (let tick = 1; tick <= options.ticks; tick++) {
+    state = simulateTick(state);
+    if (tick % sampleEvery === 0 || tick === options.ticks) record(state, tick);
+  }
+  return { state, samples };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/** Flatten samples into CSV with one column per stat, pollution type and budget category */
+export function samplesToCsv(samples: HeadlessSample[]): string {
+  if (samples.length === 0) return '';
+  const pollutionKeys = Object.keys(samples[0].pollutedTiles) as (keyof HeadlessSample['pollutedTiles'])[];
+  const budgetKeys = Object.keys(samples[0].budgetCosts) as (keyof Budget)[];
+  const scalarKeys = (Object.keys(samples[0]) as (keyof HeadlessSample)[])
+    .filter(key => key !== 'pollutedTiles' && key !== 'budgetCosts');
+
+  const header = [
+    ...scalarKeys,
+    ...pollutionKeys.map(key => `${key}Tiles`),
+    ...budgetKeys.map(key => `budget_${key}`),
+  ];
+  const rows = samples.map(sample => [
+    ...scalarKeys.map(key => round(sample[key] as number)),
+    ...pollutionKeys.map(key => sample.pollutedTiles[key]),
+    ...budgetKeys.map(key => sample.budgetCosts[key]),
+  ].join(','));
+  return [header.join(','), ...rows].join('\n') + '\n';
+}
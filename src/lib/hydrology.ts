@@ -0,0 +1,260 @@
+// Hydrology model for IsoCity
+// Moves pollution through lakes, oceans and canals with currents, depth-weighted
+// dilution and map-edge sinks.
+
+import { Tile, WaterBody } from '@/types/game';
+import { getPollutants, setPollutants, POLLUTANT_CHANNELS } from './pollution';
+import { getElevation } from './terrain';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Depth of freshly dug canals (placeWaterTerraform) - shallow, so contaminants concentrate */
+export const CANAL_DEPTH = 0.25;
+/** Depth assumed for water tiles from saves that predate waterDepth */
+export const DEFAULT_WATER_DEPTH = 0.5;
+
+// Generated depth grows by this much per tile of distance from shore
+const DEPTH_PER_SHORE_DISTANCE = 0.2;
+const MIN_GENERATED_DEPTH = 0.2;
+
+// Every water tile holds at least this much volume, so a 0-depth tile still dilutes something
+const BASE_VOLUME = 0.25;
+
+// Fraction of a tile's pollutant mass carried one tile downstream per tick
+const ADVECTION_RATE = 0.25;
+// Exchange coefficient between neighboring water tiles (scaled by concentration difference)
+const DIFFUSION_RATE = 0.06;
+// Fraction of mass flushed to the open sea per tick from tiles on the map edge
+const SINK_RATE = 0.2;
+
+// Pollutant mass added to a water tile per tick by an adjacent polluted land tile
+export const RUNOFF_MASS = 1;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Water tiles and bridges (which span water) both carry flow */
+export function isWaterSurface(tile: Tile): boolean {
+  return tile.building.type === 'water' || tile.building.type === 'bridge';
+}
+
+/** Relative water volume of a tile - deeper tiles dilute the same mass more */
+export function getWaterVolume(tile: Tile): number {
+  return BASE_VOLUME + (tile.waterDepth ?? DEFAULT_WATER_DEPTH);
+}
+
+/**
+ * Assign waterDepth to every water tile from its distance to the nearest shore.
+ * Used after terrain generation; mutates the grid in place.
+ */
+export function assignWaterDepths(grid: Tile[][], size: number): void {
+  const distance = new Int32Array(size * size).fill(-1);
+  const queue: number[] = [];
+
+  // Seed BFS with water tiles that touch land
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isWaterSurface(grid[y][x])) continue;
+      const touchesLand = NEIGHBORS.some(([dx, dy]) => {
+        const nx = x + dx; const ny = y + dy;
+        return nx >= 0 && ny >= 0 && nx < size && ny < size && !isWaterSurface(grid[ny][nx]);
+      });
+      if (touchesLand) {
+        distance[y * size + x] = 0;
+        queue.push(y * size + x);
+      }
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const idx = queue[head];
+    const x = idx % size; const y = (idx - x) / size;
+    for (const [dx, dy] of NEIGHBORS) {
+      const nx = x + dx; const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+      const nIdx = ny * size + nx;
+      if (distance[nIdx] !== -1 || !isWaterSurface(grid[ny][nx])) continue;
+      distance[nIdx] = distance[idx] + 1;
+      queue.push(nIdx);
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isWaterSurface(grid[y][x])) continue;
+      const d = distance[y * size + x];
+      // Water with no shore at all (whole map flooded) is as deep as it gets
+      grid[y][x].waterDepth = d < 0 ? 1 : Math.min(1, MIN_GENERATED_DEPTH + d * DEPTH_PER_SHORE_DISTANCE);
+    }
+  }
+}
+
+// ============================================================================
+// FLOW FIELD
+// ============================================================================
+
+export interface FlowField {
+  /** Grid index of the tile each water tile drains into, or -1 for still water */
+  downstream: Int32Array;
+  /** 1 for water tiles on the map edge that flush to the open sea */
+  sink: Uint8Array;
+}
+
+/**
+ * Water drains towards the map edge (the open ocean). A BFS from edge water
+ * tiles gives each connected tile its distance to the sea; its current points
+ * at the neighbor one step closer. Lakes with no outlet get no current - until
+ * a canal connects them, at which point they start draining through it. Water
+ * never flows uphill, so a canal dug on a hill drains down but not back up.
+ * A river that enters from the map edge flows in there rather than out, so it
+ * runs from source to mouth.
+ */
+export function computeFlowField(grid: Tile[][], size: number, waterBodies: WaterBody[] = []): FlowField {
+  const downstream = new Int32Array(size * size).fill(-1);
+  const sink = new Uint8Array(size * size);
+  const distance = new Int32Array(size * size).fill(-1);
+  const queue: number[] = [];
+
+  // River tiles upstream of the river's middle are inflow, never sinks
+  const inflow = new Set<number>();
+  for (const body of waterBodies) {
+    if (body.type !== 'river' || !body.flowDirection) continue;
+    for (const tile of body.tiles) {
+      const along = (tile.x - body.centerX) * body.flowDirection.dx + (tile.y - body.centerY) * body.flowDirection.dy;
+      if (along < 0) inflow.add(tile.y * size + tile.x);
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const onEdge = x === 0 || y === 0 || x === size - 1 || y === size - 1;
+      if (onEdge && isWaterSurface(grid[y][x]) && !inflow.has(y * size + x)) {
+        const idx = y * size + x;
+        sink[idx] = 1;
+        distance[idx] = 0;
+        queue.push(idx);
+      }
+    }
+  }
+
+  for (let head = 0; head < queue.length; head++) {
+    const idx = queue[head];
+    const x = idx % size; const y = (idx - x) / size;
+    for (const [dx, dy] of NEIGHBORS) {
+      const nx = x + dx; const ny = y + dy;
+      if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+      const nIdx = ny * size + nx;
+      if (distance[nIdx] !== -1 || !isWaterSurface(grid[ny][nx])) continue;
+      if (getElevation(grid[ny][nx]) < getElevation(grid[y][x])) continue;
+      distance[nIdx] = distance[idx] + 1;
+      downstream[nIdx] = idx;
+      queue.push(nIdx);
+    }
+  }
+
+  return { downstream, sink };
+}
+
+/** Unit direction of the current on a tile, or null for still water / land */
+export function getCurrentDirection(flow: FlowField, size: number, x: number, y: number): { dx: number; dy: number } | null {
+  const target = flow.downstream[y * size + x];
+  if (target < 0) return null;
+  const tx = target % size;
+  return { dx: tx - x, dy: (target - tx) / size - y };
+}
+
+// ============================================================================
+// TRANSPORT STEP
+// ============================================================================
+
+/**
+ * Advance pollutant transport on water by one tick: advection along currents,
+ * diffusion between neighbors (weighted by the smaller tile's volume), and
+ * flushing at edge sinks. Each pollutant channel is a concentration; the step
+ * works on mass = concentration * volume per channel so deep water dilutes.
+ *
+ * `getModifiableTile` must return a tile that is safe to mutate (simulateTick's
+ * copy-on-write rows).
+ */
+export function applyWaterFlow(grid: Tile[][], size: number, flow: FlowField, getModifiableTile: (x: number, y: number) => Tile): void {
+  const count = size * size;
+  const channelCount = POLLUTANT_CHANNELS.length;
+  const volume = new Float32Array(count);
+  // Channel-interleaved: mass[idx * channelCount + c]
+  const mass = new Float64Array(count * channelCount);
+  const delta = new Float64Array(count * channelCount);
+  const touched = new Uint8Array(count);
+  let anyPollution = false;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      if (!isWaterSurface(tile)) continue;
+      const idx = y * size + x;
+      volume[idx] = getWaterVolume(tile);
+      if (tile.pollution <= 0.01) continue;
+      anyPollution = true;
+      const levels = getPollutants(tile);
+      for (let c = 0; c < channelCount; c++) {
+        mass[idx * channelCount + c] = levels[POLLUTANT_CHANNELS[c]] * volume[idx];
+      }
+    }
+  }
+  if (!anyPollution) return;
+
+  const transfer = (from: number, to: number, c: number, amount: number) => {
+    if (amount <= 0) return;
+    delta[from * channelCount + c] -= amount;
+    delta[to * channelCount + c] += amount;
+    touched[from] = 1;
+    touched[to] = 1;
+  };
+
+  for (let idx = 0; idx < count; idx++) {
+    if (volume[idx] === 0) continue;
+    const x = idx % size; const y = (idx - x) / size;
+    const target = flow.downstream[idx];
+
+    for (let c = 0; c < channelCount; c++) {
+      const m = mass[idx * channelCount + c];
+      if (m <= 0) continue;
+
+      // Advection: carried downstream by the current
+      if (target >= 0) transfer(idx, target, c, m * ADVECTION_RATE);
+
+      // Diffusion: spread toward cleaner neighbors (each pair handled from the dirtier side)
+      const concentration = m / volume[idx];
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx; const ny = y + dy;
+        if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+        const nIdx = ny * size + nx;
+        if (volume[nIdx] === 0) continue;
+        const diff = concentration - mass[nIdx * channelCount + c] / volume[nIdx];
+        if (diff > 0) transfer(idx, nIdx, c, diff * DIFFUSION_RATE * Math.min(volume[idx], volume[nIdx]));
+      }
+
+      // Sink: the open sea carries pollution off the map
+      if (flow.sink[idx]) {
+        delta[idx * channelCount + c] -= m * SINK_RATE;
+        touched[idx] = 1;
+      }
+    }
+  }
+
+  for (let idx = 0; idx < count; idx++) {
+    if (!touched[idx]) continue;
+    const x = idx % size; const y = (idx - x) / size;
+    const tile = getModifiableTile(x, y);
+    const levels = { ...getPollutants(tile) };
+    for (let c = 0; c < channelCount; c++) {
+      const i = idx * channelCount + c;
+      levels[POLLUTANT_CHANNELS[c]] = (mass[i] + delta[i]) / volume[idx];
+    }
+    setPollutants(tile, levels);
+  }
+}
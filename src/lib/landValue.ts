@@ -0,0 +1,184 @@
+// Land value for IsoCity
+// Each tile's value is rebuilt from its surroundings: being near water, parks and
+// transit stations and inside service coverage raises it; pollution (weighted by
+// type), crime and nearby heavy industry bring it down. Tiles move a step toward
+// that target every tick so values drift rather than jump.
+
+import { BuildingType, BUILDING_STATS, PollutantChannel, ServiceCoverage, Tile } from '@/types/game';
+import { isWaterSurface } from './hydrology';
+import { getPollutants } from './pollution';
+import { getUpkeepDepartment } from './ledger';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const MIN_LAND_VALUE = 0;
+export const MAX_LAND_VALUE = 100;
+
+/** Value of an unremarkable plot with nothing nearby */
+const BASE_LAND_VALUE = 30;
+
+// Bonus right next to each amenity and the distance (tiles) it fades out over
+const WATER_BONUS = 20;
+const WATER_RANGE = 5;
+const PARK_BONUS = 15;
+const PARK_RANGE = 4;
+const TRANSIT_BONUS = 12;
+const TRANSIT_RANGE = 6;
+
+/** Points per point of average police, fire, health and education coverage */
+const SERVICE_WEIGHT = 0.2;
+
+/** Points lost per point of each pollutant around the tile - toxins scare buyers most */
+const POLLUTANT_WEIGHTS: Record<PollutantChannel, number> = { toxic: 0.2, nutrient: 0.1, thermal: 0.05 };
+
+/** Points lost per point of crime */
+const CRIME_WEIGHT = 0.3;
+
+// Buildings with a negative BUILDING_STATS.landValue at or below this blight their neighbours
+const NUISANCE_THRESHOLD = -5;
+const NUISANCE_RANGE = 4;
+
+const TRANSIT_TYPES = new Set<BuildingType>(['subway_station', 'rail_station']);
+
+// Share of the gap to the target closed each tick; at least one point while there is a gap
+const LAND_VALUE_LAG = 0.1;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+
+// ============================================================================
+// FIELDS
+// ============================================================================
+
+/**
+ * Walking distance (4-neighbour steps) from every tile to the nearest source,
+ * capped at `maxDistance + 1` for anything further away.
+ */
+function getDistanceField(grid: Tile[][], size: number, isSource: (tile: Tile) => boolean, maxDistance: number): Uint8Array {
+  const distance = new Uint8Array(size * size).fill(maxDistance + 1);
+  const queue: number[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!isSource(grid[y][x])) continue;
+      distance[y * size + x] = 0;
+      queue.push(y * size + x);
+    }
+  }
+  for (let head = 0; head < queue.length; head++) {
+    const index = queue[head];
+    const next = distance[index] + 1;
+    if (next > maxDistance) continue;
+    const x = index % size; const y = (index - x) / size;
+    for (const [dx, dy] of NEIGHBORS) {
+      const nx = x + dx; const ny = y + dy;
+      if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+      const neighbor = ny * size + nx;
+      if (distance[neighbor] <= next) continue;
+      distance[neighbor] = next;
+      queue.push(neighbor);
+    }
+  }
+  return distance;
+}
+
+/** Bonus that is full at distance 0 and fades linearly to nothing past `range` */
+function getFalloff(bonus: number, distance: number, range: number): number {
+  return distance > range ? 0 : bonus * (1 - distance / (range + 1));
+}
+
+/** Blight from heavy industry and power plants, scaled by how negative their land value is */
+function getNuisanceField(grid: Tile[][], size: number): Float32Array {
+  const nuisance = new Float32Array(size * size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      if (building.abandoned) continue;
+      const value = BUILDING_STATS[building.type]?.landValue ?? 0;
+      if (value > NUISANCE_THRESHOLD) continue;
+      for (let dy = -NUISANCE_RANGE; dy <= NUISANCE_RANGE; dy++) {
+        for (let dx = -NUISANCE_RANGE; dx <= NUISANCE_RANGE; dx++) {
+          const nx = x + dx; const ny = y + dy;
+          if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+          nuisance[ny * size + nx] += getFalloff(-value, Math.abs(dx) + Math.abs(dy), NUISANCE_RANGE);
+        }
+      }
+    }
+  }
+  return nuisance;
+}
+
+// ============================================================================
+// LAND VALUE
+// ============================================================================
+
+interface LandValueFactors {
+  water: number;
+  parks: number;
+  transit: number;
+  services: number;
+  pollution: number; // Subtracted
+  crime: number; // Subtracted
+  nuisance: number; // Subtracted
+}
+
+function getTileTarget(factors: LandValueFactors): number {
+  const value = BASE_LAND_VALUE + factors.water + factors.parks + factors.transit + factors.services
+    - factors.pollution - factors.crime - factors.nuisance;
+  return Math.max(MIN_LAND_VALUE, Math.min(MAX_LAND_VALUE, Math.round(value)));
+}
+
+/**
+ * Points pollution costs a tile, by channel. Levels are averaged over the tile
+ * and its eight neighbours so a building's own emissions don't dominate its plot.
+ */
+function getPollutionPenalty(grid: Tile[][], size: number, x: number, y: number): number {
+  let penalty = 0; let tiles = 0;
+  for (let ny = Math.max(0, y - 1); ny <= Math.min(size - 1, y + 1); ny++) {
+    for (let nx = Math.max(0, x - 1); nx <= Math.min(size - 1, x + 1); nx++) {
+      const levels = getPollutants(grid[ny][nx]);
+      for (const channel of Object.keys(POLLUTANT_WEIGHTS) as PollutantChannel[]) penalty += levels[channel] * POLLUTANT_WEIGHTS[channel];
+      tiles++;
+    }
+  }
+  return penalty / tiles;
+}
+
+/** Step from the current value toward the target */
+function stepToward(current: number, target: number): number {
+  const gap = target - current;
+  if (gap === 0) return current;
+  const step = Math.max(1, Math.round(Math.abs(gap) * LAND_VALUE_LAG));
+  return current + Math.sign(gap) * Math.min(step, Math.abs(gap));
+}
+
+/**
+ * Move every land tile's value a step toward what its surroundings are worth.
+ * Water tiles keep their value. Only tiles whose value changes are copied.
+ */
+export function updateLandValues(grid: Tile[][], size: number, services: ServiceCoverage, getModifiableTile: (x: number, y: number) => Tile): void {
+  const water = getDistanceField(grid, size, isWaterSurface, WATER_RANGE);
+  const parks = getDistanceField(grid, size, tile => !tile.building.abandoned && getUpkeepDepartment(tile.building.type) === 'parks', PARK_RANGE);
+  const transit = getDistanceField(grid, size, tile => TRANSIT_TYPES.has(tile.building.type), TRANSIT_RANGE);
+  const nuisance = getNuisanceField(grid, size);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      if (isWaterSurface(tile)) continue;
+      const index = y * size + x;
+      const coverage = (services.police[y][x] + services.fire[y][x] + services.health[y][x] + services.education[y][x]) / 4;
+      const target = getTileTarget({
+        water: getFalloff(WATER_BONUS, water[index], WATER_RANGE),
+        parks: getFalloff(PARK_BONUS, parks[index], PARK_RANGE),
+        transit: getFalloff(TRANSIT_BONUS, transit[index], TRANSIT_RANGE),
+        services: coverage * SERVICE_WEIGHT,
+        pollution: getPollutionPenalty(grid, size, x, y),
+        crime: tile.crime * CRIME_WEIGHT,
+        nuisance: nuisance[index],
+      });
+      const next = stepToward(tile.landValue, target);
+      if (next !== tile.landValue) getModifiableTile(x, y).landValue = next;
+    }
+  }
+}
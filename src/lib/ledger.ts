@@ -0,0 +1,94 @@
+// Budget ledger for IsoCity
+// Every building type carries a monthly upkeep in BUILDING_STATS, billed to the
+// budget department that runs it. Landmarks are billed as civic upkeep, which the
+// funding sliders don't cover. The ledger itemises a month's income and spending.
+
+import { Budget, BudgetLedger, BuildingType, BUILDING_STATS, ExpenseCategory, IncomeSource, UpkeepItem } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export type UpkeepDepartment = keyof Budget | 'civic';
+
+export const INCOME_SOURCES: readonly IncomeSource[] = ['residential', 'commercial', 'industrial', 'property', 'pollutionSurcharge', 'carbonCredits'];
+
+export const EXPENSE_CATEGORIES: readonly ExpenseCategory[] = [
+  'police', 'fire', 'health', 'education', 'transportation', 'parks', 'power', 'water', 'civic', 'policies', 'carbonTax',
+];
+
+/** Monthly upkeep per tile of subway tunnel */
+export const SUBWAY_TUNNEL_UPKEEP = 3;
+/** Monthly upkeep per tile of water pipe */
+export const WATER_PIPE_UPKEEP = 1;
+
+// Department billed for each publicly run building; anything missing is private
+const UPKEEP_DEPARTMENT: Partial<Record<BuildingType, UpkeepDepartment>> = {
+  road: 'transportation', bridge: 'transportation', rail: 'transportation',
+  subway_station: 'transportation', rail_station: 'transportation', airport: 'transportation',
+  police_station: 'police',
+  fire_station: 'fire',
+  hospital: 'health',
+  school: 'education', university: 'education',
+  power_plant: 'power', solar_farm: 'power', wind_turbine: 'power', hydro_dam: 'power',
+  water_tower: 'water', water_pump: 'water',
+  park: 'parks', park_large: 'parks', tennis: 'parks', stadium: 'parks', amusement_park: 'parks',
+  basketball_courts: 'parks', playground_small: 'parks', playground_large: 'parks',
+  baseball_field_small: 'parks', soccer_field_small: 'parks', football_field: 'parks', baseball_stadium: 'parks',
+  swimming_pool: 'parks', skate_park: 'parks', mini_golf_course: 'parks', bleachers_field: 'parks',
+  go_kart_track: 'parks', amphitheater: 'parks', campground: 'parks', marina_docks_small: 'parks',
+  pier_large: 'parks', roller_coaster_small: 'parks', community_garden: 'parks', pond_park: 'parks',
+  park_gate: 'parks', mountain_lodge: 'parks', mountain_trailhead: 'parks',
+  city_hall: 'civic', museum: 'civic', space_program: 'civic', community_center: 'civic',
+};
+
+// ============================================================================
+// UPKEEP
+// ============================================================================
+
+/** Department that pays a building's upkeep, or null if it is privately run */
+export function getUpkeepDepartment(type: BuildingType): UpkeepDepartment | null {
+  return UPKEEP_DEPARTMENT[type] ?? null;
+}
+
+/** Department that pays for an upkeep line, including the tunnels and pipes under tiles */
+export function getUpkeepItemDepartment(item: UpkeepItem): UpkeepDepartment | null {
+  if (item === 'subway') return 'transportation';
+  if (item === 'water_pipe') return 'water';
+  return getUpkeepDepartment(item);
+}
+
+/** Monthly upkeep of a building type at full funding */
+export function getBuildingUpkeep(type: BuildingType): number {
+  return getUpkeepDepartment(type) ? BUILDING_STATS[type]?.upkeep ?? 0 : 0;
+}
+
+/** Upkeep actually spent once the department's funding is applied; civic upkeep is always paid in full */
+export function getFundedUpkeep(cost: number, department: UpkeepDepartment, budget: Budget): number {
+  if (department === 'civic') return cost;
+  return cost * budget[department].funding / 100;
+}
+
+// ============================================================================
+// LEDGER
+// ============================================================================
+
+export function createLedger(): BudgetLedger {
+  const income = {} as Record<IncomeSource, number>;
+  for (const source of INCOME_SOURCES) income[source] = 0;
+  const expenses = {} as Record<ExpenseCategory, number>;
+  for (const category of EXPENSE_CATEGORIES) expenses[category] = 0;
+  return { income, expenses, upkeep: {}, cities: {} };
+}
+
+export function getLedgerIncome(ledger: BudgetLedger): number {
+  let total = 0;
+  for (const source of INCOME_SOURCES) total += ledger.income[source];
+  return total;
+}
+
+export function getLedgerExpenses(ledger: BudgetLedger): number {
+  let total = 0;
+  for (const category of EXPENSE_CATEGORIES) total += ledger.expenses[category];
+  return total;
+}
@@ -1,6 +1,6 @@
 // Multiplayer types for co-op gameplay
 
-import { Tool, GameState, Budget } from '@/types/game';
+import { Tool, GameState, Budget, DebtKind, PolicyId, RoadDirection, TaxRates, Tile } from '@/types/game';
 
 // Base action properties
 interface BaseAction {
@@ -10,26 +10,40 @@ interface BaseAction {
 
 // Game actions that get synced via Supabase Realtime
 export type GameAction =
-  | (BaseAction & { type: 'place'; x: number; y: number; tool: Tool })
-  | (BaseAction & { type: 'placeBatch'; placements: Array<{ x: number; y: number; tool: Tool }> })
+  | (BaseAction & { type: 'place'; x: number; y: number; tool: Tool; roadDirection?: RoadDirection })
+  | (BaseAction & { type: 'placeBatch'; placements: Array<{ x: number; y: number; tool: Tool; roadDirection?: RoadDirection; flipped?: boolean }> })
   | (BaseAction & { type: 'bulldoze'; x: number; y: number })
   | (BaseAction & { type: 'setTaxRate'; rate: number })
+  | (BaseAction & { type: 'setZoneTaxRate'; zone: keyof TaxRates; rate: number })
+  | (BaseAction & { type: 'setPollutionSurcharge'; surcharge: number })
+  | (BaseAction & { type: 'setPolicy'; id: PolicyId; enacted: boolean })
   | (BaseAction & { type: 'setBudget'; key: keyof Budget; funding: number })
+  | (BaseAction & { type: 'setCarbonCap'; cap: number })
+  | (BaseAction & { type: 'takeDebt'; kind: DebtKind; amount: number; id: string })
+  | (BaseAction & { type: 'repayDebt'; id: string })
   | (BaseAction & { type: 'setSpeed'; speed: 0 | 1 | 2 | 3 })
   | (BaseAction & { type: 'setDisasters'; enabled: boolean })
   | (BaseAction & { type: 'createBridges'; pathTiles: Array<{ x: number; y: number }>; trackType: 'road' | 'rail' })
+  | (BaseAction & { type: 'restoreTiles'; tiles: Array<{ x: number; y: number; tile: Tile }>; refund: number })
   | (BaseAction & { type: 'fullState'; state: GameState })
   | (BaseAction & { type: 'tick'; tickData: TickData });
 
 // Action input types (without timestamp and playerId, which are added automatically)
-export type PlaceAction = { type: 'place'; x: number; y: number; tool: Tool };
-export type PlaceBatchAction = { type: 'placeBatch'; placements: Array<{ x: number; y: number; tool: Tool }> };
+export type PlaceAction = { type: 'place'; x: number; y: number; tool: Tool; roadDirection?: RoadDirection };
+export type PlaceBatchAction = { type: 'placeBatch'; placements: Array<{ x: number; y: number; tool: Tool; roadDirection?: RoadDirection; flipped?: boolean }> };
 export type BulldozeAction = { type: 'bulldoze'; x: number; y: number };
 export type SetTaxRateAction = { type: 'setTaxRate'; rate: number };
+export type SetZoneTaxRateAction = { type: 'setZoneTaxRate'; zone: keyof TaxRates; rate: number };
+export type SetPollutionSurchargeAction = { type: 'setPollutionSurcharge'; surcharge: number };
+export type SetPolicyAction = { type: 'setPolicy'; id: PolicyId; enacted: boolean };
 export type SetBudgetAction = { type: 'setBudget'; key: keyof Budget; funding: number };
+export type SetCarbonCapAction = { type: 'setCarbonCap'; cap: number };
+export type TakeDebtAction = { type: 'takeDebt'; kind: DebtKind; amount: number; id: string };
+export type RepayDebtAction = { type: 'repayDebt'; id: string };
 export type SetSpeedAction = { type: 'setSpeed'; speed: 0 | 1 | 2 | 3 };
 export type SetDisastersAction = { type: 'setDisasters'; enabled: boolean };
 export type CreateBridgesAction = { type: 'createBridges'; pathTiles: Array<{ x: number; y: number }>; trackType: 'road' | 'rail' };
+export type RestoreTilesAction = { type: 'restoreTiles'; tiles: Array<{ x: number; y: number; tile: Tile }>; refund: number };
 export type FullStateAction = { type: 'fullState'; state: GameState };
 export type TickAction = { type: 'tick'; tickData: TickData };
 
@@ -38,10 +52,17 @@ export type GameActionInput =
   | PlaceBatchAction
   | BulldozeAction
   | SetTaxRateAction
+  | SetZoneTaxRateAction
+  | SetPollutionSurchargeAction
+  | SetPolicyAction
   | SetBudgetAction
+  | SetCarbonCapAction
+  | TakeDebtAction
+  | RepayDebtAction
   | SetSpeedAction
   | SetDisastersAction
   | CreateBridgesAction
+  | RestoreTilesAction
   | FullStateAction
   | TickAction;
 
@@ -1,5 +1,7 @@
 // Name generation utilities for cities and water bodies
 
+import type { RandomFn } from './rng';
+
 const CITY_NAME_PARTS = [
   'Spring', 'Riverside', 'Harbor', 'Valley', 'Hill', 'Bay', 'Creek', 'Park',
   'Lake', 'Mountain', 'Beach', 'Forest', 'Bridge', 'Port', 'View', 'Heights',
@@ -45,13 +47,22 @@ const OCEAN_NAMES = [
   'Turquoise Sea', 'Northern Sea', 'Southern Sea', 'Eastern Sea', 'Western Sea',
 ];
 
-export function generateCityName(): string {
-  const part1 = CITY_NAME_PARTS[Math.floor(Math.random() * CITY_NAME_PARTS.length)];
-  const part2 = CITY_NAME_PARTS[Math.floor(Math.random() * CITY_NAME_PARTS.length)];
-  const suffix = CITY_SUFFIXES[Math.floor(Math.random() * CITY_SUFFIXES.length)];
+const RIVER_NAMES = [
+  'Willow River', 'Cedar River', 'Stone River', 'Silver River', 'Clear River',
+  'Blue River', 'Green River', 'Red River', 'Black River', 'White River',
+  'Fox River', 'Otter River', 'Beaver River', 'Elk River', 'Heron River',
+  'Mill River', 'Iron River', 'Copper River', 'Sandy River', 'Rocky River',
+  'Winding River', 'Swift River', 'Lazy River', 'Long River', 'Crooked River',
+  'Pine Creek', 'Maple Creek', 'Birch Creek', 'Trout Creek', 'Muddy Creek',
+];
+
+export function generateCityName(random: RandomFn = Math.random): string {
+  const part1 = CITY_NAME_PARTS[Math.floor(random() * CITY_NAME_PARTS.length)];
+  const part2 = CITY_NAME_PARTS[Math.floor(random() * CITY_NAME_PARTS.length)];
+  const suffix = CITY_SUFFIXES[Math.floor(random() * CITY_SUFFIXES.length)];
   
   // Sometimes use two parts, sometimes one part + suffix
-  if (Math.random() > 0.5) {
+  if (random() > 0.5) {
     return `${part1} ${suffix}`;
   } else {
     // Avoid duplicate parts
@@ -62,7 +73,7 @@ export function generateCityName(): string {
   }
 }
 
-export function generateWaterName(type: 'lake' | 'ocean'): string {
-  const filtered = type === 'lake' ? LAKE_NAMES : OCEAN_NAMES;
-  return filtered[Math.floor(Math.random() * filtered.length)];
+export function generateWaterName(type: 'lake' | 'ocean' | 'river', random: RandomFn = Math.random): string {
+  const filtered = type === 'lake' ? LAKE_NAMES : type === 'river' ? RIVER_NAMES : OCEAN_NAMES;
+  return filtered[Math.floor(random() * filtered.length)];
 }
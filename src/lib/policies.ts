@@ -0,0 +1,112 @@
+// City ordinances for IsoCity
+// Policies are enacted city-wide and billed monthly: a flat cost plus a share per
+// resident. Each one scales what buildings emit, what they draw from the pipes or
+// how many cars take to the roads, and nudges zone demand and happiness.
+
+import { BuildingType, PolicyId, PollutionType, ZoneType } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export interface PolicyEffects {
+  industrialEmissions: number; // Multiplier on toxic pollution from industrial zones
+  farmRunoff: number; // Multiplier on nutrient runoff from farms
+  commercialEmissions: number; // Multiplier on pollution from commercial zones (customer traffic)
+  emissions: number; // Multiplier on everything buildings emit
+  waterDemand: number; // Multiplier on piped water drawn by buildings
+  traffic: number; // Multiplier on cars on the road
+  demand: { residential: number; commercial: number; industrial: number }; // Added to zone demand
+  happiness: number; // Added to city happiness
+}
+
+export interface PolicyDefinition {
+  baseCost: number; // Monthly
+  costPerCapita: number; // Monthly, per resident
+  effects: Partial<Omit<PolicyEffects, 'demand'>> & { demand?: Partial<PolicyEffects['demand']> };
+}
+
+export const POLICIES: Record<PolicyId, PolicyDefinition> = {
+  wastewater_filtering: {
+    baseCost: 150,
+    costPerCapita: 0.01,
+    effects: { industrialEmissions: 0.5, demand: { industrial: -6 } },
+  },
+  fertilizer_limits: {
+    baseCost: 60,
+    costPerCapita: 0.005,
+    effects: { farmRunoff: 0.5, demand: { industrial: -2 } },
+  },
+  car_free_downtown: {
+    baseCost: 100,
+    costPerCapita: 0.01,
+    effects: { traffic: 0.6, commercialEmissions: 0.6, demand: { commercial: -5 }, happiness: 3 },
+  },
+  recycling_program: {
+    baseCost: 80,
+    costPerCapita: 0.02,
+    effects: { emissions: 0.9, happiness: 2 },
+  },
+  water_metering: {
+    baseCost: 50,
+    costPerCapita: 0.005,
+    effects: { waterDemand: 0.8, happiness: -2 },
+  },
+};
+
+export const POLICY_IDS = Object.keys(POLICIES) as PolicyId[];
+
+// Farms whose runoff fertilizer limits apply to
+const FARM_TYPES = new Set<BuildingType>(['animal_pens_farm', 'greenhouse_garden']);
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+/** Combined effects of the enacted policies: multipliers compound, modifiers add */
+export function getPolicyEffects(policies: readonly PolicyId[]): PolicyEffects {
+  const combined: PolicyEffects = {
+    industrialEmissions: 1, farmRunoff: 1, commercialEmissions: 1, emissions: 1, waterDemand: 1, traffic: 1,
+    demand: { residential: 0, commercial: 0, industrial: 0 }, happiness: 0,
+  };
+  for (const id of policies) {
+    const effects = POLICIES[id]?.effects;
+    if (!effects) continue;
+    combined.industrialEmissions *= effects.industrialEmissions ?? 1;
+    combined.farmRunoff *= effects.farmRunoff ?? 1;
+    combined.commercialEmissions *= effects.commercialEmissions ?? 1;
+    combined.emissions *= effects.emissions ?? 1;
+    combined.waterDemand *= effects.waterDemand ?? 1;
+    combined.traffic *= effects.traffic ?? 1;
+    combined.demand.residential += effects.demand?.residential ?? 0;
+    combined.demand.commercial += effects.demand?.commercial ?? 0;
+    combined.demand.industrial += effects.demand?.industrial ?? 0;
+    combined.happiness += effects.happiness ?? 0;
+  }
+  return combined;
+}
+
+/** Multiplier on the pollution a building of `type` in `zone` emits into `channel` */
+export function getEmissionMultiplier(effects: PolicyEffects, type: BuildingType, zone: ZoneType, channel: PollutionType): number {
+  let multiplier = effects.emissions;
+  if (zone === 'industrial' && channel === 'toxic') multiplier *= effects.industrialEmissions;
+  if (zone === 'commercial') multiplier *= effects.commercialEmissions;
+  if (FARM_TYPES.has(type) && channel === 'nutrient') multiplier *= effects.farmRunoff;
+  return multiplier;
+}
+
+// ============================================================================
+// COST
+// ============================================================================
+
+/** Monthly cost of a policy for a city of `population` */
+export function getPolicyCost(id: PolicyId, population: number): number {
+  const policy = POLICIES[id];
+  return policy ? Math.round(policy.baseCost + policy.costPerCapita * population) : 0;
+}
+
+export function getPoliciesCost(policies: readonly PolicyId[], population: number): number {
+  let total = 0;
+  for (const id of policies) total += getPolicyCost(id, population);
+  return total;
+}
@@ -0,0 +1,129 @@
+// Per-type pollution channels for IsoCity
+// Toxic, thermal and nutrient pollution are tracked separately on each tile and
+// follow their own decay and effect rules.
+
+import { Tile, PollutantChannel, PollutantLevels } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const POLLUTANT_CHANNELS: readonly PollutantChannel[] = ['toxic', 'thermal', 'nutrient'];
+
+/**
+ * Per-tick retention of each channel (1 = never decays).
+ * Thermal pollution dissipates within a few days, toxins linger for months,
+ * nutrients sit in between and are consumed faster by algae on water.
+ */
+export const POLLUTANT_DECAY: Record<PollutantChannel, { land: number; water: number }> = {
+  toxic: { land: 0.997, water: 0.998 },
+  thermal: { land: 0.9, water: 0.92 },
+  nutrient: { land: 0.985, water: 0.99 },
+};
+
+/** How readily each channel spreads to neighboring land tiles */
+export const POLLUTANT_LAND_SPREAD: Record<PollutantChannel, number> = {
+  toxic: 1,
+  thermal: 0.3,
+  nutrient: 0.8,
+};
+
+// Toxins absorbed into the local food chain per tick, per point of toxic concentration
+const BIOACCUMULATION_RATE = 0.002;
+// Bioaccumulated toxins clear far slower than the toxins themselves
+const BURDEN_RETENTION = 0.9995;
+
+/** Nutrient concentration above which algae starts growing on water */
+export const ALGAE_NUTRIENT_THRESHOLD = 25;
+// Algae growth per tick per point of nutrient above the threshold
+const ALGAE_GROWTH_RATE = 0.04;
+// Nutrients consumed per point of algae growth
+const ALGAE_NUTRIENT_UPTAKE = 0.5;
+// Algae retention per tick once nutrients run out
+const ALGAE_DIE_OFF = 0.97;
+
+// ============================================================================
+// CHANNEL ACCESS
+// ============================================================================
+
+export function emptyPollutants(): PollutantLevels {
+  return { toxic: 0, thermal: 0, nutrient: 0 };
+}
+
+/**
+ * Pollutant levels of a tile. Saves that predate per-type channels only have
+ * `pollution` and `pollutionType`; their total is attributed to that type
+ * (or to toxic when the type is unknown).
+ */
+export function getPollutants(tile: Tile): PollutantLevels {
+  if (tile.pollutants) return tile.pollutants;
+  const levels = emptyPollutants();
+  if (tile.pollution > 0) {
+    const channel = tile.pollutionType && tile.pollutionType !== 'none' ? tile.pollutionType : 'toxic';
+    levels[channel] = tile.pollution;
+  }
+  return levels;
+}
+
+/**
+ * Store new channel levels on a (modifiable) tile and refresh the derived
+ * `pollution` total and dominant `pollutionType` used by rendering and stats.
+ * Always assigns a fresh object, so levels are never shared between states.
+ */
+export function setPollutants(tile: Tile, levels: PollutantLevels): void {
+  let total = 0;
+  let dominant: PollutantChannel | null = null;
+  const next = emptyPollutants();
+  for (const channel of POLLUTANT_CHANNELS) {
+    const value = Math.max(0, Math.min(100, levels[channel]));
+    next[channel] = value < 0.001 ? 0 : value;
+    total += next[channel];
+    if (next[channel] > 0 && (dominant === null || next[channel] > next[dominant])) dominant = channel;
+  }
+  tile.pollutants = next;
+  tile.pollution = Math.min(100, total);
+  tile.pollutionType = dominant ?? 'none';
+}
+
+/** True if a tile still carries anything the pollution step needs to evolve */
+export function hasPollutionResidue(tile: Tile): boolean {
+  return tile.pollution >= 0.01 || (tile.toxicBurden ?? 0) >= 0.01 || (tile.algae ?? 0) >= 0.01;
+}
+
+// ============================================================================
+// PER-TICK EFFECTS
+// ============================================================================
+
+/**
+ * Apply one tick of decay and secondary effects to a tile's channels:
+ * per-channel decay, toxin bioaccumulation, and algae growth on water fed by
+ * nutrients (warm water speeds it up). Mutates `levels` and the tile's
+ * toxicBurden/algae; the caller stores `levels` with setPollutants.
+ */
+export function applyPollutantEffects(tile: Tile, levels: PollutantLevels, onWater: boolean): void {
+  // Toxins work their way into the food chain and stay there
+  const burden = (tile.toxicBurden ?? 0) * BURDEN_RETENTION + levels.toxic * BIOACCUMULATION_RATE;
+  if (burden >= 0.01) tile.toxicBurden = Math.min(100, burden);
+  else delete tile.toxicBurden;
+
+  if (onWater) {
+    let algae = tile.algae ?? 0;
+    if (levels.nutrient > ALGAE_NUTRIENT_THRESHOLD) {
+      const warmth = 1 + levels.thermal / 100;
+      const growth = Math.min(100 - algae, (levels.nutrient - ALGAE_NUTRIENT_THRESHOLD) * ALGAE_GROWTH_RATE * warmth);
+      algae += growth;
+      levels.nutrient -= growth * ALGAE_NUTRIENT_UPTAKE;
+    } else {
+      algae *= ALGAE_DIE_OFF;
+    }
+    if (algae >= 0.01) tile.algae = algae;
+    else delete tile.algae;
+  } else if (tile.algae !== undefined) {
+    // Filled-in water or a bridge removed - nothing left to grow in
+    delete tile.algae;
+  }
+
+  for (const channel of POLLUTANT_CHANNELS) {
+    levels[channel] *= onWater ? POLLUTANT_DECAY[channel].water : POLLUTANT_DECAY[channel].land;
+  }
+}
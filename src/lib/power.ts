@@ -0,0 +1,151 @@
+// Power generation for IsoCity
+// Coal, solar, wind and hydro plants produce megawatts that depend on the time of
+// day, the weather and their access to water. Clean sources are intermittent, so
+// a city that leans on them needs spare capacity or goes through brownouts.
+
+import { Building, BuildingType, ZoneType } from '@/types/game';
+import { getDarkness } from './daylight';
+import { deriveSeed } from './rng';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export type PowerPlantType = 'power_plant' | 'solar_farm' | 'wind_turbine' | 'hydro_dam';
+
+export const POWER_PLANT_TYPES: ReadonlySet<BuildingType> = new Set<BuildingType>(['power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam']);
+
+/** Output in MW of a level 1 plant under ideal conditions */
+export const POWER_PLANT_CAPACITY: Record<PowerPlantType, number> = {
+  power_plant: 150,
+  solar_farm: 40,
+  wind_turbine: 12,
+  hydro_dam: 60,
+};
+
+// Load per building: a base draw per level plus what its residents and workers use (MW)
+const DEMAND_PER_LEVEL = 0.2;
+const DEMAND_PER_RESIDENT = 0.02;
+const DEMAND_PER_JOB = 0.03;
+
+// Loads kept on longest during a brownout; everything else is shed first
+const CRITICAL_LOADS = new Set<BuildingType>(['hospital', 'fire_station', 'police_station', 'water_tower']);
+const CIVIC_LOADS = new Set<BuildingType>(['school', 'university', 'city_hall', 'subway_station', 'rail_station']);
+
+// Extra output per plant level
+const OUTPUT_INCREASE_PER_LEVEL = 0.25;
+
+// Wind strength changes fronts every couple of days and blends between them
+const WIND_FRONT_DAYS = 2;
+// Even a calm day turns the blades a little
+const WIND_MIN_STRENGTH = 0.1;
+// Turbines by open water catch steadier, stronger wind
+const COASTAL_WIND_BONUS = 1.25;
+
+// Water tiles along a dam's edge needed for full output
+const HYDRO_FULL_WATER_EDGE = 4;
+
+// Salt for the wind stream, kept apart from terrain/tick randomness
+const WIND_SEED_SALT = 11;
+
+// ============================================================================
+// GENERATION
+// ============================================================================
+
+export interface PowerConditions {
+  /** Hour of day (0-23), drives solar output */
+  hour: number;
+  /** City-wide wind strength (0-1) */
+  wind: number;
+}
+
+export interface PowerBalance {
+  /** MW generated this tick by every operating plant */
+  supply: number;
+  /** MW the same plants would produce under ideal conditions */
+  capacity: number;
+  /** MW requested by connected buildings */
+  demand: number;
+  /** MW of load cut off because demand exceeded supply */
+  shedDemand: number;
+  /** Tiles (y * size + x) of the buildings that were cut off */
+  shedTiles: Set<number>;
+}
+
+export function isPowerPlant(type: BuildingType): type is PowerPlantType {
+  return POWER_PLANT_TYPES.has(type);
+}
+
+/** Days elapsed since the city was founded, with the tick as the fraction */
+export function getElapsedDays(year: number, month: number, day: number, tick: number): number {
+  return ((year - 2024) * 12 + (month - 1)) * 30 + (day - 1) + tick / 30;
+}
+
+function frontStrength(seed: number, front: number): number {
+  return deriveSeed(deriveSeed(seed, WIND_SEED_SALT), front) / 4294967296;
+}
+
+/**
+ * City-wide wind strength (0-1) at a point in time. Deterministic for a seed,
+ * so co-op clients and replays see the same weather.
+ */
+export function getWindStrength(seed: number, elapsedDays: number): number {
+  const position = Math.max(0, elapsedDays) / WIND_FRONT_DAYS;
+  const front = Math.floor(position);
+  const t = position - front;
+  const blend = t * t * (3 - 2 * t); // smoothstep between fronts
+  const strength = frontStrength(seed, front) * (1 - blend) + frontStrength(seed, front + 1) * blend;
+  return WIND_MIN_STRENGTH + (1 - WIND_MIN_STRENGTH) * strength;
+}
+
+/**
+ * Current output in MW of a plant. `waterEdge` is the number of water tiles
+ * bordering the plant's footprint (hydro needs them, wind benefits from them).
+ */
+export function getPlantOutput(type: PowerPlantType, level: number, conditions: PowerConditions, waterEdge: number): number {
+  const capacity = getPlantCapacity(type, level);
+  switch (type) {
+    case 'power_plant':
+      return capacity;
+    case 'solar_farm':
+      return capacity * (1 - getDarkness(conditions.hour)); // Ramps through dawn and dusk
+    case 'wind_turbine':
+      return capacity * Math.min(1, conditions.wind * (waterEdge > 0 ? COASTAL_WIND_BONUS : 1));
+    case 'hydro_dam':
+      return capacity * Math.min(1, waterEdge / HYDRO_FULL_WATER_EDGE);
+  }
+}
+
+/** Nameplate output in MW of a plant, regardless of sun, wind or water */
+export function getPlantCapacity(type: PowerPlantType, level: number): number {
+  return POWER_PLANT_CAPACITY[type] * (1 + (Math.max(1, level) - 1) * OUTPUT_INCREASE_PER_LEVEL);
+}
+
+// ============================================================================
+// DEMAND
+// ============================================================================
+
+/** MW a building draws from the grid, from its level and its residents and workers */
+export function getBuildingPowerDemand(building: Building): number {
+  return DEMAND_PER_LEVEL * Math.max(1, building.level) + building.population * DEMAND_PER_RESIDENT + building.jobs * DEMAND_PER_JOB;
+}
+
+/**
+ * Shedding priority during a brownout: emergency services and water stay on
+ * longest, then civic buildings, then homes; shops, offices, industry and
+ * recreation go dark first.
+ */
+export function getPowerPriority(building: Building, zone: ZoneType): number {
+  if (CRITICAL_LOADS.has(building.type)) return 3;
+  if (CIVIC_LOADS.has(building.type)) return 2;
+  if (zone === 'residential') return 1;
+  return 0;
+}
+
+/**
+ * Stable per-tile value in [0, 1) used to order buildings within a priority
+ * tier, so the same blocks stay dark instead of flickering every tick.
+ */
+export function getSheddingRank(x: number, y: number): number {
+  return deriveSeed(x, y) / 4294967296;
+}
@@ -0,0 +1,48 @@
+// Seedable random number generation for the simulation
+// Everything that affects the city (terrain, spawning, fires, pollution) draws from here
+// so that the same seed and GameState always produce the same city
+
+/** A random source returning floats in [0, 1), drop-in compatible with Math.random */
+export type RandomFn = () => number;
+
+/**
+ * Mulberry32 generator. The full generator state is a single uint32,
+ * which lets it live on GameState and survive save/load/co-op sync.
+ */
+export class SeededRng {
+  private s: number;
+
+  constructor(state: number) {
+    this.s = state >>> 0;
+  }
+
+  /** Next float in [0, 1) */
+  next = (): number => {
+    this.s = (this.s + 0x6d2b79f5) >>> 0;
+    let t = this.s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  /** Current generator state, to be stored back on GameState */
+  get state(): number {
+    return this.s;
+  }
+}
+
+/** Create a fresh uint32 seed (the only place allowed to use Math.random) */
+export function createRandomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derive an independent uint32 stream seed from a base seed and a salt,
+ * so terrain, names and tick randomness don't share a sequence.
+ */
+export function deriveSeed(seed: number, salt: number): number {
+  let h = (seed ^ Math.imul(salt + 0x9e3779b9, 0x85ebca6b)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x7feb352d);
+  h = Math.imul(h ^ (h >>> 15), 0x846ca68b);
+  return (h ^ (h >>> 16)) >>> 0;
+}
@@ -0,0 +1,113 @@
+// Road classes for IsoCity
+// Streets, avenues, highways and one-way roads share the 'road' building type and
+// differ by the class saved on the building: how many trips a day they carry, how
+// fast traffic moves on them, and whether zones and pedestrians can use them.
+// One-way roads also carry the direction traffic flows.
+
+import { Building, RoadClass, RoadDirection, Tile, Tool } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export interface RoadClassDefinition {
+  capacity: number; // Trips per day before the road starts to jam
+  speed: number; // Multiplier on how fast traffic moves
+  zoneAccess: boolean; // Whether buildings can front onto it
+  pedestrians: boolean; // Whether people can walk along it
+}
+
+export const ROAD_CLASSES: Record<RoadClass, RoadClassDefinition> = {
+  street: { capacity: 300, speed: 1, zoneAccess: true, pedestrians: true },
+  avenue: { capacity: 700, speed: 1.3, zoneAccess: true, pedestrians: true },
+  highway: { capacity: 1500, speed: 2, zoneAccess: false, pedestrians: false },
+  one_way: { capacity: 450, speed: 1.15, zoneAccess: true, pedestrians: true },
+};
+
+/** The road class each road tool builds */
+export const ROAD_TOOL_CLASSES: Partial<Record<Tool, RoadClass>> = {
+  road: 'street',
+  avenue: 'avenue',
+  highway: 'highway',
+  one_way_road: 'one_way',
+};
+
+/** Grid step for each direction of travel */
+export const ROAD_DIRECTION_STEPS: Record<RoadDirection, { dx: number; dy: number }> = {
+  north: { dx: -1, dy: 0 },
+  east: { dx: 0, dy: -1 },
+  south: { dx: 1, dy: 0 },
+  west: { dx: 0, dy: 1 },
+};
+
+const OPPOSITE_DIRECTIONS: Record<RoadDirection, RoadDirection> = { north: 'south', east: 'west', south: 'north', west: 'east' };
+
+/** One-way roads placed without a drag direction start out flowing this way */
+const DEFAULT_ONE_WAY_DIRECTION: RoadDirection = 'north';
+
+// ============================================================================
+// CLASSES
+// ============================================================================
+
+export function isRoadTool(tool: Tool): boolean {
+  return ROAD_TOOL_CLASSES[tool] !== undefined;
+}
+
+/** Direction of travel along a straight drag, or undefined if it hasn't left its start */
+export function getDragDirection(from: { x: number; y: number }, to: { x: number; y: number }): RoadDirection | undefined {
+  const dx = to.x - from.x; const dy = to.y - from.y;
+  if (dx === 0 && dy === 0) return undefined;
+  if (Math.abs(dx) >= Math.abs(dy)) return dx > 0 ? 'south' : 'north';
+  return dy > 0 ? 'west' : 'east';
+}
+
+/** Class of a road or road bridge; bridges and older saves count as streets */
+export function getRoadClass(building: Building): RoadClass {
+  return building.type === 'road' ? building.roadClass ?? 'street' : 'street';
+}
+
+export function getRoadDefinition(tile: Tile): RoadClassDefinition {
+  return ROAD_CLASSES[getRoadClass(tile.building)];
+}
+
+/** Roads (not highways) and road bridges that buildings can take access from */
+export function givesZoneAccess(tile: Tile): boolean {
+  const type = tile.building.type;
+  return (type === 'road' || type === 'bridge') && getRoadDefinition(tile).zoneAccess;
+}
+
+/**
+ * The class and flow a road tool leaves on a tile. Re-placing a one-way road
+ * without a direction reverses it.
+ */
+export function getPlacedRoad(existing: Building, roadClass: RoadClass, direction?: RoadDirection): Pick<Building, 'roadClass' | 'roadDirection'> {
+  if (roadClass !== 'one_way') return { roadClass };
+  if (direction) return { roadClass, roadDirection: direction };
+  if (existing.type === 'road' && existing.roadClass === 'one_way' && existing.roadDirection) {
+    return { roadClass, roadDirection: OPPOSITE_DIRECTIONS[existing.roadDirection] };
+  }
+  return { roadClass, roadDirection: DEFAULT_ONE_WAY_DIRECTION };
+}
+
+/** Whether placing a road tool on a road would change anything */
+export function isRoadChange(existing: Building, roadClass: RoadClass, direction?: RoadDirection): boolean {
+  const placed = getPlacedRoad(existing, roadClass, direction);
+  return getRoadClass(existing) !== placed.roadClass || existing.roadDirection !== placed.roadDirection;
+}
+
+// ============================================================================
+// ONE-WAY FLOW
+// ============================================================================
+
+function isAgainstFlow(building: Building, direction: RoadDirection): boolean {
+  return getRoadClass(building) === 'one_way' && building.roadDirection !== undefined && OPPOSITE_DIRECTIONS[building.roadDirection] === direction;
+}
+
+/**
+ * Whether traffic may drive from one road tile to its neighbour in `direction`.
+ * Neither tile may be a one-way road flowing the other way; turning on or off a
+ * one-way road is fine.
+ */
+export function canDriveBetween(from: Tile, to: Tile, direction: RoadDirection): boolean {
+  return !isAgainstFlow(from.building, direction) && !isAgainstFlow(to.building, direction);
+}
@@ -1,6 +1,7 @@
 // Share state utility - compress game state for URL sharing
 import { compressToEncodedURIComponent, decompressFromEncodedURIComponent } from 'lz-string';
-import { GameState, Tile, Building, ZoneType, BuildingType } from '@/types/game';
+import { GameState, Tile, Building, ZoneType, BuildingType, PolicyId } from '@/types/game';
+import { createTaxRates } from './taxes';
 
 // Short key mappings for maximum compression
 const ZONE_MAP: Record<ZoneType, number> = { 'none': 0, 'residential': 1, 'commercial': 2, 'industrial': 3 };
@@ -21,7 +22,8 @@ const BUILDING_TYPES: BuildingType[] = [
   'bleachers_field', 'go_kart_track', 'amphitheater', 'greenhouse_garden',
   'animal_pens_farm', 'cabin_house', 'campground', 'marina_docks_small', 'pier_large',
   'roller_coaster_small', 'community_garden', 'pond_park', 'park_gate',
-  'mountain_lodge', 'mountain_trailhead'
+  'mountain_lodge', 'mountain_trailhead',
+  'solar_farm', 'wind_turbine', 'hydro_dam', 'water_pump'
 ];
 
 const BUILDING_MAP: Record<BuildingType, number> = BUILDING_TYPES.reduce((acc, type, idx) => {
@@ -34,8 +36,8 @@ const BUILDING_REVERSE: Record<number, BuildingType> = BUILDING_TYPES.reduce((ac
   return acc;
 }, {} as Record<number, BuildingType>);
 
-// Minified tile representation: [zone, buildingType, level, population, jobs, powered, watered, landValue, hasSubway, constructionProgress, abandoned, flipped, hasRailOverlay]
-type MinTile = [number, number, number, number, number, number, number, number, number, number, number, number, number];
+// Minified tile representation: [zone, buildingType, level, population, jobs, powered, watered, landValue, hasSubway, constructionProgress, abandoned, flipped, hasRailOverlay, hasWaterPipe, elevation]
+type MinTile = [number, number, number, number, number, number, number, number, number, number, number, number, number, number, number?];
 
 // Minified state for sharing
 interface MinState {
@@ -47,6 +49,9 @@ interface MinState {
   d: number; // day
   h: number; // hour
   t: number; // taxRate
+  tz?: [number, number, number]; // taxRates (residential, commercial, industrial)
+  ps?: number; // pollutionSurcharge
+  po?: PolicyId[]; // policies
   $: number; // money
   g: MinTile[][]; // grid (minified)
   ac?: { id: string; n: string; dir: string; c: boolean; d: boolean }[]; // adjacentCities
@@ -67,6 +72,8 @@ function minifyTile(tile: Tile): MinTile {
     tile.building.abandoned ? 1 : 0,
     tile.building.flipped ? 1 : 0,
     tile.hasRailOverlay ? 1 : 0,
+    tile.hasWaterPipe ? 1 : 0,
+    tile.elevation ?? 0,
   ];
 }
 
@@ -97,6 +104,8 @@ function expandTile(min: MinTile, x: number, y: number): Tile {
     traffic: 0,
     hasSubway: min[8] === 1,
     hasRailOverlay: min[12] === 1,
+    hasWaterPipe: min[13] === 1,
+    ...(min[14] ? { elevation: min[14] } : {}),
   };
 }
 
@@ -113,6 +122,9 @@ export function compressGameState(state: GameState): string {
     d: state.day,
     h: state.hour,
     t: state.taxRate,
+    tz: [state.taxRates.residential, state.taxRates.commercial, state.taxRates.industrial],
+    ps: state.pollutionSurcharge,
+    po: state.policies,
     $: state.stats.money,
     g: state.grid.map(row => row.map(tile => minifyTile(tile))),
   };
@@ -162,6 +174,10 @@ export function decompressGameState(compressed: string): Partial<GameState> | nu
       discovered: city.d,
     })) ?? [];
 
+    const taxRates = min.tz
+      ? { residential: min.tz[0], commercial: min.tz[1], industrial: min.tz[2] }
+      : createTaxRates(min.t);
+
     return {
       cityName: min.n,
       gridSize: min.s,
@@ -171,6 +187,10 @@ export function decompressGameState(compressed: string): Partial<GameState> | nu
       hour: min.h,
       taxRate: min.t,
       effectiveTaxRate: min.t,
+      taxRates,
+      effectiveTaxRates: taxRates,
+      pollutionSurcharge: min.ps ?? 0,
+      policies: min.po ?? [],
       grid,
       adjacentCities,
       stats: {
@@ -183,7 +203,18 @@ export function decompressGameState(compressed: string): Partial<GameState> | nu
         health: 50,
         education: 50,
         safety: 50,
+        crime: 0,
+        congestion: 0,
+        commuteMinutes: 0,
+        commuteModes: { walk: 0, car: 0, subway: 0, rail: 0 },
         environment: 50,
+        carbonEmissions: 0,
+        carbonBalance: 0,
+        powerSupply: 0,
+        powerDemand: 0,
+        powerCapacity: 0,
+        waterSupply: 0,
+        waterDemand: 0,
         demand: { residential: 0, commercial: 0, industrial: 0 },
       },
     };
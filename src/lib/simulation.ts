@@ -20,15 +20,52 @@ import {
   COMMERCIAL_BUILDINGS,
   INDUSTRIAL_BUILDINGS,
   TOOL_INFO,
+  Debt,
+  DebtKind,
+  PolicyId,
+  RoadClass,
+  RoadDirection,
+  TaxRates,
+  BudgetLedger,
+  CarbonLedger,
+  City,
+  CommuteMode,
+  UpkeepItem,
 } from '@/types/game';
 import { generateCityName, generateWaterName } from './names';
-import { isMobile } from 'react-device-detect';
+import { SeededRng, RandomFn, createRandomSeed, deriveSeed } from './rng';
+import { applyWaterFlow, assignWaterDepths, computeFlowField, getWaterVolume, isWaterSurface, CANAL_DEPTH, RUNOFF_MASS } from './hydrology';
+import { updateAlgaeBlooms, BloomReport } from './algaeBloom';
+import { canLayTrack, generateElevation, getDownhillSpreadFactor, getElevation, hasRequiredElevation, requiresElevation } from './terrain';
+import { createCarbonLedger, getAnnualCarbon, getBuildingCarbon, getCarbonBalance, getGridCarbon, recordCarbon } from './carbon';
+import { createTaxRates, getAverageTaxRate, getJobTax, getPollutionSurchargeTax, getPropertyTax, getResidentTax, getSurchargeWeight, getTaxDemandEffect, lagTaxRates } from './taxes';
+import { createLedger, getBuildingUpkeep, getFundedUpkeep, getLedgerExpenses, getLedgerIncome, getUpkeepDepartment, INCOME_SOURCES, SUBWAY_TUNNEL_UPKEEP, UpkeepDepartment, WATER_PIPE_UPKEEP } from './ledger';
+import { findCityAtTile } from './cityManager';
+import { updateLandValues } from './landValue';
+import { CRIME_HAPPINESS_PENALTY, getUnemployment, updateCrime } from './crime';
+import { getEmissionMultiplier, getPoliciesCost, getPolicyEffects, PolicyEffects } from './policies';
+import { getPlacedRoad, givesZoneAccess } from './roads';
+import { COMMUTE_MODES, CONGESTION_DEMAND_PENALTY, getCommuteHappinessPenalty, getCongestion, getTrafficEmissionFactor, isTrafficTile, updateTraffic } from './traffic';
+import { getBorrowingBlocker, getCreditRating, getTotalDebt, issueDebt, serviceDebts } from './finance';
+import { getBuildingPowerDemand, getElapsedDays, getPlantCapacity, getPlantOutput, getPowerPriority, getSheddingRank, getWindStrength, isPowerPlant, PowerBalance, PowerConditions } from './power';
+import { getBuildingWaterDemand, getSourceOutput, getTreatedContamination, isContaminated, isWaterSource, PIPE_SERVICE_RANGE, WaterBalance } from './waterSupply';
+import { applyPollutantEffects, emptyPollutants, getPollutants, hasPollutionResidue, setPollutants, POLLUTANT_CHANNELS, POLLUTANT_LAND_SPREAD } from './pollution';
+
+// NOTE: this module must stay free of browser-only imports (window, canvas, react-device-detect)
+// so it can run headless under Node - see scripts/simulate.ts
 
 // ============================================================================
 // 1. CONSTANTS (Must be at the top to avoid initialization errors)
 // ============================================================================
 
-export const DEFAULT_GRID_SIZE = isMobile ? 50 : 70;
+export const DESKTOP_GRID_SIZE = 70;
+export const MOBILE_GRID_SIZE = 50;
+
+// Tiles above this pollution level count towards the toxic/nutrient/thermal tile totals
+export const POLLUTION_TILE_THRESHOLD = 40;
+
+// Health lost when everyone in the city drinks contaminated water (scaled by the share who do)
+const CONTAMINATED_WATER_HEALTH_PENALTY = 40;
 
 const NO_CONSTRUCTION_TYPES: BuildingType[] = ['grass', 'empty', 'water', 'road', 'bridge', 'tree'];
 
@@ -36,7 +73,7 @@ const NO_CONSTRUCTION_TYPES: BuildingType[] = ['grass', 'empty', 'water', 'road'
 const MAX_BRIDGE_SPAN = 10;
 const BRIDGE_TYPE_THRESHOLDS = { large: 5, suspension: 10 } as const;
 const BRIDGE_VARIANTS: Record<BridgeType, number> = { small: 3, medium: 3, large: 2, suspension: 2 };
-const WATERFRONT_BUILDINGS: BuildingType[] = ['marina_docks_small', 'pier_large'];
+const WATERFRONT_BUILDINGS: BuildingType[] = ['marina_docks_small', 'pier_large', 'hydro_dam', 'water_pump'];
 
 const MERGEABLE_TILE_TYPES = new Set<BuildingType>(['grass', 'tree']);
 
@@ -50,6 +87,8 @@ const CONSOLIDATABLE_BUILDINGS: Record<ZoneType, Set<BuildingType>> = {
 // Building sizes
 const BUILDING_SIZES: Partial<Record<BuildingType, { width: number; height: number }>> = {
   power_plant: { width: 2, height: 2 },
+  solar_farm: { width: 2, height: 2 },
+  hydro_dam: { width: 2, height: 2 },
   hospital: { width: 2, height: 2 },
   school: { width: 2, height: 2 },
   stadium: { width: 3, height: 3 },
@@ -94,12 +133,18 @@ export const SERVICE_CONFIG = {
   school: withRange(11, { type: 'education' as const }),
   university: withRange(19, { type: 'education' as const }),
   power_plant: withRange(15, {}),
-  water_tower: withRange(12, {}),
+  solar_farm: withRange(10, {}),
+  wind_turbine: withRange(8, {}),
+  hydro_dam: withRange(14, {}),
+  // Cleans pollution within `range`, up to `treatmentCapacity` pollutant units per
+  // tick at level 1 and full funding. Water itself reaches buildings through pipes.
+  water_tower: withRange(6, { treatmentCapacity: 25 }),
 } as const;
 
-export const SERVICE_BUILDING_TYPES = new Set(['police_station', 'fire_station', 'hospital', 'school', 'university', 'power_plant', 'water_tower']);
+export const SERVICE_BUILDING_TYPES = new Set(['police_station', 'fire_station', 'hospital', 'school', 'university', 'power_plant', 'solar_farm', 'wind_turbine', 'hydro_dam', 'water_tower', 'water_pump']);
 export const SERVICE_MAX_LEVEL = 5;
 export const SERVICE_RANGE_INCREASE_PER_LEVEL = 0.2;
+export const SERVICE_CAPACITY_INCREASE_PER_LEVEL = 0.5;
 export const SERVICE_UPGRADE_COST_BASE = 2;
 
 // ============================================================================
@@ -110,10 +155,10 @@ export function getBuildingSize(buildingType: BuildingType): { width: number; he
   return BUILDING_SIZES[buildingType] || { width: 1, height: 1 };
 }
 
-function getConstructionSpeed(buildingType: BuildingType): number {
+function getConstructionSpeed(buildingType: BuildingType, random: RandomFn): number {
   const size = getBuildingSize(buildingType);
   const area = size.width * size.height;
-  const baseSpeed = 24 + Math.random() * 12;
+  const baseSpeed = 24 + random() * 12;
   return (baseSpeed / Math.sqrt(area)) / 1.3;
 }
 
@@ -232,7 +277,7 @@ function calculateServiceCoverage(grid: Tile[][], size: number): ServiceCoverage
     const minX = Math.max(0, x - range);
     const maxX = Math.min(size - 1, x + range);
     
-    if (type === 'power_plant') {
+    if (isPowerPlant(type)) {
       for (let ny = minY; ny <= maxY; ny++) {
         for (let nx = minX; nx <= maxX; nx++) {
           const dx = nx - x; const dy = ny - y;
@@ -240,12 +285,9 @@ function calculateServiceCoverage(grid: Tile[][], size: number): ServiceCoverage
         }
       }
     } else if (type === 'water_tower') {
-      for (let ny = minY; ny <= maxY; ny++) {
-        for (let nx = minX; nx <= maxX; nx++) {
-          const dx = nx - x; const dy = ny - y;
-          if (dx * dx + dy * dy <= rangeSquared) services.water[ny][nx] = true;
-        }
-      }
+      forEachInTreatmentRange(x, y, range, size, (nx, ny, falloff) => {
+        services.treatment[ny][nx] = Math.min(100, services.treatment[ny][nx] + falloff * 100);
+      });
     } else {
       const serviceType = (config as { type: 'police' | 'fire' | 'health' | 'education' }).type;
       const currentCoverage = services[serviceType] as number[][];
@@ -262,9 +304,329 @@ function calculateServiceCoverage(grid: Tile[][], size: number): ServiceCoverage
       }
     }
   }
+
+  const water = traceWaterNetworks(grid, size);
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const network = water.served[y * size + x];
+      if (network >= 0 && water.networks[network].supply > 0) services.water[y][x] = true;
+    }
+  }
   return services;
 }
 
+// Fraction of a fully covered tile's pollution a treatment plant tries to remove per tick
+const TREATMENT_RATE = 0.25;
+
+function getTreatmentRange(level: number): number {
+  return Math.floor(SERVICE_CONFIG.water_tower.range * (1 + (level - 1) * SERVICE_RANGE_INCREASE_PER_LEVEL));
+}
+
+/** Pollutant units a treatment plant can remove per tick at this level and funding (0-100) */
+export function getTreatmentCapacity(level: number, funding: number): number {
+  return SERVICE_CONFIG.water_tower.treatmentCapacity * (1 + (level - 1) * SERVICE_CAPACITY_INCREASE_PER_LEVEL) * (funding / 100);
+}
+
+/** Visit tiles within a plant's treatment radius with a linear falloff (1 at the plant, 0 past the edge) */
+function forEachInTreatmentRange(x: number, y: number, range: number, size: number, visit: (nx: number, ny: number, falloff: number) => void): void {
+  for (let ny = Math.max(0, y - range); ny <= Math.min(size - 1, y + range); ny++) {
+    for (let nx = Math.max(0, x - range); nx <= Math.min(size - 1, x + range); nx++) {
+      const distSquared = (nx - x) * (nx - x) + (ny - y) * (ny - y);
+      if (distSquared > range * range) continue;
+      visit(nx, ny, 1 - Math.sqrt(distSquared) / (range + 1));
+    }
+  }
+}
+
+/**
+ * Each operating treatment plant removes pollution around it, strongest at the plant.
+ * When the pollution in reach exceeds the plant's capacity, every tile gets a
+ * proportionally smaller share. Returns the number of plants running at capacity.
+ */
+function applyWaterTreatment(grid: Tile[][], size: number, funding: number, getModifiableTile: (x: number, y: number) => Tile): number {
+  let overloadedPlants = 0;
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      if (building.type !== 'water_tower' || building.abandoned) continue;
+      if (building.constructionProgress !== undefined && building.constructionProgress < 100) continue;
+
+      const targets: Array<{ x: number; y: number; amount: number }> = [];
+      let demand = 0;
+      forEachInTreatmentRange(x, y, getTreatmentRange(building.level), size, (nx, ny, falloff) => {
+        const pollution = grid[ny][nx].pollution;
+        if (pollution < 0.01) return;
+        const amount = pollution * TREATMENT_RATE * falloff;
+        targets.push({ x: nx, y: ny, amount });
+        demand += amount;
+      });
+      if (demand === 0) continue;
+
+      const capacity = getTreatmentCapacity(building.level, funding);
+      if (demand > capacity) overloadedPlants++;
+      const share = Math.min(1, capacity / demand);
+      for (const target of targets) {
+        const tile = getModifiableTile(target.x, target.y);
+        const remaining = 1 - (target.amount * share) / tile.pollution;
+        const levels = { ...getPollutants(tile) };
+        for (const channel of POLLUTANT_CHANNELS) levels[channel] *= remaining;
+        setPollutants(tile, levels);
+      }
+    }
+  }
+  return overloadedPlants;
+}
+
+// Buildings that draw from the grid: everything except open land, infrastructure and the plants themselves
+const NON_CONSUMER_TYPES = new Set<BuildingType>(['grass', 'empty', 'water', 'road', 'bridge', 'rail', 'tree']);
+
+/** Water tiles bordering a footprint's edge (not its corners) */
+function countWaterEdge(grid: Tile[][], x: number, y: number, width: number, height: number, size: number): number {
+  let count = 0;
+  const check = (cx: number, cy: number) => {
+    if (cx >= 0 && cy >= 0 && cx < size && cy < size && isWaterSurface(grid[cy][cx])) count++;
+  };
+  for (let dx = 0; dx < width; dx++) { check(x + dx, y - 1); check(x + dx, y + height); }
+  for (let dy = 0; dy < height; dy++) { check(x - 1, y + dy); check(x + width, y + dy); }
+  return count;
+}
+
+/** Time of day and wind the city's plants are working with this tick */
+function getPowerConditions(state: GameState): PowerConditions {
+  return {
+    hour: state.hour,
+    wind: getWindStrength(state.seed ?? 0, getElapsedDays(state.year, state.month, state.day, state.tick)),
+  };
+}
+
+/** Current output in MW of the power plant at (x, y), or 0 if it isn't generating */
+export function getPowerPlantOutput(state: GameState, x: number, y: number): number {
+  const building = state.grid[y]?.[x]?.building;
+  if (!building || !isPowerPlant(building.type) || building.abandoned) return 0;
+  if (building.constructionProgress !== undefined && building.constructionProgress < 100) return 0;
+  const footprint = getBuildingSize(building.type);
+  const waterEdge = countWaterEdge(state.grid, x, y, footprint.width, footprint.height, state.gridSize);
+  return getPlantOutput(building.type, building.level, getPowerConditions(state), waterEdge);
+}
+
+/**
+ * Compare what the operating plants generate right now against what connected
+ * buildings draw. When demand exceeds supply, load is shed lowest priority first
+ * by clearing `services.power` until what is left fits the supply (a brownout).
+ */
+function balancePowerGrid(grid: Tile[][], size: number, services: ServiceCoverage, conditions: PowerConditions): PowerBalance {
+  let supply = 0; let capacity = 0; let demand = 0;
+  const consumers: Array<{ x: number; y: number; load: number; priority: number; rank: number }> = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      const building = tile.building;
+      const complete = building.constructionProgress === undefined || building.constructionProgress >= 100;
+      if (isPowerPlant(building.type)) {
+        if (!complete || building.abandoned) continue;
+        const footprint = getBuildingSize(building.type);
+        const waterEdge = countWaterEdge(grid, x, y, footprint.width, footprint.height, size);
+        supply += getPlantOutput(building.type, building.level, conditions, waterEdge);
+        capacity += getPlantCapacity(building.type, building.level);
+      } else if (!NON_CONSUMER_TYPES.has(building.type) && !building.abandoned && services.power[y][x]) {
+        const load = getBuildingPowerDemand(building);
+        demand += load;
+        consumers.push({ x, y, load, priority: getPowerPriority(building, tile.zone), rank: getSheddingRank(x, y) });
+      }
+    }
+  }
+
+  let shedDemand = 0;
+  const shedTiles = new Set<number>();
+  if (demand > supply) {
+    consumers.sort((a, b) => a.priority - b.priority || a.rank - b.rank);
+    for (const consumer of consumers) {
+      if (demand - shedDemand <= supply) break;
+      services.power[consumer.y][consumer.x] = false;
+      shedDemand += consumer.load;
+      shedTiles.add(consumer.y * size + consumer.x);
+    }
+  }
+  return { supply, capacity, demand, shedDemand, shedTiles };
+}
+
+interface WaterNetwork {
+  /** kL/day from every operating source on the network */
+  supply: number;
+  /** Pollution carried in by the sources, weighted by their output */
+  pollutionLoad: number;
+  /** Operating treatment plants tapping the network */
+  treatmentPlants: number;
+}
+
+interface WaterNetworks {
+  networks: WaterNetwork[];
+  /** Network (index into `networks`) serving each tile (y * size + x), or -1 */
+  served: Int32Array;
+}
+
+/** Mean pollution of the water tiles bordering a pump - what it draws in */
+function getIntakePollution(grid: Tile[][], x: number, y: number, width: number, height: number, size: number): number {
+  let total = 0; let count = 0;
+  const check = (cx: number, cy: number) => {
+    if (cx < 0 || cy < 0 || cx >= size || cy >= size || !isWaterSurface(grid[cy][cx])) return;
+    total += grid[cy][cx].pollution;
+    count++;
+  };
+  for (let dx = 0; dx < width; dx++) { check(x + dx, y - 1); check(x + dx, y + height); }
+  for (let dy = 0; dy < height; dy++) { check(x - 1, y + dy); check(x + width, y + dy); }
+  return count > 0 ? total / count : 0;
+}
+
+/** Current supply in kL/day of the water source at (x, y) and the pollution at its intake, or null */
+export function getWaterSourceReport(state: GameState, x: number, y: number): { output: number; intakePollution: number } | null {
+  const building = state.grid[y]?.[x]?.building;
+  if (!building || !isWaterSource(building.type) || building.abandoned) return null;
+  if (building.constructionProgress !== undefined && building.constructionProgress < 100) return { output: 0, intakePollution: 0 };
+  if (building.type !== 'water_pump') return { output: getSourceOutput(building.type, building.level, 0), intakePollution: 0 };
+  const footprint = getBuildingSize(building.type);
+  const waterEdge = countWaterEdge(state.grid, x, y, footprint.width, footprint.height, state.gridSize);
+  return {
+    output: getSourceOutput(building.type, building.level, waterEdge),
+    intakePollution: getIntakePollution(state.grid, x, y, footprint.width, footprint.height, state.gridSize),
+  };
+}
+
+/**
+ * Label connected pipe networks, attach the sources touching them, and find the
+ * network each tile draws from. Tiles within PIPE_SERVICE_RANGE of a pipe are
+ * served; a multi-tile building is served when any part of its footprint is.
+ */
+function traceWaterNetworks(grid: Tile[][], size: number): WaterNetworks {
+  const labels = new Int32Array(size * size).fill(-1);
+  const networks: WaterNetwork[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!grid[y][x].hasWaterPipe || labels[y * size + x] >= 0) continue;
+      const id = networks.length;
+      networks.push({ supply: 0, pollutionLoad: 0, treatmentPlants: 0 });
+      const stack = [y * size + x];
+      labels[y * size + x] = id;
+      while (stack.length > 0) {
+        const index = stack.pop()!;
+        const cx = index % size; const cy = (index - cx) / size;
+        for (const [ox, oy] of [[1, 0], [-1, 0], [0, 1], [0, -1]]) {
+          const nx = cx + ox; const ny = cy + oy;
+          if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+          const neighbor = ny * size + nx;
+          if (labels[neighbor] >= 0 || !grid[ny][nx].hasWaterPipe) continue;
+          labels[neighbor] = id;
+          stack.push(neighbor);
+        }
+      }
+    }
+  }
+
+  const served = new Int32Array(size * size).fill(-1);
+  if (networks.length === 0) return { networks, served };
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const id = labels[y * size + x];
+      if (id < 0) continue;
+      for (let ny = Math.max(0, y - PIPE_SERVICE_RANGE); ny <= Math.min(size - 1, y + PIPE_SERVICE_RANGE); ny++) {
+        for (let nx = Math.max(0, x - PIPE_SERVICE_RANGE); nx <= Math.min(size - 1, x + PIPE_SERVICE_RANGE); nx++) {
+          if (served[ny * size + nx] < 0) served[ny * size + nx] = id;
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      const footprint = getBuildingSize(building.type);
+      if (footprint.width === 1 && footprint.height === 1 && !isWaterSource(building.type)) continue;
+      let id = -1;
+      for (let dy = 0; dy < footprint.height && id < 0; dy++) {
+        for (let dx = 0; dx < footprint.width && id < 0; dx++) {
+          if (y + dy < size && x + dx < size) id = served[(y + dy) * size + x + dx];
+        }
+      }
+      if (id < 0) continue;
+      for (let dy = 0; dy < footprint.height; dy++) {
+        for (let dx = 0; dx < footprint.width; dx++) {
+          if (y + dy < size && x + dx < size) served[(y + dy) * size + x + dx] = id;
+        }
+      }
+
+      if (!isWaterSource(building.type) || building.abandoned) continue;
+      if (building.constructionProgress !== undefined && building.constructionProgress < 100) continue;
+      const network = networks[id];
+      if (building.type === 'water_pump') {
+        const waterEdge = countWaterEdge(grid, x, y, footprint.width, footprint.height, size);
+        const output = getSourceOutput(building.type, building.level, waterEdge);
+        network.supply += output;
+        network.pollutionLoad += output * getIntakePollution(grid, x, y, footprint.width, footprint.height, size);
+      } else {
+        network.supply += getSourceOutput(building.type, building.level, 0);
+        network.treatmentPlants++;
+      }
+    }
+  }
+  return { networks, served };
+}
+
+/**
+ * Compare each pipe network's supply against what its buildings draw. A network
+ * that runs dry cuts buildings off (clearing `services.water`) until the rest fit.
+ * Fills `services.waterContamination` with the treated pollution of each network.
+ */
+function balanceWaterSupply(grid: Tile[][], size: number, services: ServiceCoverage, funding: number, policyEffects: PolicyEffects): WaterBalance {
+  const { networks, served } = traceWaterNetworks(grid, size);
+  const consumers: Array<Array<{ x: number; y: number; load: number; rank: number }>> = networks.map(() => []);
+  const networkDemand = new Array<number>(networks.length).fill(0);
+  let supply = 0; let demand = 0;
+  for (const network of networks) supply += network.supply;
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (!services.water[y][x]) continue;
+      const id = served[y * size + x];
+      const network = networks[id];
+      const contamination = network.supply > 0 ? network.pollutionLoad / network.supply : 0;
+      services.waterContamination[y][x] = getTreatedContamination(contamination, network.treatmentPlants, funding);
+
+      const building = grid[y][x].building;
+      if (NON_CONSUMER_TYPES.has(building.type) || isWaterSource(building.type) || building.type === 'empty' || building.abandoned) continue;
+      const load = getBuildingWaterDemand(building) * policyEffects.waterDemand;
+      demand += load;
+      networkDemand[id] += load;
+      consumers[id].push({ x, y, load, rank: getSheddingRank(x, y) });
+    }
+  }
+
+  let shedDemand = 0;
+  const shedTiles = new Set<number>();
+  const contaminatedTiles = new Set<number>();
+  networks.forEach((network, id) => {
+    let remaining = networkDemand[id];
+    if (remaining > network.supply) {
+      consumers[id].sort((a, b) => a.rank - b.rank);
+      for (const consumer of consumers[id]) {
+        if (remaining <= network.supply) break;
+        const footprint = getBuildingSize(grid[consumer.y][consumer.x].building.type);
+        for (let dy = 0; dy < footprint.height && consumer.y + dy < size; dy++) {
+          for (let dx = 0; dx < footprint.width && consumer.x + dx < size; dx++) services.water[consumer.y + dy][consumer.x + dx] = false;
+        }
+        remaining -= consumer.load;
+        shedDemand += consumer.load;
+        shedTiles.add(consumer.y * size + consumer.x);
+      }
+    }
+    for (const consumer of consumers[id]) {
+      const index = consumer.y * size + consumer.x;
+      if (!shedTiles.has(index) && isContaminated(services.waterContamination[consumer.y][consumer.x])) contaminatedTiles.add(index);
+    }
+  });
+  return { supply, demand, shedDemand, shedTiles, contaminatedTiles };
+}
+
 function isMergeableZoneTile(tile: Tile, zone: ZoneType, excludeTile?: { x: number; y: number }, allowBuildingConsolidation?: boolean): boolean {
   if (excludeTile && tile.x === excludeTile.x && tile.y === excludeTile.y) {
     return tile.zone === zone && !tile.building.onFire && tile.building.type !== 'water' && tile.building.type !== 'road';
@@ -343,13 +705,17 @@ function applyBuildingFootprint(grid: Tile[][], originX: number, originY: number
         cell.building.level = 0;
       }
       cell.zone = zone;
-      cell.pollution = dx === 0 && dy === 0 ? stats.pollution : 0;
+      const levels = emptyPollutants();
+      if (dx === 0 && dy === 0 && stats.pollutionType && stats.pollutionType !== 'none') {
+        levels[stats.pollutionType] = Math.max(0, stats.pollution);
+      }
+      setPollutants(cell, levels);
     }
   }
   return grid[originY][originX].building;
 }
 
-function canPlaceMultiTileBuilding(grid: Tile[][], x: number, y: number, width: number, height: number, gridSize: number): boolean {
+export function canPlaceMultiTileBuilding(grid: Tile[][], x: number, y: number, width: number, height: number, gridSize: number): boolean {
   if (x + width > gridSize || y + height > gridSize) return false;
   for (let dy = 0; dy < height; dy++) {
     for (let dx = 0; dx < width; dx++) {
@@ -401,7 +767,7 @@ function hasRoadAccess(grid: Tile[][], x: number, y: number, size: number, maxDi
       roadAccessVisited[idx] = 1;
 
       const neighbor = grid[ny][nx];
-      if (neighbor.building.type === 'road' || neighbor.building.type === 'bridge') return true;
+      if (givesZoneAccess(neighbor)) return true;
 
       const isPassableZone = neighbor.zone === startZone && neighbor.building.type !== 'water';
       if (isPassableZone && queueTail < roadAccessQueue.length - 3) {
@@ -419,7 +785,7 @@ function hasRoadAccess(grid: Tile[][], x: number, y: number, size: number, maxDi
 // 4. MAIN SIMULATION FUNCTIONS
 // ============================================================================
 
-function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceCoverage, demand?: { residential: number; commercial: number; industrial: number }): Building {
+function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceCoverage, random: RandomFn, demand?: { residential: number; commercial: number; industrial: number }): Building {
   const tile = grid[y][x];
   const building = tile.building;
   const zone = tile.zone;
@@ -444,7 +810,7 @@ function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceC
 
   if (building.constructionProgress !== undefined && building.constructionProgress < 100) {
     // FIX: Renamed variable to avoid name clash
-    const speed = getConstructionSpeed(building.type);
+    const speed = getConstructionSpeed(building.type, random);
     building.constructionProgress = Math.min(100, building.constructionProgress + speed);
     building.population = 0; building.jobs = 0;
     return building;
@@ -459,7 +825,7 @@ function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceC
   if (building.abandoned) {
     if (zoneDemandValue > 10) {
       const clearingChance = Math.min(0.12, (zoneDemandValue - 10) / 600);
-      if (Math.random() < clearingChance) {
+      if (random() < clearingChance) {
         const size = getBuildingSize(building.type);
         if (size.width > 1 || size.height > 1) {
           for (let dy = 0; dy < size.height; dy++) {
@@ -489,7 +855,7 @@ function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceC
     const abandonmentChance = Math.min(0.02, Math.abs(zoneDemandValue + 20) / 4000);
     const utilityPenalty = isStarter ? 0 : ((!hasPower ? 0.005 : 0) + (!hasWater ? 0.005 : 0));
     const levelPenalty = building.level <= 2 ? 0.003 : 0;
-    if (Math.random() < abandonmentChance + utilityPenalty + levelPenalty) {
+    if (random() < abandonmentChance + utilityPenalty + levelPenalty) {
       building.abandoned = true; building.population = 0; building.jobs = 0;
       return building;
     }
@@ -524,7 +890,7 @@ function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceC
 
   const ageRequirement = 12;
   const hasUtilitiesForConsolidation = hasPower && hasWater;
-  if (hasUtilitiesForConsolidation && building.age > ageRequirement && (targetLevel > building.level || targetType !== building.type) && Math.random() < consolidationChance) {
+  if (hasUtilitiesForConsolidation && building.age > ageRequirement && (targetLevel > building.level || targetType !== building.type) && random() < consolidationChance) {
     const size = getBuildingSize(targetType);
     const footprint = findFootprintIncludingTile(grid, x, y, size.width, size.height, zone, grid.length, allowBuildingConsolidation);
     if (footprint) {
@@ -551,9 +917,18 @@ function evolveBuilding(grid: Tile[][], x: number, y: number, services: ServiceC
   return grid[y][x].building;
 }
 
-function calculateStats(grid: Tile[][], size: number, budget: Budget, taxRate: number, effectiveTaxRate: number, services: ServiceCoverage): Stats {
-  let population = 0; let jobs = 0; let totalPollution = 0;
+// Jobs a tile contributes; commercial blocks over a subway line draw more workers
+function getTileJobs(tile: Tile): number {
+  return tile.hasSubway && tile.zone === 'commercial' ? Math.floor(tile.building.jobs * 1.15) : tile.building.jobs;
+}
+
+function calculateStats(grid: Tile[][], size: number, ledger: BudgetLedger, taxRates: TaxRates, effectiveTaxRates: TaxRates, pollutionSurcharge: number, services: ServiceCoverage, power: PowerBalance, water: WaterBalance, policyEffects: PolicyEffects): Stats {
+  let population = 0; let jobs = 0; let totalPollution = 0; let carbonEmissions = 0; let contaminatedPeople = 0;
+  let crimeExposure = 0; let totalTraffic = 0; let congestedTraffic = 0;
+  let commuters = 0; let commuteMinutes = 0; const commuteTrips: Record<CommuteMode, number> = { walk: 0, car: 0, subway: 0, rail: 0 };
+  let industrialJobs = 0; let surchargedJobs = 0;
   let toxicTiles = 0; let nutrientTiles = 0; let thermalTiles = 0;
+  let totalToxic = 0; let totalNutrient = 0; let totalToxicBurden = 0; let totalAlgae = 0;
   let residentialZones = 0; let commercialZones = 0; let industrialZones = 0;
   let developedResidential = 0; let developedCommercial = 0; let developedIndustrial = 0;
   let totalLandValue = 0; let treeCount = 0; let waterCount = 0; let parkCount = 0;
@@ -565,19 +940,34 @@ function calculateStats(grid: Tile[][], size: number, budget: Budget, taxRate: n
     for (let x = 0; x < size; x++) {
       const tile = grid[y][x];
       const building = tile.building;
-      let jobsFromTile = building.jobs;
-      if (tile.hasSubway && tile.zone === 'commercial') jobsFromTile = Math.floor(jobsFromTile * 1.15);
+      const jobsFromTile = getTileJobs(tile);
       
       population += building.population;
       jobs += jobsFromTile;
+      if (tile.zone === 'industrial') { industrialJobs += jobsFromTile; surchargedJobs += jobsFromTile * getSurchargeWeight(building); }
+      if (building.contaminatedWater) contaminatedPeople += building.population + building.jobs;
+      crimeExposure += (tile.crime ?? 0) * (building.population + building.jobs);
+      if (tile.traffic) { totalTraffic += tile.traffic; congestedTraffic += tile.traffic * getCongestion(tile); }
+      if (tile.commute && building.population > 0) {
+        for (const mode of COMMUTE_MODES) {
+          commuters += tile.commute.trips[mode];
+          commuteTrips[mode] += tile.commute.trips[mode];
+          commuteMinutes += tile.commute.trips[mode] * tile.commute.minutes;
+        }
+      }
       totalPollution += tile.pollution;
       totalLandValue += tile.landValue;
-
-      if (tile.pollution > 40) {
-          if (tile.pollutionType === 'toxic') toxicTiles++;
-          else if (tile.pollutionType === 'nutrient') nutrientTiles++;
-          else if (tile.pollutionType === 'thermal') thermalTiles++;
-      }
+      carbonEmissions += getBuildingCarbon(building);
+
+      // Each channel is counted on its own - one tile can be both toxic and thermally polluted
+      const pollutants = getPollutants(tile);
+      if (pollutants.toxic > POLLUTION_TILE_THRESHOLD) toxicTiles++;
+      if (pollutants.nutrient > POLLUTION_TILE_THRESHOLD) nutrientTiles++;
+      if (pollutants.thermal > POLLUTION_TILE_THRESHOLD) thermalTiles++;
+      totalToxic += pollutants.toxic;
+      totalNutrient += pollutants.nutrient;
+      totalToxicBurden += tile.toxicBurden ?? 0;
+      totalAlgae += tile.algae ?? 0;
 
       if (tile.zone === 'residential') { residentialZones++; if (building.type !== 'grass' && building.type !== 'empty') developedResidential++; }
       else if (tile.zone === 'commercial') { commercialZones++; if (building.type !== 'grass' && building.type !== 'empty') developedCommercial++; }
@@ -603,8 +993,11 @@ function calculateStats(grid: Tile[][], size: number, budget: Budget, taxRate: n
     }
   }
 
-  const taxMultiplier = Math.max(0, 1 - (effectiveTaxRate - 9) / 91);
-  const taxAdditiveModifier = (9 - effectiveTaxRate) * 2;
+  // Each zone reacts to its own rate; industry also feels the surcharge its dirtier plants pay
+  const industrialBurden = effectiveTaxRates.industrial + pollutionSurcharge * (industrialJobs > 0 ? surchargedJobs / industrialJobs : 0);
+  const residentialTax = getTaxDemandEffect(effectiveTaxRates.residential);
+  const commercialTax = getTaxDemandEffect(effectiveTaxRates.commercial);
+  const industrialTax = getTaxDemandEffect(industrialBurden);
   const subwayBonus = Math.min(20, subwayTiles * 0.5 + subwayStations * 3);
   const railCommercialBonus = Math.min(12, railTiles * 0.15 + railStations * 4);
   const railIndustrialBonus = Math.min(18, railTiles * 0.25 + railStations * 6);
@@ -628,95 +1021,140 @@ function calculateStats(grid: Tile[][], size: number, budget: Budget, taxRate: n
   const commercialWithBonuses = baseCommercialDemand + airportCommercialBonus + cityHallCommercialBonus + stadiumCommercialBonus + museumCommercialBonus + amusementParkCommercialBonus + railCommercialBonus;
   const industrialWithBonuses = baseIndustrialDemand + airportIndustrialBonus + cityHallIndustrialBonus + spaceProgramIndustrialBonus + railIndustrialBonus;
   
-  const residentialDemand = Math.min(100, Math.max(-100, residentialWithBonuses * taxMultiplier + taxAdditiveModifier));
-  const commercialDemand = Math.min(100, Math.max(-100, commercialWithBonuses * taxMultiplier + taxAdditiveModifier * 0.8));
-  const industrialDemand = Math.min(100, Math.max(-100, industrialWithBonuses * taxMultiplier + taxAdditiveModifier * 0.5));
-
-  const income = Math.floor(population * taxRate * 0.1 + jobs * taxRate * 0.05);
-  let expenses = 0;
-  expenses += Math.floor(budget.police.cost * budget.police.funding / 100);
-  expenses += Math.floor(budget.fire.cost * budget.fire.funding / 100);
-  expenses += Math.floor(budget.health.cost * budget.health.funding / 100);
-  expenses += Math.floor(budget.education.cost * budget.education.funding / 100);
-  expenses += Math.floor(budget.transportation.cost * budget.transportation.funding / 100);
-  expenses += Math.floor(budget.parks.cost * budget.parks.funding / 100);
-  expenses += Math.floor(budget.power.cost * budget.power.funding / 100);
-  expenses += Math.floor(budget.water.cost * budget.water.funding / 100);
+  // Congestion as the average trip meets it, so quiet back streets don't dilute a jammed high street
+  const congestion = (congestedTraffic / Math.max(1, totalTraffic)) * 100;
+  const residentialDemand = Math.min(100, Math.max(-100, residentialWithBonuses * residentialTax.multiplier + residentialTax.modifier + policyEffects.demand.residential - congestion / 100 * CONGESTION_DEMAND_PENALTY.residential));
+  const commercialDemand = Math.min(100, Math.max(-100, commercialWithBonuses * commercialTax.multiplier + commercialTax.modifier * 0.8 + policyEffects.demand.commercial - congestion / 100 * CONGESTION_DEMAND_PENALTY.commercial));
+  const industrialDemand = Math.min(100, Math.max(-100, industrialWithBonuses * industrialTax.multiplier + industrialTax.modifier * 0.5 + policyEffects.demand.industrial - congestion / 100 * CONGESTION_DEMAND_PENALTY.industrial));
+
+  const carbonBalance = ledger.income.carbonCredits - ledger.expenses.carbonTax;
+  const income = getLedgerIncome(ledger);
+  const expenses = getLedgerExpenses(ledger);
 
   const avgPoliceCoverage = calculateAverageCoverage(services.police);
   const avgFireCoverage = calculateAverageCoverage(services.fire);
   const avgHealthCoverage = calculateAverageCoverage(services.health);
   const avgEducationCoverage = calculateAverageCoverage(services.education);
 
+  const totalTiles = size * size;
+
+  // Health suffers from toxins (and what has accumulated in the food chain), a little from
+  // nutrient-laden water, and hardly at all from heat
+  const healthHazard = (totalToxic * 1.5 + totalToxicBurden * 2 + totalNutrient * 0.3) / totalTiles;
   const safety = Math.min(100, avgPoliceCoverage * 0.7 + avgFireCoverage * 0.3);
-  const health = Math.min(100, avgHealthCoverage * 0.8 + (100 - totalPollution / (size * size)) * 0.2);
+  // Crime as experienced by the people living and working with it, so empty lots don't dilute it
+  const crime = crimeExposure / Math.max(1, population + jobs);
+  // People drinking contaminated piped water get sick, whatever the hospital coverage
+  const contaminatedShare = contaminatedPeople / Math.max(1, population + jobs);
+  const health = Math.max(0, Math.min(100, avgHealthCoverage * 0.8 + Math.max(0, 100 - healthHazard) * 0.2) - contaminatedShare * CONTAMINATED_WATER_HEALTH_PENALTY);
   const education = Math.min(100, avgEducationCoverage);
   
   const greenRatio = (treeCount + waterCount + parkCount) / (size * size);
-  const totalTiles = size * size;
   const pollutionRatio = totalPollution / (totalTiles * 100);
 
+  // Ecosystems take the broader hit: toxic dead zones, heated water and algae-choked lakes
   const toxicPenalty = (toxicTiles / totalTiles) * 500; 
+  const thermalPenalty = (thermalTiles / totalTiles) * 200;
+  const nutrientPenalty = (nutrientTiles / totalTiles) * 250 + (totalAlgae / (totalTiles * 100)) * 300;
   const greenBonus = (treeCount + parkCount + waterCount) / totalTiles * 50;
   
   const environment = Math.max(0, Math.min(100, 
-      100 - (pollutionRatio * 100) - toxicPenalty + greenBonus
+      100 - (pollutionRatio * 100) - toxicPenalty - thermalPenalty - nutrientPenalty + greenBonus
   ));
 
+  const averageCommute = commuters > 0 ? commuteMinutes / commuters : 0;
+  const commuteModes = { walk: 0, car: 0, subway: 0, rail: 0 };
+  for (const mode of COMMUTE_MODES) commuteModes[mode] = commuters > 0 ? commuteTrips[mode] / commuters * 100 : 0;
+
   const jobSatisfaction = jobs >= population ? 100 : (jobs / (population || 1)) * 100;
-  const happiness = Math.min(100, (
-    safety * 0.15 + health * 0.2 + education * 0.15 + environment * 0.15 + jobSatisfaction * 0.2 + (100 - taxRate * 3) * 0.15
-  ));
+  const happiness = Math.max(0, Math.min(100, (
+    safety * 0.15 + health * 0.2 + education * 0.15 + environment * 0.15 + jobSatisfaction * 0.2 + (100 - taxRates.residential * 3) * 0.15
+  ) + policyEffects.happiness - crime * CRIME_HAPPINESS_PENALTY - getCommuteHappinessPenalty(averageCommute)));
 
-  return { population, jobs, money: 0, income, expenses, happiness, health, education, safety, environment, demand: { residential: residentialDemand, commercial: commercialDemand, industrial: industrialDemand } };
+  return { population, jobs, money: 0, income, expenses, happiness, health, education, safety, crime, congestion, commuteMinutes: averageCommute, commuteModes, environment, carbonEmissions, carbonBalance, powerSupply: power.supply, powerDemand: power.demand, powerCapacity: power.capacity, waterSupply: water.supply, waterDemand: water.demand, demand: { residential: residentialDemand, commercial: commercialDemand, industrial: industrialDemand } };
 }
 
-function updateBudgetCosts(grid: Tile[][], budget: Budget): Budget {
-  const newBudget = { ...budget };
-  let policeCount = 0; let fireCount = 0; let hospitalCount = 0; let schoolCount = 0; let universityCount = 0;
-  let parkCount = 0; let powerCount = 0; let waterCount = 0; let roadCount = 0; let subwayTileCount = 0; let subwayStationCount = 0;
+/**
+ * Tally every building's upkeep and taxes into this month's ledger, by source,
+ * department, building type and city. Upkeep is billed to the budget departments,
+ * so the returned budget carries the new full-funding costs. Ordinances are billed
+ * citywide on the population counted here.
+ */
+function calculateLedger(grid: Tile[][], size: number, budget: Budget, cities: City[], taxRates: TaxRates, pollutionSurcharge: number, carbon: CarbonLedger, policies: PolicyId[]): { budget: Budget; ledger: BudgetLedger } {
+  const ledger = createLedger();
+  const departmentCosts: Record<UpkeepDepartment, number> = { police: 0, fire: 0, health: 0, education: 0, transportation: 0, parks: 0, power: 0, water: 0, civic: 0 };
+  for (const city of cities) ledger.cities[city.id] = { income: 0, expenses: 0 };
+  let population = 0;
+
+  const addUpkeep = (item: UpkeepItem, department: UpkeepDepartment, cost: number): number => {
+    departmentCosts[department] += cost;
+    const line = ledger.upkeep[item] ?? (ledger.upkeep[item] = { count: 0, cost: 0 });
+    line.count++;
+    line.cost += cost;
+    return getFundedUpkeep(cost, department, budget);
+  };
 
-  for (const row of grid) {
-    for (const tile of row) {
-      if (tile.hasSubway) subwayTileCount++;
-      switch (tile.building.type) {
-        case 'police_station': policeCount++; break;
-        case 'fire_station': fireCount++; break;
-        case 'hospital': hospitalCount++; break;
-        case 'school': schoolCount++; break;
-        case 'university': universityCount++; break;
-        case 'park': parkCount++; break;
-        case 'park_large': parkCount++; break;
-        case 'tennis': parkCount++; break;
-        case 'power_plant': powerCount++; break;
-        case 'water_tower': waterCount++; break;
-        case 'road': roadCount++; break;
-        case 'subway_station': subwayStationCount++; break;
-      }
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      const building = tile.building;
+      let upkeep = 0;
+      if (tile.hasSubway) upkeep += addUpkeep('subway', 'transportation', SUBWAY_TUNNEL_UPKEEP);
+      if (tile.hasWaterPipe) upkeep += addUpkeep('water_pipe', 'water', WATER_PIPE_UPKEEP);
+      const department = getUpkeepDepartment(building.type);
+      if (department) upkeep += addUpkeep(building.type, department, getBuildingUpkeep(building.type));
+
+      const jobs = getTileJobs(tile);
+      const residentTax = getResidentTax(building, taxRates);
+      const jobTax = getJobTax(tile.zone, jobs, taxRates);
+      const surcharge = getPollutionSurchargeTax(building, tile.zone, jobs, pollutionSurcharge);
+      const propertyTax = getPropertyTax(tile, taxRates);
+      const taxes = residentTax + jobTax + surcharge + propertyTax;
+      ledger.income.residential += residentTax;
+      ledger.income[tile.zone === 'industrial' ? 'industrial' : 'commercial'] += jobTax;
+      ledger.income.property += propertyTax;
+      ledger.income.pollutionSurcharge += surcharge;
+      population += building.population;
+
+      if (upkeep === 0 && taxes === 0) continue;
+      const city = findCityAtTile(x, y, cities);
+      if (!city) continue;
+      ledger.cities[city.id].income += taxes;
+      ledger.cities[city.id].expenses += upkeep;
     }
   }
 
-  newBudget.police.cost = policeCount * 50;
-  newBudget.fire.cost = fireCount * 50;
-  newBudget.health.cost = hospitalCount * 100;
-  newBudget.education.cost = schoolCount * 30 + universityCount * 100;
-  newBudget.transportation.cost = roadCount * 2 + subwayTileCount * 3 + subwayStationCount * 25;
-  newBudget.parks.cost = parkCount * 10;
-  newBudget.power.cost = powerCount * 150;
-  newBudget.water.cost = waterCount * 75;
-  return newBudget;
+  const newBudget = { ...budget };
+  for (const key of Object.keys(budget) as (keyof Budget)[]) {
+    newBudget[key] = { ...budget[key], cost: departmentCosts[key] };
+    ledger.expenses[key] = Math.floor(departmentCosts[key] * budget[key].funding / 100);
+  }
+  ledger.expenses.civic = departmentCosts.civic;
+  ledger.expenses.policies = getPoliciesCost(policies, population);
+
+  // Carbon absorbed beyond the baseline is sold as credits; emissions over the cap are taxed
+  const carbonBalance = getCarbonBalance(carbon);
+  ledger.income.carbonCredits = Math.max(0, carbonBalance);
+  ledger.expenses.carbonTax = Math.max(0, -carbonBalance);
+
+  for (const source of INCOME_SOURCES) ledger.income[source] = Math.floor(ledger.income[source]);
+  for (const entry of Object.values(ledger.cities)) {
+    entry.income = Math.floor(entry.income);
+    entry.expenses = Math.floor(entry.expenses);
+  }
+  return { budget: newBudget, ledger };
 }
 
-function generateAdvisorMessages(stats: Stats, services: ServiceCoverage, grid: Tile[][]): AdvisorMessage[] {
+function generateAdvisorMessages(stats: Stats, services: ServiceCoverage, grid: Tile[][], blooms: BloomReport, overloadedTreatmentPlants: number, power: PowerBalance, water: WaterBalance, debts: Debt[]): AdvisorMessage[] {
   const messages: AdvisorMessage[] = [];
-  let unpoweredBuildings = 0; let unwateredBuildings = 0; let abandonedBuildings = 0;
+  let unconnectedDemand = 0; let unwateredBuildings = 0; let abandonedBuildings = 0;
   let abandonedResidential = 0; let abandonedCommercial = 0; let abandonedIndustrial = 0;
   
   for (const row of grid) {
     for (const tile of row) {
       if (tile.zone !== 'none' && tile.building.type !== 'grass') {
-        if (!tile.building.powered) unpoweredBuildings++;
-        if (!tile.building.watered) unwateredBuildings++;
+        if (!tile.building.powered && !power.shedTiles.has(tile.y * grid.length + tile.x)) unconnectedDemand += getBuildingPowerDemand(tile.building);
+        if (!tile.building.watered && !water.shedTiles.has(tile.y * grid.length + tile.x)) unwateredBuildings++;
       }
       if (tile.building.abandoned) {
         abandonedBuildings++;
@@ -727,8 +1165,30 @@ function generateAdvisorMessages(stats: Stats, services: ServiceCoverage, grid:
     }
   }
 
-  if (unpoweredBuildings > 0) messages.push({ name: 'Power Advisor', icon: 'power', messages: [`${unpoweredBuildings} buildings lack power.`], priority: unpoweredBuildings > 10 ? 'high' : 'medium' });
-  if (unwateredBuildings > 0) messages.push({ name: 'Water Advisor', icon: 'water', messages: [`${unwateredBuildings} buildings lack water.`], priority: unwateredBuildings > 10 ? 'high' : 'medium' });
+  if (power.shedDemand > 0) {
+    const deficit = power.demand - power.supply;
+    messages.push({ name: 'Power Advisor', icon: 'power', messages: [`Power deficit of ${Math.ceil(deficit)} MW: plants are generating ${Math.round(power.supply)} MW against ${Math.round(power.demand)} MW of load.`, `${Math.round(power.shedDemand)} MW of low-priority load has been shed.`], priority: deficit > power.demand * 0.1 ? 'high' : 'medium' });
+  }
+  if (unconnectedDemand >= 1) messages.push({ name: 'Power Advisor', icon: 'power', messages: [`${Math.round(unconnectedDemand)} MW of demand is out of reach of any power plant.`], priority: unconnectedDemand > 20 ? 'high' : 'medium' });
+  if (unwateredBuildings > 0) messages.push({ name: 'Water Advisor', icon: 'water', messages: [`${unwateredBuildings} buildings are not on a pipe network with a pumping station.`], priority: unwateredBuildings > 10 ? 'high' : 'medium' });
+  if (water.shedDemand > 0) messages.push({ name: 'Water Advisor', icon: 'water', messages: [`Pipes are running dry: ${water.shedTiles.size} buildings drawing ${Math.ceil(water.shedDemand)} kL/day have been cut off.`, 'Build or upgrade pumping stations on the affected networks.'], priority: water.shedTiles.size > 10 ? 'high' : 'medium' });
+  if (water.contaminatedTiles.size > 0) messages.push({ name: 'Water Advisor', icon: 'water', messages: [`${water.contaminatedTiles.size} buildings are drinking contaminated water and getting sick.`, 'Move pump intakes away from polluted water or add a treatment plant to the network.'], priority: 'high' });
+  if (overloadedTreatmentPlants > 0) messages.push({ name: 'Water Advisor', icon: 'water', messages: [`${overloadedTreatmentPlants} water treatment plants are running at capacity. Upgrade them or raise water funding.`], priority: 'medium' });
+  if (stats.congestion >= 50) messages.push({ name: 'Transport Advisor', icon: 'planning', messages: [`Commuters are stuck in traffic: the average trip runs at ${Math.round(stats.congestion)}% of road capacity.`, 'Add parallel roads or build subway and rail stations near dense housing.'], priority: stats.congestion >= 80 ? 'high' : 'medium' });
+  if (stats.crime >= 30) messages.push({ name: 'Police Chief', icon: 'shield', messages: [`Crime is running at ${Math.round(stats.crime)}% where people live and work.`, 'Build police stations near the worst areas and create jobs for the unemployed.'], priority: stats.crime >= 50 ? 'high' : 'medium' });
+  if (blooms.activeBlooms > 0) {
+    const bloomMessages = [`Algae is choking ${blooms.bloomTiles} water tiles. Cut nutrient runoff from farms to clear it.`];
+    if (blooms.fishKills > 0) bloomMessages.push(`${blooms.fishKills} fishing piers have lost their catch to the bloom.`);
+    messages.push({ name: 'Environment Advisor', icon: 'environment', messages: bloomMessages, priority: blooms.fishKills > 0 ? 'high' : 'medium' });
+  }
+  if (stats.money < 0) {
+    const financeMessages = [`The treasury is $${Math.abs(stats.money).toLocaleString()} in the red.`];
+    financeMessages.push(debts.length > 0 ? 'Debt payments falling due now carry late fees, and the city\'s credit rating has slipped.' : 'Raise taxes, cut department funding, or take out a loan from the budget panel.');
+    messages.push({ name: 'Finance Advisor', icon: 'cash', messages: financeMessages, priority: debts.length > 0 ? 'critical' : 'high' });
+  } else if (debts.length > 0) {
+    const rating = getCreditRating(debts, stats.income, stats.money);
+    if (rating === 'B' || rating === 'CCC') messages.push({ name: 'Finance Advisor', icon: 'cash', messages: [`The city's credit rating has fallen to ${rating} with $${Math.round(getTotalDebt(debts)).toLocaleString()} owed. New borrowing will be expensive.`], priority: 'medium' });
+  }
   
   return messages;
 }
@@ -736,7 +1196,13 @@ function generateAdvisorMessages(stats: Stats, services: ServiceCoverage, grid:
 // Main simulation tick
 export function simulateTick(state: GameState): GameState {
   const size = state.gridSize;
+  // All tick randomness comes from the state's PRNG so identical states replay identically
+  const rng = new SeededRng(state.rngState ?? deriveSeed(state.seed ?? 0, 0));
+  const random = rng.next;
   const services = calculateServiceCoverage(state.grid, size);
+  const power = balancePowerGrid(state.grid, size, services, getPowerConditions(state));
+  const policyEffects = getPolicyEffects(state.policies ?? []);
+  const water = balanceWaterSupply(state.grid, size, services, state.budget.water.funding, policyEffects);
   const modifiedRows = new Set<number>();
   const newGrid: Tile[][] = new Array(size);
   
@@ -757,24 +1223,31 @@ export function simulateTick(state: GameState): GameState {
       
       const newPowered = services.power[y][x];
       const newWatered = services.water[y][x];
-      const needsPowerWaterUpdate = originalBuilding.powered !== newPowered || originalBuilding.watered !== newWatered;
+      const newBrownout = power.shedTiles.has(y * size + x);
+      const newContaminated = water.contaminatedTiles.has(y * size + x);
+      const needsPowerWaterUpdate = originalBuilding.powered !== newPowered || originalBuilding.watered !== newWatered || (originalBuilding.brownout ?? false) !== newBrownout || (originalBuilding.contaminatedWater ?? false) !== newContaminated;
       
-      if ((originalBuilding.type === 'road' || originalBuilding.type === 'bridge') && !needsPowerWaterUpdate) continue;
+      // Roads only need a visit while they carry traffic or are still shedding its fumes
+      if (isTrafficTile(originalTile) && !needsPowerWaterUpdate && !originalTile.traffic && !hasPollutionResidue(originalTile)) continue;
       
-      if (originalTile.zone === 'none' && (originalBuilding.type === 'grass' || originalBuilding.type === 'tree') && !needsPowerWaterUpdate && originalTile.pollution < 0.01 && (BUILDING_STATS[originalBuilding.type]?.pollution || 0) === 0) continue;
+      if (originalTile.zone === 'none' && (originalBuilding.type === 'grass' || originalBuilding.type === 'tree') && !needsPowerWaterUpdate && !hasPollutionResidue(originalTile) && (BUILDING_STATS[originalBuilding.type]?.pollution || 0) === 0) continue;
       
       const isCompletedServiceBuilding = originalTile.zone === 'none' && originalBuilding.constructionProgress === 100 && !originalBuilding.onFire && originalBuilding.type !== 'grass' && originalBuilding.type !== 'tree' && originalBuilding.type !== 'empty';
-      if (isCompletedServiceBuilding && !needsPowerWaterUpdate && originalTile.pollution < 0.01) continue;
+      if (isCompletedServiceBuilding && !needsPowerWaterUpdate && !hasPollutionResidue(originalTile)) continue;
       
       const tile = getModifiableTile(x, y);
       tile.building.powered = newPowered;
       tile.building.watered = newWatered;
+      if (newBrownout) tile.building.brownout = true;
+      else delete tile.building.brownout;
+      if (newContaminated) tile.building.contaminatedWater = true;
+      else delete tile.building.contaminatedWater;
 
       if (tile.zone === 'none' && tile.building.constructionProgress !== undefined && tile.building.constructionProgress < 100 && !NO_CONSTRUCTION_TYPES.includes(tile.building.type)) {
-        const isUtilityBuilding = tile.building.type === 'power_plant' || tile.building.type === 'water_tower';
+        const isUtilityBuilding = isPowerPlant(tile.building.type) || isWaterSource(tile.building.type);
         const canConstruct = isUtilityBuilding || (tile.building.powered && tile.building.watered);
         if (canConstruct) {
-          const speed = getConstructionSpeed(tile.building.type);
+          const speed = getConstructionSpeed(tile.building.type, random);
           tile.building.constructionProgress = Math.min(100, tile.building.constructionProgress + speed);
         }
       }
@@ -799,7 +1272,7 @@ export function simulateTick(state: GameState): GameState {
         const candidate = buildingList[0];
         const wouldBeStarter = isStarterBuilding(x, y, candidate);
         
-        if (roadAccess && (hasUtilities || wouldBeStarter) && Math.random() < spawnChance) {
+        if (roadAccess && (hasUtilities || wouldBeStarter) && random() < spawnChance) {
           const candidateSize = getBuildingSize(candidate);
           if (canPlaceMultiTileBuilding(newGrid, x, y, candidateSize.width, candidateSize.height, size)) {
             for (let dy = 0; dy < candidateSize.height && y + dy < size; dy++) {
@@ -812,62 +1285,56 @@ export function simulateTick(state: GameState): GameState {
           }
         }
       } else if (tile.zone !== 'none' && tile.building.type !== 'grass') {
-        newGrid[y][x].building = evolveBuilding(newGrid, x, y, services, state.stats.demand);
+        newGrid[y][x].building = evolveBuilding(newGrid, x, y, services, random, state.stats.demand);
       }
 
-      // ECO-HACK: Pollution Logic
+      // ECO-HACK: Pollution Logic - each pollutant type lives in its own channel
+      const levels = { ...getPollutants(tile) };
       const stats = BUILDING_STATS[tile.building.type];
       if (stats && stats.pollution !== 0) {
         if (stats.pollution < 0) {
-             tile.pollution = Math.max(0, tile.pollution + (stats.pollution * 0.1));
-        } else {
-             tile.pollution = Math.min(100, tile.pollution + (stats.pollution * 0.05));
-             if (stats.pollutionType && stats.pollutionType !== 'none') {
-                 tile.pollutionType = stats.pollutionType; 
-             }
+             // Trees and parks scrub every channel
+             for (const channel of POLLUTANT_CHANNELS) levels[channel] = Math.max(0, levels[channel] + (stats.pollution * 0.1));
+        } else if (stats.pollutionType && stats.pollutionType !== 'none') {
+             let multiplier = getEmissionMultiplier(policyEffects, tile.building.type, tile.zone, stats.pollutionType);
+             if (isTrafficTile(tile)) multiplier *= getTrafficEmissionFactor(tile);
+             levels[stats.pollutionType] = Math.min(100, levels[stats.pollutionType] + (stats.pollution * 0.05 * multiplier));
         }
       }
 
-      if (tile.building.type === 'water_tower') {
-          tile.pollution = 0;
-          const cleanRadius = [[0,1],[0,-1],[1,0],[-1,0],[1,1],[-1,-1],[1,-1],[-1,1]];
-          for (const [cdx, cdy] of cleanRadius) {
-              if (newGrid[y+cdy]?.[x+cdx]) {
-                  const n = newGrid[y+cdy][x+cdx];
-                  n.pollution = Math.max(0, n.pollution - 5);
-              }
-          }
-      }
-
-      if (tile.pollution > 30) {
-         const spreadAmount = tile.building.type === 'water' ? 4 : 1;
+      // Water-to-water transport is handled by the hydrology pass after this loop
+      const isWater = isWaterSurface(tile);
+      const spreadAmount = isWater ? 4 : 1;
+      const elevation = getElevation(tile);
+      for (const channel of POLLUTANT_CHANNELS) {
+         if (levels[channel] <= 30) continue;
          const neighbors = [[0, 1], [0, -1], [1, 0], [-1, 0]];
          for (const [dx, dy] of neighbors) {
              const nx = x + dx; const ny = y + dy;
              if (nx >= 0 && nx < size && ny >= 0 && ny < size) {
-                 let neighbor = newGrid[ny][nx]; 
-                 if (!modifiedRows.has(ny)) {
-                    newGrid[ny] = state.grid[ny].map(t => ({ ...t, building: { ...t.building } }));
-                    modifiedRows.add(ny);
-                    neighbor = newGrid[ny][nx];
-                 }
-                 if (neighbor.building.type === 'water') {
-                     neighbor.pollution = Math.min(100, neighbor.pollution + spreadAmount);
-                     neighbor.pollutionType = tile.pollutionType; 
-                 } else if (neighbor.pollution < tile.pollution) {
-                     neighbor.pollution = Math.min(100, neighbor.pollution + (spreadAmount * 0.1));
-                     if (Math.random() > 0.5) neighbor.pollutionType = tile.pollutionType;
+                 if (isWater && isWaterSurface(newGrid[ny][nx])) continue;
+                 // Pollution runs downhill, never up
+                 const downhill = getDownhillSpreadFactor(elevation - getElevation(newGrid[ny][nx]));
+                 if (downhill === 0) continue;
+                 const neighbor = getModifiableTile(nx, ny);
+                 const neighborLevels = getPollutants(neighbor);
+                 if (isWaterSurface(neighbor)) {
+                     // Runoff: the same mass is a higher concentration in shallow water
+                     setPollutants(neighbor, { ...neighborLevels, [channel]: neighborLevels[channel] + RUNOFF_MASS * downhill / getWaterVolume(neighbor) });
+                 } else if (neighborLevels[channel] < levels[channel]) {
+                     setPollutants(neighbor, { ...neighborLevels, [channel]: neighborLevels[channel] + spreadAmount * 0.1 * POLLUTANT_LAND_SPREAD[channel] * downhill });
                  }
              }
          }
       }
-      tile.pollution *= 0.99;
+      applyPollutantEffects(tile, levels, isWater);
+      setPollutants(tile, levels);
 
       // Fire simulation
       if (state.disastersEnabled && tile.building.onFire) {
         const fireCoverage = services.fire[y][x];
         const fightingChance = fireCoverage / 300;
-        if (Math.random() < fightingChance) { tile.building.onFire = false; tile.building.fireProgress = 0; }
+        if (random() < fightingChance) { tile.building.onFire = false; tile.building.fireProgress = 0; }
         else { tile.building.fireProgress += 2/3; if (tile.building.fireProgress >= 100) { tile.building = createBuilding('grass'); tile.zone = 'none'; } }
       }
 
@@ -886,20 +1353,30 @@ export function simulateTick(state: GameState): GameState {
           const coverageReduction = fireCoverage / 100;
           const baseSpreadChance = 0.005 * adjacentFireCount;
           const spreadChance = baseSpreadChance * (1 - coverageReduction * 0.95);
-          if (Math.random() < spreadChance) { tile.building.onFire = true; tile.building.fireProgress = 0; }
+          if (random() < spreadChance) { tile.building.onFire = true; tile.building.fireProgress = 0; }
         }
       }
 
-      if (state.disastersEnabled && !tile.building.onFire && tile.building.type !== 'grass' && tile.building.type !== 'water' && tile.building.type !== 'road' && tile.building.type !== 'tree' && tile.building.type !== 'empty' && Math.random() < 0.00003) {
+      if (state.disastersEnabled && !tile.building.onFire && tile.building.type !== 'grass' && tile.building.type !== 'water' && tile.building.type !== 'road' && tile.building.type !== 'bridge' && tile.building.type !== 'tree' && tile.building.type !== 'empty' && random() < 0.00003) {
         tile.building.onFire = true; tile.building.fireProgress = 0;
       }
     }
   }
 
-  const newBudget = updateBudgetCosts(newGrid, state.budget);
-  const taxRateDiff = state.taxRate - state.effectiveTaxRate;
-  const newEffectiveTaxRate = state.effectiveTaxRate + taxRateDiff * 0.03;
-  const newStats = calculateStats(newGrid, size, newBudget, state.taxRate, newEffectiveTaxRate, services);
+  // Hydrology: currents, dilution and sinks move pollution through lakes, oceans and canals
+  applyWaterFlow(newGrid, size, computeFlowField(newGrid, size, state.waterBodies), getModifiableTile);
+  const overloadedTreatmentPlants = applyWaterTreatment(newGrid, size, state.budget.water.funding, getModifiableTile);
+  const blooms = updateAlgaeBlooms(newGrid, size, getModifiableTile);
+  // Land is revalued once pollution has settled, so this month's property tax sees it
+  updateLandValues(newGrid, size, services, getModifiableTile);
+  updateCrime(newGrid, size, services, getUnemployment(state.stats.population, state.stats.jobs), getModifiableTile);
+  // Commutes are re-routed at the start of each day
+  if (state.tick === 0) updateTraffic(newGrid, size, policyEffects.traffic, getBuildingSize, getModifiableTile);
+
+  const { budget: newBudget, ledger } = calculateLedger(newGrid, size, state.budget, state.cities ?? [], state.taxRates, state.pollutionSurcharge, state.carbon, state.policies ?? []);
+  const effectiveTaxRates = lagTaxRates(state.effectiveTaxRates, state.taxRates);
+  const newEffectiveTaxRate = getAverageTaxRate(effectiveTaxRates);
+  const newStats = calculateStats(newGrid, size, ledger, state.taxRates, effectiveTaxRates, state.pollutionSurcharge, services, power, water, policyEffects);
   newStats.money = state.stats.money;
 
   const prevDemand = state.stats.demand;
@@ -911,35 +1388,73 @@ export function simulateTick(state: GameState): GameState {
   }
 
   let newYear = state.year; let newMonth = state.month; let newDay = state.day; let newTick = state.tick + 1;
+  let debts = state.debts ?? []; let missedPayments = 0;
   const totalTicks = ((state.year - 2024) * 12 * 30 * 30) + ((state.month - 1) * 30 * 30) + ((state.day - 1) * 30) + newTick;
   const cycleLength = 450;
   const newHour = Math.floor((totalTicks % cycleLength) / cycleLength * 24);
 
   if (newTick >= 30) {
     newTick = 0; newDay++;
-    if (newDay % 7 === 0) newStats.money += Math.floor((newStats.income - newStats.expenses) / 4);
+    if (newDay % 7 === 0) {
+      newStats.money += Math.floor((newStats.income - newStats.expenses) / 4);
+      if (debts.length > 0) {
+        const service = serviceDebts(debts, newStats.money);
+        newStats.money -= service.paid;
+        debts = service.debts;
+        missedPayments = service.penalties;
+      }
+    }
   }
+  const monthEnded = newDay > 30;
   if (newDay > 30) { newDay = 1; newMonth++; }
   if (newMonth > 12) { newMonth = 1; newYear++; }
+  const carbon = recordCarbon(state.carbon, newStats.carbonEmissions, monthEnded);
 
-  const advisorMessages = generateAdvisorMessages(newStats, services, newGrid);
+  const advisorMessages = generateAdvisorMessages(newStats, services, newGrid, blooms, overloadedTreatmentPlants, power, water, debts);
   const newNotifications = [...state.notifications];
+  if (missedPayments > 0) {
+    newNotifications.unshift({
+      id: `late-debt-payment-${newYear}-${newMonth}-${newDay}`,
+      title: 'Late Debt Payment',
+      description: `The treasury is in the red. Lenders have added $${missedPayments.toLocaleString()} in late fees to the city's debts.`,
+      icon: 'cash',
+      timestamp: Date.now(),
+    });
+  }
+  for (const bloom of blooms.started) {
+    newNotifications.unshift({
+      id: `algae-bloom-${newYear}-${newMonth}-${newDay}-${bloom.x}-${bloom.y}`,
+      title: 'Algae Bloom!',
+      description: `Nutrient runoff has set off an algae bloom across ${bloom.tiles} water tiles. Fish are dying and boats are staying away.`,
+      icon: 'environment',
+      timestamp: Date.now(),
+    });
+  }
+  for (const bloom of blooms.cleared) {
+    newNotifications.unshift({
+      id: `algae-bloom-cleared-${newYear}-${newMonth}-${newDay}-${bloom.x}-${bloom.y}`,
+      title: 'Algae Bloom Cleared',
+      description: `The water has recovered across ${bloom.tiles} tiles. Fishing and boating can resume.`,
+      icon: 'environment',
+      timestamp: Date.now(),
+    });
+  }
   while (newNotifications.length > 10) newNotifications.pop();
 
   const history = [...state.history];
   if (newMonth % 3 === 0 && newDay === 1 && newTick === 0) {
-    history.push({ year: newYear, month: newMonth, population: newStats.population, money: newStats.money, happiness: newStats.happiness });
+    history.push({ year: newYear, month: newMonth, population: newStats.population, money: newStats.money, happiness: newStats.happiness, carbon: getAnnualCarbon(carbon) });
     while (history.length > 100) history.shift();
   }
 
   return {
     ...state, grid: newGrid, year: newYear, month: newMonth, day: newDay, hour: newHour, tick: newTick,
-    effectiveTaxRate: newEffectiveTaxRate, stats: newStats, budget: newBudget, services,
-    advisorMessages, notifications: newNotifications, history,
+    effectiveTaxRate: newEffectiveTaxRate, effectiveTaxRates, stats: newStats, budget: newBudget, ledger, services,
+    advisorMessages, notifications: newNotifications, history, carbon, debts, rngState: rng.state,
   };
 }
 
-export function placeBuilding(state: GameState, x: number, y: number, buildingType: BuildingType | null, zone: ZoneType | null): GameState {
+export function placeBuilding(state: GameState, x: number, y: number, buildingType: BuildingType | null, zone: ZoneType | null, roadClass?: RoadClass, roadDirection?: RoadDirection): GameState {
   const tile = state.grid[y]?.[x];
   if (!tile) return state;
   if (tile.building.type === 'water') return state;
@@ -947,10 +1462,12 @@ export function placeBuilding(state: GameState, x: number, y: number, buildingTy
   if (buildingType === 'road') {
     const allowedTypes: BuildingType[] = ['grass', 'tree', 'road', 'rail'];
     if (!allowedTypes.includes(tile.building.type)) return state;
+    if (!canLayTrack(state.grid, x, y, state.gridSize, 'road')) return state;
   }
   if (buildingType === 'rail') {
     const allowedTypes: BuildingType[] = ['grass', 'tree', 'rail', 'road'];
     if (!allowedTypes.includes(tile.building.type)) return state;
+    if (!canLayTrack(state.grid, x, y, state.gridSize, 'rail')) return state;
   }
   if (buildingType && buildingType !== 'road' && buildingType !== 'rail' && (tile.building.type === 'road' || tile.building.type === 'bridge')) return state;
   if (buildingType && buildingType !== 'road' && buildingType !== 'rail' && tile.building.type === 'rail') return state;
@@ -990,6 +1507,7 @@ export function placeBuilding(state: GameState, x: number, y: number, buildingTy
       if (!waterCheck.hasWater) return state;
       shouldFlip = waterCheck.shouldFlip;
     }
+    if (requiresElevation(buildingType) && !hasRequiredElevation(newGrid, x, y, size.width, size.height)) return state;
     
     if (size.width > 1 || size.height > 1) {
       if (!canPlaceMultiTileBuilding(newGrid, x, y, size.width, size.height, state.gridSize)) return state;
@@ -1012,6 +1530,12 @@ export function placeBuilding(state: GameState, x: number, y: number, buildingTy
         newGrid[y][x].zone = 'none';
         if (buildingType !== 'road') newGrid[y][x].hasRailOverlay = false;
       }
+      if (buildingType === 'road' && roadClass) {
+        const road = newGrid[y][x].building;
+        delete road.roadClass; delete road.roadDirection;
+        const placed = getPlacedRoad(tile.building, roadClass, roadDirection);
+        if (placed.roadClass !== 'street') Object.assign(road, placed);
+      }
       if (shouldFlip) newGrid[y][x].building.flipped = true;
     }
   }
@@ -1022,7 +1546,7 @@ export function placeBuilding(state: GameState, x: number, y: number, buildingTy
 // (Ensure these are exported correctly as they were in the original file)
 
 // Perlin noise and Map Generation (Kept from original)
-function noise2D(x: number, y: number, seed: number = 42): number {
+function noise2D(x: number, y: number, seed: number): number {
   const n = Math.sin(x * 12.9898 + y * 78.233 + seed) * 43758.5453123;
   return n - Math.floor(n);
 }
@@ -1052,7 +1576,7 @@ function perlinNoise(x: number, y: number, seed: number, octaves: number = 4): n
   return total / maxValue;
 }
 
-function generateLakes(grid: Tile[][], size: number, seed: number): WaterBody[] {
+function generateLakes(grid: Tile[][], size: number, seed: number, random: RandomFn): WaterBody[] {
   const lakeNoise = (x: number, y: number) => perlinNoise(x, y, seed + 1000, 3);
   const lakeCenters: { x: number; y: number; noise: number }[] = [];
   const minDistFromEdge = Math.max(8, Math.floor(size * 0.15));
@@ -1095,14 +1619,14 @@ function generateLakes(grid: Tile[][], size: number, seed: number): WaterBody[]
   }
   
   lakeCenters.sort((a, b) => a.noise - b.noise);
-  const numLakes = 2 + Math.floor(Math.random() * 2);
+  const numLakes = 2 + Math.floor(random() * 2);
   const selectedCenters = lakeCenters.slice(0, Math.min(numLakes, lakeCenters.length));
   
   const waterBodies: WaterBody[] = [];
   const usedLakeNames = new Set<string>();
   
   for (const center of selectedCenters) {
-    const targetSize = 40 + Math.floor(Math.random() * 41);
+    const targetSize = 40 + Math.floor(random() * 41);
     const lakeTiles: { x: number; y: number }[] = [{ x: center.x, y: center.y }];
     const candidates: { x: number; y: number; dist: number; noise: number }[] = [];
     
@@ -1123,7 +1647,7 @@ function generateLakes(grid: Tile[][], size: number, seed: number): WaterBody[]
         return a.dist - b.dist;
       });
       
-      const picked = candidates.splice(Math.floor(Math.random() * Math.min(5, candidates.length)), 1)[0];
+      const picked = candidates.splice(Math.floor(random() * Math.min(5, candidates.length)), 1)[0];
       if (lakeTiles.some(t => t.x === picked.x && t.y === picked.y)) continue;
       if (grid[picked.y][picked.x].building.type === 'water') continue;
       
@@ -1149,8 +1673,8 @@ function generateLakes(grid: Tile[][], size: number, seed: number): WaterBody[]
     const avgX = lakeTiles.reduce((sum, t) => sum + t.x, 0) / lakeTiles.length;
     const avgY = lakeTiles.reduce((sum, t) => sum + t.y, 0) / lakeTiles.length;
     
-    let lakeName = generateWaterName('lake');
-    while (usedLakeNames.has(lakeName)) lakeName = generateWaterName('lake');
+    let lakeName = generateWaterName('lake', random);
+    while (usedLakeNames.has(lakeName)) lakeName = generateWaterName('lake', random);
     usedLakeNames.add(lakeName);
     
     waterBodies.push({
@@ -1166,7 +1690,7 @@ function generateLakes(grid: Tile[][], size: number, seed: number): WaterBody[]
   return waterBodies;
 }
 
-function generateOceans(grid: Tile[][], size: number, seed: number): WaterBody[] {
+function generateOceans(grid: Tile[][], size: number, seed: number, random: RandomFn): WaterBody[] {
   const waterBodies: WaterBody[] = [];
   const oceanChance = 0.4;
   const coastNoise = (x: number, y: number) => perlinNoise(x, y, seed + 2000, 3);
@@ -1178,8 +1702,8 @@ function generateOceans(grid: Tile[][], size: number, seed: number): WaterBody[]
   
   const generateOceanEdge = (isHorizontal: boolean, edgePosition: number, inwardDirection: 1 | -1): { x: number; y: number }[] => {
     const tiles: { x: number; y: number }[] = [];
-    const spanStart = Math.floor(size * (0.05 + Math.random() * 0.25));
-    const spanEnd = Math.floor(size * (0.7 + Math.random() * 0.25));
+    const spanStart = Math.floor(size * (0.05 + random() * 0.25));
+    const spanEnd = Math.floor(size * (0.7 + random() * 0.25));
     
     for (let i = spanStart; i < spanEnd; i++) {
       const edgeFade = Math.min((i - spanStart) / 5, (spanEnd - i) / 5, 1);
@@ -1202,18 +1726,18 @@ function generateOceans(grid: Tile[][], size: number, seed: number): WaterBody[]
     return tiles;
   };
   
-  if (Math.random() < oceanChance) { const tiles = generateOceanEdge(true, 0, 1); if (tiles.length > 0) edges.push({ side: 'north', tiles }); }
-  if (Math.random() < oceanChance) { const tiles = generateOceanEdge(true, size - 1, -1); if (tiles.length > 0) edges.push({ side: 'south', tiles }); }
-  if (Math.random() < oceanChance) { const tiles = generateOceanEdge(false, size - 1, -1); if (tiles.length > 0) edges.push({ side: 'east', tiles }); }
-  if (Math.random() < oceanChance) { const tiles = generateOceanEdge(false, 0, 1); if (tiles.length > 0) edges.push({ side: 'west', tiles }); }
+  if (random() < oceanChance) { const tiles = generateOceanEdge(true, 0, 1); if (tiles.length > 0) edges.push({ side: 'north', tiles }); }
+  if (random() < oceanChance) { const tiles = generateOceanEdge(true, size - 1, -1); if (tiles.length > 0) edges.push({ side: 'south', tiles }); }
+  if (random() < oceanChance) { const tiles = generateOceanEdge(false, size - 1, -1); if (tiles.length > 0) edges.push({ side: 'east', tiles }); }
+  if (random() < oceanChance) { const tiles = generateOceanEdge(false, 0, 1); if (tiles.length > 0) edges.push({ side: 'west', tiles }); }
   
   const usedOceanNames = new Set<string>();
   for (const edge of edges) {
     if (edge.tiles.length > 0) {
       const avgX = edge.tiles.reduce((sum, t) => sum + t.x, 0) / edge.tiles.length;
       const avgY = edge.tiles.reduce((sum, t) => sum + t.y, 0) / edge.tiles.length;
-      let oceanName = generateWaterName('ocean');
-      while (usedOceanNames.has(oceanName)) oceanName = generateWaterName('ocean');
+      let oceanName = generateWaterName('ocean', random);
+      while (usedOceanNames.has(oceanName)) oceanName = generateWaterName('ocean', random);
       usedOceanNames.add(oceanName);
       waterBodies.push({ id: `ocean-${edge.side}-${waterBodies.length}`, name: oceanName, type: 'ocean', tiles: edge.tiles, centerX: Math.round(avgX), centerY: Math.round(avgY) });
     }
@@ -1221,38 +1745,159 @@ function generateOceans(grid: Tile[][], size: number, seed: number): WaterBody[]
   return waterBodies;
 }
 
-function generateAdjacentCities(): AdjacentCity[] {
+type MapSide = 'north' | 'east' | 'south' | 'west';
+const OPPOSITE_SIDE: Record<MapSide, MapSide> = { north: 'south', east: 'west', south: 'north', west: 'east' };
+
+// How far (as a share of the map) a river's bend may push off the straight line
+const RIVER_BEND = 0.4;
+// Randomness against the valley noise when a river picks its next step
+const RIVER_MEANDER = 0.01;
+
+function getEdgePoint(side: MapSide, i: number, size: number): { x: number; y: number } {
+  if (side === 'north') return { x: i, y: 0 };
+  if (side === 'south') return { x: i, y: size - 1 };
+  if (side === 'east') return { x: size - 1, y: i };
+  return { x: 0, y: i };
+}
+
+function getNearestPoint(from: { x: number; y: number }, points: { x: number; y: number }[]): { x: number; y: number } {
+  return points.reduce((best, p) => ((p.x - from.x) ** 2 + (p.y - from.y) ** 2 < (best.x - from.x) ** 2 + (best.y - from.y) ** 2 ? p : best));
+}
+
+/**
+ * Carve a river from a lake or a dry map edge down to the ocean (or, with no
+ * ocean, off the far edge). It bends through an offset waypoint and steps along
+ * the lower ground of the elevation noise, so it settles into valleys. Narrow
+ * enough for road and rail bridges to span.
+ */
+function generateRivers(grid: Tile[][], size: number, seed: number, random: RandomFn, lakes: WaterBody[], oceans: WaterBody[]): WaterBody[] {
+  const valleyNoise = (x: number, y: number) => perlinNoise(x, y, seed + 3000, 2);
+  const oceanTiles = oceans.flatMap(ocean => ocean.tiles);
+  const oceanIndex = new Set(oceanTiles.map(t => t.y * size + t.x));
+  const sides: MapSide[] = ['north', 'east', 'south', 'west'];
+  const dryEdges = sides.filter(side => {
+    for (let i = 0; i < size; i++) {
+      const p = getEdgePoint(side, i, size);
+      if (grid[p.y][p.x].building.type === 'water') return false;
+    }
+    return true;
+  });
+  const randomAlongEdge = () => Math.floor(size * (0.2 + random() * 0.6));
+
+  let source: { x: number; y: number };
+  let target: { x: number; y: number };
+  if (lakes.length > 0 && (dryEdges.length === 0 || random() < 0.5)) {
+    const lake = lakes[Math.floor(random() * lakes.length)];
+    const center = { x: lake.centerX, y: lake.centerY };
+    if (oceanTiles.length > 0) {
+      target = getNearestPoint(center, oceanTiles);
+    } else {
+      const edgePoints = sides.map(side => getEdgePoint(side, side === 'north' || side === 'south' ? center.x : center.y, size));
+      target = getNearestPoint(center, edgePoints);
+    }
+    source = getNearestPoint(target, lake.tiles);
+  } else if (dryEdges.length > 0) {
+    const side = dryEdges[Math.floor(random() * dryEdges.length)];
+    source = getEdgePoint(side, randomAlongEdge(), size);
+    const farPoint = getEdgePoint(OPPOSITE_SIDE[side], randomAlongEdge(), size);
+    target = oceanTiles.length > 0 ? getNearestPoint(farPoint, oceanTiles) : farPoint;
+  } else {
+    return [];
+  }
+
+  const length = Math.hypot(target.x - source.x, target.y - source.y) || 1;
+  const bend = (random() - 0.5) * size * RIVER_BEND;
+  const clamp = (v: number) => Math.max(1, Math.min(size - 2, Math.round(v)));
+  const waypoint = {
+    x: clamp((source.x + target.x) / 2 - (target.y - source.y) / length * bend),
+    y: clamp((source.y + target.y) / 2 + (target.x - source.x) / length * bend),
+  };
+
+  const path = [source];
+  // Returns true once the river has reached the ocean
+  const walkTo = (goal: { x: number; y: number }): boolean => {
+    let { x, y } = path[path.length - 1];
+    while (x !== goal.x || y !== goal.y) {
+      const stepX = Math.sign(goal.x - x); const stepY = Math.sign(goal.y - y);
+      // When both axes close the gap, take the lower ground
+      const takeX = stepX !== 0 && (stepY === 0
+        || valleyNoise(x + stepX, y) + random() * RIVER_MEANDER < valleyNoise(x, y + stepY) + random() * RIVER_MEANDER);
+      if (takeX) x += stepX; else y += stepY;
+      if (oceanIndex.has(y * size + x)) return true;
+      path.push({ x, y });
+    }
+    return false;
+  };
+  if (!walkTo(waypoint)) walkTo(target);
+
+  const width = 2 + Math.floor(random() * 2);
+  const low = -Math.floor((width - 1) / 2);
+  const tiles: { x: number; y: number }[] = [];
+  for (const point of path) {
+    for (let oy = low; oy < low + width; oy++) {
+      for (let ox = low; ox < low + width; ox++) {
+        const x = point.x + ox; const y = point.y + oy;
+        if (x < 0 || y < 0 || x >= size || y >= size || grid[y][x].building.type === 'water') continue;
+        grid[y][x].building = createBuilding('water');
+        grid[y][x].landValue = 60;
+        tiles.push({ x, y });
+      }
+    }
+  }
+  if (tiles.length === 0) return [];
+
+  const mouth = path[path.length - 1];
+  const flowLength = Math.hypot(mouth.x - source.x, mouth.y - source.y) || 1;
+  const middle = path[Math.floor(path.length / 2)];
+  return [{
+    id: 'river-0',
+    name: generateWaterName('river', random),
+    type: 'river',
+    tiles,
+    centerX: middle.x,
+    centerY: middle.y,
+    flowDirection: { dx: (mouth.x - source.x) / flowLength, dy: (mouth.y - source.y) / flowLength },
+  }];
+}
+
+function generateAdjacentCities(random: RandomFn): AdjacentCity[] {
   const cities: AdjacentCity[] = [];
   const directions: Array<'north' | 'south' | 'east' | 'west'> = ['north', 'south', 'east', 'west'];
   const usedNames = new Set<string>();
   for (const direction of directions) {
     let name: string;
-    do { name = generateCityName(); } while (usedNames.has(name));
+    do { name = generateCityName(random); } while (usedNames.has(name));
     usedNames.add(name);
     cities.push({ id: `city-${direction}`, name, direction, connected: false, discovered: false });
   }
   return cities;
 }
 
-function generateTerrain(size: number): { grid: Tile[][]; waterBodies: WaterBody[] } {
+function generateTerrain(size: number, worldSeed: number): { grid: Tile[][]; waterBodies: WaterBody[] } {
   const grid: Tile[][] = [];
-  const seed = Math.random() * 1000;
+  const random = new SeededRng(deriveSeed(worldSeed, 1)).next;
+  // Noise offset stays in the 0-1000 range the noise functions were tuned for
+  const seed = (worldSeed / 4294967296) * 1000;
   for (let y = 0; y < size; y++) {
     const row: Tile[] = [];
     for (let x = 0; x < size; x++) { row.push(createTile(x, y, 'grass')); }
     grid.push(row);
   }
-  const lakeBodies = generateLakes(grid, size, seed);
-  const oceanBodies = generateOceans(grid, size, seed);
-  const waterBodies = [...lakeBodies, ...oceanBodies];
+  const lakeBodies = generateLakes(grid, size, seed, random);
+  const oceanBodies = generateOceans(grid, size, seed, random);
+  // Rivers draw from their own stream so the rest of each seed's map is unchanged
+  const riverBodies = generateRivers(grid, size, seed, new SeededRng(deriveSeed(worldSeed, 3)).next, lakeBodies, oceanBodies);
+  const waterBodies = [...lakeBodies, ...oceanBodies, ...riverBodies];
+  assignWaterDepths(grid, size);
+  generateElevation(grid, size, (x, y) => perlinNoise(x, y, seed + 3000, 2));
   
   for (let y = 0; y < size; y++) {
     for (let x = 0; x < size; x++) {
       if (grid[y][x].building.type === 'water') continue;
       const treeNoise = perlinNoise(x * 2, y * 2, seed + 500, 2);
-      const isTree = treeNoise > 0.72 && Math.random() > 0.65;
+      const isTree = treeNoise > 0.72 && random() > 0.65;
       const nearWater = isNearWater(grid, x, y, size);
-      const isTreeNearWater = nearWater && Math.random() > 0.7;
+      const isTreeNearWater = nearWater && random() > 0.7;
       if (isTree || isTreeNearWater) { grid[y][x].building = createBuilding('tree'); }
     }
   }
@@ -1296,7 +1941,9 @@ function createInitialBudget(): Budget {
 function createInitialStats(): Stats {
   return {
     population: 0, jobs: 0, money: 100000, income: 0, expenses: 0,
-    happiness: 50, health: 50, education: 50, safety: 50, environment: 75,
+    happiness: 50, health: 50, education: 50, safety: 50, crime: 0, congestion: 0,
+    commuteMinutes: 0, commuteModes: { walk: 0, car: 0, subway: 0, rail: 0 }, environment: 75,
+    carbonEmissions: 0, carbonBalance: 0, powerSupply: 0, powerDemand: 0, powerCapacity: 0, waterSupply: 0, waterDemand: 0,
     demand: { residential: 50, commercial: 30, industrial: 40 },
   };
 }
@@ -1304,12 +1951,12 @@ function createInitialStats(): Stats {
 function createServiceCoverage(size: number): ServiceCoverage {
   const createGrid = () => { const grid: number[][] = new Array(size); for (let y = 0; y < size; y++) grid[y] = new Array(size).fill(0); return grid; };
   const createBoolGrid = () => { const grid: boolean[][] = new Array(size); for (let y = 0; y < size; y++) grid[y] = new Array(size).fill(false); return grid; };
-  return { police: createGrid(), fire: createGrid(), health: createGrid(), education: createGrid(), power: createBoolGrid(), water: createBoolGrid() };
+  return { police: createGrid(), fire: createGrid(), health: createGrid(), education: createGrid(), power: createBoolGrid(), water: createBoolGrid(), treatment: createGrid(), waterContamination: createGrid() };
 }
 
-export function createInitialGameState(size: number = DEFAULT_GRID_SIZE, cityName: string = 'New City'): GameState {
-  const { grid, waterBodies } = generateTerrain(size);
-  const adjacentCities = generateAdjacentCities();
+export function createInitialGameState(size: number = DESKTOP_GRID_SIZE, cityName: string = 'New City', seed: number = createRandomSeed()): GameState {
+  const { grid, waterBodies } = generateTerrain(size, seed);
+  const adjacentCities = generateAdjacentCities(new SeededRng(deriveSeed(seed, 2)).next);
   
   const defaultCity: import('@/types/game').City = {
     id: generateUUID(), name: cityName, bounds: { minX: 0, minY: 0, maxX: size - 1, maxY: size - 1 },
@@ -1318,9 +1965,12 @@ export function createInitialGameState(size: number = DEFAULT_GRID_SIZE, cityNam
 
   return {
     id: generateUUID(), grid, gridSize: size, cityName, year: 2024, month: 1, day: 1, hour: 12, tick: 0, speed: 1,
-    selectedTool: 'select', taxRate: 9, effectiveTaxRate: 9, stats: createInitialStats(), budget: createInitialBudget(),
+    selectedTool: 'select', taxRate: 9, effectiveTaxRate: 9, taxRates: createTaxRates(), effectiveTaxRates: createTaxRates(), pollutionSurcharge: 0,
+    stats: createInitialStats(), budget: createInitialBudget(), ledger: createLedger(),
     services: createServiceCoverage(size), notifications: [], advisorMessages: [], history: [], activePanel: 'none',
     disastersEnabled: true, adjacentCities, waterBodies, gameVersion: 0, cities: [defaultCity],
+    carbon: createCarbonLedger(undefined, getGridCarbon(grid)), debts: [], policies: [],
+    seed, rngState: deriveSeed(seed, 0),
   };
 }
 
@@ -1381,8 +2031,8 @@ export function getRoadAdjacency(grid: Tile[][], x: number, y: number, width: nu
   return { hasRoad, shouldFlip };
 }
 
-export function generateRandomAdvancedCity(size: number = DEFAULT_GRID_SIZE, cityName: string = 'Metropolis'): GameState {
-  return createInitialGameState(size, cityName);
+export function generateRandomAdvancedCity(size: number = DESKTOP_GRID_SIZE, cityName: string = 'Metropolis', seed?: number): GameState {
+  return createInitialGameState(size, cityName, seed);
 }
 
 // Bridges Logic (Needs to be here for exports)
@@ -1527,10 +2177,40 @@ export function upgradeServiceBuilding(state: GameState, x: number, y: number):
   return { ...state, grid: newGrid, stats: newStats, services };
 }
 
+/**
+ * Take out a loan or sell bonds at the city's current rating; returns null if lenders refuse.
+ * Pass the `id` another player's debt was issued under to book the same debt - their
+ * lenders already agreed, and repayments find it by that id.
+ */
+export function borrow(state: GameState, kind: DebtKind, amount: number, id?: string): GameState | null {
+  const debts = state.debts ?? [];
+  if (id === undefined && getBorrowingBlocker(kind, amount, debts, state.stats.income, state.stats.money)) return null;
+  if (id !== undefined && debts.some(d => d.id === id)) return null;
+
+  const rating = getCreditRating(debts, state.stats.income, state.stats.money);
+  let n = 0;
+  while (debts.some(d => d.id === `${kind}-${state.year}-${state.month}-${state.day}-${n}`)) n++;
+  const debt = issueDebt(id ?? `${kind}-${state.year}-${state.month}-${state.day}-${n}`, kind, amount, rating);
+
+  return { ...state, debts: [...debts, debt], stats: { ...state.stats, money: state.stats.money + amount } };
+}
+
+/** Pay off a debt early from the treasury; returns null if the city can't cover the balance */
+export function repayDebt(state: GameState, id: string): GameState | null {
+  const debts = state.debts ?? [];
+  const debt = debts.find(d => d.id === id);
+  if (!debt) return null;
+  const balance = Math.ceil(debt.balance);
+  if (state.stats.money < balance) return null;
+  return { ...state, debts: debts.filter(d => d.id !== id), stats: { ...state.stats, money: state.stats.money - balance } };
+}
+
 export function bulldozeTile(state: GameState, x: number, y: number): GameState {
   const tile = state.grid[y]?.[x];
   if (!tile) return state;
   if (tile.building.type === 'water') return state;
+  // Bulldozing bare ground digs up the pipe beneath it
+  if (tile.building.type === 'grass' && tile.zone === 'none' && tile.hasWaterPipe) return removeWaterPipe(state, x, y);
   const newGrid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
   
   if (tile.building.type === 'bridge') {
@@ -1623,6 +2303,48 @@ export function placeSubway(state: GameState, x: number, y: number): GameState {
   return { ...state, grid: newGrid };
 }
 
+export function placeWaterPipe(state: GameState, x: number, y: number): GameState {
+  const tile = state.grid[y]?.[x];
+  if (!tile || tile.building.type === 'water' || tile.hasWaterPipe) return state;
+  const newGrid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
+  newGrid[y][x].hasWaterPipe = true;
+  return { ...state, grid: newGrid };
+}
+
+export function removeWaterPipe(state: GameState, x: number, y: number): GameState {
+  const tile = state.grid[y]?.[x];
+  if (!tile || !tile.hasWaterPipe) return state;
+  const newGrid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
+  newGrid[y][x].hasWaterPipe = false;
+  return { ...state, grid: newGrid };
+}
+
+// Radius treatment plants used to supply water across, before pipes
+const LEGACY_WATER_RANGE = 12;
+
+/**
+ * Saves from before piped water relied on treatment plants supplying everything
+ * in a radius. Lay mains under the roads those plants used to reach so old cities
+ * keep some supply; mutates the grid in place.
+ */
+export function layLegacyWaterMains(grid: Tile[][], size: number): void {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      if (building.type !== 'water_tower') continue;
+      const range = Math.floor(LEGACY_WATER_RANGE * (1 + (Math.max(1, building.level) - 1) * SERVICE_RANGE_INCREASE_PER_LEVEL));
+      grid[y][x].hasWaterPipe = true;
+      for (let ny = Math.max(0, y - range); ny <= Math.min(size - 1, y + range); ny++) {
+        for (let nx = Math.max(0, x - range); nx <= Math.min(size - 1, x + range); nx++) {
+          if ((nx - x) * (nx - x) + (ny - y) * (ny - y) > range * range) continue;
+          const type = grid[ny][nx].building.type;
+          if (type === 'road' || type === 'bridge') grid[ny][nx].hasWaterPipe = true;
+        }
+      }
+    }
+  }
+}
+
 export function removeSubway(state: GameState, x: number, y: number): GameState {
   const tile = state.grid[y]?.[x];
   if (!tile || !tile.hasSubway) return state;
@@ -1652,6 +2374,10 @@ export function placeWaterTerraform(state: GameState, x: number, y: number): Gam
   newGrid[y][x].building = createBuilding('water');
   newGrid[y][x].zone = 'none';
   newGrid[y][x].hasSubway = false;
+  newGrid[y][x].hasWaterPipe = false;
+  newGrid[y][x].waterDepth = CANAL_DEPTH;
+  // Water sits at ground level, so a canal dug into a hill is cut down to level 0
+  delete newGrid[y][x].elevation;
   return { ...state, grid: newGrid };
 }
 
@@ -1661,6 +2387,7 @@ export function placeLandTerraform(state: GameState, x: number, y: number): Game
   const newGrid = state.grid.map(row => row.map(t => ({ ...t, building: { ...t.building } })));
   newGrid[y][x].building = createBuilding('grass');
   newGrid[y][x].zone = 'none';
+  delete newGrid[y][x].waterDepth;
   return { ...state, grid: newGrid };
 }
 
@@ -1753,7 +2480,7 @@ export function getDevelopmentBlockers(
   if (!hasWater && !wouldBeStarter) {
     blockers.push({
       reason: 'No water',
-      details: 'Build a water tower nearby to provide water'
+      details: 'Run a water pipe here from a pumping station'
     });
   }
   const candidateSize = getBuildingSize(candidate);
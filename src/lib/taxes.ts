@@ -0,0 +1,110 @@
+// Taxation for IsoCity
+// Residents pay the residential rate, employers pay their own zone's rate on each
+// job, and polluting industry can be charged a surcharge on top, scaled by how
+// dirty each building is. Every developed plot also pays property tax on its land
+// value at its zone's rate. Each zone's demand reacts to its own (lagging) rate.
+
+import { Building, BUILDING_STATS, TaxRates, Tile, ZoneType } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TAX_RATE = 9;
+export const MAX_TAX_RATE = 100;
+/** Surcharge (percentage points) charged to a building at full pollution */
+export const MAX_POLLUTION_SURCHARGE = 30;
+
+export const TAX_ZONES: readonly (keyof TaxRates)[] = ['residential', 'commercial', 'industrial'];
+
+// Monthly revenue per resident and per job for each point of tax
+const RESIDENT_TAX = 0.1;
+const JOB_TAX = 0.05;
+// Monthly revenue per point of land value on a developed tile, for each point of tax
+const PROPERTY_TAX = 0.005;
+
+// Share of the gap to the set rate that effective rates close each tick
+const TAX_LAG = 0.03;
+
+// BUILDING_STATS pollution at which the full surcharge applies
+const FULL_SURCHARGE_POLLUTION = 100;
+
+// ============================================================================
+// RATES
+// ============================================================================
+
+export function createTaxRates(rate: number = DEFAULT_TAX_RATE): TaxRates {
+  return { residential: rate, commercial: rate, industrial: rate };
+}
+
+export function getAverageTaxRate(rates: TaxRates): number {
+  return (rates.residential + rates.commercial + rates.industrial) / 3;
+}
+
+/** Move effective rates a step toward the set rates, so demand reacts gradually */
+export function lagTaxRates(effective: TaxRates, target: TaxRates): TaxRates {
+  return {
+    residential: effective.residential + (target.residential - effective.residential) * TAX_LAG,
+    commercial: effective.commercial + (target.commercial - effective.commercial) * TAX_LAG,
+    industrial: effective.industrial + (target.industrial - effective.industrial) * TAX_LAG,
+  };
+}
+
+/**
+ * Rate paid on jobs in a zone. Jobs outside the three zones (services, transit,
+ * landmarks) are taxed at the commercial rate.
+ */
+export function getJobTaxRate(zone: ZoneType, rates: TaxRates): number {
+  return zone === 'industrial' ? rates.industrial : rates.commercial;
+}
+
+// ============================================================================
+// INCOME
+// ============================================================================
+
+/** Share (0-1) of the pollution surcharge a building pays, from BUILDING_STATS.pollution */
+export function getSurchargeWeight(building: Building): number {
+  const pollution = BUILDING_STATS[building.type]?.pollution ?? 0;
+  return Math.max(0, Math.min(1, pollution / FULL_SURCHARGE_POLLUTION));
+}
+
+/** Monthly tax paid by a building's residents */
+export function getResidentTax(building: Building, rates: TaxRates): number {
+  return building.population * rates.residential * RESIDENT_TAX;
+}
+
+/** Monthly tax paid on `jobs` at the rate of their zone */
+export function getJobTax(zone: ZoneType, jobs: number, rates: TaxRates): number {
+  return jobs * getJobTaxRate(zone, rates) * JOB_TAX;
+}
+
+/** Monthly pollution surcharge paid on an industrial building's jobs */
+export function getPollutionSurchargeTax(building: Building, zone: ZoneType, jobs: number, pollutionSurcharge: number): number {
+  if (zone !== 'industrial') return 0;
+  return jobs * pollutionSurcharge * getSurchargeWeight(building) * JOB_TAX;
+}
+
+/**
+ * Monthly property tax on a tile: its land value at the rate of its zone. Only
+ * occupied plots in a zone pay; every tile of a large building's footprint counts.
+ */
+export function getPropertyTax(tile: Tile, rates: TaxRates): number {
+  if (tile.zone === 'none' || tile.building.type === 'grass' || tile.building.abandoned) return 0;
+  const rate = tile.zone === 'residential' ? rates.residential : getJobTaxRate(tile.zone, rates);
+  return tile.landValue * rate * PROPERTY_TAX;
+}
+
+// ============================================================================
+// DEMAND
+// ============================================================================
+
+/**
+ * How a zone's demand responds to its effective rate: a multiplier on the raw
+ * demand and a flat shift, both neutral at the default rate.
+ */
+export function getTaxDemandEffect(rate: number): { multiplier: number; modifier: number } {
+  return {
+    multiplier: Math.max(0, 1 - (rate - DEFAULT_TAX_RATE) / (MAX_TAX_RATE - DEFAULT_TAX_RATE)),
+    modifier: (DEFAULT_TAX_RATE - rate) * 2,
+  };
+}
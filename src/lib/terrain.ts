@@ -0,0 +1,186 @@
+// Terrain elevation for IsoCity
+// Hills are raised in whole height levels from a noise field when the map is
+// generated. A tile's slope - its largest height difference to a neighbor - limits
+// where roads and rail can climb and makes building on steep ground dearer. Some
+// park buildings need high ground, and pollution on land runs downhill.
+
+import { BuildingType, Tile } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Highest terrain level */
+export const MAX_ELEVATION = 8;
+
+/** Neighboring tiles differ by at most this many levels; anything steeper is cut back */
+export const MAX_TERRAIN_STEP = 3;
+/**
+ * Ground rises at most this many levels per tile away from water, so shores are gentle
+ * enough for road and rail to reach them and bridges to land
+ */
+export const SHORE_RISE = 1;
+// Share of land left flat, and the share of land below the peaks; taken from each
+// map's own noise so every map gets hills however its noise happens to fall
+const FLAT_SHARE = 0.7;
+const PEAK_SHARE = 0.99;
+
+/** Steepest slope (in levels) each track type can be laid on */
+export const MAX_TRACK_SLOPE: Record<'road' | 'rail', number> = {
+  road: 2,
+  rail: 1,
+};
+
+// Construction cost grows by this fraction per level of slope beyond the first
+const SLOPE_COST_PER_LEVEL = 0.5;
+
+/** Lowest peak a hill building's footprint must reach */
+export const MIN_HILL_ELEVATION = 2;
+
+const HILL_BUILDINGS = new Set<BuildingType>(['mountain_lodge', 'mountain_trailhead']);
+
+// Extra share of land pollution spread per level it runs downhill
+const DOWNHILL_SPREAD_PER_LEVEL = 0.5;
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+
+// ============================================================================
+// HEIGHTS AND SLOPES
+// ============================================================================
+
+/** Terrain level of a tile - saves that predate elevation are flat */
+export function getElevation(tile: Tile): number {
+  return tile.elevation ?? 0;
+}
+
+/** Lower each height to within `step` of its neighbors; two sweeps settle the whole grid */
+function limitSteps(heights: Int32Array, size: number, step: number): void {
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const idx = y * size + x;
+      if (x > 0) heights[idx] = Math.min(heights[idx], heights[idx - 1] + step);
+      if (y > 0) heights[idx] = Math.min(heights[idx], heights[idx - size] + step);
+    }
+  }
+  for (let y = size - 1; y >= 0; y--) {
+    for (let x = size - 1; x >= 0; x--) {
+      const idx = y * size + x;
+      if (x < size - 1) heights[idx] = Math.min(heights[idx], heights[idx + 1] + step);
+      if (y < size - 1) heights[idx] = Math.min(heights[idx], heights[idx + size] + step);
+    }
+  }
+}
+
+/**
+ * Raise hills from a noise field. The highest noise on land becomes hills that
+ * climb to MAX_ELEVATION at the peaks. Water stays at level 0, ground near it
+ * rises by SHORE_RISE per tile, and every tile is cut back to within
+ * MAX_TERRAIN_STEP of its neighbors, so hillsides slope instead of forming walls.
+ * Mutates the grid in place.
+ */
+export function generateElevation(grid: Tile[][], size: number, noise: (x: number, y: number) => number): void {
+  const values = new Float64Array(size * size).fill(-Infinity);
+  const land: number[] = [];
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (grid[y][x].building.type === 'water') continue;
+      values[y * size + x] = noise(x, y);
+      land.push(values[y * size + x]);
+    }
+  }
+  if (land.length === 0) return;
+  land.sort((a, b) => a - b);
+  const foothill = land[Math.floor(land.length * FLAT_SHARE)];
+  const peak = land[Math.min(land.length - 1, Math.floor(land.length * PEAK_SHARE))];
+  const range = Math.max(peak - foothill, 1e-6);
+
+  const shore = new Int32Array(size * size).fill(MAX_ELEVATION);
+  const heights = new Int32Array(size * size);
+  for (let idx = 0; idx < size * size; idx++) {
+    if (values[idx] === -Infinity) { shore[idx] = 0; continue; }
+    const raised = Math.ceil((values[idx] - foothill) / range * MAX_ELEVATION);
+    heights[idx] = Math.max(0, Math.min(MAX_ELEVATION, raised));
+  }
+  limitSteps(shore, size, SHORE_RISE);
+  for (let idx = 0; idx < size * size; idx++) heights[idx] = Math.min(heights[idx], shore[idx]);
+  limitSteps(heights, size, MAX_TERRAIN_STEP);
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const height = heights[y * size + x];
+      if (height > 0) grid[y][x].elevation = height;
+      else delete grid[y][x].elevation;
+    }
+  }
+}
+
+/** Largest height difference between a tile and its neighbors */
+export function getSlope(grid: Tile[][], x: number, y: number, size: number): number {
+  const elevation = getElevation(grid[y][x]);
+  let slope = 0;
+  for (const [dx, dy] of NEIGHBORS) {
+    const nx = x + dx; const ny = y + dy;
+    if (nx < 0 || ny < 0 || nx >= size || ny >= size) continue;
+    slope = Math.max(slope, Math.abs(elevation - getElevation(grid[ny][nx])));
+  }
+  return slope;
+}
+
+/** Steepest slope under a building footprint */
+export function getFootprintSlope(grid: Tile[][], x: number, y: number, width: number, height: number, size: number): number {
+  let slope = 0;
+  for (let dy = 0; dy < height; dy++) {
+    for (let dx = 0; dx < width; dx++) {
+      if (x + dx < size && y + dy < size) slope = Math.max(slope, getSlope(grid, x + dx, y + dy, size));
+    }
+  }
+  return slope;
+}
+
+// ============================================================================
+// PLACEMENT RULES
+// ============================================================================
+
+/** Whether a road or rail tile can be laid here without exceeding its grade */
+export function canLayTrack(grid: Tile[][], x: number, y: number, size: number, trackType: 'road' | 'rail'): boolean {
+  return getSlope(grid, x, y, size) <= MAX_TRACK_SLOPE[trackType];
+}
+
+/**
+ * Cost of building a footprint on its ground: gentle slopes cost the base price,
+ * each level of slope beyond that adds half again.
+ */
+export function getConstructionCost(baseCost: number, grid: Tile[][], x: number, y: number, width: number, height: number, size: number): number {
+  const slope = getFootprintSlope(grid, x, y, width, height, size);
+  return Math.round(baseCost * (1 + SLOPE_COST_PER_LEVEL * Math.max(0, slope - 1)));
+}
+
+/** Buildings that must sit on high ground (Hill Station, Hiking Trail) */
+export function requiresElevation(buildingType: BuildingType): boolean {
+  return HILL_BUILDINGS.has(buildingType);
+}
+
+/** Whether a footprint reaches MIN_HILL_ELEVATION anywhere */
+export function hasRequiredElevation(grid: Tile[][], x: number, y: number, width: number, height: number): boolean {
+  for (let dy = 0; dy < height; dy++) {
+    for (let dx = 0; dx < width; dx++) {
+      const tile = grid[y + dy]?.[x + dx];
+      if (tile && getElevation(tile) >= MIN_HILL_ELEVATION) return true;
+    }
+  }
+  return false;
+}
+
+// ============================================================================
+// DOWNHILL FLOW
+// ============================================================================
+
+/**
+ * Share of the usual spread that pollution carries from one tile to a neighbor
+ * `drop` levels below it: none uphill, the full amount on the level, and more
+ * the steeper it runs down.
+ */
+export function getDownhillSpreadFactor(drop: number): number {
+  if (drop < 0) return 0;
+  return 1 + drop * DOWNHILL_SPREAD_PER_LEVEL;
+}
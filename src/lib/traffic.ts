@@ -0,0 +1,351 @@
+// Traffic and commuting for IsoCity
+// Once a day, each household's working residents are matched to the jobs with room
+// for them that are quickest to reach over the road network, favouring faster road
+// classes and keeping to one-way flow. Jobs a few tiles away are walked to; residents
+// within walking distance of a subway or rail station take the train for a share of
+// the rest, as long as the line has somewhere else to go; everyone else drives, and
+// every road tile counts the car trips that pass over it. A road's volume against its
+// class's capacity is its congestion: jammed roads slow cars down and lengthen
+// commutes, foul the air and put people off living and working at the end of them.
+
+import { BuildingType, Commute, CommuteMode, RoadDirection, Tile } from '@/types/game';
+import { canDriveBetween, getRoadDefinition, givesZoneAccess, ROAD_DIRECTION_STEPS } from './roads';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Share of residents who travel to work each day */
+const COMMUTE_SHARE = 0.5;
+
+/** Travel time, in free-flowing street tiles, a commuter will drive before giving up on a job */
+const MAX_COMMUTE = 40;
+
+/** Jobs this many road tiles away or closer are walked to */
+const WALK_RANGE = 3;
+
+// How far residents walk to a station and the share of their longer trips that then take the train
+const STATION_WALK_RANGE = 5;
+const TRANSIT_SHARE = 0.4;
+const TRANSIT_MODES: { type: BuildingType; mode: CommuteMode }[] = [
+  { type: 'subway_station', mode: 'subway' },
+  { type: 'rail_station', mode: 'rail' },
+];
+
+// Minutes each part of a trip takes
+const WALK_MINUTES_PER_TILE = 4;
+const DRIVE_MINUTES_PER_TILE = 1; // On a free-flowing street
+const PARKING_MINUTES = 3;
+const TRANSIT_MINUTES_PER_TILE = 0.5;
+const TRANSIT_WAIT_MINUTES = 5;
+
+// Average commute people put up with, and the happiness each minute past it costs (up to a cap)
+const COMFORTABLE_COMMUTE_MINUTES = 20;
+const COMMUTE_HAPPINESS_PENALTY = 0.5;
+const MAX_COMMUTE_HAPPINESS_PENALTY = 15;
+
+/** Share of a car's speed lost on a fully congested tile */
+const CONGESTED_SLOWDOWN = 0.7;
+
+// Trips per day at which a road emits its listed pollution, and the cap on the multiplier
+const BASE_EMISSION_TRIPS = 300;
+const MAX_TRAFFIC_EMISSIONS = 4;
+
+/** Demand lost at full average congestion, by zone - commuters and freight feel it most */
+export const CONGESTION_DEMAND_PENALTY = { residential: 20, commercial: 10, industrial: 15 };
+
+export const COMMUTE_MODES: CommuteMode[] = ['walk', 'car', 'subway', 'rail'];
+
+const NEIGHBORS = [[0, -1], [1, 0], [0, 1], [-1, 0]] as const;
+const DIRECTIONS = Object.keys(ROAD_DIRECTION_STEPS) as RoadDirection[];
+
+// ============================================================================
+// CONGESTION
+// ============================================================================
+
+export function isTrafficTile(tile: Tile): boolean {
+  return tile.building.type === 'road' || tile.building.type === 'bridge';
+}
+
+/** Volume against the road's capacity (0-1) */
+export function getCongestion(tile: Tile): number {
+  return isTrafficTile(tile) ? Math.min(1, (tile.traffic ?? 0) / getRoadDefinition(tile).capacity) : 0;
+}
+
+/** Multiplier on the speed of cars driving over a tile: its class's speed, less congestion */
+export function getTrafficSpeedFactor(tile: Tile): number {
+  return getRoadDefinition(tile).speed * (1 - getCongestion(tile) * CONGESTED_SLOWDOWN);
+}
+
+/** Multiplier on what a road emits: nothing when empty, scaling with volume */
+export function getTrafficEmissionFactor(tile: Tile): number {
+  return Math.min(MAX_TRAFFIC_EMISSIONS, (tile.traffic ?? 0) / BASE_EMISSION_TRIPS);
+}
+
+/** Happiness lost to the city's average commute */
+export function getCommuteHappinessPenalty(minutes: number): number {
+  return Math.min(MAX_COMMUTE_HAPPINESS_PENALTY, Math.max(0, minutes - COMFORTABLE_COMMUTE_MINUTES) * COMMUTE_HAPPINESS_PENALTY);
+}
+
+// ============================================================================
+// TRIP ASSIGNMENT
+// ============================================================================
+
+/** First road tile bordering a building's footprint that it can take access from, as a grid index */
+function findAccessRoad(grid: Tile[][], size: number, x: number, y: number, width: number, height: number): number {
+  for (let dy = -1; dy <= height; dy++) {
+    for (let dx = -1; dx <= width; dx++) {
+      const inside = dx >= 0 && dx < width && dy >= 0 && dy < height;
+      const corner = (dx === -1 || dx === width) && (dy === -1 || dy === height);
+      if (inside || corner) continue;
+      const nx = x + dx; const ny = y + dy;
+      if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+      if (givesZoneAccess(grid[ny][nx])) return ny * size + nx;
+    }
+  }
+  return -1;
+}
+
+interface StationField {
+  mode: CommuteMode;
+  distance: Uint8Array; // Walking distance to the nearest station, capped at STATION_WALK_RANGE + 1
+}
+
+/**
+ * Walking distance to the nearest station of each transit type, for types with at
+ * least two stations. A lone station has nowhere to take anyone.
+ */
+function getStationFields(grid: Tile[][], size: number): StationField[] {
+  const fields: StationField[] = [];
+  for (const { type, mode } of TRANSIT_MODES) {
+    const distance = new Uint8Array(size * size).fill(STATION_WALK_RANGE + 1);
+    const queue: number[] = [];
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        const building = grid[y][x].building;
+        if (building.type !== type || building.constructionProgress < 100) continue;
+        distance[y * size + x] = 0;
+        queue.push(y * size + x);
+      }
+    }
+    if (queue.length < 2) continue;
+    for (let head = 0; head < queue.length; head++) {
+      const index = queue[head];
+      const next = distance[index] + 1;
+      if (next > STATION_WALK_RANGE) continue;
+      const x = index % size; const y = (index - x) / size;
+      for (const [dx, dy] of NEIGHBORS) {
+        const nx = x + dx; const ny = y + dy;
+        if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+        const neighbor = ny * size + nx;
+        if (distance[neighbor] <= next) continue;
+        distance[neighbor] = next;
+        queue.push(neighbor);
+      }
+    }
+    fields.push({ mode, distance });
+  }
+  return fields;
+}
+
+/** Binary min-heap of grid indices keyed by travel time */
+interface TravelQueue {
+  indices: number[];
+  times: number[];
+}
+
+function pushTravel(queue: TravelQueue, index: number, time: number): void {
+  let i = queue.indices.length;
+  queue.indices.push(index); queue.times.push(time);
+  while (i > 0) {
+    const parent = (i - 1) >> 1;
+    if (queue.times[parent] <= time) break;
+    queue.indices[i] = queue.indices[parent]; queue.times[i] = queue.times[parent];
+    i = parent;
+  }
+  queue.indices[i] = index; queue.times[i] = time;
+}
+
+function popTravel(queue: TravelQueue): number {
+  const top = queue.indices[0];
+  const lastIndex = queue.indices.pop()!; const lastTime = queue.times.pop()!;
+  const length = queue.indices.length;
+  if (length > 0) {
+    let i = 0;
+    for (;;) {
+      let child = i * 2 + 1;
+      if (child >= length) break;
+      if (child + 1 < length && queue.times[child + 1] < queue.times[child]) child++;
+      if (queue.times[child] >= lastTime) break;
+      queue.indices[i] = queue.indices[child]; queue.times[i] = queue.times[child];
+      i = child;
+    }
+    queue.indices[i] = lastIndex; queue.times[i] = lastTime;
+  }
+  return top;
+}
+
+interface Household {
+  x: number;
+  y: number;
+  access: number; // Road tile it fronts onto, as a grid index
+  commuters: number;
+  transit: { mode: CommuteMode; walk: number } | null; // Nearest station in walking range
+}
+
+/** Jobs filled at one road tile by commuters from one origin */
+interface Assignment {
+  index: number; // Road tile the jobs front onto
+  trips: number;
+  tiles: number; // Road tiles travelled
+  time: number; // Driving time in free-flowing street tiles
+}
+
+/** Split one household's share of an assignment between modes and add it to its commute */
+function addTrips(commute: Commute, household: Household, assignment: Assignment, trips: number): number {
+  if (assignment.tiles <= WALK_RANGE) {
+    commute.trips.walk += trips;
+    return trips * Math.max(1, assignment.tiles) * WALK_MINUTES_PER_TILE;
+  }
+  const driveMinutes = assignment.time * DRIVE_MINUTES_PER_TILE + PARKING_MINUTES;
+  if (!household.transit) {
+    commute.trips.car += trips;
+    return trips * driveMinutes;
+  }
+  const riders = trips * TRANSIT_SHARE;
+  const rideMinutes = household.transit.walk * WALK_MINUTES_PER_TILE + TRANSIT_WAIT_MINUTES + assignment.tiles * TRANSIT_MINUTES_PER_TILE;
+  commute.trips[household.transit.mode] += riders;
+  commute.trips.car += trips - riders;
+  return riders * rideMinutes + (trips - riders) * driveMinutes;
+}
+
+/**
+ * Match every household's working residents to jobs and route their trips. Homes
+ * and workplaces are grouped by the road tile they front onto; each group searches
+ * outward by travel time and fills the quickest jobs to reach first. Car trips are
+ * written into each road tile's `Tile.traffic` and each home's trips into its
+ * `Tile.commute`. Residents with no job in reach stay home. Only tiles whose volume
+ * changes, and homes, are copied.
+ */
+export function updateTraffic(
+  grid: Tile[][],
+  size: number,
+  trafficMultiplier: number,
+  getFootprint: (type: BuildingType) => { width: number; height: number },
+  getModifiableTile: (x: number, y: number) => Tile
+): void {
+  const stations = getStationFields(grid, size);
+  const trips = new Float64Array(size * size);
+  const drivers = new Float64Array(size * size);
+  const openJobs = new Float64Array(size * size);
+  const workplaces = new Int32Array(size * size).fill(-1);
+  const origins: number[] = [];
+  const households: Household[] = [];
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const building = grid[y][x].building;
+      if (building.abandoned || (building.population <= 0 && building.jobs <= 0)) continue;
+      const footprint = getFootprint(building.type);
+      const access = findAccessRoad(grid, size, x, y, footprint.width, footprint.height);
+      if (access < 0) continue;
+      if (building.jobs > 0) {
+        openJobs[access] += building.jobs;
+        if (workplaces[access] < 0) workplaces[access] = y * size + x;
+      }
+      if (building.population > 0) {
+        let transit: Household['transit'] = null;
+        for (const field of stations) {
+          const walk = field.distance[y * size + x];
+          if (walk <= STATION_WALK_RANGE && (!transit || walk < transit.walk)) transit = { mode: field.mode, walk };
+        }
+        const commuters = building.population * COMMUTE_SHARE;
+        if (trips[access] === 0) origins.push(access);
+        trips[access] += commuters;
+        drivers[access] += commuters * (transit ? 1 - TRANSIT_SHARE : 1);
+        households.push({ x, y, access, commuters, transit });
+      }
+    }
+  }
+
+  const volume = new Float64Array(size * size);
+  const parent = new Int32Array(size * size);
+  const time = new Float64Array(size * size);
+  const tiles = new Uint16Array(size * size);
+  const reached = new Uint32Array(size * size);
+  const settled = new Uint32Array(size * size);
+  const assignments = new Map<number, Assignment[]>();
+  let search = 0;
+
+  for (const origin of origins) {
+    let remaining = trips[origin];
+    const driveShare = drivers[origin] / trips[origin];
+    const filled: Assignment[] = [];
+    assignments.set(origin, filled);
+    search++;
+    reached[origin] = search;
+    parent[origin] = -1;
+    time[origin] = 0;
+    tiles[origin] = 0;
+    const queue: TravelQueue = { indices: [origin], times: [0] };
+    while (queue.indices.length > 0 && remaining > 0) {
+      const index = popTravel(queue);
+      if (settled[index] === search) continue;
+      settled[index] = search;
+      if (openJobs[index] > 0) {
+        const assigned = Math.min(remaining, openJobs[index]);
+        openJobs[index] -= assigned;
+        remaining -= assigned;
+        filled.push({ index, trips: assigned, tiles: tiles[index], time: time[index] });
+        if (tiles[index] > WALK_RANGE) {
+          for (let step = index; step >= 0; step = parent[step]) volume[step] += assigned * driveShare;
+        }
+      }
+      const x = index % size; const y = (index - x) / size;
+      for (const direction of DIRECTIONS) {
+        const { dx, dy } = ROAD_DIRECTION_STEPS[direction];
+        const nx = x + dx; const ny = y + dy;
+        if (nx < 0 || nx >= size || ny < 0 || ny >= size) continue;
+        const neighbor = ny * size + nx;
+        const next = grid[ny][nx];
+        if (settled[neighbor] === search || !isTrafficTile(next) || !canDriveBetween(grid[y][x], next, direction)) continue;
+        // Yesterday's jams slow today's drivers and push them onto quieter routes
+        const arrival = time[index] + 1 / getTrafficSpeedFactor(next);
+        if (arrival > MAX_COMMUTE || (reached[neighbor] === search && arrival >= time[neighbor])) continue;
+        reached[neighbor] = search;
+        time[neighbor] = arrival;
+        tiles[neighbor] = tiles[index] + 1;
+        parent[neighbor] = index;
+        pushTravel(queue, neighbor, arrival);
+      }
+    }
+  }
+
+  const homes = new Set<number>();
+  for (const household of households) {
+    homes.add(household.y * size + household.x);
+    const commute: Commute = { workX: household.x, workY: household.y, minutes: 0, trips: { walk: 0, car: 0, subway: 0, rail: 0 } };
+    let employed = 0; let totalMinutes = 0; let largest = 0;
+    for (const assignment of assignments.get(household.access) ?? []) {
+      const share = household.commuters * assignment.trips / trips[household.access];
+      employed += share;
+      totalMinutes += addTrips(commute, household, assignment, share);
+      const workplace = workplaces[assignment.index];
+      if (share > largest && workplace >= 0) {
+        largest = share;
+        commute.workX = workplace % size;
+        commute.workY = (workplace - commute.workX) / size;
+      }
+    }
+    getModifiableTile(household.x, household.y).commute = employed > 0 ? { ...commute, minutes: Math.round(totalMinutes / employed) } : undefined;
+  }
+
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      const tile = grid[y][x];
+      const next = isTrafficTile(tile) ? Math.round(volume[y * size + x] * trafficMultiplier) : 0;
+      if ((tile.traffic ?? 0) !== next) getModifiableTile(x, y).traffic = next;
+      if (tile.commute && !homes.has(y * size + x)) getModifiableTile(x, y).commute = undefined;
+    }
+  }
+}
@@ -0,0 +1,121 @@
+// Undo history for IsoCity
+// A player's action is recorded as the tiles it changed, before and after, and the
+// money it spent. Undoing puts the old tiles back and refunds the money; redoing
+// puts the new tiles back and charges it again. Actions made in one drag share a
+// group and undo together. Another player's changes to a tile drop any entry that
+// touches it, so each player only ever undoes their own work.
+
+import { Building, GameState, Tile } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Most actions kept to undo */
+export const MAX_HISTORY = 100;
+
+export interface TileChange {
+  x: number;
+  y: number;
+  before: Tile;
+  after: Tile;
+}
+
+export interface HistoryEntry {
+  changes: TileChange[];
+  cost: number; // Money the action spent
+  group: number | null; // Actions in the same drag share a group
+}
+
+/** A tile to write back on undo or redo, as sent to other players */
+export interface RestoredTile {
+  x: number;
+  y: number;
+  tile: Tile;
+}
+
+// ============================================================================
+// RECORDING
+// ============================================================================
+
+function isSameBuilding(a: Building, b: Building): boolean {
+  if (a === b) return true;
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Building>;
+  for (const key of keys) {
+    if (a[key] !== b[key]) return false;
+  }
+  return true;
+}
+
+function isSameTile(a: Tile, b: Tile): boolean {
+  return a === b || (
+    a.zone === b.zone && a.hasSubway === b.hasSubway && !!a.hasWaterPipe === !!b.hasWaterPipe
+    && !!a.hasRailOverlay === !!b.hasRailOverlay && a.waterDepth === b.waterDepth && isSameBuilding(a.building, b.building)
+  );
+}
+
+/** Every tile an action changed, comparing the grid before and after it */
+export function diffGrids(before: Tile[][], after: Tile[][]): TileChange[] {
+  const changes: TileChange[] = [];
+  if (before.length !== after.length) return changes;
+  for (let y = 0; y < after.length; y++) {
+    if (before[y] === after[y]) continue;
+    for (let x = 0; x < after[y].length; x++) {
+      if (!isSameTile(before[y][x], after[y][x])) changes.push({ x, y, before: before[y][x], after: after[y][x] });
+    }
+  }
+  return changes;
+}
+
+/** The entry for an action that turned `prev` into `next`, or null if it changed no tiles */
+export function createHistoryEntry(prev: GameState, next: GameState, group: number | null): HistoryEntry | null {
+  const changes = diffGrids(prev.grid, next.grid);
+  if (changes.length === 0) return null;
+  return { changes, cost: prev.stats.money - next.stats.money, group };
+}
+
+/** One entry covering two actions in a row: the first's before and the second's after */
+export function mergeHistoryEntries(earlier: HistoryEntry, later: HistoryEntry): HistoryEntry {
+  const changes = new Map<number, TileChange>();
+  for (const change of earlier.changes) changes.set(change.y * 65536 + change.x, change);
+  for (const change of later.changes) {
+    const key = change.y * 65536 + change.x;
+    const first = changes.get(key);
+    changes.set(key, first ? { ...change, before: first.before } : change);
+  }
+  return { changes: [...changes.values()], cost: earlier.cost + later.cost, group: earlier.group };
+}
+
+/** Whether an entry changed any of the given tiles */
+export function touchesTiles(entry: HistoryEntry, tiles: { x: number; y: number }[]): boolean {
+  return tiles.some(tile => entry.changes.some(change => change.x === tile.x && change.y === tile.y));
+}
+
+// ============================================================================
+// UNDO AND REDO
+// ============================================================================
+
+/** The tiles to write back to undo an entry, or to redo it */
+export function getRestoredTiles(entry: HistoryEntry, direction: 'undo' | 'redo'): RestoredTile[] {
+  return entry.changes.map(change => ({ x: change.x, y: change.y, tile: direction === 'undo' ? change.before : change.after }));
+}
+
+/** Money returned by undoing an entry; negative when redoing it charges again */
+export function getRefund(entry: HistoryEntry, direction: 'undo' | 'redo'): number {
+  return direction === 'undo' ? entry.cost : -entry.cost;
+}
+
+/**
+ * Write tiles back into the grid and settle the money. Returns the state
+ * unchanged if the city can't afford a charge.
+ */
+export function restoreTiles(state: GameState, tiles: RestoredTile[], refund: number): GameState {
+  if (refund < 0 && state.stats.money < -refund) return state;
+  const grid = state.grid.slice();
+  for (const { x, y, tile } of tiles) {
+    if (!grid[y]?.[x]) continue;
+    if (grid[y] === state.grid[y]) grid[y] = grid[y].slice();
+    grid[y][x] = { ...tile, x, y, building: { ...tile.building } };
+  }
+  return { ...state, grid, stats: { ...state.stats, money: state.stats.money + refund } };
+}
@@ -0,0 +1,93 @@
+// Piped water supply for IsoCity
+// Pumping stations draw from lakes and rivers, treatment plants add a little clean
+// well water, and pipes carry it to the buildings along them. Each source has a
+// limited capacity, and a pump takes on whatever pollution sits at its intake.
+
+import { Building, BuildingType } from '@/types/game';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export type WaterSourceType = 'water_pump' | 'water_tower';
+
+export const WATER_SOURCE_TYPES: ReadonlySet<BuildingType> = new Set<BuildingType>(['water_pump', 'water_tower']);
+
+/** Supply in kL/day of a level 1 source under ideal conditions */
+export const WATER_SOURCE_CAPACITY: Record<WaterSourceType, number> = {
+  water_pump: 300,
+  water_tower: 60, // Wells at the treatment plant
+};
+
+/** Tiles on each side of a pipe that can tap into it */
+export const PIPE_SERVICE_RANGE = 1;
+
+/** Piped water above this pollution level makes the buildings drinking it sick */
+export const CONTAMINATED_WATER_THRESHOLD = 25;
+
+// Draw per building: a base amount per level plus what its residents and workers use (kL/day)
+const DEMAND_PER_LEVEL = 1;
+const DEMAND_PER_RESIDENT = 0.3;
+const DEMAND_PER_JOB = 0.2;
+
+// Extra supply per source level
+const SUPPLY_INCREASE_PER_LEVEL = 0.25;
+
+// Water tiles along a pump's edge needed for full output
+const PUMP_FULL_WATER_EDGE = 2;
+
+// Share of the pollution a fully funded treatment plant removes from its network
+const TREATMENT_FILTER = 0.6;
+
+// ============================================================================
+// SOURCES
+// ============================================================================
+
+export interface WaterBalance {
+  /** kL/day the city's connected sources can deliver */
+  supply: number;
+  /** kL/day requested by buildings on a pipe network */
+  demand: number;
+  /** kL/day of demand cut off because a network ran dry */
+  shedDemand: number;
+  /** Tiles (y * size + x) of the buildings that were cut off */
+  shedTiles: Set<number>;
+  /** Tiles (y * size + x) of the buildings receiving contaminated water */
+  contaminatedTiles: Set<number>;
+}
+
+export function isWaterSource(type: BuildingType): type is WaterSourceType {
+  return WATER_SOURCE_TYPES.has(type);
+}
+
+/**
+ * Current supply in kL/day of a source. `waterEdge` is the number of water
+ * tiles bordering a pump; wells at a treatment plant don't need any.
+ */
+export function getSourceOutput(type: WaterSourceType, level: number, waterEdge: number): number {
+  const capacity = WATER_SOURCE_CAPACITY[type] * (1 + (Math.max(1, level) - 1) * SUPPLY_INCREASE_PER_LEVEL);
+  if (type === 'water_pump') return capacity * Math.min(1, waterEdge / PUMP_FULL_WATER_EDGE);
+  return capacity;
+}
+
+/**
+ * Pollution left in a network's water after its treatment plants have filtered it.
+ * Each plant removes its share of what is left, scaled by water funding (0-100).
+ */
+export function getTreatedContamination(contamination: number, treatmentPlants: number, funding: number): number {
+  const filter = TREATMENT_FILTER * (funding / 100);
+  return contamination * Math.pow(1 - filter, treatmentPlants);
+}
+
+export function isContaminated(contamination: number): boolean {
+  return contamination >= CONTAMINATED_WATER_THRESHOLD;
+}
+
+// ============================================================================
+// DEMAND
+// ============================================================================
+
+/** kL/day a building draws from the pipes, from its level and its residents and workers */
+export function getBuildingWaterDemand(building: Building): number {
+  return DEMAND_PER_LEVEL * Math.max(1, building.level) + building.population * DEMAND_PER_RESIDENT + building.jobs * DEMAND_PER_JOB;
+}